@@ -9,7 +9,12 @@ import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import CreateGPT from "./pages/CreateGPT";
 import EditGPT from "./pages/EditGPT";
+import KnowledgeFile from "./pages/KnowledgeFile";
+import RetrievalPlayground from "./pages/RetrievalPlayground";
+import Evaluations from "./pages/Evaluations";
+import Analytics from "./pages/Analytics";
 import Chat from "./pages/Chat";
+import Settings from "./pages/Settings";
 import TestReset from "./pages/TestReset";
 import NotFound from "./pages/NotFound";
 
@@ -85,11 +90,36 @@ const App = () => (
                 <EditGPT />
               </ProtectedRoute>
             } />
+            <Route path="/edit/:id/files/:fileId" element={
+              <ProtectedRoute>
+                <KnowledgeFile />
+              </ProtectedRoute>
+            } />
+            <Route path="/playground/:id" element={
+              <ProtectedRoute>
+                <RetrievalPlayground />
+              </ProtectedRoute>
+            } />
+            <Route path="/evaluations/:id" element={
+              <ProtectedRoute>
+                <Evaluations />
+              </ProtectedRoute>
+            } />
+            <Route path="/analytics/:id" element={
+              <ProtectedRoute>
+                <Analytics />
+              </ProtectedRoute>
+            } />
             <Route path="/chat" element={
               <ProtectedRoute>
                 <Chat />
               </ProtectedRoute>
             } />
+            <Route path="/settings" element={
+              <ProtectedRoute>
+                <Settings />
+              </ProtectedRoute>
+            } />
             <Route path="/test-reset" element={
               <ProtectedRoute>
                 <TestReset />
@@ -0,0 +1,91 @@
+import type { ReactNode } from 'react';
+import { FileText } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { citedSources, formatPages, splitCitations, type Citation } from '@/lib/citations';
+
+interface CitedAnswerProps {
+  content: string;
+  citations: Citation[];
+}
+
+// The passage behind a citation, opened from its marker or source entry
+const SourcePopover = ({ citation, children }: { citation: Citation; children: ReactNode }) => {
+  const pages = formatPages(citation);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-96" align="start">
+        <div className="space-y-2">
+          <div className="flex items-start gap-2">
+            <FileText className="h-4 w-4 mt-0.5 flex-shrink-0 text-primary" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium break-words">{citation.fileName}</p>
+              <p className="text-xs text-muted-foreground">
+                {[
+                  pages,
+                  `Chunk ${citation.chunkIndex + 1}`,
+                  `${citation.similarity}% match`,
+                  citation.rerankScore != null ? `${citation.rerankScore}% rerank` : null,
+                ].filter(Boolean).join(' · ')}
+              </p>
+            </div>
+          </div>
+          <div className="max-h-64 overflow-y-auto">
+            <p className="text-xs text-foreground/80 leading-relaxed whitespace-pre-wrap pr-1">{citation.content}</p>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+/**
+ * Assistant answer with its `[n]` markers rendered as clickable footnotes,
+ * followed by the list of sources it cites
+ */
+export const CitedAnswer = ({ content, citations }: CitedAnswerProps) => {
+  const segments = splitCitations(content, citations);
+  const sources = citedSources(content, citations);
+
+  return (
+    <>
+      <p className="text-sm whitespace-pre-wrap">
+        {segments.map((segment, index) =>
+          segment.kind === 'text' ? (
+            <span key={index}>{segment.text}</span>
+          ) : (
+            <SourcePopover key={index} citation={segment.citation}>
+              <button
+                type="button"
+                className="align-super text-[10px] font-semibold text-primary hover:underline px-0.5"
+                title={segment.citation.fileName}
+              >
+                [{segment.citation.index}]
+              </button>
+            </SourcePopover>
+          )
+        )}
+      </p>
+
+      {sources.length > 0 && (
+        <div className="mt-3 border-t border-border/50 pt-2 space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">Sources</p>
+          {sources.map((citation) => (
+            <SourcePopover key={citation.index} citation={citation}>
+              <button
+                type="button"
+                className="flex w-full items-baseline gap-2 text-left text-xs text-foreground/80 hover:text-primary"
+              >
+                <span className="font-semibold text-primary">[{citation.index}]</span>
+                <span className="truncate">
+                  {[citation.fileName, formatPages(citation)].filter(Boolean).join(', ')}
+                </span>
+              </button>
+            </SourcePopover>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
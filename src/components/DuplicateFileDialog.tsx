@@ -0,0 +1,52 @@
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+
+export type DuplicateChoice = 'skip' | 'replace' | 'version';
+
+export interface DuplicateUpload {
+  file: File;
+  contentHash: string;
+  /** The GPT's file with the same content, or failing that the same name */
+  existing: { id: string; file_name: string; version: number };
+  /** Same content, not just the same name */
+  identical: boolean;
+}
+
+interface DuplicateFileDialogProps {
+  duplicate: DuplicateUpload | null;
+  onResolve: (choice: DuplicateChoice) => void;
+}
+
+export const DuplicateFileDialog = ({ duplicate, onResolve }: DuplicateFileDialogProps) => (
+  <AlertDialog open={!!duplicate} onOpenChange={(open) => !open && onResolve('skip')}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>
+          {duplicate?.identical ? 'This file is already uploaded' : 'A file with this name is already uploaded'}
+        </AlertDialogTitle>
+        <AlertDialogDescription>
+          {duplicate?.identical
+            ? `${duplicate.file.name} has the same content as ${duplicate.existing.file_name}. Uploading it again would show the same passages twice in answers.`
+            : `${duplicate?.file.name} looks like a revised ${duplicate?.existing.file_name}. Passages that did not change keep their embeddings.`}
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel onClick={() => onResolve('skip')}>Skip</AlertDialogCancel>
+        <Button type="button" variant="outline" onClick={() => onResolve('version')}>
+          Keep both as v{(duplicate?.existing.version ?? 1) + 1}
+        </Button>
+        <Button type="button" onClick={() => onResolve('replace')}>
+          Replace
+        </Button>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useReembedJob } from '@/hooks/useReembedJob';
+import { getFunctionError, isApiKeyError } from '@/lib/function-errors';
+import { EMBEDDING_MODELS } from '@/lib/models';
+import { Loader2, RefreshCw } from 'lucide-react';
+
+interface EmbeddingModelFieldProps {
+  customGptId: string;
+  /** The model the GPT searches with now */
+  currentModel: string;
+  /** Called once a re-embed has switched the GPT to its new model */
+  onSwitched?: (model: string) => void;
+}
+
+export const EmbeddingModelField = ({ customGptId, currentModel, onSwitched }: EmbeddingModelFieldProps) => {
+  const { toast } = useToast();
+  const [model, setModel] = useState(currentModel);
+  const [starting, setStarting] = useState(false);
+
+  const { job, refreshJob } = useReembedJob(customGptId, (settled) => {
+    if (settled.status === 'done') {
+      toast({
+        title: "Re-embedding complete",
+        description: `This GPT now searches with ${settled.to_model}.`,
+      });
+      onSwitched?.(settled.to_model);
+    } else {
+      toast({
+        title: "Re-embedding failed",
+        description: `${settled.error || 'Re-embedding failed.'} The GPT still uses ${settled.from_model}.`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const running = job?.status === 'queued' || job?.status === 'embedding';
+  // Offer the current model even if it isn't one of the suggestions
+  const options = EMBEDDING_MODELS.some((option) => option.value === currentModel)
+    ? EMBEDDING_MODELS
+    : [{ value: currentModel, label: currentModel, description: 'Set on the server.' }, ...EMBEDDING_MODELS];
+  const selected = options.find((option) => option.value === model);
+
+  const handleReembed = async () => {
+    setStarting(true);
+    try {
+      const { error } = await supabase.functions.invoke('reembed-knowledge', {
+        body: { customGptId, model },
+      });
+
+      if (error) {
+        const { message, code } = await getFunctionError(error, 'Failed to start re-embedding.');
+        toast({
+          title: isApiKeyError(code) ? "API key required" : "Re-embedding Error",
+          description: message,
+          variant: "destructive",
+        });
+      }
+      refreshJob();
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="embedding-model">Embedding model</Label>
+      <div className="flex items-center gap-2">
+        <Select value={model} onValueChange={setModel} disabled={running || starting}>
+          <SelectTrigger id="embedding-model" className="bg-input border-border">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}{option.value === currentModel ? ' (current)' : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleReembed}
+          disabled={running || starting || model === currentModel}
+        >
+          {running || starting ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4 mr-2" />
+          )}
+          Re-embed
+        </Button>
+      </div>
+      {running ? (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">
+            Re-embedding with {job.to_model}
+            {job.progress_total ? ` (${job.progress_current}/${job.progress_total} chunks)` : ''}.
+            Answers keep using {job.from_model} until it finishes.
+          </p>
+          {job.progress_total ? (
+            <Progress value={(job.progress_current / job.progress_total) * 100} className="h-1.5" />
+          ) : null}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {selected?.description} Switching embeds every file again with the new model; answers keep using the
+          current one until that is done.
+        </p>
+      )}
+    </div>
+  );
+};
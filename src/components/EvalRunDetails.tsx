@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { EvalRun } from '@/hooks/useEvalRuns';
+import { METRICS, formatScore, toRunReport, type CaseChange } from '@/lib/evaluation';
+import { ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+
+type EvalResult = Tables<'eval_results'>;
+
+interface EvalRunDetailsProps {
+  run: EvalRun;
+}
+
+const METRIC_LABELS = Object.fromEntries(METRICS.map((metric) => [metric.name, metric.label]));
+
+const formatSetting = (value: unknown) => (value === null || value === undefined ? 'default' : String(value));
+
+/**
+ * What changed since the previous run of the set, and how each question was
+ * answered and scored
+ */
+export const EvalRunDetails = ({ run }: EvalRunDetailsProps) => {
+  const [results, setResults] = useState<EvalResult[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const report = toRunReport(run.report);
+
+  useEffect(() => {
+    const fetchResults = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('eval_results')
+        .select('*')
+        .eq('eval_run_id', run.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching evaluation results:', error);
+      }
+      setResults(data || []);
+      setLoading(false);
+    };
+
+    fetchResults();
+  }, [run.id, run.status]);
+
+  const renderChanges = (title: string, changes: CaseChange[], className: string) => changes.length > 0 && (
+    <div className="space-y-1">
+      <p className={`text-sm font-medium ${className}`}>{title}</p>
+      {changes.slice(0, 10).map((change, i) => (
+        <p key={i} className="text-sm text-muted-foreground">
+          <span className="text-foreground">{change.question}</span>
+          {' · '}
+          {METRIC_LABELS[change.metric]} {formatScore(change.from)} → {formatScore(change.to)}
+        </p>
+      ))}
+    </div>
+  );
+
+  return (
+    <Card className="bg-card/50 backdrop-blur-glass border-border/50 shadow-card">
+      <CardHeader>
+        <CardTitle className="text-base">Run of {new Date(run.created_at).toLocaleString()}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {run.error && <p className="text-sm text-destructive">{run.error}</p>}
+
+        {report && (
+          report.previousRunId ? (
+            <div className="space-y-3">
+              {report.settingsChanged.length > 0 ? (
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">Settings changed since the previous run</p>
+                  <div className="flex flex-wrap gap-2">
+                    {report.settingsChanged.map((change) => (
+                      <Badge key={change.key} variant="secondary" className="font-normal">
+                        {change.key}: {formatSetting(change.from)} → {formatSetting(change.to)}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Same settings as the previous run.</p>
+              )}
+              {renderChanges('Got worse', report.regressions, 'text-destructive')}
+              {renderChanges('Got better', report.improvements, 'text-primary')}
+              {report.regressions.length === 0 && report.improvements.length === 0 && (
+                <p className="text-sm text-muted-foreground">No question changed by 10 points or more.</p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">First run of this set; later runs are compared with it.</p>
+          )
+        )}
+
+        {loading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : (
+          <div className="space-y-2">
+            {results.map((result) => {
+              const isOpen = expanded === result.id;
+              return (
+                <div key={result.id} className="p-3 bg-muted/30 rounded space-y-2">
+                  <button
+                    type="button"
+                    onClick={() => setExpanded(isOpen ? null : result.id)}
+                    className="w-full flex items-start justify-between gap-4 text-left"
+                  >
+                    <span className="flex items-start gap-2 text-sm font-medium min-w-0">
+                      {isOpen ? <ChevronDown className="h-4 w-4 mt-0.5 flex-shrink-0" /> : <ChevronRight className="h-4 w-4 mt-0.5 flex-shrink-0" />}
+                      <span className="break-words">{result.question}</span>
+                    </span>
+                    <span className="text-xs text-muted-foreground flex-shrink-0">
+                      {result.error
+                        ? <span className="text-destructive">Failed</span>
+                        : `R ${formatScore(result.recall)} · RR ${formatScore(result.reciprocal_rank)} · F ${formatScore(result.faithfulness)} · C ${formatScore(result.correctness)}`}
+                    </span>
+                  </button>
+
+                  {isOpen && (
+                    <div className="pl-6 space-y-2 text-sm">
+                      {result.error && <p className="text-destructive">{result.error}</p>}
+                      {result.answer && <p className="whitespace-pre-wrap text-foreground/90">{result.answer}</p>}
+                      {result.retrieved_files.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Sources: {result.retrieved_files.map((file, i) => `[${i + 1}] ${file}`).join(', ')}
+                        </p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {result.judge === 'lexical' ? 'Scored by word overlap' : result.judge && `Scored by ${result.judge}`}
+                        {result.latency_ms !== null && ` · ${(result.latency_ms / 1000).toFixed(1)} s`}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
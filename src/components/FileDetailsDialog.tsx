@@ -0,0 +1,194 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { parseTags, type FileMetadata } from '@/lib/knowledge-metadata';
+import { Loader2, Plus, X } from 'lucide-react';
+
+interface FileDetailsDialogProps {
+  /** The file to describe; the dialog is open while set */
+  file: ({ id: string; file_name: string } & FileMetadata) | null;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+export const FileDetailsDialog = ({ file, onClose, onSaved }: FileDetailsDialogProps) => {
+  const { toast } = useToast();
+  const [tags, setTags] = useState('');
+  const [documentDate, setDocumentDate] = useState('');
+  const [author, setAuthor] = useState('');
+  const [language, setLanguage] = useState('');
+  const [pairs, setPairs] = useState<Array<{ key: string; value: string }>>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!file) return;
+    setTags(file.tags.join(', '));
+    setDocumentDate(file.document_date ?? '');
+    setAuthor(file.author ?? '');
+    setLanguage(file.language ?? '');
+    setPairs(Object.entries(file.custom_metadata).map(([key, value]) => ({ key, value })));
+  }, [file]);
+
+  const updatePair = (index: number, changes: Partial<{ key: string; value: string }>) => {
+    setPairs((prev) => prev.map((pair, i) => (i === index ? { ...pair, ...changes } : pair)));
+  };
+
+  const handleSave = async () => {
+    if (!file) return;
+
+    setSaving(true);
+    try {
+      // Chunks pick up the new values through a database trigger
+      const { error } = await supabase
+        .from('knowledge_base')
+        .update({
+          tags: parseTags(tags),
+          document_date: documentDate || null,
+          author: author.trim() || null,
+          language: language.trim().toLowerCase() || null,
+          custom_metadata: Object.fromEntries(
+            pairs.filter((pair) => pair.key.trim()).map((pair) => [pair.key.trim(), pair.value.trim()])
+          ),
+        })
+        .eq('id', file.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Details saved",
+        description: `${file.file_name} can now be found by its tags and details in chat.`,
+      });
+      onSaved?.();
+      onClose();
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save file details",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>File details</DialogTitle>
+          <DialogDescription className="truncate">
+            {file?.file_name}. Used to scope questions in chat, e.g. only files tagged "contracts" from 2024.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="file-tags">Tags</Label>
+            <Input
+              id="file-tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="contracts, suppliers"
+              className="bg-input border-border"
+            />
+            <p className="text-xs text-muted-foreground">Separate tags with commas.</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="file-date">Document date</Label>
+              <Input
+                id="file-date"
+                type="date"
+                value={documentDate}
+                onChange={(e) => setDocumentDate(e.target.value)}
+                className="bg-input border-border"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="file-language">Language</Label>
+              <Input
+                id="file-language"
+                value={language}
+                onChange={(e) => setLanguage(e.target.value)}
+                placeholder="en"
+                maxLength={8}
+                className="bg-input border-border"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="file-author">Author</Label>
+            <Input
+              id="file-author"
+              value={author}
+              onChange={(e) => setAuthor(e.target.value)}
+              className="bg-input border-border"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Other details</Label>
+            {pairs.map((pair, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={pair.key}
+                  onChange={(e) => updatePair(index, { key: e.target.value })}
+                  placeholder="Name, e.g. client"
+                  className="bg-input border-border"
+                />
+                <Input
+                  value={pair.value}
+                  onChange={(e) => updatePair(index, { value: e.target.value })}
+                  placeholder="Value"
+                  className="bg-input border-border"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  title="Remove"
+                  onClick={() => setPairs((prev) => prev.filter((_, i) => i !== index))}
+                  className="h-8 w-8 shrink-0"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setPairs((prev) => [...prev, { key: '', value: '' }])}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add detail
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,137 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  GENERATION_PRESETS,
+  type GenerationSettings,
+  type ResponseFormat,
+} from '@/lib/models';
+
+interface GenerationSettingsFieldsProps {
+  value: GenerationSettings;
+  onChange: (value: GenerationSettings) => void;
+  disabled?: boolean;
+}
+
+export const GenerationSettingsFields = ({ value, onChange, disabled }: GenerationSettingsFieldsProps) => {
+  const activePreset = GENERATION_PRESETS.find(
+    (preset) => preset.settings.temperature === value.temperature && preset.settings.top_p === value.top_p
+  );
+
+  const update = (changes: Partial<GenerationSettings>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label>Style</Label>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          {GENERATION_PRESETS.map((preset) => (
+            <Button
+              key={preset.id}
+              type="button"
+              variant={activePreset?.id === preset.id ? 'secondary' : 'outline'}
+              className="h-auto flex-col items-start text-left whitespace-normal py-3"
+              onClick={() => update(preset.settings)}
+              disabled={disabled}
+            >
+              <span className="font-medium">{preset.label}</span>
+              <span className="text-xs text-muted-foreground font-normal">{preset.description}</span>
+            </Button>
+          ))}
+        </div>
+        {!activePreset && (
+          <p className="text-xs text-muted-foreground">Custom sampling settings.</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Temperature</Label>
+            <span className="text-sm text-muted-foreground">
+              {value.temperature === null ? 'Default' : value.temperature.toFixed(2)}
+            </span>
+          </div>
+          <Slider
+            min={0}
+            max={2}
+            step={0.05}
+            value={[value.temperature ?? 1]}
+            onValueChange={([temperature]) => update({ temperature })}
+            disabled={disabled}
+          />
+          <p className="text-xs text-muted-foreground">
+            Lower is more focused, higher is more varied.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Top P</Label>
+            <span className="text-sm text-muted-foreground">
+              {value.top_p === null ? 'Default' : value.top_p.toFixed(2)}
+            </span>
+          </div>
+          <Slider
+            min={0.05}
+            max={1}
+            step={0.05}
+            value={[value.top_p ?? 1]}
+            onValueChange={([top_p]) => update({ top_p })}
+            disabled={disabled}
+          />
+          <p className="text-xs text-muted-foreground">
+            Only sample from the most likely tokens. Usually leave at default.
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <Label htmlFor="max-tokens">Max reply length (tokens)</Label>
+          <Input
+            id="max-tokens"
+            type="number"
+            min={1}
+            max={32000}
+            value={value.max_tokens}
+            onChange={(e) => update({
+              max_tokens: Math.min(32000, Math.max(1, parseInt(e.target.value, 10) || 1)),
+            })}
+            disabled={disabled}
+            className="bg-input border-border"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="response-format">Response format</Label>
+          <Select
+            value={value.response_format}
+            onValueChange={(response_format) => update({ response_format: response_format as ResponseFormat })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="response-format" className="bg-input border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="text">Text</SelectItem>
+              <SelectItem value="json">JSON object</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        GPT-5 and other OpenAI reasoning models ignore temperature and Top P.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  CHUNKING_STRATEGIES,
+  INGESTION_PROFILES,
+  MAX_CHUNK_SIZE,
+  MIN_CHUNK_SIZE,
+  type ChunkingStrategy,
+  type IngestionProfileName,
+  type IngestionSettings,
+} from '@/lib/models';
+
+interface IngestionSettingsFieldsProps {
+  value: IngestionSettings;
+  onChange: (value: IngestionSettings) => void;
+  disabled?: boolean;
+}
+
+export const IngestionSettingsFields = ({ value, onChange, disabled }: IngestionSettingsFieldsProps) => {
+  const profile = INGESTION_PROFILES.find((option) => option.value === value.ingestion_profile);
+  const strategy = CHUNKING_STRATEGIES.find((option) => option.value === value.chunking_strategy);
+  const maxOverlap = Math.floor(value.chunk_size / 2);
+
+  const update = (changes: Partial<IngestionSettings>) => {
+    const next = { ...value, ...changes };
+    // Overlap may be at most half a chunk, so every chunk adds new text
+    onChange({ ...next, chunk_overlap: Math.min(next.chunk_overlap, Math.floor(next.chunk_size / 2)) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label>File processing</Label>
+        <p className="text-xs text-muted-foreground mt-1">
+          How files are cleaned up and split before they are searched. Changes apply to files uploaded
+          afterwards.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="ingestion-profile">Document type</Label>
+        <Select
+          value={value.ingestion_profile}
+          onValueChange={(ingestion_profile) => update({ ingestion_profile: ingestion_profile as IngestionProfileName })}
+          disabled={disabled}
+        >
+          <SelectTrigger id="ingestion-profile" className="bg-input border-border">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {INGESTION_PROFILES.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {profile && <p className="text-xs text-muted-foreground">{profile.description}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="chunking-strategy">Chunking strategy</Label>
+        <Select
+          value={value.chunking_strategy}
+          onValueChange={(chunking_strategy) => update({ chunking_strategy: chunking_strategy as ChunkingStrategy })}
+          disabled={disabled}
+        >
+          <SelectTrigger id="chunking-strategy" className="bg-input border-border">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CHUNKING_STRATEGIES.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {strategy && <p className="text-xs text-muted-foreground">{strategy.description}</p>}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Chunk size (tokens)</Label>
+            <span className="text-sm text-muted-foreground">{value.chunk_size}</span>
+          </div>
+          <Slider
+            min={MIN_CHUNK_SIZE}
+            max={MAX_CHUNK_SIZE}
+            step={50}
+            value={[value.chunk_size]}
+            onValueChange={([chunk_size]) => update({ chunk_size })}
+            disabled={disabled}
+          />
+          <p className="text-xs text-muted-foreground">
+            Smaller chunks match questions more precisely; larger ones carry more context.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Overlap (tokens)</Label>
+            <span className="text-sm text-muted-foreground">{value.chunk_overlap}</span>
+          </div>
+          <Slider
+            min={0}
+            max={maxOverlap}
+            step={10}
+            value={[value.chunk_overlap]}
+            onValueChange={([chunk_overlap]) => update({ chunk_overlap })}
+            disabled={disabled}
+          />
+          <p className="text-xs text-muted-foreground">
+            Text repeated between neighbouring chunks, so a passage cut at a boundary is still found.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <Label htmlFor="distill-enabled">Clean up text first</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            Have a model remove headers, footers, page numbers and other debris from every page before
+            chunking. Pages it would shorten too much keep their original text. One model call per page.
+          </p>
+        </div>
+        <Switch
+          id="distill-enabled"
+          checked={value.distill_enabled}
+          onCheckedChange={(distill_enabled) => update({ distill_enabled })}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { getFunctionError, isApiKeyError } from '@/lib/function-errors';
+import { Eye, EyeOff, Loader2, Pencil } from 'lucide-react';
+
+export interface KnowledgeChunk {
+  id: string;
+  chunk_index: number;
+  content: string;
+  page_start: number | null;
+  page_end: number | null;
+  embedding_model: string;
+  embedding_dim: number | null;
+  excluded: boolean;
+  edited_at: string | null;
+}
+
+/**
+ * Whether a chunk can be found by the GPT's searches: embedded with its
+ * model, not embedded at all, or embedded only with another model (a
+ * re-embed in progress)
+ */
+export type EmbeddingStatus = 'embedded' | 'missing' | 'other_model';
+
+interface KnowledgeChunkCardProps {
+  chunk: KnowledgeChunk;
+  status: EmbeddingStatus;
+  onChange: (chunk: KnowledgeChunk) => void;
+}
+
+const STATUS_LABELS: Record<EmbeddingStatus, string> = {
+  embedded: 'Embedded',
+  missing: 'Not embedded',
+  other_model: 'Other model',
+};
+
+const pageLabel = (chunk: KnowledgeChunk): string | null => {
+  if (chunk.page_start === null) return null;
+  if (chunk.page_end === null || chunk.page_end === chunk.page_start) return `p. ${chunk.page_start}`;
+  return `pp. ${chunk.page_start}–${chunk.page_end}`;
+};
+
+/**
+ * One chunk of a knowledge file, with its text editable in place and a
+ * switch to leave it out of searches
+ */
+export const KnowledgeChunkCard = ({ chunk, status, onChange }: KnowledgeChunkCardProps) => {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(chunk.content);
+  const [saving, setSaving] = useState(false);
+
+  const save = async (changes: { content?: string; excluded?: boolean }) => {
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('edit-chunk', {
+        body: { chunkId: chunk.id, ...changes },
+      });
+
+      if (error) {
+        const { message, code } = await getFunctionError(error, 'Failed to save chunk');
+        toast({
+          title: isApiKeyError(code) ? "API key required" : "Error",
+          description: message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      onChange(data.chunk);
+      setEditing(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = () => {
+    setDraft(chunk.content);
+    setEditing(true);
+  };
+
+  return (
+    <div className={`p-3 rounded-lg bg-muted/30 space-y-2 ${chunk.excluded ? 'opacity-60' : ''}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">#{chunk.chunk_index}</span>
+          <span>{chunk.content.length.toLocaleString()} chars</span>
+          {pageLabel(chunk) && <span>{pageLabel(chunk)}</span>}
+          <Badge
+            variant={status === 'embedded' ? 'secondary' : 'destructive'}
+            className="text-xs"
+            title={status === 'other_model' ? `Embedded with ${chunk.embedding_model}` : undefined}
+          >
+            {STATUS_LABELS[status]}
+          </Badge>
+          {chunk.edited_at && <Badge variant="outline" className="text-xs">Edited</Badge>}
+          {chunk.excluded && <Badge variant="outline" className="text-xs">Excluded</Badge>}
+        </div>
+        {!editing && (
+          <div className="flex items-center">
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              title="Edit text"
+              onClick={startEditing}
+              disabled={saving}
+              className="h-8 w-8"
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              title={chunk.excluded ? 'Include in searches' : 'Exclude from searches'}
+              onClick={() => save({ excluded: !chunk.excluded })}
+              disabled={saving}
+              className="h-8 w-8"
+            >
+              {saving ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : chunk.excluded ? (
+                <Eye className="h-4 w-4" />
+              ) : (
+                <EyeOff className="h-4 w-4" />
+              )}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {editing ? (
+        <div className="space-y-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={8}
+            className="bg-input border-border font-mono text-xs"
+          />
+          <div className="flex items-center justify-end gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => setEditing(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => save({ content: draft })}
+              disabled={saving || !draft.trim() || draft.trim() === chunk.content}
+            >
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save and re-embed
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-foreground whitespace-pre-wrap break-words">{chunk.content}</p>
+      )}
+    </div>
+  );
+};
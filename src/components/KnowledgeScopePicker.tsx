@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { compactFilter, describeFilter, isEmptyFilter, type RetrievalFilter } from '@/lib/knowledge-metadata';
+import { Filter } from 'lucide-react';
+
+interface ScopeFile {
+  id: string;
+  file_name: string;
+  tags: string[];
+}
+
+interface KnowledgeScopePickerProps {
+  customGptId: string;
+  value: RetrievalFilter;
+  onChange: (value: RetrievalFilter) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Limit chat questions to some of a GPT's files: picked ones, ones with a
+ * tag, or ones dated in a range
+ */
+export const KnowledgeScopePicker = ({ customGptId, value, onChange, disabled }: KnowledgeScopePickerProps) => {
+  const [files, setFiles] = useState<ScopeFile[]>([]);
+
+  useEffect(() => {
+    const fetchFiles = async () => {
+      const { data, error } = await supabase
+        .from('knowledge_base')
+        .select('id, file_name, tags')
+        .eq('custom_gpt_id', customGptId)
+        .order('file_name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching knowledge files:', error);
+        return;
+      }
+      setFiles(data || []);
+    };
+
+    fetchFiles();
+  }, [customGptId]);
+
+  const tags = [...new Set(files.flatMap((file) => file.tags))].sort();
+  const active = !isEmptyFilter(value);
+
+  const update = (changes: Partial<RetrievalFilter>) => onChange(compactFilter({ ...value, ...changes }));
+
+  const toggle = (list: string[] | undefined, item: string) =>
+    list?.includes(item) ? list.filter((entry) => entry !== item) : [...(list ?? []), item];
+
+  if (files.length === 0) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant={active ? 'secondary' : 'outline'}
+          disabled={disabled}
+          title="Choose which files to search"
+          className="max-w-[14rem]"
+        >
+          <Filter className="h-4 w-4 mr-2 shrink-0" />
+          <span className="truncate">{describeFilter(value)}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-4">
+        <div>
+          <p className="text-sm font-medium text-foreground">Search only</p>
+          <p className="text-xs text-muted-foreground">Files must match everything you pick.</p>
+        </div>
+
+        {tags.length > 0 && (
+          <div className="space-y-2">
+            <Label>Tags</Label>
+            <div className="flex flex-wrap gap-1">
+              {tags.map((tag) => (
+                <Badge
+                  key={tag}
+                  variant={value.tags?.includes(tag) ? 'default' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => update({ tags: toggle(value.tags, tag) })}
+                >
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Document date</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              value={value.dateFrom ?? ''}
+              onChange={(e) => update({ dateFrom: e.target.value })}
+              aria-label="From"
+              className="bg-input border-border"
+            />
+            <span className="text-xs text-muted-foreground">to</span>
+            <Input
+              type="date"
+              value={value.dateTo ?? ''}
+              onChange={(e) => update({ dateTo: e.target.value })}
+              aria-label="To"
+              className="bg-input border-border"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Files</Label>
+          <div className="max-h-48 overflow-y-auto space-y-2">
+            {files.map((file) => (
+              <label key={file.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={value.fileIds?.includes(file.id) ?? false}
+                  onCheckedChange={() => update({ fileIds: toggle(value.fileIds, file.id) })}
+                />
+                <span className="truncate">{file.file_name}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {active && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange({})} className="w-full">
+            Search all files
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverAnchor, PopoverContent } from '@/components/ui/popover';
+import { useToast } from '@/hooks/use-toast';
+import { ThumbsDown, ThumbsUp } from 'lucide-react';
+
+/** 1 for thumbs up, -1 for thumbs down */
+export type FeedbackRating = 1 | -1;
+
+interface MessageFeedbackProps {
+  messageId: string;
+  rating: FeedbackRating | null;
+  comment: string | null;
+  onChange: (rating: FeedbackRating | null, comment: string | null) => void;
+}
+
+const MAX_COMMENT_LENGTH = 2000;
+
+/**
+ * Thumbs up/down on an assistant reply, with an optional comment on a
+ * thumbs down. Clicking the chosen thumb again clears the rating.
+ */
+export const MessageFeedback = ({ messageId, rating, comment, onChange }: MessageFeedbackProps) => {
+  const { toast } = useToast();
+  const [commentOpen, setCommentOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const save = async (nextRating: FeedbackRating | null, nextComment: string | null) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('set_message_feedback', {
+        p_message_id: messageId,
+        p_rating: nextRating,
+        p_comment: nextComment ?? undefined,
+      });
+      if (error) throw error;
+
+      onChange(nextRating, nextRating === null ? null : nextComment?.trim() || null);
+      return true;
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to save feedback",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const rate = async (next: FeedbackRating) => {
+    if (rating === next) {
+      await save(null, null);
+      return;
+    }
+    const saved = await save(next, null);
+    // Ask what was wrong; the rating already counts if they skip it
+    if (saved && next === -1) {
+      setDraft('');
+      setCommentOpen(true);
+    }
+  };
+
+  const sendComment = async () => {
+    if (await save(-1, draft)) setCommentOpen(false);
+  };
+
+  return (
+    <Popover open={commentOpen} onOpenChange={setCommentOpen}>
+      <PopoverAnchor asChild>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Good answer"
+            disabled={saving}
+            onClick={() => rate(1)}
+            className={`h-7 w-7 ${rating === 1 ? 'text-primary' : 'text-muted-foreground'}`}
+          >
+            <ThumbsUp className={`h-3.5 w-3.5 ${rating === 1 ? 'fill-current' : ''}`} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            title={comment ? `Bad answer: ${comment}` : 'Bad answer'}
+            disabled={saving}
+            onClick={() => rate(-1)}
+            className={`h-7 w-7 ${rating === -1 ? 'text-destructive' : 'text-muted-foreground'}`}
+          >
+            <ThumbsDown className={`h-3.5 w-3.5 ${rating === -1 ? 'fill-current' : ''}`} />
+          </Button>
+        </div>
+      </PopoverAnchor>
+      <PopoverContent align="start" className="w-80 space-y-3">
+        <p className="text-sm font-medium">What was wrong with this answer?</p>
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Optional, e.g. it missed the 2024 policy update"
+          maxLength={MAX_COMMENT_LENGTH}
+          rows={3}
+          className="bg-input border-border"
+        />
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setCommentOpen(false)}>
+            Skip
+          </Button>
+          <Button size="sm" disabled={saving || !draft.trim()} onClick={sendComment}>
+            Send
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
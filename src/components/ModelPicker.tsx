@@ -0,0 +1,96 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { LLM_PROVIDERS, type LLMProviderName } from '@/lib/models';
+
+// Radix Select items can't use an empty value
+const DEFAULT_MODEL_VALUE = '__default__';
+
+export interface ModelSelection {
+  llm_provider: LLMProviderName;
+  llm_model: string | null;
+}
+
+interface ModelPickerProps {
+  value: ModelSelection;
+  onChange: (value: ModelSelection) => void;
+  disabled?: boolean;
+}
+
+export const ModelPicker = ({ value, onChange, disabled }: ModelPickerProps) => {
+  const provider = LLM_PROVIDERS.find((p) => p.value === value.llm_provider) ?? LLM_PROVIDERS[0];
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="llm-provider">Provider</Label>
+        <Select
+          value={provider.value}
+          onValueChange={(next) => onChange({ llm_provider: next as LLMProviderName, llm_model: null })}
+          disabled={disabled}
+        >
+          <SelectTrigger id="llm-provider" className="bg-input border-border">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LLM_PROVIDERS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">{provider.description}</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="llm-model">Model</Label>
+        {provider.models.length > 0 ? (
+          <Select
+            value={value.llm_model ?? DEFAULT_MODEL_VALUE}
+            onValueChange={(next) => onChange({
+              ...value,
+              llm_model: next === DEFAULT_MODEL_VALUE ? null : next,
+            })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="llm-model" className="bg-input border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_MODEL_VALUE}>
+                {provider.value === 'openai' ? 'My default (Settings)' : 'Provider default'}
+              </SelectItem>
+              {provider.models.map((model) => (
+                <SelectItem key={model.value} value={model.value}>
+                  {model.label}
+                </SelectItem>
+              ))}
+              {value.llm_model && !provider.models.some((m) => m.value === value.llm_model) && (
+                <SelectItem value={value.llm_model}>{value.llm_model}</SelectItem>
+              )}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Input
+            id="llm-model"
+            value={value.llm_model ?? ''}
+            onChange={(e) => onChange({ ...value, llm_model: e.target.value.trim() || null })}
+            placeholder="Server default, e.g. llama3.1"
+            disabled={disabled}
+            className="bg-input border-border"
+          />
+        )}
+        <p className="text-xs text-muted-foreground">
+          Used for this GPT's answers. Document embeddings are not affected.
+        </p>
+      </div>
+    </div>
+  );
+};
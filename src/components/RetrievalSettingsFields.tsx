@@ -0,0 +1,79 @@
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import type { RetrievalSettings } from '@/lib/models';
+
+interface RetrievalSettingsFieldsProps {
+  value: RetrievalSettings;
+  onChange: (value: RetrievalSettings) => void;
+  disabled?: boolean;
+}
+
+export const RetrievalSettingsFields = ({ value, onChange, disabled }: RetrievalSettingsFieldsProps) => {
+  const update = (changes: Partial<RetrievalSettings>) => {
+    const next = { ...value, ...changes };
+    // At least one ranking has to count, or search finds nothing
+    if (next.retrieval_vector_weight + next.retrieval_keyword_weight <= 0) return;
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label>Search weighting</Label>
+        <p className="text-xs text-muted-foreground mt-1">
+          Knowledge is searched by meaning and by exact words. Raise keyword weight if answers miss
+          identifiers, part numbers or acronyms; set a weight to 0 to turn that search off.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Semantic</Label>
+            <span className="text-sm text-muted-foreground">{value.retrieval_vector_weight.toFixed(1)}</span>
+          </div>
+          <Slider
+            min={0}
+            max={2}
+            step={0.1}
+            value={[value.retrieval_vector_weight]}
+            onValueChange={([retrieval_vector_weight]) => update({ retrieval_vector_weight })}
+            disabled={disabled}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Keyword</Label>
+            <span className="text-sm text-muted-foreground">{value.retrieval_keyword_weight.toFixed(1)}</span>
+          </div>
+          <Slider
+            min={0}
+            max={2}
+            step={0.1}
+            value={[value.retrieval_keyword_weight]}
+            onValueChange={([retrieval_keyword_weight]) => update({ retrieval_keyword_weight })}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <Label htmlFor="rerank-enabled">Rerank results</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            Fetch extra candidates and have a model pick the most relevant. Better answers from large
+            knowledge bases, at the cost of one more model call per answer.
+          </p>
+        </div>
+        <Switch
+          id="rerank-enabled"
+          checked={value.rerank_enabled}
+          onCheckedChange={(rerank_enabled) => update({ rerank_enabled })}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type EvalRun = Tables<'eval_runs'>;
+
+export type EvalRunStatus = 'running' | 'done' | 'failed';
+
+// Older runs are only kept for the record
+const RUN_HISTORY = 20;
+
+/**
+ * Follow the runs of an evaluation set
+ *
+ * Loads the latest runs and keeps them current over Supabase Realtime, the
+ * same way {@link useReembedJob} follows re-embeds.
+ *
+ * @param evalSetId - The set whose runs to follow
+ * @param onSettled - Called when a run reaches `done` or `failed` while subscribed
+ * @returns The runs, newest first, and a manual refresh
+ */
+export function useEvalRuns(evalSetId: string | undefined, onSettled?: (run: EvalRun) => void) {
+  const [runs, setRuns] = useState<EvalRun[]>([]);
+  const onSettledRef = useRef(onSettled);
+  onSettledRef.current = onSettled;
+
+  const refreshRuns = useCallback(async () => {
+    if (!evalSetId) {
+      setRuns([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('eval_runs')
+      .select('*')
+      .eq('eval_set_id', evalSetId)
+      .order('created_at', { ascending: false })
+      .limit(RUN_HISTORY);
+
+    if (error) {
+      console.error('Error fetching evaluation runs:', error);
+      return;
+    }
+    setRuns(data || []);
+  }, [evalSetId]);
+
+  useEffect(() => {
+    if (!evalSetId) return;
+
+    refreshRuns();
+
+    const channel = supabase
+      .channel(`eval-runs-${evalSetId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'eval_runs', filter: `eval_set_id=eq.${evalSetId}` },
+        (payload) => {
+          if (payload.eventType === 'DELETE') return;
+          const next = payload.new as EvalRun;
+
+          setRuns((prev) => {
+            const rest = prev.filter((run) => run.id !== next.id);
+            return [next, ...rest].sort((a, b) => b.created_at.localeCompare(a.created_at)).slice(0, RUN_HISTORY);
+          });
+
+          if (next.status === 'done' || next.status === 'failed') {
+            onSettledRef.current?.(next);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [evalSetId, refreshRuns]);
+
+  return { runs, refreshRuns };
+}
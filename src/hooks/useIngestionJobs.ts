@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type IngestionJob = Tables<'ingestion_jobs'>;
+
+export type IngestionStatus = 'queued' | 'extracting' | 'distilling' | 'embedding' | 'done' | 'failed';
+
+/**
+ * Follow the ingestion jobs of a GPT's knowledge files
+ *
+ * Loads the latest job per file and keeps it current over Supabase
+ * Realtime, so progress shows live and keeps updating after the tab that
+ * started the upload is gone.
+ *
+ * @param customGptId - The GPT whose files to follow
+ * @param onSettled - Called when a job reaches `done` or `failed` while subscribed
+ * @returns Latest job per knowledge_base id, and a manual refresh
+ */
+export function useIngestionJobs(customGptId: string | undefined, onSettled?: (job: IngestionJob) => void) {
+  const [jobs, setJobs] = useState<Record<string, IngestionJob>>({});
+  const onSettledRef = useRef(onSettled);
+  onSettledRef.current = onSettled;
+
+  const refreshJobs = useCallback(async () => {
+    if (!customGptId) return;
+
+    const { data, error } = await supabase
+      .from('ingestion_jobs')
+      .select('*')
+      .eq('custom_gpt_id', customGptId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching ingestion jobs:', error);
+      return;
+    }
+
+    // Later jobs for the same file (retries) replace earlier ones
+    const latest: Record<string, IngestionJob> = {};
+    for (const job of data || []) latest[job.knowledge_base_id] = job;
+    setJobs(latest);
+  }, [customGptId]);
+
+  useEffect(() => {
+    if (!customGptId) return;
+
+    refreshJobs();
+
+    const channel = supabase
+      .channel(`ingestion-jobs-${customGptId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'ingestion_jobs', filter: `custom_gpt_id=eq.${customGptId}` },
+        (payload) => {
+          if (payload.eventType === 'DELETE') return;
+          const job = payload.new as IngestionJob;
+
+          setJobs((prev) => {
+            const current = prev[job.knowledge_base_id];
+            if (current && current.created_at > job.created_at) return prev;
+            return { ...prev, [job.knowledge_base_id]: job };
+          });
+
+          if (job.status === 'done' || job.status === 'failed') {
+            onSettledRef.current?.(job);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [customGptId, refreshJobs]);
+
+  return { jobs, refreshJobs };
+}
@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ReembedJob = Tables<'reembed_jobs'>;
+
+export type ReembedStatus = 'queued' | 'embedding' | 'done' | 'failed';
+
+/**
+ * Follow a GPT's latest re-embed job
+ *
+ * Loads the most recent job and keeps it current over Supabase Realtime, the
+ * same way {@link useIngestionJobs} follows file processing.
+ *
+ * @param customGptId - The GPT whose re-embeds to follow
+ * @param onSettled - Called when a job reaches `done` or `failed` while subscribed
+ * @returns The latest job (null if the GPT was never re-embedded), and a manual refresh
+ */
+export function useReembedJob(customGptId: string | undefined, onSettled?: (job: ReembedJob) => void) {
+  const [job, setJob] = useState<ReembedJob | null>(null);
+  const onSettledRef = useRef(onSettled);
+  onSettledRef.current = onSettled;
+
+  const refreshJob = useCallback(async () => {
+    if (!customGptId) return;
+
+    const { data, error } = await supabase
+      .from('reembed_jobs')
+      .select('*')
+      .eq('custom_gpt_id', customGptId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching re-embed job:', error);
+      return;
+    }
+    setJob(data);
+  }, [customGptId]);
+
+  useEffect(() => {
+    if (!customGptId) return;
+
+    refreshJob();
+
+    const channel = supabase
+      .channel(`reembed-jobs-${customGptId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'reembed_jobs', filter: `custom_gpt_id=eq.${customGptId}` },
+        (payload) => {
+          if (payload.eventType === 'DELETE') return;
+          const next = payload.new as ReembedJob;
+
+          setJob((prev) => (prev && prev.created_at > next.created_at ? prev : next));
+
+          if (next.status === 'done' || next.status === 'failed') {
+            onSettledRef.current?.(next);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [customGptId, refreshJob]);
+
+  return { job, refreshJob };
+}
@@ -17,22 +17,28 @@ export type Database = {
       api_keys: {
         Row: {
           created_at: string
+          encryption_version: number
           id: string
-          openai_api_key: string
+          last_used_at: string | null
+          openai_api_key_encrypted: string
           updated_at: string
           user_id: string
         }
         Insert: {
           created_at?: string
+          encryption_version?: number
           id?: string
-          openai_api_key: string
+          last_used_at?: string | null
+          openai_api_key_encrypted: string
           updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
+          encryption_version?: number
           id?: string
-          openai_api_key?: string
+          last_used_at?: string | null
+          openai_api_key_encrypted?: string
           updated_at?: string
           user_id?: string
         }
@@ -43,6 +49,8 @@ export type Database = {
           created_at: string
           custom_gpt_id: string
           id: string
+          summary: string | null
+          summary_message_count: number
           title: string | null
           updated_at: string
           user_id: string
@@ -51,6 +59,8 @@ export type Database = {
           created_at?: string
           custom_gpt_id: string
           id?: string
+          summary?: string | null
+          summary_message_count?: number
           title?: string | null
           updated_at?: string
           user_id: string
@@ -59,6 +69,8 @@ export type Database = {
           created_at?: string
           custom_gpt_id?: string
           id?: string
+          summary?: string | null
+          summary_message_count?: number
           title?: string | null
           updated_at?: string
           user_id?: string
@@ -75,29 +87,74 @@ export type Database = {
       }
       custom_gpts: {
         Row: {
+          chunk_overlap: number
+          chunk_size: number
+          chunking_strategy: string
           created_at: string
           description: string | null
+          distill_enabled: boolean
+          embedding_model: string
           id: string
+          ingestion_profile: string
           instructions: string
+          llm_model: string | null
+          llm_provider: string
+          max_tokens: number
           name: string
+          rerank_enabled: boolean
+          response_format: string
+          retrieval_keyword_weight: number
+          retrieval_vector_weight: number
+          temperature: number | null
+          top_p: number | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          chunk_overlap?: number
+          chunk_size?: number
+          chunking_strategy?: string
           created_at?: string
           description?: string | null
+          distill_enabled?: boolean
+          embedding_model?: string
           id?: string
+          ingestion_profile?: string
           instructions: string
+          llm_model?: string | null
+          llm_provider?: string
+          max_tokens?: number
           name: string
+          rerank_enabled?: boolean
+          response_format?: string
+          retrieval_keyword_weight?: number
+          retrieval_vector_weight?: number
+          temperature?: number | null
+          top_p?: number | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          chunk_overlap?: number
+          chunk_size?: number
+          chunking_strategy?: string
           created_at?: string
           description?: string | null
+          distill_enabled?: boolean
+          embedding_model?: string
           id?: string
+          ingestion_profile?: string
           instructions?: string
+          llm_model?: string | null
+          llm_provider?: string
+          max_tokens?: number
           name?: string
+          rerank_enabled?: boolean
+          response_format?: string
+          retrieval_keyword_weight?: number
+          retrieval_vector_weight?: number
+          temperature?: number | null
+          top_p?: number | null
           updated_at?: string
           user_id?: string
         }
@@ -107,29 +164,56 @@ export type Database = {
         Row: {
           chunk_index: number
           content: string
+          content_hash: string | null
+          content_tsv: unknown | null
           created_at: string
           custom_gpt_id: string
+          edited_at: string | null
           embedding: string | null
+          embedding_dim: number | null
+          embedding_model: string
+          excluded: boolean
           id: string
           knowledge_base_id: string
+          metadata: Json
+          page_end: number | null
+          page_start: number | null
         }
         Insert: {
           chunk_index: number
           content: string
+          content_hash?: never
+          content_tsv?: never
           created_at?: string
           custom_gpt_id: string
+          edited_at?: string | null
           embedding?: string | null
+          embedding_dim?: number | null
+          embedding_model?: string
+          excluded?: boolean
           id?: string
           knowledge_base_id: string
+          metadata?: Json
+          page_end?: number | null
+          page_start?: number | null
         }
         Update: {
           chunk_index?: number
           content?: string
+          content_hash?: never
+          content_tsv?: never
           created_at?: string
           custom_gpt_id?: string
+          edited_at?: string | null
           embedding?: string | null
+          embedding_dim?: number | null
+          embedding_model?: string
+          excluded?: boolean
           id?: string
           knowledge_base_id?: string
+          metadata?: Json
+          page_end?: number | null
+          page_start?: number | null
         }
         Relationships: [
           {
@@ -148,33 +232,403 @@ export type Database = {
           },
         ]
       }
+      document_pages: {
+        Row: {
+          created_at: string
+          custom_gpt_id: string
+          distill_note: string | null
+          distilled_text: string | null
+          id: string
+          knowledge_base_id: string
+          page: number | null
+          page_index: number
+          raw_text: string
+        }
+        Insert: {
+          created_at?: string
+          custom_gpt_id: string
+          distill_note?: string | null
+          distilled_text?: string | null
+          id?: string
+          knowledge_base_id: string
+          page?: number | null
+          page_index: number
+          raw_text: string
+        }
+        Update: {
+          created_at?: string
+          custom_gpt_id?: string
+          distill_note?: string | null
+          distilled_text?: string | null
+          id?: string
+          knowledge_base_id?: string
+          page?: number | null
+          page_index?: number
+          raw_text?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_pages_custom_gpt_id_fkey"
+            columns: ["custom_gpt_id"]
+            isOneToOne: false
+            referencedRelation: "custom_gpts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_pages_knowledge_base_id_fkey"
+            columns: ["knowledge_base_id"]
+            isOneToOne: false
+            referencedRelation: "knowledge_base"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      eval_cases: {
+        Row: {
+          created_at: string
+          eval_set_id: string
+          expected_answer: string | null
+          expected_files: string[]
+          id: string
+          position: number
+          question: string
+        }
+        Insert: {
+          created_at?: string
+          eval_set_id: string
+          expected_answer?: string | null
+          expected_files?: string[]
+          id?: string
+          position?: number
+          question: string
+        }
+        Update: {
+          created_at?: string
+          eval_set_id?: string
+          expected_answer?: string | null
+          expected_files?: string[]
+          id?: string
+          position?: number
+          question?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "eval_cases_eval_set_id_fkey"
+            columns: ["eval_set_id"]
+            isOneToOne: false
+            referencedRelation: "eval_sets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      eval_results: {
+        Row: {
+          answer: string | null
+          citations: Json
+          correctness: number | null
+          created_at: string
+          error: string | null
+          eval_case_id: string | null
+          eval_run_id: string
+          faithfulness: number | null
+          id: string
+          judge: string | null
+          latency_ms: number | null
+          question: string
+          recall: number | null
+          reciprocal_rank: number | null
+          retrieved_files: string[]
+        }
+        Insert: {
+          answer?: string | null
+          citations?: Json
+          correctness?: number | null
+          created_at?: string
+          error?: string | null
+          eval_case_id?: string | null
+          eval_run_id: string
+          faithfulness?: number | null
+          id?: string
+          judge?: string | null
+          latency_ms?: number | null
+          question: string
+          recall?: number | null
+          reciprocal_rank?: number | null
+          retrieved_files?: string[]
+        }
+        Update: {
+          answer?: string | null
+          citations?: Json
+          correctness?: number | null
+          created_at?: string
+          error?: string | null
+          eval_case_id?: string | null
+          eval_run_id?: string
+          faithfulness?: number | null
+          id?: string
+          judge?: string | null
+          latency_ms?: number | null
+          question?: string
+          recall?: number | null
+          reciprocal_rank?: number | null
+          retrieved_files?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "eval_results_eval_case_id_fkey"
+            columns: ["eval_case_id"]
+            isOneToOne: false
+            referencedRelation: "eval_cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "eval_results_eval_run_id_fkey"
+            columns: ["eval_run_id"]
+            isOneToOne: false
+            referencedRelation: "eval_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      eval_runs: {
+        Row: {
+          case_ids: string[]
+          completed_at: string | null
+          created_at: string
+          custom_gpt_id: string
+          error: string | null
+          eval_set_id: string
+          id: string
+          metrics: Json | null
+          progress_current: number
+          progress_total: number
+          report: Json | null
+          settings: Json
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          case_ids?: string[]
+          completed_at?: string | null
+          created_at?: string
+          custom_gpt_id: string
+          error?: string | null
+          eval_set_id: string
+          id?: string
+          metrics?: Json | null
+          progress_current?: number
+          progress_total?: number
+          report?: Json | null
+          settings?: Json
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          case_ids?: string[]
+          completed_at?: string | null
+          created_at?: string
+          custom_gpt_id?: string
+          error?: string | null
+          eval_set_id?: string
+          id?: string
+          metrics?: Json | null
+          progress_current?: number
+          progress_total?: number
+          report?: Json | null
+          settings?: Json
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "eval_runs_custom_gpt_id_fkey"
+            columns: ["custom_gpt_id"]
+            isOneToOne: false
+            referencedRelation: "custom_gpts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "eval_runs_eval_set_id_fkey"
+            columns: ["eval_set_id"]
+            isOneToOne: false
+            referencedRelation: "eval_sets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      eval_sets: {
+        Row: {
+          created_at: string
+          custom_gpt_id: string
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          custom_gpt_id: string
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          custom_gpt_id?: string
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "eval_sets_custom_gpt_id_fkey"
+            columns: ["custom_gpt_id"]
+            isOneToOne: false
+            referencedRelation: "custom_gpts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ingestion_jobs: {
+        Row: {
+          attempts: number
+          chunking_report: Json | null
+          completed_at: string | null
+          created_at: string
+          custom_gpt_id: string
+          error: string | null
+          error_code: string | null
+          id: string
+          knowledge_base_id: string
+          locked_at: string | null
+          max_attempts: number
+          progress_current: number
+          progress_total: number | null
+          run_after: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          chunking_report?: Json | null
+          completed_at?: string | null
+          created_at?: string
+          custom_gpt_id: string
+          error?: string | null
+          error_code?: string | null
+          id?: string
+          knowledge_base_id: string
+          locked_at?: string | null
+          max_attempts?: number
+          progress_current?: number
+          progress_total?: number | null
+          run_after?: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          chunking_report?: Json | null
+          completed_at?: string | null
+          created_at?: string
+          custom_gpt_id?: string
+          error?: string | null
+          error_code?: string | null
+          id?: string
+          knowledge_base_id?: string
+          locked_at?: string | null
+          max_attempts?: number
+          progress_current?: number
+          progress_total?: number | null
+          run_after?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingestion_jobs_custom_gpt_id_fkey"
+            columns: ["custom_gpt_id"]
+            isOneToOne: false
+            referencedRelation: "custom_gpts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ingestion_jobs_knowledge_base_id_fkey"
+            columns: ["knowledge_base_id"]
+            isOneToOne: false
+            referencedRelation: "knowledge_base"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       knowledge_base: {
         Row: {
+          author: string | null
+          content_hash: string | null
           created_at: string
           custom_gpt_id: string
+          custom_metadata: Json
+          document_date: string | null
+          extracted_metadata: Json
           file_name: string
           file_size: number | null
           id: string
+          language: string | null
+          previous_version_id: string | null
           processed_at: string | null
+          replaces_id: string | null
+          tags: string[]
           upload_path: string | null
+          version: number
         }
         Insert: {
+          author?: string | null
+          content_hash?: string | null
           created_at?: string
           custom_gpt_id: string
+          custom_metadata?: Json
+          document_date?: string | null
+          extracted_metadata?: Json
           file_name: string
           file_size?: number | null
           id?: string
+          language?: string | null
+          previous_version_id?: string | null
           processed_at?: string | null
+          replaces_id?: string | null
+          tags?: string[]
           upload_path?: string | null
+          version?: number
         }
         Update: {
+          author?: string | null
+          content_hash?: string | null
           created_at?: string
           custom_gpt_id?: string
+          custom_metadata?: Json
+          document_date?: string | null
+          extracted_metadata?: Json
           file_name?: string
           file_size?: number | null
           id?: string
+          language?: string | null
+          previous_version_id?: string | null
           processed_at?: string | null
+          replaces_id?: string | null
+          tags?: string[]
           upload_path?: string | null
+          version?: number
         }
         Relationships: [
           {
@@ -184,28 +638,57 @@ export type Database = {
             referencedRelation: "custom_gpts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "knowledge_base_previous_version_id_fkey"
+            columns: ["previous_version_id"]
+            isOneToOne: false
+            referencedRelation: "knowledge_base"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "knowledge_base_replaces_id_fkey"
+            columns: ["replaces_id"]
+            isOneToOne: false
+            referencedRelation: "knowledge_base"
+            referencedColumns: ["id"]
+          },
         ]
       }
       messages: {
         Row: {
+          citations: Json | null
           content: string
           conversation_id: string
           created_at: string
+          feedback_at: string | null
+          feedback_comment: string | null
+          feedback_rating: number | null
           id: string
+          retrieval: Json | null
           role: string
         }
         Insert: {
+          citations?: Json | null
           content: string
           conversation_id: string
           created_at?: string
+          feedback_at?: string | null
+          feedback_comment?: string | null
+          feedback_rating?: number | null
           id?: string
+          retrieval?: Json | null
           role: string
         }
         Update: {
+          citations?: Json | null
           content?: string
           conversation_id?: string
           created_at?: string
+          feedback_at?: string | null
+          feedback_comment?: string | null
+          feedback_rating?: number | null
           id?: string
+          retrieval?: Json | null
           role?: string
         }
         Relationships: [
@@ -221,6 +704,10 @@ export type Database = {
       profiles: {
         Row: {
           created_at: string
+          default_match_count: number | null
+          default_match_threshold: number | null
+          default_model: string | null
+          display_name: string | null
           email: string | null
           id: string
           updated_at: string
@@ -228,6 +715,10 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          default_match_count?: number | null
+          default_match_threshold?: number | null
+          default_model?: string | null
+          display_name?: string | null
           email?: string | null
           id?: string
           updated_at?: string
@@ -235,6 +726,10 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          default_match_count?: number | null
+          default_match_threshold?: number | null
+          default_model?: string | null
+          display_name?: string | null
           email?: string | null
           id?: string
           updated_at?: string
@@ -242,15 +737,176 @@ export type Database = {
         }
         Relationships: []
       }
+      reembed_jobs: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          custom_gpt_id: string
+          error: string | null
+          error_code: string | null
+          from_model: string
+          id: string
+          locked_at: string | null
+          max_attempts: number
+          progress_current: number
+          progress_total: number | null
+          run_after: string
+          status: string
+          to_model: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          custom_gpt_id: string
+          error?: string | null
+          error_code?: string | null
+          from_model: string
+          id?: string
+          locked_at?: string | null
+          max_attempts?: number
+          progress_current?: number
+          progress_total?: number | null
+          run_after?: string
+          status?: string
+          to_model: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          custom_gpt_id?: string
+          error?: string | null
+          error_code?: string | null
+          from_model?: string
+          id?: string
+          locked_at?: string | null
+          max_attempts?: number
+          progress_current?: number
+          progress_total?: number | null
+          run_after?: string
+          status?: string
+          to_model?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reembed_jobs_custom_gpt_id_fkey"
+            columns: ["custom_gpt_id"]
+            isOneToOne: false
+            referencedRelation: "custom_gpts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      append_conversation_turn: {
+        Args: {
+          p_assistant_content: string
+          p_conversation_id: string
+          p_user_content: string
+        }
+        Returns: {
+          assistant_message_id: string
+          user_message_id: string
+        }[]
+      }
+      answer_feedback_daily: {
+        Args: { p_custom_gpt_id: string; p_since: string }
+        Returns: {
+          answers: number
+          day: string
+          no_knowledge: number
+          thumbs_down: number
+          thumbs_up: number
+        }[]
+      }
       binary_quantize: {
         Args: { "": string } | { "": unknown }
         Returns: unknown
       }
+      chunk_matches_filter: {
+        Args: { chunk_metadata: Json; filter: Json; knowledge_base_id: string }
+        Returns: boolean
+      }
+      claim_ingestion_job: {
+        Args: { p_stale_after?: unknown }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          custom_gpt_id: string
+          error: string | null
+          error_code: string | null
+          id: string
+          knowledge_base_id: string
+          locked_at: string | null
+          max_attempts: number
+          progress_current: number
+          progress_total: number | null
+          run_after: string
+          status: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      claim_reembed_job: {
+        Args: { p_stale_after?: unknown }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          custom_gpt_id: string
+          error: string | null
+          error_code: string | null
+          from_model: string
+          id: string
+          locked_at: string | null
+          max_attempts: number
+          progress_current: number
+          progress_total: number | null
+          run_after: string
+          status: string
+          to_model: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      finish_reembed_job: {
+        Args: { p_job_id: string }
+        Returns: number
+      }
+      get_my_api_key: {
+        Args: { p_encryption_key: string }
+        Returns: string
+      }
+      get_user_api_key: {
+        Args: { p_encryption_key: string; p_user_id: string }
+        Returns: string
+      }
+      gpt_answers: {
+        Args: { p_custom_gpt_id: string; p_since: string }
+        Returns: {
+          answer: string
+          created_at: string
+          feedback_comment: string | null
+          feedback_rating: number | null
+          message_id: string
+          question: string
+          searched: boolean
+          source_files: string[]
+        }[]
+      }
       halfvec_avg: {
         Args: { "": number[] }
         Returns: unknown
@@ -283,6 +939,36 @@ export type Database = {
         Args: { "": unknown }
         Returns: unknown
       }
+      hybrid_match_documents: {
+        Args: {
+          custom_gpt_id: string
+          filter?: Json
+          keyword_weight?: number
+          match_count?: number
+          match_threshold?: number
+          query_embedding: string
+          query_text: string
+          rrf_k?: number
+          vector_weight?: number
+        }
+        Returns: {
+          chunk_index: number
+          content: string
+          file_name: string
+          id: string
+          keyword_rank: number | null
+          knowledge_base_id: string
+          page_end: number | null
+          page_start: number | null
+          score: number
+          similarity: number
+          vector_rank: number | null
+        }[]
+      }
+      ingestion_work_pending: {
+        Args: { p_stale_after?: unknown }
+        Returns: boolean
+      }
       ivfflat_bit_support: {
         Args: { "": unknown }
         Returns: unknown
@@ -295,6 +981,10 @@ export type Database = {
         Args: { "": unknown }
         Returns: unknown
       }
+      knowledge_file_metadata: {
+        Args: { file: Database["public"]["Tables"]["knowledge_base"]["Row"] }
+        Returns: Json
+      }
       l2_norm: {
         Args: { "": unknown } | { "": unknown }
         Returns: number
@@ -306,16 +996,52 @@ export type Database = {
       match_documents: {
         Args: {
           custom_gpt_id: string
+          filter?: Json
           match_count?: number
           match_threshold?: number
           query_embedding: string
         }
         Returns: {
+          chunk_index: number
           content: string
+          file_name: string
           id: string
+          knowledge_base_id: string
+          page_end: number | null
+          page_start: number | null
+          similarity: number
+        }[]
+      }
+      nearest_chunks: {
+        Args: {
+          p_custom_gpt_id: string
+          p_filter: Json
+          p_limit: number
+          p_match_threshold: number
+          p_model: string
+          query_embedding: string
+        }
+        Returns: {
+          chunk_id: string
           similarity: number
         }[]
       }
+      pending_reembed_chunks: {
+        Args: { p_custom_gpt_id: string; p_limit?: number; p_model: string }
+        Returns: {
+          chunk_index: number
+          content: string
+          edited_at: string | null
+          excluded: boolean
+          knowledge_base_id: string
+          page_end: number | null
+          page_start: number | null
+        }[]
+      }
+      set_message_feedback: {
+        Args: { p_comment?: string; p_message_id: string; p_rating: number | null }
+        Returns: undefined
+      }
       sparsevec_out: {
         Args: { "": unknown }
         Returns: unknown
@@ -328,6 +1054,23 @@ export type Database = {
         Args: { "": unknown[] }
         Returns: number
       }
+      store_encrypted_api_key: {
+        Args: {
+          p_api_key: string
+          p_encryption_key: string
+          p_user_id: string
+        }
+        Returns: string
+      }
+      unanswered_questions: {
+        Args: { p_custom_gpt_id: string; p_limit?: number; p_since: string }
+        Returns: {
+          last_asked: string
+          question: string
+          thumbs_down: number
+          times_asked: number
+        }[]
+      }
       vector_avg: {
         Args: { "": number[] }
         Returns: string
@@ -352,6 +1095,19 @@ export type Database = {
         Args: { "": unknown[] }
         Returns: number
       }
+      worst_rated_questions: {
+        Args: { p_custom_gpt_id: string; p_limit?: number; p_since: string }
+        Returns: {
+          comments: string[]
+          last_asked: string
+          latest_answer: string
+          latest_message_id: string
+          latest_source_files: string[]
+          question: string
+          thumbs_down: number
+          thumbs_up: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
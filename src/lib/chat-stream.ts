@@ -0,0 +1,156 @@
+/**
+ * Streaming client for the generate-response Edge Function
+ *
+ * `supabase.functions.invoke` buffers the whole response, so streaming
+ * requests go through `fetch` directly and parse the server-sent events.
+ *
+ * @module chat-stream
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { FunctionError } from '@/lib/function-errors';
+import type { Citation } from '@/lib/citations';
+import type { RetrievalFilter } from '@/lib/knowledge-metadata';
+
+export interface StreamMetadata {
+  usedKnowledgeBase: boolean;
+  /** Numbered sources the answer's `[n]` markers refer to */
+  citations: Citation[];
+}
+
+export interface GenerateResponseRequest {
+  message: string;
+  conversationId: string;
+  customGptId: string;
+  /** Search only the files matching this */
+  filter?: RetrievalFilter;
+}
+
+export interface StreamResult {
+  /** Full assistant text, or the partial text if the stream was stopped */
+  content: string;
+  /** True when the caller aborted the stream */
+  aborted: boolean;
+  /** Ids of the persisted messages; only known when the stream completed */
+  userMessageId?: string;
+  assistantMessageId?: string;
+}
+
+export interface StreamHandlers {
+  /** Called once, before any tokens, with the retrieval results */
+  onMetadata?: (metadata: StreamMetadata) => void;
+  /** Called for every content delta */
+  onToken: (token: string) => void;
+}
+
+/**
+ * Stream a chat completion from generate-response
+ *
+ * @param request - Message and conversation context
+ * @param handlers - Callbacks for metadata and token events
+ * @param signal - Abort signal; aborting stops the request and resolves with the text received so far
+ * @returns The assistant text and the ids of the messages the function saved
+ * @throws {FunctionError} If the function returns an error before or during the stream
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const { content } = await streamGenerateResponse(request, {
+ *   onToken: (token) => setDraft((prev) => prev + token),
+ * }, controller.signal);
+ * ```
+ */
+export async function streamGenerateResponse(
+  request: GenerateResponseRequest,
+  handlers: StreamHandlers,
+  signal?: AbortSignal
+): Promise<StreamResult> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  let content = '';
+
+  try {
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-response`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+      },
+      body: JSON.stringify({ ...request, stream: true }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const errorBody = await response.json().catch(() => null);
+      throw new FunctionError(errorBody?.error || `Request failed with status ${response.status}`, errorBody?.code);
+    }
+
+    for await (const { event, data } of readEvents(response.body)) {
+      const payload = JSON.parse(data);
+      switch (event) {
+        case 'metadata':
+          handlers.onMetadata?.(payload);
+          break;
+        case 'token':
+          content += payload.content;
+          handlers.onToken(payload.content);
+          break;
+        case 'done':
+          return {
+            content: payload.content ?? content,
+            aborted: false,
+            userMessageId: payload.userMessageId,
+            assistantMessageId: payload.assistantMessageId,
+          };
+        case 'error':
+          throw new FunctionError(payload.error || 'Failed to generate response', payload.code);
+      }
+    }
+
+    return { content, aborted: false };
+  } catch (error) {
+    if (signal?.aborted) {
+      return { content, aborted: true };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse a server-sent event stream into event name / data pairs
+ */
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<{ event: string; data: string }> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let event = 'message';
+  let dataLines: string[] = [];
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+
+        if (line === '') {
+          if (dataLines.length > 0) {
+            yield { event, data: dataLines.join('\n') };
+          }
+          event = 'message';
+          dataLines = [];
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Citations in assistant answers
+ *
+ * Answers grounded in the knowledge base cite their sources with `[n]`
+ * markers. The numbers refer to the citation list generate-response returns
+ * with the answer (and stores on the message); see
+ * `supabase/functions/_shared/citations.ts`.
+ *
+ * @module citations
+ */
+
+export interface Citation {
+  /** The number the answer cites this source with, starting at 1 */
+  index: number;
+  chunkId: string;
+  knowledgeBaseId: string;
+  fileName: string;
+  chunkIndex: number;
+  pageStart: number | null;
+  pageEnd: number | null;
+  /** Similarity to the query as a percentage, e.g. "82.4" */
+  similarity: string;
+  /** Reranker score as a percentage, or null when the chunk was not reranked */
+  rerankScore: string | null;
+  /** The passage the model was given */
+  content: string;
+}
+
+export type CitedSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'citation'; citation: Citation };
+
+// [1], [2, 3] or [2,3]
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * Page range of a source, e.g. "p. 4" or "pp. 4-5"
+ *
+ * @returns The pages, or null for formats without pages
+ */
+export function formatPages(citation: Citation): string | null {
+  if (citation.pageStart === null) return null;
+  const pageEnd = citation.pageEnd ?? citation.pageStart;
+  return pageEnd > citation.pageStart ? `pp. ${citation.pageStart}-${pageEnd}` : `p. ${citation.pageStart}`;
+}
+
+/**
+ * Location of a source, e.g. "handbook.pdf, p. 4, chunk 12"
+ */
+export function formatSourceLabel(citation: Citation): string {
+  const pages = formatPages(citation);
+  // Chunk indexes are stored from 0
+  return [citation.fileName, pages, `chunk ${citation.chunkIndex + 1}`].filter(Boolean).join(', ');
+}
+
+/**
+ * Split answer text into plain text and resolved citation markers
+ *
+ * Markers whose numbers don't match a source are left as text, so a
+ * bracketed number that isn't a citation is shown unchanged.
+ *
+ * @param content - The answer text
+ * @param citations - Sources the answer was given
+ * @returns Segments in order; `[2, 3]` yields one citation segment per number
+ *
+ * @example
+ * ```typescript
+ * splitCitations('Refunds take 5 days [1].', citations);
+ * // [{ kind: 'text', text: 'Refunds take 5 days ' }, { kind: 'citation', citation }, { kind: 'text', text: '.' }]
+ * ```
+ */
+export function splitCitations(content: string, citations: Citation[]): CitedSegment[] {
+  if (citations.length === 0) return [{ kind: 'text', text: content }];
+
+  const byIndex = new Map(citations.map((citation) => [citation.index, citation]));
+  const segments: CitedSegment[] = [];
+  let last = 0;
+
+  for (const match of content.matchAll(MARKER_PATTERN)) {
+    const cited = match[1].split(',').map((n) => byIndex.get(Number(n.trim())));
+    if (cited.some((citation) => !citation)) continue;
+
+    if (match.index > last) {
+      segments.push({ kind: 'text', text: content.slice(last, match.index) });
+    }
+    for (const citation of cited) {
+      segments.push({ kind: 'citation', citation: citation! });
+    }
+    last = match.index + match[0].length;
+  }
+
+  if (last < content.length) {
+    segments.push({ kind: 'text', text: content.slice(last) });
+  }
+  return segments;
+}
+
+/**
+ * Sources an answer actually cites, in source order
+ */
+export function citedSources(content: string, citations: Citation[]): Citation[] {
+  const cited = new Set<number>();
+  for (const segment of splitCitations(content, citations)) {
+    if (segment.kind === 'citation') cited.add(segment.citation.index);
+  }
+  return citations.filter((citation) => cited.has(citation.index));
+}
+
+/**
+ * Read citations stored on a message row
+ *
+ * @param value - The `messages.citations` column
+ * @returns The citations, or an empty list if none were stored
+ */
+export function parseStoredCitations(value: unknown): Citation[] {
+  return Array.isArray(value) ? (value as Citation[]) : [];
+}
@@ -0,0 +1,81 @@
+/**
+ * RAG evaluation reports
+ *
+ * Mirrors the metrics and run report the run-evaluation Edge Function
+ * stores on `eval_runs`; see `supabase/functions/_shared/eval/metrics.ts`.
+ * Scores are fractions from 0 to 1 and are shown as percentages.
+ *
+ * @module evaluation
+ */
+
+import type { Json } from '@/integrations/supabase/types';
+
+export type MetricName = 'recall' | 'mrr' | 'faithfulness' | 'correctness';
+
+/** Means over a run's cases; null where no case had the score */
+export interface RunMetrics {
+  recall: number | null;
+  mrr: number | null;
+  faithfulness: number | null;
+  correctness: number | null;
+  cases: number;
+  failed: number;
+}
+
+export interface CaseChange {
+  caseId: string | null;
+  question: string;
+  metric: MetricName;
+  from: number;
+  to: number;
+}
+
+/** How a run differs from the previous finished run of the same set */
+export interface RunReport {
+  previousRunId: string | null;
+  deltas: Record<MetricName, number | null>;
+  settingsChanged: Array<{ key: string; from: unknown; to: unknown }>;
+  regressions: CaseChange[];
+  improvements: CaseChange[];
+}
+
+export const METRICS: Array<{ name: MetricName; label: string; description: string }> = [
+  { name: 'recall', label: 'Recall', description: 'Share of the expected files among the sources' },
+  { name: 'mrr', label: 'MRR', description: 'How high the first source from an expected file ranked' },
+  { name: 'faithfulness', label: 'Faithfulness', description: 'How well the sources support the answer' },
+  { name: 'correctness', label: 'Correctness', description: 'Agreement with the expected answer' },
+];
+
+/** Largest evaluation set run-evaluation accepts */
+export const MAX_EVAL_CASES = 50;
+
+/**
+ * A score as a percentage, e.g. "82%", or "–" when there is none
+ */
+export function formatScore(value: number | null | undefined): string {
+  return value == null ? '–' : `${Math.round(value * 100)}%`;
+}
+
+/**
+ * A score change in percentage points, e.g. "+12" or "-3", or null when unknown or zero
+ */
+export function formatDelta(value: number | null | undefined): string | null {
+  if (value == null) return null;
+  const points = Math.round(value * 100);
+  if (points === 0) return null;
+  return points > 0 ? `+${points}` : `${points}`;
+}
+
+/**
+ * Read the `metrics` column of a run, or null before it finishes
+ */
+export function toRunMetrics(value: Json | null): RunMetrics | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as unknown as RunMetrics) : null;
+}
+
+/**
+ * Read the `report` column of a run, or null before it finishes
+ */
+export function toRunReport(value: Json | null): RunReport | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as unknown as RunReport) : null;
+}
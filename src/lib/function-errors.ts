@@ -0,0 +1,69 @@
+/**
+ * Helpers for errors returned by Supabase Edge Functions
+ *
+ * `supabase.functions.invoke` reports non-2xx responses as a generic
+ * FunctionsHttpError; the function's own `{ error, code }` body is only
+ * reachable through the error's `context` response.
+ *
+ * @module function-errors
+ */
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+export interface FunctionErrorDetails {
+  message: string;
+  code?: string;
+}
+
+/**
+ * Error thrown by our own function clients, carrying the function's error code
+ */
+export class FunctionError extends Error {
+  constructor(message: string, public readonly code?: string) {
+    super(message);
+    this.name = 'FunctionError';
+  }
+}
+
+/**
+ * Error codes that mean the user must configure an API key in Settings
+ */
+export const API_KEY_ERROR_CODES = ['API_KEY_MISSING', 'API_KEY_UNREADABLE'];
+
+/**
+ * Extract the message and code a function returned in its error body
+ *
+ * @param error - The error from `supabase.functions.invoke`
+ * @param fallback - Message to use when the body has none
+ * @returns The function's error message and optional code
+ *
+ * @example
+ * ```typescript
+ * const { error } = await supabase.functions.invoke('ingest-file', { body });
+ * if (error) {
+ *   const { message } = await getFunctionError(error, 'Processing failed');
+ *   toast({ title: 'Error', description: message, variant: 'destructive' });
+ * }
+ * ```
+ */
+export async function getFunctionError(error: unknown, fallback: string): Promise<FunctionErrorDetails> {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await error.context.json();
+      if (body?.error) {
+        return { message: body.error, code: body.code };
+      }
+    } catch {
+      // Body was not JSON; fall through to the generic message
+    }
+  }
+
+  return { message: error instanceof Error && error.message ? error.message : fallback };
+}
+
+/**
+ * Whether an error code means the user has no usable API key
+ */
+export function isApiKeyError(code?: string): boolean {
+  return !!code && API_KEY_ERROR_CODES.includes(code);
+}
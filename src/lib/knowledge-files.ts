@@ -0,0 +1,65 @@
+/**
+ * File types accepted as GPT knowledge
+ *
+ * Mirrors `FORMAT_BY_EXTENSION` in the ingest-file Edge Function
+ * (`supabase/functions/_shared/ingest`). Browsers report empty or
+ * inconsistent MIME types for formats like Markdown and CSV, so files are
+ * matched by extension.
+ *
+ * @module knowledge-files
+ */
+
+export interface KnowledgeFileType {
+  extensions: string[];
+  label: string;
+  /** Content type used when uploading to storage */
+  contentType: string;
+}
+
+export const KNOWLEDGE_FILE_TYPES: KnowledgeFileType[] = [
+  { extensions: ['pdf'], label: 'PDF', contentType: 'application/pdf' },
+  {
+    extensions: ['docx'],
+    label: 'Word',
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  },
+  { extensions: ['md', 'markdown'], label: 'Markdown', contentType: 'text/markdown' },
+  { extensions: ['html', 'htm', 'xhtml'], label: 'HTML', contentType: 'text/html' },
+  { extensions: ['txt', 'text'], label: 'Text', contentType: 'text/plain' },
+  { extensions: ['csv'], label: 'CSV', contentType: 'text/csv' },
+  { extensions: ['tsv'], label: 'TSV', contentType: 'text/tab-separated-values' },
+  { extensions: ['epub'], label: 'EPUB', contentType: 'application/epub+zip' },
+];
+
+/** Value for a file input's `accept` attribute */
+export const KNOWLEDGE_FILE_ACCEPT = KNOWLEDGE_FILE_TYPES
+  .flatMap((type) => type.extensions.map((ext) => `.${ext}`))
+  .join(',');
+
+/** Human-readable list for upload hints, e.g. "PDF, Word, Markdown, ..." */
+export const KNOWLEDGE_FILE_LABELS = KNOWLEDGE_FILE_TYPES.map((type) => type.label).join(', ');
+
+/**
+ * Look up a file's knowledge type by its extension
+ *
+ * @param fileName - The file's name
+ * @returns The matching type, or undefined if the file cannot be ingested
+ */
+export function getKnowledgeFileType(fileName: string): KnowledgeFileType | undefined {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return KNOWLEDGE_FILE_TYPES.find((type) => type.extensions.includes(extension));
+}
+
+/**
+ * SHA-256 of a file's contents, hex encoded
+ *
+ * Matches the `content_hash` the ingestion worker records, so an upload can
+ * be checked for duplicates before it is sent.
+ *
+ * @param file - The file picked for upload
+ * @returns 64 hex characters
+ */
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
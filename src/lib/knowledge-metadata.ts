@@ -0,0 +1,97 @@
+/**
+ * Knowledge file metadata and search scopes
+ *
+ * Users describe files with tags, a document date, author, language and
+ * their own key/value pairs, then scope chat questions with a
+ * {@link RetrievalFilter}. Mirrors `RetrievalFilter` in
+ * `supabase/functions/_shared/retrieval/filter.ts`.
+ *
+ * @module knowledge-metadata
+ */
+
+import type { Json } from '@/integrations/supabase/types';
+
+export interface RetrievalFilter {
+  /** Only these files */
+  fileIds?: string[];
+  /** Files with any of these tags */
+  tags?: string[];
+  /** Document date on or after, YYYY-MM-DD */
+  dateFrom?: string;
+  /** Document date on or before, YYYY-MM-DD */
+  dateTo?: string;
+  author?: string;
+  language?: string;
+  /** User-defined pairs the file must all have */
+  metadata?: Record<string, string>;
+}
+
+/** The editable metadata of a knowledge file */
+export interface FileMetadata {
+  tags: string[];
+  /** YYYY-MM-DD */
+  document_date: string | null;
+  author: string | null;
+  /** ISO 639-1 code, e.g. en */
+  language: string | null;
+  custom_metadata: Record<string, string>;
+}
+
+/**
+ * Drop empty lists, blank strings and empty objects from a filter
+ */
+export function compactFilter(filter: RetrievalFilter): RetrievalFilter {
+  return Object.fromEntries(
+    Object.entries(filter).filter(([, value]) => {
+      if (Array.isArray(value)) return value.length > 0;
+      if (value && typeof value === 'object') return Object.keys(value).length > 0;
+      return !!value;
+    })
+  );
+}
+
+/**
+ * Whether a filter searches every file
+ */
+export function isEmptyFilter(filter: RetrievalFilter): boolean {
+  return Object.keys(compactFilter(filter)).length === 0;
+}
+
+/**
+ * Split a comma-separated tag list the way tags are stored: trimmed, lowercase, unique
+ *
+ * @example
+ * ```typescript
+ * parseTags('Contracts, 2024 ,contracts'); // => ['contracts', '2024']
+ * ```
+ */
+export function parseTags(input: string): string[] {
+  return [...new Set(input.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Read `custom_metadata` as string pairs, skipping anything else
+ */
+export function toMetadataRecord(value: Json): Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+}
+
+/**
+ * Short label for a scope, e.g. "2 files · contracts · from 2024-01-01"
+ *
+ * @returns "All files" for an empty filter
+ */
+export function describeFilter(filter: RetrievalFilter): string {
+  const parts: string[] = [];
+  if (filter.fileIds?.length) parts.push(filter.fileIds.length === 1 ? '1 file' : `${filter.fileIds.length} files`);
+  if (filter.tags?.length) parts.push(filter.tags.join(', '));
+  if (filter.dateFrom && filter.dateTo) parts.push(`${filter.dateFrom} – ${filter.dateTo}`);
+  else if (filter.dateFrom) parts.push(`from ${filter.dateFrom}`);
+  else if (filter.dateTo) parts.push(`until ${filter.dateTo}`);
+  if (filter.author) parts.push(`by ${filter.author}`);
+  if (filter.language) parts.push(filter.language);
+  return parts.join(' · ') || 'All files';
+}
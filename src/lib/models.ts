@@ -0,0 +1,234 @@
+/**
+ * Chat model and retrieval defaults shared by the Settings and GPT editors
+ *
+ * The values mirror the fallbacks in the generate-response Edge Function
+ * and the provider registry in `supabase/functions/_shared/llm`.
+ *
+ * @module models
+ */
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'openai-compatible';
+
+export interface ProviderOption {
+  value: LLMProviderName;
+  label: string;
+  description: string;
+  /** Suggested models; the editor also accepts a free-form model name */
+  models: ModelOption[];
+}
+
+export interface ModelOption {
+  value: string;
+  label: string;
+}
+
+export const CHAT_MODELS: ModelOption[] = [
+  { value: 'gpt-5-2025-08-07', label: 'GPT-5' },
+  { value: 'gpt-5-mini-2025-08-07', label: 'GPT-5 mini' },
+  { value: 'gpt-4.1-2025-04-14', label: 'GPT-4.1' },
+  { value: 'gpt-4.1-mini-2025-04-14', label: 'GPT-4.1 mini' },
+  { value: 'gpt-4o', label: 'GPT-4o' },
+];
+
+export const DEFAULT_CHAT_MODEL = 'gpt-5-2025-08-07';
+
+export const LLM_PROVIDERS: ProviderOption[] = [
+  {
+    value: 'openai',
+    label: 'OpenAI',
+    description: 'Billed to the API key in your Settings.',
+    models: CHAT_MODELS,
+  },
+  {
+    value: 'anthropic',
+    label: 'Anthropic',
+    description: 'Uses the Anthropic key configured on the server.',
+    models: [
+      { value: 'claude-sonnet-4-5', label: 'Claude Sonnet 4.5' },
+      { value: 'claude-opus-4-1', label: 'Claude Opus 4.1' },
+      { value: 'claude-haiku-4-5', label: 'Claude Haiku 4.5' },
+    ],
+  },
+  {
+    value: 'openai-compatible',
+    label: 'OpenAI-compatible',
+    description: 'A self-hosted server such as Ollama or vLLM, configured on the server.',
+    models: [],
+  },
+];
+
+export const DEFAULT_LLM_PROVIDER: LLMProviderName = 'openai';
+
+export type ResponseFormat = 'text' | 'json';
+
+export interface GenerationSettings {
+  /** NULL = provider default */
+  temperature: number | null;
+  /** NULL = provider default */
+  top_p: number | null;
+  max_tokens: number;
+  response_format: ResponseFormat;
+}
+
+export interface GenerationPreset {
+  id: string;
+  label: string;
+  description: string;
+  settings: Pick<GenerationSettings, 'temperature' | 'top_p'>;
+}
+
+export const GENERATION_PRESETS: GenerationPreset[] = [
+  {
+    id: 'precise',
+    label: 'Precise',
+    description: 'Consistent, factual answers. Good for support and Q&A.',
+    settings: { temperature: 0.2, top_p: null },
+  },
+  {
+    id: 'balanced',
+    label: 'Balanced',
+    description: 'The provider defaults.',
+    settings: { temperature: null, top_p: null },
+  },
+  {
+    id: 'creative',
+    label: 'Creative',
+    description: 'More varied wording and ideas. Good for brainstorming.',
+    settings: { temperature: 1.1, top_p: 0.95 },
+  },
+];
+
+export const DEFAULT_MAX_TOKENS = 2000;
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  temperature: null,
+  top_p: null,
+  max_tokens: DEFAULT_MAX_TOKENS,
+  response_format: 'text',
+};
+
+export interface RetrievalSettings {
+  /** Weight of semantic (embedding) matches in hybrid search, 0-2 */
+  retrieval_vector_weight: number;
+  /** Weight of keyword (full-text) matches in hybrid search, 0-2 */
+  retrieval_keyword_weight: number;
+  /** Rerank over-fetched candidates before they go into the prompt */
+  rerank_enabled: boolean;
+}
+
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+  retrieval_vector_weight: 1,
+  retrieval_keyword_weight: 1,
+  rerank_enabled: false,
+};
+
+/** Minimum similarity for a chunk to be included (0-1) */
+export const DEFAULT_MATCH_THRESHOLD = 0.3;
+
+/** Maximum number of chunks included in the prompt */
+export const DEFAULT_MATCH_COUNT = 5;
+
+export type IngestionProfileName = 'generic' | 'financial' | 'contract' | 'manual';
+
+export interface IngestionProfileOption {
+  value: IngestionProfileName;
+  label: string;
+  description: string;
+}
+
+export const INGESTION_PROFILES: IngestionProfileOption[] = [
+  {
+    value: 'generic',
+    label: 'General',
+    description: 'Removes page numbers, running headers and footers. Makes no assumptions about the content.',
+  },
+  {
+    value: 'financial',
+    label: 'Financial statements',
+    description: 'Also masks card numbers and records the statement period, fiscal year and currency.',
+  },
+  {
+    value: 'contract',
+    label: 'Contracts',
+    description: 'Also tidies fill-in blanks and records the parties, effective date and governing law.',
+  },
+  {
+    value: 'manual',
+    label: 'Manuals',
+    description: 'Also drops table-of-contents lines and records the product and version.',
+  },
+];
+
+export type ChunkingStrategy = 'token' | 'heading' | 'fixed';
+
+export interface ChunkingStrategyOption {
+  value: ChunkingStrategy;
+  label: string;
+  description: string;
+}
+
+export const CHUNKING_STRATEGIES: ChunkingStrategyOption[] = [
+  {
+    value: 'token',
+    label: 'Paragraphs',
+    description: 'Packs whole paragraphs up to the chunk size. Works for most documents.',
+  },
+  {
+    value: 'heading',
+    label: 'Sections',
+    description: 'Keeps each heading\'s section together and labels chunks with their headings. Best for manuals and policies.',
+  },
+  {
+    value: 'fixed',
+    label: 'Fixed windows',
+    description: 'Equal-sized windows regardless of structure. For transcripts and text without paragraphs.',
+  },
+];
+
+export interface IngestionSettings {
+  /** Cleaning rules and metadata extractors for the GPT's kind of documents */
+  ingestion_profile: IngestionProfileName;
+  chunking_strategy: ChunkingStrategy;
+  /** Target chunk size in estimated tokens, 100-1500 */
+  chunk_size: number;
+  /** Tokens repeated between consecutive chunks, at most half a chunk */
+  chunk_overlap: number;
+  /** Have a utility model clean up extracted text page by page before chunking */
+  distill_enabled: boolean;
+}
+
+export const MIN_CHUNK_SIZE = 100;
+export const MAX_CHUNK_SIZE = 1500;
+
+export const DEFAULT_INGESTION_SETTINGS: IngestionSettings = {
+  ingestion_profile: 'generic',
+  chunking_strategy: 'token',
+  chunk_size: 400,
+  chunk_overlap: 60,
+  distill_enabled: false,
+};
+
+export interface EmbeddingModelOption extends ModelOption {
+  description: string;
+}
+
+/** Suggested embedding models; reembed-knowledge accepts any model the embedding provider serves */
+export const EMBEDDING_MODELS: EmbeddingModelOption[] = [
+  {
+    value: 'text-embedding-3-small',
+    label: 'text-embedding-3-small',
+    description: '1536 dimensions. Fast and cheap; the default.',
+  },
+  {
+    value: 'text-embedding-3-large',
+    label: 'text-embedding-3-large',
+    description: '3072 dimensions. Better matches for subtle or technical questions, at about 6x the cost.',
+  },
+  {
+    value: 'text-embedding-ada-002',
+    label: 'text-embedding-ada-002',
+    description: '1536 dimensions. The previous generation, for comparison.',
+  },
+];
+
+export const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
@@ -7,7 +7,9 @@
  * @module supabase-encryption
  */
 
+import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { getFunctionError } from '@/lib/function-errors';
 
 /**
  * Get encryption key from environment
@@ -271,6 +273,19 @@ export async function deleteApiKey(): Promise<void> {
   }
 }
 
+/**
+ * Metadata about a stored API key
+ */
+export interface ApiKeyMetadata {
+  id: string;
+  created_at: string;
+  /** Changes only when the key is rotated */
+  updated_at: string;
+  /** Set when an Edge Function last spent the key */
+  last_used_at: string | null;
+  encryption_version: number;
+}
+
 /**
  * Get metadata about the stored API key (without decrypting it)
  *
@@ -286,13 +301,7 @@ export async function deleteApiKey(): Promise<void> {
  * }
  * ```
  */
-export async function getApiKeyMetadata(): Promise<{
-  id: string;
-  created_at: string;
-  updated_at: string;
-  last_used_at: string | null;
-  encryption_version: number;
-} | null> {
+export async function getApiKeyMetadata(): Promise<ApiKeyMetadata | null> {
   const { data: { user }, error: authError } = await supabase.auth.getUser();
 
   if (authError || !user) {
@@ -376,6 +385,33 @@ export function maskApiKey(apiKey: string): string {
   return `${start}...${end}`;
 }
 
+/**
+ * Check an API key against OpenAI without storing it
+ *
+ * Runs server-side in the test-api-key Edge Function so the request
+ * originates from the same place the key will be used.
+ *
+ * @param apiKey - Key to test; omit to test the stored key
+ * @returns Whether OpenAI accepted the key, with a human-readable message
+ *
+ * @example
+ * ```typescript
+ * const { valid, message } = await testApiKey('sk-...');
+ * ```
+ */
+export async function testApiKey(apiKey?: string): Promise<{ valid: boolean; message: string }> {
+  const { data, error } = await supabase.functions.invoke('test-api-key', {
+    body: apiKey ? { apiKey } : {},
+  });
+
+  if (error) {
+    const { message } = await getFunctionError(error, 'Failed to test API key');
+    return { valid: false, message };
+  }
+
+  return { valid: !!data?.valid, message: data?.message || '' };
+}
+
 /**
  * React hook for managing encrypted API keys
  *
@@ -384,6 +420,7 @@ export function maskApiKey(apiKey: string): string {
  * function MyComponent() {
  *   const {
  *     apiKey,
+ *     metadata,
  *     isLoading,
  *     error,
  *     saveKey,
@@ -409,12 +446,49 @@ export function maskApiKey(apiKey: string): string {
  * ```
  */
 export function useEncryptedApiKey() {
-  // This would be implemented as a React hook in a separate file
-  // Keeping it here as a stub to show the intended usage
-  throw new Error(
-    'useEncryptedApiKey hook not yet implemented. ' +
-    'Use saveEncryptedApiKey() and getDecryptedApiKey() directly for now.'
-  );
+  const [apiKey, setApiKey] = useState<string | null>(null);
+  const [metadata, setMetadata] = useState<ApiKeyMetadata | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refreshKey = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [key, meta] = await Promise.all([getDecryptedApiKey(), getApiKeyMetadata()]);
+      setApiKey(key);
+      setMetadata(meta);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to load API key'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshKey();
+  }, [refreshKey]);
+
+  const saveKey = useCallback(async (newKey: string) => {
+    await saveEncryptedApiKey(newKey);
+    await refreshKey();
+  }, [refreshKey]);
+
+  const deleteKey = useCallback(async () => {
+    await deleteApiKey();
+    setApiKey(null);
+    setMetadata(null);
+  }, []);
+
+  return {
+    apiKey,
+    metadata,
+    isLoading,
+    error,
+    saveKey,
+    deleteKey,
+    refreshKey,
+  };
 }
 
 // All exports are defined above
@@ -0,0 +1,98 @@
+/**
+ * Word-level text diff
+ *
+ * Shows what distillation changed in a page of extracted text. Uses the
+ * longest common subsequence of the two word lists, which is quadratic, so
+ * very long pages are compared only after trimming the shared start and end.
+ *
+ * @module text-diff
+ */
+
+export type DiffOp = 'same' | 'added' | 'removed';
+
+export interface DiffPart {
+  op: DiffOp;
+  text: string;
+}
+
+// Words (after trimming shared ends) above which both sides are shown whole
+const MAX_DIFF_WORDS = 2_000;
+
+/**
+ * Diff two texts word by word, keeping whitespace with the word before it
+ *
+ * @returns Runs of unchanged, added and removed text; for texts too different
+ * to compare, the whole `before` as removed and the whole `after` as added
+ *
+ * @example
+ * ```typescript
+ * diffWords('Page 3 of 10\nThe term is', 'The term is');
+ * // => [{ op: 'removed', text: 'Page 3 of 10\n' }, { op: 'same', text: 'The term is' }]
+ * ```
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  push(parts, 'same', a.slice(0, start));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  if (midA.length > MAX_DIFF_WORDS || midB.length > MAX_DIFF_WORDS) {
+    push(parts, 'removed', midA);
+    push(parts, 'added', midB);
+  } else {
+    for (const [op, words] of lcsDiff(midA, midB)) push(parts, op, words);
+  }
+
+  push(parts, 'same', a.slice(endA));
+  return parts;
+}
+
+function tokenize(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? [];
+}
+
+function lcsDiff(a: string[], b: string[]): Array<[DiffOp, string[]]> {
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: Array<[DiffOp, string[]]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push(['same', [a[i++]]]);
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      ops.push(['removed', [a[i++]]]);
+    } else {
+      ops.push(['added', [b[j++]]]);
+    }
+  }
+  return ops;
+}
+
+// Append words, merging with the previous part when the op is the same
+function push(parts: DiffPart[], op: DiffOp, words: string[]): void {
+  if (words.length === 0) return;
+  const text = words.join('');
+  const last = parts[parts.length - 1];
+  if (last?.op === op) last.text += text;
+  else parts.push({ op, text });
+}
@@ -0,0 +1,292 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from 'recharts';
+import { BarChart3, SearchX, ThumbsDown } from 'lucide-react';
+
+type Functions = Database['public']['Functions'];
+type DailyFeedback = Functions['answer_feedback_daily']['Returns'][number];
+type WorstRatedQuestion = Functions['worst_rated_questions']['Returns'][number];
+type UnansweredQuestion = Functions['unanswered_questions']['Returns'][number];
+
+interface ChartDay {
+  day: string;
+  thumbsUp: number;
+  thumbsDown: number;
+  /** Share of ratings that were thumbs up, in percent; null on days without ratings */
+  satisfaction: number | null;
+}
+
+const PERIODS = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+];
+
+const chartConfig: ChartConfig = {
+  thumbsUp: { label: 'Thumbs up', color: 'hsl(var(--primary))' },
+  thumbsDown: { label: 'Thumbs down', color: 'hsl(var(--destructive))' },
+  satisfaction: { label: 'Satisfaction %', color: 'hsl(var(--foreground))' },
+};
+
+// One entry per day of the period, so quiet days show as gaps
+const toChartDays = (rows: DailyFeedback[], days: number): ChartDay[] => {
+  const byDay = new Map(rows.map((row) => [row.day, row]));
+  const today = new Date();
+
+  return Array.from({ length: days }, (_, i) => {
+    const date = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - (days - 1 - i)));
+    const day = date.toISOString().slice(0, 10);
+    const row = byDay.get(day);
+    const rated = (row?.thumbs_up ?? 0) + (row?.thumbs_down ?? 0);
+    return {
+      day,
+      thumbsUp: row?.thumbs_up ?? 0,
+      thumbsDown: row?.thumbs_down ?? 0,
+      satisfaction: rated > 0 ? Math.round(((row?.thumbs_up ?? 0) / rated) * 100) : null,
+    };
+  });
+};
+
+const Analytics = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [gptName, setGptName] = useState('');
+  const [days, setDays] = useState(30);
+  const [daily, setDaily] = useState<DailyFeedback[]>([]);
+  const [worstRated, setWorstRated] = useState<WorstRatedQuestion[]>([]);
+  const [unanswered, setUnanswered] = useState<UnansweredQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAnalytics = useCallback(async () => {
+    if (!id || !user) return;
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    try {
+      const [gptResult, dailyResult, worstResult, unansweredResult] = await Promise.all([
+        supabase.from('custom_gpts').select('name').eq('id', id).single(),
+        supabase.rpc('answer_feedback_daily', { p_custom_gpt_id: id, p_since: since }),
+        supabase.rpc('worst_rated_questions', { p_custom_gpt_id: id, p_since: since }),
+        supabase.rpc('unanswered_questions', { p_custom_gpt_id: id, p_since: since }),
+      ]);
+
+      if (gptResult.error) throw gptResult.error;
+      if (dailyResult.error) throw dailyResult.error;
+      if (worstResult.error) throw worstResult.error;
+      if (unansweredResult.error) throw unansweredResult.error;
+
+      setGptName(gptResult.data.name);
+      setDaily(dailyResult.data || []);
+      setWorstRated(worstResult.data || []);
+      setUnanswered(unansweredResult.data || []);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to load analytics",
+        variant: "destructive",
+      });
+      navigate('/');
+    } finally {
+      setLoading(false);
+    }
+  }, [id, user, days, navigate, toast]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="text-center space-y-4">
+          <BarChart3 className="h-12 w-12 text-primary mx-auto animate-pulse" />
+          <p className="text-muted-foreground">Loading analytics...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const answers = daily.reduce((sum, row) => sum + row.answers, 0);
+  const thumbsUp = daily.reduce((sum, row) => sum + row.thumbs_up, 0);
+  const thumbsDown = daily.reduce((sum, row) => sum + row.thumbs_down, 0);
+  const noKnowledge = daily.reduce((sum, row) => sum + row.no_knowledge, 0);
+  const rated = thumbsUp + thumbsDown;
+
+  const stats = [
+    { label: 'Answers', value: answers.toLocaleString() },
+    { label: 'Satisfaction', value: rated > 0 ? `${Math.round((thumbsUp / rated) * 100)}%` : '–', hint: `${rated} rated` },
+    { label: 'Thumbs down', value: thumbsDown.toLocaleString() },
+    {
+      label: 'Nothing found',
+      value: noKnowledge.toLocaleString(),
+      hint: answers > 0 ? `${Math.round((noKnowledge / answers) * 100)}% of answers` : undefined,
+    },
+  ];
+
+  return (
+    <div className="p-8 max-w-6xl mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <h1 className="text-3xl font-bold text-foreground">Analytics</h1>
+          <p className="text-muted-foreground mt-1">
+            How {gptName}'s answers were rated, and which questions its documents could not answer.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-40 bg-input border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIODS.map((period) => (
+                <SelectItem key={period.days} value={String(period.days)}>{period.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => navigate(`/edit/${id}`)}>
+            Back to GPT
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map((stat) => (
+          <Card key={stat.label} className="bg-card/50 backdrop-blur-glass border-border/50 shadow-card">
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">{stat.label}</p>
+              <p className="text-2xl font-bold text-foreground">{stat.value}</p>
+              {stat.hint && <p className="text-xs text-muted-foreground">{stat.hint}</p>}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="bg-card/50 backdrop-blur-glass border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle>Satisfaction over time</CardTitle>
+          <CardDescription>Ratings per day (UTC), and the share of them that were thumbs up.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {rated === 0 ? (
+            <p className="text-sm text-muted-foreground">No answers were rated in this period.</p>
+          ) : (
+            <ChartContainer config={chartConfig} className="h-64 w-full">
+              <ComposedChart data={toChartDays(daily, days)}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="day" tickLine={false} axisLine={false} tickFormatter={(day: string) => day.slice(5)} />
+                <YAxis yAxisId="count" allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <YAxis yAxisId="percent" orientation="right" domain={[0, 100]} tickLine={false} axisLine={false} width={40} unit="%" />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar yAxisId="count" dataKey="thumbsUp" stackId="ratings" fill="var(--color-thumbsUp)" />
+                <Bar yAxisId="count" dataKey="thumbsDown" stackId="ratings" fill="var(--color-thumbsDown)" />
+                <Line
+                  yAxisId="percent"
+                  dataKey="satisfaction"
+                  stroke="var(--color-satisfaction)"
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              </ComposedChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="bg-card/50 backdrop-blur-glass border-border/50 shadow-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ThumbsDown className="h-5 w-5 text-destructive" />
+              Worst-rated questions
+            </CardTitle>
+            <CardDescription>Questions with the most thumbs down, with what users said and the files the answer used.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {worstRated.length === 0 && (
+              <p className="text-sm text-muted-foreground">No thumbs down in this period.</p>
+            )}
+            {worstRated.map((row) => (
+              <div key={row.latest_message_id} className="p-3 bg-muted/30 rounded space-y-2">
+                <div className="flex items-start justify-between gap-4">
+                  <p className="text-sm font-medium break-words">{row.question}</p>
+                  <span className="text-xs text-muted-foreground flex-shrink-0">
+                    {row.thumbs_down} down · {row.thumbs_up} up
+                  </span>
+                </div>
+                {row.comments.slice(0, 3).map((comment, i) => (
+                  <p key={i} className="text-sm text-muted-foreground italic break-words">"{comment}"</p>
+                ))}
+                <p className="text-xs text-foreground/80 line-clamp-3">{row.latest_answer}</p>
+                <div className="flex flex-wrap gap-1">
+                  {row.latest_source_files.length > 0
+                    ? row.latest_source_files.map((file) => (
+                        <Badge key={file} variant="secondary" className="font-normal">{file}</Badge>
+                      ))
+                    : <span className="text-xs text-muted-foreground">Answered without sources</span>}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-card/50 backdrop-blur-glass border-border/50 shadow-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <SearchX className="h-5 w-5 text-muted-foreground" />
+              No knowledge found
+            </CardTitle>
+            <CardDescription>
+              Questions the knowledge search found nothing for, most asked first. Documents that answer them are the
+              ones to add.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {unanswered.length === 0 && (
+              <p className="text-sm text-muted-foreground">Every search in this period found something.</p>
+            )}
+            {unanswered.map((row) => (
+              <div key={row.question} className="flex items-start justify-between gap-4 p-3 bg-muted/30 rounded">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium break-words">{row.question}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Last asked {new Date(row.last_asked).toLocaleDateString()}
+                    {row.thumbs_down > 0 && ` · ${row.thumbs_down} thumbs down`}
+                  </p>
+                </div>
+                <span className="text-sm text-muted-foreground flex-shrink-0">
+                  {row.times_asked}×
+                </span>
+              </div>
+            ))}
+            {unanswered.length > 0 && (
+              <Button variant="outline" size="sm" onClick={() => navigate(`/edit/${id}`)}>
+                Add documents
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Analytics;
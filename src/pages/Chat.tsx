@@ -7,7 +7,14 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
-import { Send, Bot, User, Plus, MessageSquare, ChevronDown } from 'lucide-react';
+import { streamGenerateResponse } from '@/lib/chat-stream';
+import { formatSourceLabel, parseStoredCitations, type Citation } from '@/lib/citations';
+import { CitedAnswer } from '@/components/CitedAnswer';
+import { MessageFeedback, type FeedbackRating } from '@/components/MessageFeedback';
+import { KnowledgeScopePicker } from '@/components/KnowledgeScopePicker';
+import { isEmptyFilter, type RetrievalFilter } from '@/lib/knowledge-metadata';
+import { FunctionError, isApiKeyError } from '@/lib/function-errors';
+import { Send, Bot, User, Plus, MessageSquare, ChevronDown, Square } from 'lucide-react';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import {
   Select,
@@ -22,10 +29,9 @@ interface Message {
   role: 'user' | 'assistant' | 'system';
   content: string;
   created_at: string;
-  retrievedChunks?: Array<{
-    content: string;
-    similarity: string;
-  }>;
+  citations?: Citation[];
+  feedback_rating?: FeedbackRating | null;
+  feedback_comment?: string | null;
 }
 
 interface Conversation {
@@ -41,11 +47,19 @@ interface CustomGPT {
   description: string;
 }
 
+// Placeholder ids stand in for messages the server has not confirmed yet
+const isSavedMessageId = (id: string) => /^[0-9a-f]{8}-[0-9a-f]{4}-/i.test(id);
+
+// How long to wait for a stopped reply to be saved before leaving it unconfirmed
+const SAVED_TURN_POLLS = 5;
+const SAVED_TURN_POLL_MS = 600;
+
 const Chat = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [searchParams, setSearchParams] = useSearchParams();
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   const [selectedGPT, setSelectedGPT] = useState<string>('');
   const [gpts, setGpts] = useState<CustomGPT[]>([]);
@@ -55,6 +69,7 @@ const Chat = () => {
   const [newMessage, setNewMessage] = useState('');
   const [loading, setLoading] = useState(false);
   const [gptLoading, setGptLoading] = useState(true);
+  const [scope, setScope] = useState<RetrievalFilter>({});
 
   useEffect(() => {
     if (user) {
@@ -73,6 +88,8 @@ const Chat = () => {
     if (selectedGPT) {
       fetchConversations();
     }
+    // Files and tags belong to one GPT
+    setScope({});
   }, [selectedGPT]);
 
   useEffect(() => {
@@ -144,7 +161,12 @@ const Chat = () => {
         .order('created_at', { ascending: true });
 
       if (error) throw error;
-      setMessages((data || []) as Message[]);
+      setMessages((data || []).map((row) => ({
+        ...row,
+        role: row.role as Message['role'],
+        citations: parseStoredCitations(row.citations),
+        feedback_rating: row.feedback_rating as FeedbackRating | null,
+      })));
     } catch (error: any) {
       toast({
         title: "Error",
@@ -154,6 +176,28 @@ const Chat = () => {
     }
   };
 
+  // A reply that was stopped is saved by the function after the connection
+  // closes, so its ids never arrive; wait for it to appear, then reload
+  const reloadUnconfirmedTurn = async (conversationId: string, knownIds: Set<string>) => {
+    for (let attempt = 0; attempt < SAVED_TURN_POLLS; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, SAVED_TURN_POLL_MS));
+
+      const { data, error } = await supabase
+        .from('messages')
+        .select('id')
+        .eq('conversation_id', conversationId)
+        .eq('role', 'assistant')
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      if (error) return;
+      if (data.length > 0 && !knownIds.has(data[0].id)) {
+        await fetchMessages();
+        return;
+      }
+    }
+  };
+
   const createNewConversation = async () => {
     if (!selectedGPT || !user) return;
 
@@ -187,6 +231,9 @@ const Chat = () => {
     if (!newMessage.trim() || !selectedConversation || loading) return;
 
     const userMessage = newMessage.trim();
+    const knownIds = new Set(messages.filter((m) => isSavedMessageId(m.id)).map((m) => m.id));
+    // Unique until the saved ids are known, so a second stopped turn gets its own keys
+    const localId = Date.now();
     setNewMessage('');
     setLoading(true);
 
@@ -201,18 +248,7 @@ const Chat = () => {
       setMessages(prev => [...prev, tempUserMessage]);
       scrollToBottom();
 
-      // Save user message to database
-      const { error: userError } = await supabase
-        .from('messages')
-        .insert({
-          conversation_id: selectedConversation,
-          role: 'user',
-          content: userMessage,
-        });
-
-      if (userError) throw userError;
-
-      // Add thinking indicator
+      // Add thinking indicator; replaced by tokens as they stream in
       const thinkingMessage: Message = {
         id: 'thinking',
         role: 'assistant',
@@ -221,64 +257,77 @@ const Chat = () => {
       };
       setMessages(prev => [...prev.filter(m => m.id !== 'temp-user'), tempUserMessage, thinkingMessage]);
 
-      // Get GPT instructions
-      const { data: gptData, error: gptError } = await supabase
-        .from('custom_gpts')
-        .select('instructions')
-        .eq('id', selectedGPT)
-        .single();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
 
-      if (gptError) throw gptError;
-
-      // Call the OpenAI edge function
-      const response = await supabase.functions.invoke('generate-response', {
-        body: {
+      // The function saves both messages itself once the reply is complete
+      let streamedContent = '';
+      const result = await streamGenerateResponse(
+        {
           message: userMessage,
           conversationId: selectedConversation,
           customGptId: selectedGPT,
-          gptInstructions: gptData.instructions,
+          filter: isEmptyFilter(scope) ? undefined : scope,
         },
-      });
+        {
+          onMetadata: ({ citations }) => {
+            setMessages(prev =>
+              prev.map(m => (m.id === 'thinking' ? { ...m, citations } : m))
+            );
+          },
+          onToken: (token) => {
+            streamedContent += token;
+            setMessages(prev =>
+              prev.map(m => (m.id === 'thinking' ? { ...m, content: streamedContent } : m))
+            );
+          },
+        },
+        controller.signal
+      );
 
-      if (response.error) {
-        throw new Error(response.error.message || 'Failed to generate response');
+      // Stopped before the first token: nothing was saved, give the text back
+      if (!result.content.trim()) {
+        setMessages(prev => prev.filter(m => m.id !== 'temp-user' && m.id !== 'thinking'));
+        setNewMessage(userMessage);
+        return;
       }
 
-      const { content: assistantResponse, retrievedChunks = [] } = response.data;
-
-      // Save assistant response to database
-      const { error: assistantError } = await supabase
-        .from('messages')
-        .insert({
-          conversation_id: selectedConversation,
-          role: 'assistant',
-          content: assistantResponse,
-        });
-
-      if (assistantError) throw assistantError;
-
-      // Update the thinking message with real response
       setMessages(prev => 
-        prev.map(m => 
-          m.id === 'thinking' 
-            ? { ...m, content: assistantResponse, id: 'assistant-response', retrievedChunks }
-            : m
-        )
+        prev.map(m => {
+          if (m.id === 'temp-user') {
+            return { ...m, id: result.userMessageId || `unsaved-user-${localId}` };
+          }
+          if (m.id === 'thinking') {
+            return { ...m, content: result.content, id: result.assistantMessageId || `unsaved-assistant-${localId}` };
+          }
+          return m;
+        })
       );
       scrollToBottom();
 
+      if (!result.assistantMessageId) {
+        await reloadUnconfirmedTurn(selectedConversation, knownIds);
+      }
+
     } catch (error: any) {
+      const needsApiKey = error instanceof FunctionError && isApiKeyError(error.code);
       toast({
-        title: "Error",
-        description: "Failed to send message",
+        title: needsApiKey ? "API key required" : "Error",
+        description: error.message || "Failed to send message",
         variant: "destructive",
       });
       setMessages(prev => prev.filter(m => !m.id.startsWith('temp-') && m.id !== 'thinking'));
+      setNewMessage(userMessage);
     } finally {
+      abortControllerRef.current = null;
       setLoading(false);
     }
   };
 
+  const stopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
   if (gptLoading) {
     return (
       <div className="flex items-center justify-center h-screen">
@@ -381,24 +430,31 @@ const Chat = () => {
                           : 'bg-chat-message-assistant text-foreground'
                       }`}
                     >
-                      <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                      {message.role === 'assistant' && message.citations && message.citations.length > 0 ? (
+                        <CitedAnswer content={message.content} citations={message.citations} />
+                      ) : (
+                        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                      )}
                       
                       {/* Retrieved chunks dropdown */}
-                      {message.role === 'assistant' && message.retrievedChunks && message.retrievedChunks.length > 0 && (
+                      {message.role === 'assistant' && message.citations && message.citations.length > 0 && (
                         <Collapsible className="mt-3">
                           <CollapsibleTrigger asChild>
                             <Button variant="ghost" size="sm" className="text-xs p-1 h-auto">
                               <ChevronDown className="h-3 w-3 mr-1" />
-                              View {message.retrievedChunks.length} retrieved vector{message.retrievedChunks.length > 1 ? 's' : ''}
+                              View {message.citations.length} retrieved vector{message.citations.length > 1 ? 's' : ''}
                             </Button>
                           </CollapsibleTrigger>
                           <CollapsibleContent className="mt-2">
                             <div className="space-y-2 border-t border-border/50 pt-2">
-                              {message.retrievedChunks.map((chunk, chunkIndex) => (
-                                <div key={chunkIndex} className="p-2 bg-muted/30 rounded text-xs">
-                                  <div className="flex justify-between items-center mb-1">
-                                    <span className="text-muted-foreground font-medium">Chunk {chunkIndex + 1}</span>
-                                    <span className="text-primary font-medium">{chunk.similarity}% match</span>
+                              {message.citations.map((chunk) => (
+                                <div key={chunk.index} className="p-2 bg-muted/30 rounded text-xs">
+                                  <div className="flex justify-between items-center gap-2 mb-1">
+                                    <span className="text-muted-foreground font-medium truncate">[{chunk.index}] {formatSourceLabel(chunk)}</span>
+                                    <span className="text-primary font-medium flex-shrink-0">
+                                      {chunk.similarity}% match
+                                      {chunk.rerankScore != null && ` · ${chunk.rerankScore}% rerank`}
+                                    </span>
                                   </div>
                                   <p className="text-foreground/80 leading-relaxed">{chunk.content}</p>
                                 </div>
@@ -407,6 +463,20 @@ const Chat = () => {
                           </CollapsibleContent>
                         </Collapsible>
                       )}
+
+                      {/* Only saved replies can be rated */}
+                      {message.role === 'assistant' && isSavedMessageId(message.id) && (
+                        <div className="mt-2 -mb-2 -ml-2">
+                          <MessageFeedback
+                            messageId={message.id}
+                            rating={message.feedback_rating ?? null}
+                            comment={message.feedback_comment ?? null}
+                            onChange={(rating, comment) => setMessages(prev =>
+                              prev.map(m => (m.id === message.id ? { ...m, feedback_rating: rating, feedback_comment: comment } : m))
+                            )}
+                          />
+                        </div>
+                      )}
                     </div>
 
                     {message.role === 'user' && (
@@ -424,6 +494,12 @@ const Chat = () => {
             <div className="border-t border-border p-6">
               <form onSubmit={sendMessage} className="max-w-4xl mx-auto">
                 <div className="flex space-x-4">
+                  <KnowledgeScopePicker
+                    customGptId={selectedGPT}
+                    value={scope}
+                    onChange={setScope}
+                    disabled={loading}
+                  />
                   <Input
                     value={newMessage}
                     onChange={(e) => setNewMessage(e.target.value)}
@@ -431,13 +507,24 @@ const Chat = () => {
                     disabled={loading}
                     className="flex-1 bg-input border-border"
                   />
-                  <Button 
-                    type="submit" 
-                    disabled={loading || !newMessage.trim()}
-                    variant="chat"
-                  >
-                    <Send className="h-4 w-4" />
-                  </Button>
+                  {loading ? (
+                    <Button 
+                      type="button" 
+                      onClick={stopGenerating}
+                      variant="outline"
+                      title="Stop generating"
+                    >
+                      <Square className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button 
+                      type="submit" 
+                      disabled={!newMessage.trim()}
+                      variant="chat"
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
               </form>
             </div>
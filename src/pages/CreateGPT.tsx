@@ -8,7 +8,11 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { Bot, Lightbulb, FileText, Wand2, Upload, X, Loader2 } from 'lucide-react';
+import { ModelPicker, type ModelSelection } from '@/components/ModelPicker';
+import { GenerationSettingsFields } from '@/components/GenerationSettingsFields';
+import { DEFAULT_LLM_PROVIDER, DEFAULT_GENERATION_SETTINGS, type GenerationSettings } from '@/lib/models';
+import { getKnowledgeFileType, KNOWLEDGE_FILE_ACCEPT, KNOWLEDGE_FILE_LABELS } from '@/lib/knowledge-files';
+import { Bot, Lightbulb, FileText, Wand2, Upload, X, Loader2, SlidersHorizontal } from 'lucide-react';
 
 const CreateGPT = () => {
   const { user } = useAuth();
@@ -20,6 +24,11 @@ const CreateGPT = () => {
     description: '',
     instructions: '',
   });
+  const [modelSelection, setModelSelection] = useState<ModelSelection>({
+    llm_provider: DEFAULT_LLM_PROVIDER,
+    llm_model: null,
+  });
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(DEFAULT_GENERATION_SETTINGS);
   const [uploadedFiles, setUploadedFiles] = useState<Array<{id: string, name: string, size: number}>>([]);
   const [loading, setLoading] = useState(false);
   const [uploading, setUploading] = useState(false);
@@ -44,6 +53,9 @@ const CreateGPT = () => {
           name: formData.name,
           description: formData.description,
           instructions: formData.instructions,
+          llm_provider: modelSelection.llm_provider,
+          llm_model: modelSelection.llm_model,
+          ...generationSettings,
         })
         .select()
         .single();
@@ -71,10 +83,10 @@ const CreateGPT = () => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    if (file.type !== 'application/pdf') {
+    if (!getKnowledgeFileType(file.name)) {
       toast({
         title: "Error",
-        description: "Please upload a PDF file only",
+        description: `Unsupported file type. Supported formats: ${KNOWLEDGE_FILE_LABELS}`,
         variant: "destructive",
       });
       return;
@@ -231,6 +243,25 @@ Example interaction style:
           </CardContent>
         </Card>
 
+        {/* Model & Generation */}
+        <Card className="bg-card/50 backdrop-blur-glass border-border/50 shadow-card">
+          <CardHeader>
+            <div className="flex items-center space-x-3">
+              <SlidersHorizontal className="h-6 w-6 text-primary-glow" />
+              <div>
+                <CardTitle>Model & Generation</CardTitle>
+                <CardDescription>
+                  Choose the model and how it writes its answers.
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <ModelPicker value={modelSelection} onChange={setModelSelection} />
+            <GenerationSettingsFields value={generationSettings} onChange={setGenerationSettings} />
+          </CardContent>
+        </Card>
+
         {/* Knowledge Base */}
         <Card className="bg-card/50 backdrop-blur-glass border-border/50 shadow-card">
           <CardHeader>
@@ -239,7 +270,7 @@ Example interaction style:
               <div>
                 <CardTitle>Knowledge Base (Optional)</CardTitle>
                 <CardDescription>
-                  Upload PDF files to enhance your GPT's knowledge. You can also add these later.
+                  Upload documents to enhance your GPT's knowledge. You can also add these later.
                 </CardDescription>
               </div>
             </div>
@@ -251,23 +282,23 @@ Example interaction style:
                 <Upload className="h-8 w-8 text-muted-foreground mx-auto mb-4" />
                 <div className="space-y-2">
                   <p className="text-sm text-foreground">
-                    Upload PDF files to add knowledge to your GPT
+                    Upload documents to add knowledge to your GPT
                   </p>
                   <p className="text-xs text-muted-foreground">
-                    Supported format: PDF (max 10MB) - Optional for now
+                    Supported formats: {KNOWLEDGE_FILE_LABELS} (max 10MB) - Optional for now
                   </p>
                 </div>
                 <div className="mt-4">
                   <input
                     type="file"
-                    accept=".pdf"
+                    accept={KNOWLEDGE_FILE_ACCEPT}
                     onChange={handleFileUpload}
                     disabled={uploading}
                     className="hidden"
-                    id="pdf-upload"
+                    id="knowledge-upload"
                   />
                   <Label
-                    htmlFor="pdf-upload"
+                    htmlFor="knowledge-upload"
                     className="cursor-pointer"
                   >
                     <Button 
@@ -285,7 +316,7 @@ Example interaction style:
                         ) : (
                           <>
                             <Upload className="h-4 w-4 mr-2" />
-                            Upload PDF
+                            Upload File
                           </>
                         )}
                       </span>
@@ -247,6 +247,21 @@ const Dashboard = () => {
                             Edit
                           </Link>
                         </DropdownMenuItem>
+                        <DropdownMenuItem asChild>
+                          <Link to={`/playground/${gpt.id}`}>
+                            Test retrieval
+                          </Link>
+                        </DropdownMenuItem>
+                        <DropdownMenuItem asChild>
+                          <Link to={`/evaluations/${gpt.id}`}>
+                            Evaluations
+                          </Link>
+                        </DropdownMenuItem>
+                        <DropdownMenuItem asChild>
+                          <Link to={`/analytics/${gpt.id}`}>
+                            Analytics
+                          </Link>
+                        </DropdownMenuItem>
                         <DropdownMenuItem 
                           onClick={() => handleDeleteGPT(gpt.id)}
                           className="text-destructive"
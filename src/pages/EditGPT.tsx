@@ -2,19 +2,61 @@ import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { Bot, FileText, Upload, X, Loader2 } from 'lucide-react';
+import { getFunctionError, isApiKeyError } from '@/lib/function-errors';
+import { getKnowledgeFileType, hashFile, KNOWLEDGE_FILE_ACCEPT, KNOWLEDGE_FILE_LABELS } from '@/lib/knowledge-files';
+import { useIngestionJobs, type IngestionJob } from '@/hooks/useIngestionJobs';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { ModelPicker, type ModelSelection } from '@/components/ModelPicker';
+import { GenerationSettingsFields } from '@/components/GenerationSettingsFields';
+import { RetrievalSettingsFields } from '@/components/RetrievalSettingsFields';
+import { IngestionSettingsFields } from '@/components/IngestionSettingsFields';
+import { EmbeddingModelField } from '@/components/EmbeddingModelField';
+import { DuplicateFileDialog, type DuplicateChoice, type DuplicateUpload } from '@/components/DuplicateFileDialog';
+import { FileDetailsDialog } from '@/components/FileDetailsDialog';
+import { toMetadataRecord, type FileMetadata } from '@/lib/knowledge-metadata';
+import {
+  DEFAULT_LLM_PROVIDER,
+  DEFAULT_GENERATION_SETTINGS,
+  DEFAULT_RETRIEVAL_SETTINGS,
+  DEFAULT_INGESTION_SETTINGS,
+  type IngestionSettings,
+  type ChunkingStrategy,
+  type IngestionProfileName,
+  type GenerationSettings,
+  type RetrievalSettings,
+  type LLMProviderName,
+  type ResponseFormat,
+} from '@/lib/models';
+import { Bot, FileText, Upload, X, Loader2, SlidersHorizontal, RotateCw, Tag, Layers, FlaskConical, ClipboardCheck, BarChart3 } from 'lucide-react';
 
 interface CustomGPT {
   id: string;
   name: string;
   description: string;
   instructions: string;
+  llm_provider: string;
+  llm_model: string | null;
+  temperature: number | null;
+  top_p: number | null;
+  max_tokens: number;
+  response_format: string;
+  retrieval_vector_weight: number;
+  retrieval_keyword_weight: number;
+  rerank_enabled: boolean;
+  ingestion_profile: string;
+  chunking_strategy: string;
+  chunk_size: number;
+  chunk_overlap: number;
+  distill_enabled: boolean;
+  embedding_model: string;
 }
 
 interface KnowledgeFile {
@@ -24,8 +66,36 @@ interface KnowledgeFile {
   upload_path: string | null;
   created_at: string;
   processed_at: string | null;
+  extracted_metadata: Json;
+  version: number;
+  tags: string[];
+  document_date: string | null;
+  author: string | null;
+  language: string | null;
+  custom_metadata: Json;
 }
 
+/** How an upload relates to a file the GPT already has */
+interface FileVersion {
+  version: number;
+  previous_version_id: string | null;
+  /** Deleted by the ingestion worker once the new file is processed */
+  replaces_id: string | null;
+}
+
+/** Metadata the ingestion profile found, e.g. "Master Services Agreement · ACME Inc.; Foo LLC" */
+const metadataSummary = (metadata: Json): string => {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) return '';
+  return Object.values(metadata).filter((value): value is string => typeof value === 'string').join(' · ');
+};
+
+/** Passages the chunker left out of a finished job, from its chunking report */
+const droppedCount = (job: IngestionJob): number => {
+  const report = job.chunking_report;
+  if (!report || typeof report !== 'object' || Array.isArray(report)) return 0;
+  return Array.isArray(report.dropped) ? report.dropped.length : 0;
+};
+
 const EditGPT = () => {
   const { id } = useParams<{ id: string }>();
   const { user } = useAuth();
@@ -38,10 +108,36 @@ const EditGPT = () => {
     description: '',
     instructions: '',
   });
+  const [modelSelection, setModelSelection] = useState<ModelSelection>({
+    llm_provider: DEFAULT_LLM_PROVIDER,
+    llm_model: null,
+  });
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(DEFAULT_GENERATION_SETTINGS);
+  const [retrievalSettings, setRetrievalSettings] = useState<RetrievalSettings>(DEFAULT_RETRIEVAL_SETTINGS);
+  const [ingestionSettings, setIngestionSettings] = useState<IngestionSettings>(DEFAULT_INGESTION_SETTINGS);
   const [knowledgeFiles, setKnowledgeFiles] = useState<KnowledgeFile[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [duplicate, setDuplicate] = useState<DuplicateUpload | null>(null);
+  const [editingFile, setEditingFile] = useState<({ id: string; file_name: string } & FileMetadata) | null>(null);
+
+  const { jobs, refreshJobs } = useIngestionJobs(id, (job) => {
+    const fileName = knowledgeFiles.find((f) => f.id === job.knowledge_base_id)?.file_name ?? 'File';
+    if (job.status === 'done') {
+      toast({
+        title: "Processing Complete!",
+        description: `${fileName} processed successfully. ${job.progress_total ?? 0} text chunks extracted.`,
+      });
+      fetchKnowledgeFiles();
+    } else {
+      toast({
+        title: isApiKeyError(job.error_code ?? undefined) ? "API key required" : "Processing Error",
+        description: `${fileName}: ${job.error || 'Processing failed.'}`,
+        variant: "destructive",
+      });
+    }
+  });
 
   useEffect(() => {
     if (id && user) {
@@ -68,6 +164,28 @@ const EditGPT = () => {
         description: data.description || '',
         instructions: data.instructions,
       });
+      setModelSelection({
+        llm_provider: data.llm_provider as LLMProviderName,
+        llm_model: data.llm_model,
+      });
+      setGenerationSettings({
+        temperature: data.temperature,
+        top_p: data.top_p,
+        max_tokens: data.max_tokens,
+        response_format: data.response_format as ResponseFormat,
+      });
+      setRetrievalSettings({
+        retrieval_vector_weight: data.retrieval_vector_weight,
+        retrieval_keyword_weight: data.retrieval_keyword_weight,
+        rerank_enabled: data.rerank_enabled,
+      });
+      setIngestionSettings({
+        ingestion_profile: data.ingestion_profile as IngestionProfileName,
+        chunking_strategy: data.chunking_strategy as ChunkingStrategy,
+        chunk_size: data.chunk_size,
+        chunk_overlap: data.chunk_overlap,
+        distill_enabled: data.distill_enabled,
+      });
     } catch (error: any) {
       toast({
         title: "Error",
@@ -86,7 +204,7 @@ const EditGPT = () => {
     try {
       const { data, error } = await supabase
         .from('knowledge_base')
-        .select('id, file_name, file_size, upload_path, created_at, processed_at')
+        .select('id, file_name, file_size, upload_path, created_at, processed_at, extracted_metadata, version, tags, document_date, author, language, custom_metadata')
         .eq('custom_gpt_id', id)
         .order('created_at', { ascending: false });
 
@@ -116,6 +234,11 @@ const EditGPT = () => {
           name: formData.name,
           description: formData.description,
           instructions: formData.instructions,
+          llm_provider: modelSelection.llm_provider,
+          llm_model: modelSelection.llm_model,
+          ...generationSettings,
+          ...retrievalSettings,
+          ...ingestionSettings,
           updated_at: new Date().toISOString(),
         })
         .eq('id', id);
@@ -141,12 +264,15 @@ const EditGPT = () => {
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    // Reset file input so picking the same file again fires another change
+    e.target.value = '';
     if (!file || !id) return;
 
-    if (file.type !== 'application/pdf') {
+    const fileType = getKnowledgeFileType(file.name);
+    if (!fileType) {
       toast({
         title: "Error",
-        description: "Please upload a PDF file only",
+        description: `Unsupported file type. Supported formats: ${KNOWLEDGE_FILE_LABELS}`,
         variant: "destructive",
       });
       return;
@@ -154,56 +280,63 @@ const EditGPT = () => {
 
     setUploading(true);
     try {
-      // Upload file to Supabase Storage
-      const fileExt = 'pdf';
-      const fileName = `${Date.now()}_${file.name}`;
-      const filePath = `knowledge/${id}/${fileName}`;
-
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('documents')
-        .upload(filePath, file, {
-          contentType: 'application/pdf',
-          upsert: true,
-        });
-
-      if (uploadError) {
-        console.error('Storage upload error:', uploadError);
-        throw new Error(`Storage upload failed: ${uploadError.message}`);
-      }
-
-      // Save file record to database
-      const { data: kbRow, error: dbError } = await supabase
-        .from('knowledge_base')
-        .insert({
-          custom_gpt_id: id,
-          file_name: file.name,
-          file_size: file.size,
-          upload_path: filePath,
-        })
-        .select()
-        .single();
-
-      if (dbError) {
-        console.error('DB insert error (knowledge_base):', dbError);
-        throw new Error(`Database insert failed: ${dbError.message}`);
+      const contentHash = await hashFile(file);
+      const existing = await findExistingFile(contentHash, file.name);
+      if (existing) {
+        // Let the user decide before anything is uploaded
+        setDuplicate({ file, contentHash, ...existing });
+        return;
       }
 
+      await uploadFile(file, contentHash);
+    } catch (error: unknown) {
       toast({
-        title: "Success!",
-        description: "PDF uploaded successfully. Processing started...",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upload file",
+        variant: "destructive",
       });
+    } finally {
+      setUploading(false);
+    }
+  };
 
-      // Trigger PDF processing in background
-      processePDFInBackground(kbRow.id, id, filePath, file.name);
+  // Same content first; failing that, the same name (likely a revised file)
+  const findExistingFile = async (
+    contentHash: string,
+    fileName: string
+  ): Promise<Pick<DuplicateUpload, 'existing' | 'identical'> | null> => {
+    for (const [column, value] of [['content_hash', contentHash], ['file_name', fileName]] as const) {
+      const { data, error } = await supabase
+        .from('knowledge_base')
+        .select('id, file_name, version')
+        .eq('custom_gpt_id', id!)
+        .eq(column, value)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
 
-      fetchKnowledgeFiles();
-      
-      // Reset file input
-      e.target.value = '';
-    } catch (error: any) {
+      if (error) throw error;
+      if (data) return { existing: data, identical: column === 'content_hash' };
+    }
+    return null;
+  };
+
+  const resolveDuplicate = async (choice: DuplicateChoice) => {
+    const pending = duplicate;
+    setDuplicate(null);
+    if (!pending || choice === 'skip') return;
+
+    setUploading(true);
+    try {
+      await uploadFile(pending.file, pending.contentHash, {
+        version: pending.existing.version + 1,
+        previous_version_id: pending.existing.id,
+        replaces_id: choice === 'replace' ? pending.existing.id : null,
+      });
+    } catch (error: unknown) {
       toast({
         title: "Error",
-        description: error.message || "Failed to upload file",
+        description: error instanceof Error ? error.message : "Failed to upload file",
         variant: "destructive",
       });
     } finally {
@@ -211,44 +344,100 @@ const EditGPT = () => {
     }
   };
 
-  const processePDFInBackground = async (knowledgeBaseId: string, customGptId: string, filePath: string, fileName: string) => {
-    try {
-      console.log('Starting PDF processing...');
-      const { data, error } = await supabase.functions.invoke('process-pdf', {
-        body: {
-          knowledgeBaseId,
-          customGptId,
-          filePath,
-          fileName,
-        },
-      });
+  const uploadFile = async (file: File, contentHash: string, fileVersion?: FileVersion) => {
+    const fileType = getKnowledgeFileType(file.name);
+    if (!id || !fileType) return;
 
-      if (error) {
-        console.error('PDF processing error:', error);
-        toast({
-          title: "Processing Error",
-          description: "Failed to process PDF content. File uploaded but may not be searchable.",
-          variant: "destructive",
-        });
-        return;
-      }
+    // Upload file to Supabase Storage
+    const fileName = `${Date.now()}_${file.name}`;
+    const filePath = `knowledge/${id}/${fileName}`;
 
-      console.log('PDF processing completed:', data);
-      toast({
-        title: "Processing Complete!",
-        description: `PDF processed successfully. ${data.chunksProcessed} text chunks extracted.`,
+    const { error: uploadError } = await supabase.storage
+      .from('documents')
+      .upload(filePath, file, {
+        contentType: fileType.contentType,
+        upsert: true,
       });
 
-      // Refresh the file list to show updated status
-      fetchKnowledgeFiles();
-    } catch (error: any) {
-      console.error('Background processing error:', error);
+    if (uploadError) {
+      console.error('Storage upload error:', uploadError);
+      throw new Error(`Storage upload failed: ${uploadError.message}`);
+    }
+
+    // Save file record to database
+    const { data: kbRow, error: dbError } = await supabase
+      .from('knowledge_base')
+      .insert({
+        custom_gpt_id: id,
+        file_name: file.name,
+        file_size: file.size,
+        upload_path: filePath,
+        content_hash: contentHash,
+        ...fileVersion,
+      })
+      .select()
+      .single();
+
+    if (dbError) {
+      console.error('DB insert error (knowledge_base):', dbError);
+      throw new Error(`Database insert failed: ${dbError.message}`);
+    }
+
+    toast({
+      title: "Success!",
+      description: fileVersion?.replaces_id
+        ? "File uploaded. It replaces the earlier file once processing finishes."
+        : "File uploaded successfully. Processing continues even if you leave this page.",
+    });
+
+    // Queue server-side processing; progress arrives over Realtime
+    queueFileProcessing(kbRow.id, id, filePath, file.name);
+
+    fetchKnowledgeFiles();
+  };
+
+  const queueFileProcessing = async (knowledgeBaseId: string, customGptId: string, filePath: string, fileName: string) => {
+    const { error } = await supabase.functions.invoke('ingest-file', {
+      body: {
+        knowledgeBaseId,
+        customGptId,
+        filePath,
+        fileName,
+      },
+    });
+
+    if (error) {
+      console.error('Failed to queue file processing:', error);
+      const { message, code } = await getFunctionError(error, 'Failed to start processing.');
       toast({
-        title: "Processing Error",
-        description: "Failed to process PDF in background.",
+        title: isApiKeyError(code) ? "API key required" : "Processing Error",
+        description: `${message} File uploaded but may not be searchable.`,
         variant: "destructive",
       });
     }
+
+    refreshJobs();
+  };
+
+  const renderFileStatus = (file: KnowledgeFile, job: IngestionJob | undefined) => {
+    if (!job || job.status === 'done') {
+      if (!file.processed_at) return ' Not processed';
+      const dropped = droppedCount(job);
+      return dropped ? ` Processed, ${dropped} ${dropped === 1 ? 'passage' : 'passages'} skipped` : ' Processed';
+    }
+
+    switch (job.status) {
+      case 'queued':
+        return job.attempts > 0 ? ' Retrying soon...' : ' Queued...';
+      case 'extracting':
+        return ' Extracting text...';
+      case 'distilling':
+        return ` Cleaning up page ${job.progress_current}/${job.progress_total ?? '?'}...`;
+      case 'embedding':
+        return ` Embedding ${job.progress_current}/${job.progress_total ?? '?'} chunks...`;
+      default:
+        return ` Failed: ${job.error || 'Unknown error'}`;
+    }
   };
 
   const handleDeleteFile = async (fileId: string, filePath: string) => {
@@ -393,6 +582,25 @@ const EditGPT = () => {
           </CardContent>
         </Card>
 
+        {/* Model & Generation */}
+        <Card className="bg-card/50 backdrop-blur-glass border-border/50 shadow-card">
+          <CardHeader>
+            <div className="flex items-center space-x-3">
+              <SlidersHorizontal className="h-6 w-6 text-primary-glow" />
+              <div>
+                <CardTitle>Model & Generation</CardTitle>
+                <CardDescription>
+                  Choose the model and how it writes its answers.
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <ModelPicker value={modelSelection} onChange={setModelSelection} />
+            <GenerationSettingsFields value={generationSettings} onChange={setGenerationSettings} />
+          </CardContent>
+        </Card>
+
         {/* Knowledge Base */}
         <Card className="bg-card/50 backdrop-blur-glass border-border/50 shadow-card">
           <CardHeader>
@@ -401,7 +609,7 @@ const EditGPT = () => {
               <div>
                 <CardTitle>Knowledge Base</CardTitle>
                 <CardDescription>
-                  Upload PDF files to enhance your GPT's knowledge.
+                  Upload documents to enhance your GPT's knowledge.
                 </CardDescription>
               </div>
             </div>
@@ -413,23 +621,23 @@ const EditGPT = () => {
                 <Upload className="h-8 w-8 text-muted-foreground mx-auto mb-4" />
                 <div className="space-y-2">
                   <p className="text-sm text-foreground">
-                    Upload PDF files to add knowledge to your GPT
+                    Upload documents to add knowledge to your GPT
                   </p>
                   <p className="text-xs text-muted-foreground">
-                    Supported format: PDF (max 10MB)
+                    Supported formats: {KNOWLEDGE_FILE_LABELS} (max 10MB)
                   </p>
                 </div>
                 <div className="mt-4">
                   <input
                     type="file"
-                    accept=".pdf"
+                    accept={KNOWLEDGE_FILE_ACCEPT}
                     onChange={handleFileUpload}
                     disabled={uploading}
                     className="hidden"
-                    id="pdf-upload"
+                    id="knowledge-upload"
                   />
                   <Label
-                    htmlFor="pdf-upload"
+                    htmlFor="knowledge-upload"
                     className="cursor-pointer"
                   >
                     <Button 
@@ -447,7 +655,7 @@ const EditGPT = () => {
                         ) : (
                           <>
                             <Upload className="h-4 w-4 mr-2" />
-                            Upload PDF
+                            Upload File
                           </>
                         )}
                       </span>
@@ -462,37 +670,155 @@ const EditGPT = () => {
               <div className="space-y-4">
                 <h4 className="text-sm font-semibold text-foreground">Uploaded Files</h4>
                 <div className="space-y-2">
-                  {knowledgeFiles.map((file) => (
-                    <div
-                      key={file.id}
-                      className="flex items-center justify-between p-3 bg-muted/30 rounded-lg"
-                    >
-                      <div className="flex items-center space-x-3">
-                        <FileText className="h-5 w-5 text-primary" />
-                        <div>
-                          <p className="text-sm font-medium text-foreground">
-                            {file.file_name}
-                          </p>
-                          <p className="text-xs text-muted-foreground">
-                            {formatFileSize(file.file_size)} • 
-                            {file.processed_at ? ' Processed' : ' Processing...'}
-                          </p>
+                  {knowledgeFiles.map((file) => {
+                    const job = jobs[file.id];
+                    const canRetry = file.upload_path && !file.processed_at && (!job || job.status === 'failed');
+                    return (
+                      <div
+                        key={file.id}
+                        className="flex items-center justify-between p-3 bg-muted/30 rounded-lg"
+                      >
+                        <div className="flex items-center space-x-3 min-w-0 flex-1">
+                          <FileText className="h-5 w-5 text-primary shrink-0" />
+                          <div className="min-w-0 flex-1 space-y-1">
+                            <p className="text-sm font-medium text-foreground truncate">
+                              {file.file_name}
+                              {file.version > 1 && (
+                                <span className="ml-2 text-xs font-normal text-muted-foreground">v{file.version}</span>
+                              )}
+                            </p>
+                            <p className={`text-xs ${job?.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                              {formatFileSize(file.file_size)} •
+                              {renderFileStatus(file, job)}
+                            </p>
+                            {metadataSummary(file.extracted_metadata) && (
+                              <p className="text-xs text-muted-foreground truncate">
+                                {metadataSummary(file.extracted_metadata)}
+                              </p>
+                            )}
+                            {(file.tags.length > 0 || file.document_date) && (
+                              <div className="flex flex-wrap items-center gap-1">
+                                {file.tags.map((tag) => (
+                                  <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                                ))}
+                                {file.document_date && (
+                                  <span className="text-xs text-muted-foreground">{file.document_date}</span>
+                                )}
+                              </div>
+                            )}
+                            {(job?.status === 'distilling' || job?.status === 'embedding') && job.progress_total ? (
+                              <Progress value={(job.progress_current / job.progress_total) * 100} className="h-1.5" />
+                            ) : null}
+                          </div>
+                        </div>
+                        <div className="flex items-center">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            title="Edit details"
+                            onClick={() => setEditingFile({
+                              id: file.id,
+                              file_name: file.file_name,
+                              tags: file.tags,
+                              document_date: file.document_date,
+                              author: file.author,
+                              language: file.language,
+                              custom_metadata: toMetadataRecord(file.custom_metadata),
+                            })}
+                            className="h-8 w-8"
+                          >
+                            <Tag className="h-4 w-4" />
+                          </Button>
+                          {file.processed_at && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              title="Inspect chunks"
+                              onClick={() => navigate(`/edit/${id}/files/${file.id}`)}
+                              className="h-8 w-8"
+                            >
+                              <Layers className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {canRetry && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              title="Retry processing"
+                              onClick={() => queueFileProcessing(file.id, id!, file.upload_path!, file.file_name)}
+                              className="h-8 w-8"
+                            >
+                              <RotateCw className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDeleteFile(file.id, file.upload_path || '')}
+                            className="h-8 w-8 text-destructive hover:text-destructive"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
                         </div>
                       </div>
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => handleDeleteFile(file.id, file.upload_path || '')}
-                        className="h-8 w-8 text-destructive hover:text-destructive"
-                      >
-                        <X className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </div>
             )}
+
+            <DuplicateFileDialog duplicate={duplicate} onResolve={resolveDuplicate} />
+            <FileDetailsDialog file={editingFile} onClose={() => setEditingFile(null)} onSaved={fetchKnowledgeFiles} />
+
+            <IngestionSettingsFields value={ingestionSettings} onChange={setIngestionSettings} />
+
+            {gpt && (
+              <EmbeddingModelField
+                key={gpt.embedding_model}
+                customGptId={gpt.id}
+                currentModel={gpt.embedding_model}
+                onSwitched={(embedding_model) => setGpt((prev) => prev && { ...prev, embedding_model })}
+              />
+            )}
+
+            <RetrievalSettingsFields value={retrievalSettings} onChange={setRetrievalSettings} />
+
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              title="Try the saved search settings on your own questions"
+              onClick={() => navigate(`/playground/${id}`)}
+            >
+              <FlaskConical className="h-4 w-4 mr-2" />
+              Test retrieval
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              title="Score answers to golden questions and compare runs"
+              onClick={() => navigate(`/evaluations/${id}`)}
+              className="ml-2"
+            >
+              <ClipboardCheck className="h-4 w-4 mr-2" />
+              Evaluations
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              title="See how answers were rated and which questions found no knowledge"
+              onClick={() => navigate(`/analytics/${id}`)}
+              className="ml-2"
+            >
+              <BarChart3 className="h-4 w-4 mr-2" />
+              Analytics
+            </Button>
           </CardContent>
         </Card>
 
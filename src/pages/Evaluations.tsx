@@ -0,0 +1,501 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { useEvalRuns, type EvalRun } from '@/hooks/useEvalRuns';
+import { EvalRunDetails } from '@/components/EvalRunDetails';
+import { getFunctionError, isApiKeyError } from '@/lib/function-errors';
+import { METRICS, MAX_EVAL_CASES, formatDelta, formatScore, toRunMetrics, toRunReport } from '@/lib/evaluation';
+import { ClipboardCheck, Loader2, Play, Plus, Trash2, X } from 'lucide-react';
+
+type EvalSet = Tables<'eval_sets'>;
+type EvalCase = Tables<'eval_cases'>;
+
+const Evaluations = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [gptName, setGptName] = useState('');
+  const [fileNames, setFileNames] = useState<string[]>([]);
+  const [sets, setSets] = useState<EvalSet[]>([]);
+  const [selectedSetId, setSelectedSetId] = useState<string | null>(null);
+  const [cases, setCases] = useState<EvalCase[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [newSetName, setNewSetName] = useState('');
+  const [question, setQuestion] = useState('');
+  const [expectedAnswer, setExpectedAnswer] = useState('');
+  const [expectedFiles, setExpectedFiles] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [starting, setStarting] = useState(false);
+
+  const { runs } = useEvalRuns(selectedSetId ?? undefined, (run) => {
+    toast({
+      title: run.status === 'done' ? "Evaluation finished" : "Evaluation failed",
+      description: run.status === 'done'
+        ? `Scored ${run.progress_total} question${run.progress_total === 1 ? '' : 's'}`
+        : run.error || 'The evaluation could not finish',
+      variant: run.status === 'done' ? undefined : "destructive",
+    });
+  });
+
+  const fetchGpt = useCallback(async () => {
+    if (!id || !user) return;
+
+    try {
+      const [gptResult, filesResult, setsResult] = await Promise.all([
+        supabase.from('custom_gpts').select('name').eq('id', id).single(),
+        supabase.from('knowledge_base').select('file_name').eq('custom_gpt_id', id).order('file_name', { ascending: true }),
+        supabase.from('eval_sets').select('*').eq('custom_gpt_id', id).order('created_at', { ascending: true }),
+      ]);
+
+      if (gptResult.error) throw gptResult.error;
+      if (setsResult.error) throw setsResult.error;
+
+      setGptName(gptResult.data.name);
+      setFileNames([...new Set((filesResult.data || []).map((file) => file.file_name))]);
+      setSets(setsResult.data || []);
+      setSelectedSetId((prev) => prev ?? setsResult.data?.[0]?.id ?? null);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to load GPT details",
+        variant: "destructive",
+      });
+      navigate('/');
+    } finally {
+      setLoading(false);
+    }
+  }, [id, user, navigate, toast]);
+
+  const fetchCases = useCallback(async () => {
+    if (!selectedSetId) {
+      setCases([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('eval_cases')
+      .select('*')
+      .eq('eval_set_id', selectedSetId)
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching evaluation questions:', error);
+      return;
+    }
+    setCases(data || []);
+  }, [selectedSetId]);
+
+  useEffect(() => {
+    fetchGpt();
+  }, [fetchGpt]);
+
+  useEffect(() => {
+    fetchCases();
+    setSelectedRunId(null);
+  }, [fetchCases]);
+
+  const handleCreateSet = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!id || !user || !newSetName.trim()) return;
+
+    const { data, error } = await supabase
+      .from('eval_sets')
+      .insert({ custom_gpt_id: id, user_id: user.id, name: newSetName.trim() })
+      .select('*')
+      .single();
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to create evaluation set",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSets((prev) => [...prev, data]);
+    setSelectedSetId(data.id);
+    setNewSetName('');
+  };
+
+  const handleDeleteSet = async (setId: string) => {
+    const { error } = await supabase.from('eval_sets').delete().eq('id', setId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete evaluation set",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const remaining = sets.filter((set) => set.id !== setId);
+    setSets(remaining);
+    if (selectedSetId === setId) setSelectedSetId(remaining[0]?.id ?? null);
+  };
+
+  const handleAddCase = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedSetId || !question.trim()) return;
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('eval_cases')
+        .insert({
+          eval_set_id: selectedSetId,
+          question: question.trim(),
+          expected_answer: expectedAnswer.trim() || null,
+          expected_files: expectedFiles,
+          position: (cases[cases.length - 1]?.position ?? -1) + 1,
+        })
+        .select('*')
+        .single();
+
+      if (error) throw error;
+
+      setCases((prev) => [...prev, data]);
+      setQuestion('');
+      setExpectedAnswer('');
+      setExpectedFiles([]);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to add question",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteCase = async (caseId: string) => {
+    const { error } = await supabase.from('eval_cases').delete().eq('id', caseId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete question",
+        variant: "destructive",
+      });
+      return;
+    }
+    setCases((prev) => prev.filter((c) => c.id !== caseId));
+  };
+
+  const handleRun = async () => {
+    if (!selectedSetId) return;
+
+    setStarting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('run-evaluation', {
+        body: { evalSetId: selectedSetId },
+      });
+
+      if (error) {
+        const { message, code } = await getFunctionError(error, 'Failed to start the evaluation');
+        toast({
+          title: isApiKeyError(code) ? "API key required" : "Error",
+          description: message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setSelectedRunId(data.runId);
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const toggleExpectedFile = (fileName: string) => {
+    setExpectedFiles((prev) => prev.includes(fileName)
+      ? prev.filter((name) => name !== fileName)
+      : [...prev, fileName]);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="text-center space-y-4">
+          <ClipboardCheck className="h-12 w-12 text-primary mx-auto animate-pulse" />
+          <p className="text-muted-foreground">Loading evaluations...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const selectedSet = sets.find((set) => set.id === selectedSetId);
+  const activeRun = runs.find((run) => run.status === 'running');
+  const selectedRun = runs.find((run) => run.id === selectedRunId && run.status !== 'running');
+
+  const renderMetric = (run: EvalRun, name: typeof METRICS[number]['name']) => {
+    const delta = formatDelta(toRunReport(run.report)?.deltas[name]);
+    return (
+      <td key={name} className="py-2 pr-4 whitespace-nowrap">
+        {formatScore(toRunMetrics(run.metrics)?.[name])}
+        {delta && (
+          <span className={`ml-1 text-xs ${delta.startsWith('+') ? 'text-primary' : 'text-destructive'}`}>{delta}</span>
+        )}
+      </td>
+    );
+  };
+
+  return (
+    <div className="p-8 max-w-6xl mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <h1 className="text-3xl font-bold text-foreground">Evaluations</h1>
+          <p className="text-muted-foreground mt-1">
+            Golden questions for {gptName}, answered the way chat answers them and scored, so you can see what a
+            settings change did.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => navigate(`/edit/${id}`)}>
+          Back to GPT
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[16rem_1fr] gap-6">
+        {/* Sets */}
+        <div className="space-y-3">
+          {sets.map((set) => (
+            <div
+              key={set.id}
+              className={`flex items-center justify-between gap-2 rounded-md px-3 py-2 cursor-pointer ${
+                set.id === selectedSetId ? 'bg-primary/10 text-primary' : 'hover:bg-muted/50'
+              }`}
+              onClick={() => setSelectedSetId(set.id)}
+            >
+              <span className="text-sm font-medium truncate">{set.name}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Delete set"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDeleteSet(set.id);
+                }}
+                className="h-7 w-7 flex-shrink-0"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+          <form onSubmit={handleCreateSet} className="flex gap-2">
+            <Input
+              value={newSetName}
+              onChange={(e) => setNewSetName(e.target.value)}
+              placeholder="New set name"
+              maxLength={100}
+              className="bg-input border-border"
+            />
+            <Button type="submit" variant="outline" size="icon" title="Create set" disabled={!newSetName.trim()}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+        </div>
+
+        {selectedSet ? (
+          <div className="space-y-6 min-w-0">
+            {/* Questions */}
+            <Card className="bg-card/50 backdrop-blur-glass border-border/50 shadow-card">
+              <CardHeader>
+                <CardTitle>{selectedSet.name}</CardTitle>
+                <CardDescription>
+                  Each question can name the files it should be answered from (scored as recall and MRR) and the
+                  answer it should get (scored as correctness). Every answer is also scored for faithfulness to its
+                  sources.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {cases.map((c, i) => (
+                  <div key={c.id} className="flex items-start justify-between gap-4 p-3 bg-muted/30 rounded">
+                    <div className="min-w-0 space-y-1">
+                      <p className="text-sm font-medium break-words">{i + 1}. {c.question}</p>
+                      {c.expected_answer && (
+                        <p className="text-sm text-muted-foreground break-words">{c.expected_answer}</p>
+                      )}
+                      {c.expected_files.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {c.expected_files.map((file) => (
+                            <Badge key={file} variant="secondary" className="font-normal">{file}</Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete question"
+                      onClick={() => handleDeleteCase(c.id)}
+                      className="h-8 w-8 flex-shrink-0"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+
+                {cases.length < MAX_EVAL_CASES ? (
+                  <form onSubmit={handleAddCase} className="space-y-3 pt-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="eval-question">Question</Label>
+                      <Input
+                        id="eval-question"
+                        value={question}
+                        onChange={(e) => setQuestion(e.target.value)}
+                        placeholder="What is the notice period for contractors?"
+                        maxLength={2000}
+                        className="bg-input border-border"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="eval-answer">Expected answer (optional)</Label>
+                      <Textarea
+                        id="eval-answer"
+                        value={expectedAnswer}
+                        onChange={(e) => setExpectedAnswer(e.target.value)}
+                        rows={2}
+                        className="bg-input border-border"
+                      />
+                    </div>
+                    {fileNames.length > 0 && (
+                      <div className="space-y-2">
+                        <Label>Expected source files (optional)</Label>
+                        <div className="flex flex-wrap gap-2">
+                          {fileNames.map((fileName) => (
+                            <Badge
+                              key={fileName}
+                              variant={expectedFiles.includes(fileName) ? 'default' : 'outline'}
+                              className="cursor-pointer font-normal"
+                              onClick={() => toggleExpectedFile(fileName)}
+                            >
+                              {fileName}
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    <Button type="submit" variant="outline" disabled={saving || !question.trim()}>
+                      {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+                      Add question
+                    </Button>
+                  </form>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Sets can have at most {MAX_EVAL_CASES} questions.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Runs */}
+            <Card className="bg-card/50 backdrop-blur-glass border-border/50 shadow-card">
+              <CardHeader>
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <CardTitle>Runs</CardTitle>
+                    <CardDescription>Changes are shown in points against the previous finished run.</CardDescription>
+                  </div>
+                  <Button
+                    variant="premium"
+                    onClick={handleRun}
+                    disabled={starting || !!activeRun || cases.length === 0}
+                  >
+                    {starting || activeRun
+                      ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      : <Play className="h-4 w-4 mr-2" />}
+                    Run evaluation
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {activeRun && (
+                  <div className="space-y-2">
+                    <p className="text-sm text-muted-foreground">
+                      Answering question {Math.min(activeRun.progress_current + 1, activeRun.progress_total)} of{' '}
+                      {activeRun.progress_total}...
+                    </p>
+                    <Progress value={(activeRun.progress_current / Math.max(1, activeRun.progress_total)) * 100} />
+                  </div>
+                )}
+
+                {runs.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No runs yet.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-muted-foreground">
+                          <th className="py-2 pr-4 font-medium">Started</th>
+                          {METRICS.map((metric) => (
+                            <th key={metric.name} title={metric.description} className="py-2 pr-4 font-medium">
+                              {metric.label}
+                            </th>
+                          ))}
+                          <th className="py-2 font-medium">Questions</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {runs.map((run) => (
+                          <tr
+                            key={run.id}
+                            onClick={() => run.status !== 'running' && setSelectedRunId(run.id)}
+                            className={`border-t border-border/50 ${run.status !== 'running' ? 'cursor-pointer hover:bg-muted/30' : ''} ${
+                              run.id === selectedRunId ? 'bg-muted/30' : ''
+                            }`}
+                          >
+                            <td className="py-2 pr-4 whitespace-nowrap">{new Date(run.created_at).toLocaleString()}</td>
+                            {run.status === 'done' ? (
+                              METRICS.map((metric) => renderMetric(run, metric.name))
+                            ) : (
+                              <td colSpan={METRICS.length} className="py-2 pr-4 text-muted-foreground">
+                                {run.status === 'running'
+                                  ? 'Running...'
+                                  : <span className="text-destructive">Failed{run.error && `: ${run.error}`}</span>}
+                              </td>
+                            )}
+                            <td className="py-2 whitespace-nowrap">
+                              {run.progress_total}
+                              {!!toRunMetrics(run.metrics)?.failed && (
+                                <span className="text-destructive"> ({toRunMetrics(run.metrics)?.failed} failed)</span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {selectedRun && <EvalRunDetails run={selectedRun} />}
+          </div>
+        ) : (
+          <Card className="bg-card/50 backdrop-blur-glass border-border/50 shadow-card">
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Create a set of questions your documents should answer to start evaluating.
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Evaluations;
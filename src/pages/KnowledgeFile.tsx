@@ -0,0 +1,291 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { KnowledgeChunkCard, type EmbeddingStatus, type KnowledgeChunk } from '@/components/KnowledgeChunkCard';
+import { diffWords } from '@/lib/text-diff';
+import { FileText, Layers } from 'lucide-react';
+
+interface InspectedFile {
+  id: string;
+  file_name: string;
+  processed_at: string | null;
+  custom_gpts: { name: string; embedding_model: string } | null;
+}
+
+type DocumentPage = Pick<Tables<'document_pages'>, 'id' | 'page_index' | 'page' | 'raw_text' | 'distilled_text' | 'distill_note'>;
+
+/** A passage the chunker left out, from the latest job's chunking report */
+interface DroppedPassage {
+  reason: string;
+  preview: string;
+  pageStart: number | null;
+}
+
+const DROP_REASON_LABELS: Record<string, string> = {
+  too_short: 'Too short',
+  no_text: 'No text',
+  garbled: 'Garbled',
+  duplicate: 'Duplicate',
+};
+
+const droppedPassages = (report: Json | undefined): DroppedPassage[] => {
+  if (!report || typeof report !== 'object' || Array.isArray(report) || !Array.isArray(report.dropped)) return [];
+  return report.dropped as unknown as DroppedPassage[];
+};
+
+/**
+ * One row per chunk: the copy embedded with the GPT's model when there is
+ * one (a running re-embed keeps a second copy per chunk)
+ */
+const latestChunks = (rows: KnowledgeChunk[], activeModel: string): KnowledgeChunk[] => {
+  const byIndex = new Map<number, KnowledgeChunk>();
+  for (const row of rows) {
+    const current = byIndex.get(row.chunk_index);
+    if (!current || (current.embedding_model !== activeModel && row.embedding_model === activeModel)) {
+      byIndex.set(row.chunk_index, row);
+    }
+  }
+  return [...byIndex.values()].sort((a, b) => a.chunk_index - b.chunk_index);
+};
+
+const embeddingStatus = (chunk: KnowledgeChunk, activeModel: string): EmbeddingStatus => {
+  if (chunk.embedding_dim === null) return 'missing';
+  return chunk.embedding_model === activeModel ? 'embedded' : 'other_model';
+};
+
+const KnowledgeFile = () => {
+  const { id, fileId } = useParams<{ id: string; fileId: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [file, setFile] = useState<InspectedFile | null>(null);
+  const [chunks, setChunks] = useState<KnowledgeChunk[]>([]);
+  const [pages, setPages] = useState<DocumentPage[]>([]);
+  const [dropped, setDropped] = useState<DroppedPassage[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchFile = useCallback(async () => {
+    if (!id || !fileId) return;
+
+    try {
+      const [fileResult, chunksResult, pagesResult, jobResult] = await Promise.all([
+        supabase
+          .from('knowledge_base')
+          .select('id, file_name, processed_at, custom_gpts(name, embedding_model)')
+          .eq('id', fileId)
+          .eq('custom_gpt_id', id)
+          .single(),
+        // Vectors stay on the server; embedding_dim tells whether there is one
+        supabase
+          .from('document_chunks')
+          .select('id, chunk_index, content, page_start, page_end, embedding_model, embedding_dim, excluded, edited_at')
+          .eq('knowledge_base_id', fileId)
+          .order('chunk_index', { ascending: true }),
+        supabase
+          .from('document_pages')
+          .select('id, page_index, page, raw_text, distilled_text, distill_note')
+          .eq('knowledge_base_id', fileId)
+          .order('page_index', { ascending: true }),
+        supabase
+          .from('ingestion_jobs')
+          .select('chunking_report')
+          .eq('knowledge_base_id', fileId)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+      ]);
+
+      if (fileResult.error) throw fileResult.error;
+      if (chunksResult.error) throw chunksResult.error;
+      if (pagesResult.error) throw pagesResult.error;
+      if (jobResult.error) throw jobResult.error;
+
+      const activeModel = fileResult.data.custom_gpts?.embedding_model ?? '';
+      setFile(fileResult.data);
+      setChunks(latestChunks(chunksResult.data || [], activeModel));
+      setPages(pagesResult.data || []);
+      setDropped(droppedPassages(jobResult.data?.chunking_report));
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load file",
+        variant: "destructive",
+      });
+      navigate(`/edit/${id}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [id, fileId, navigate, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchFile();
+    }
+  }, [user, fetchFile]);
+
+  const replaceChunk = (chunk: KnowledgeChunk) => {
+    setChunks((prev) => prev.map((current) => (current.chunk_index === chunk.chunk_index ? chunk : current)));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="text-center space-y-4">
+          <FileText className="h-12 w-12 text-primary mx-auto animate-pulse" />
+          <p className="text-muted-foreground">Loading file...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!file) {
+    return (
+      <div className="p-8 text-center">
+        <h1 className="text-2xl font-bold text-foreground mb-4">File Not Found</h1>
+        <Button onClick={() => navigate(`/edit/${id}`)}>Return to GPT</Button>
+      </div>
+    );
+  }
+
+  const activeModel = file.custom_gpts?.embedding_model ?? '';
+  const excludedCount = chunks.filter((chunk) => chunk.excluded).length;
+  const editedCount = chunks.filter((chunk) => chunk.edited_at).length;
+
+  return (
+    <div className="p-8 max-w-4xl mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <h1 className="text-3xl font-bold text-foreground truncate">{file.file_name}</h1>
+          <p className="text-muted-foreground mt-1">
+            {file.custom_gpts?.name} · {chunks.length} chunks
+            {excludedCount > 0 && ` · ${excludedCount} excluded`}
+            {editedCount > 0 && ` · ${editedCount} edited`}
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => navigate(`/edit/${id}`)}>
+          Back to GPT
+        </Button>
+      </div>
+
+      <Tabs defaultValue="chunks" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="chunks">Chunks</TabsTrigger>
+          <TabsTrigger value="text">Extracted text</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="chunks">
+          <Card className="bg-card/50 backdrop-blur-glass border-border/50 shadow-card">
+            <CardHeader>
+              <div className="flex items-center space-x-3">
+                <Layers className="h-6 w-6 text-primary" />
+                <div>
+                  <CardTitle>Chunks</CardTitle>
+                  <CardDescription>
+                    The passages searched when answering, embedded with {activeModel}. Saving an edit re-embeds the
+                    chunk; excluded chunks are kept but never searched. Processing the file again discards both.
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {chunks.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {file.processed_at ? 'No chunks were stored for this file.' : 'This file has not been processed yet.'}
+                </p>
+              )}
+              {chunks.map((chunk) => (
+                <KnowledgeChunkCard
+                  key={chunk.chunk_index}
+                  chunk={chunk}
+                  status={embeddingStatus(chunk, activeModel)}
+                  onChange={replaceChunk}
+                />
+              ))}
+
+              {dropped.length > 0 && (
+                <div className="pt-4 space-y-2">
+                  <h4 className="text-sm font-semibold text-foreground">Left out while chunking</h4>
+                  {dropped.map((passage, index) => (
+                    <div key={index} className="flex items-start gap-2 text-xs text-muted-foreground">
+                      <Badge variant="outline" className="text-xs shrink-0">
+                        {DROP_REASON_LABELS[passage.reason] ?? passage.reason}
+                      </Badge>
+                      <span className="break-words">
+                        {passage.pageStart !== null && `p. ${passage.pageStart}: `}
+                        {passage.preview}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="text">
+          <Card className="bg-card/50 backdrop-blur-glass border-border/50 shadow-card">
+            <CardHeader>
+              <div className="flex items-center space-x-3">
+                <FileText className="h-6 w-6 text-primary" />
+                <div>
+                  <CardTitle>Extracted text</CardTitle>
+                  <CardDescription>
+                    Text read from the file, with what distillation{' '}
+                    <span className="line-through text-destructive">removed</span> and{' '}
+                    <span className="bg-primary/20 text-foreground">added</span> before chunking.
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {pages.length === 0 && (
+                <p className="text-sm text-muted-foreground">No extracted text is stored for this file.</p>
+              )}
+              {pages.map((page) => (
+                <div key={page.id} className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <h4 className="text-sm font-semibold text-foreground">
+                      {page.page !== null ? `Page ${page.page}` : `Part ${page.page_index + 1}`}
+                    </h4>
+                    {page.distilled_text === null && (
+                      <span className="text-xs text-muted-foreground">{page.distill_note || 'Not distilled'}</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-foreground whitespace-pre-wrap break-words p-3 rounded-lg bg-muted/30">
+                    {page.distilled_text === null
+                      ? page.raw_text
+                      : diffWords(page.raw_text, page.distilled_text).map((part, index) => (
+                          <span
+                            key={index}
+                            className={
+                              part.op === 'removed'
+                                ? 'line-through text-destructive'
+                                : part.op === 'added'
+                                  ? 'bg-primary/20'
+                                  : undefined
+                            }
+                          >
+                            {part.text}
+                          </span>
+                        ))}
+                  </p>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default KnowledgeFile;
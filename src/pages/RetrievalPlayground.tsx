@@ -0,0 +1,348 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { KnowledgeScopePicker } from '@/components/KnowledgeScopePicker';
+import { getFunctionError, isApiKeyError } from '@/lib/function-errors';
+import { formatSourceLabel, type Citation } from '@/lib/citations';
+import { compactFilter, type RetrievalFilter } from '@/lib/knowledge-metadata';
+import { DEFAULT_MATCH_COUNT, DEFAULT_MATCH_THRESHOLD } from '@/lib/models';
+import { FlaskConical, Loader2, Plus, Search, X } from 'lucide-react';
+
+/** Mirrors `SearchSettings` in the search-knowledge Edge Function */
+interface SearchSettings {
+  matchThreshold: number;
+  matchCount: number;
+  vectorWeight: number;
+  keywordWeight: number;
+  rerank: boolean;
+}
+
+type PlaygroundChunk = Citation & {
+  /** Position in the semantic ranking, or null if only the keyword search found it */
+  vectorRank: number | null;
+  /** Position in the keyword ranking, or null if only the semantic search found it */
+  keywordRank: number | null;
+  /** Fused rank score */
+  score: number | null;
+};
+
+interface SearchResult {
+  settings: SearchSettings;
+  /** Name of the reranker used, if any */
+  reranker: string | null;
+  durationMs: number;
+  chunks: PlaygroundChunk[];
+}
+
+const MAX_VARIANTS = 4;
+const VARIANT_LABELS = ['A', 'B', 'C', 'D'];
+
+// Static class names so Tailwind keeps them
+const GRID_COLUMNS = ['', 'md:grid-cols-1', 'md:grid-cols-2', 'md:grid-cols-3', 'md:grid-cols-4'];
+
+const RetrievalPlayground = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [gptName, setGptName] = useState('');
+  const [query, setQuery] = useState('');
+  const [scope, setScope] = useState<RetrievalFilter>({});
+  const [variants, setVariants] = useState<SearchSettings[]>([]);
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [embeddingModel, setEmbeddingModel] = useState('');
+  const [hoveredChunk, setHoveredChunk] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [searching, setSearching] = useState(false);
+
+  // Start from the settings chat uses for this GPT
+  const fetchSettings = useCallback(async () => {
+    if (!id || !user) return;
+
+    try {
+      const [gptResult, profileResult] = await Promise.all([
+        supabase
+          .from('custom_gpts')
+          .select('name, retrieval_vector_weight, retrieval_keyword_weight, rerank_enabled')
+          .eq('id', id)
+          .single(),
+        supabase
+          .from('profiles')
+          .select('default_match_threshold, default_match_count')
+          .eq('user_id', user.id)
+          .maybeSingle(),
+      ]);
+
+      if (gptResult.error) throw gptResult.error;
+
+      setGptName(gptResult.data.name);
+      setVariants([{
+        matchThreshold: profileResult.data?.default_match_threshold ?? DEFAULT_MATCH_THRESHOLD,
+        matchCount: profileResult.data?.default_match_count ?? DEFAULT_MATCH_COUNT,
+        vectorWeight: gptResult.data.retrieval_vector_weight,
+        keywordWeight: gptResult.data.retrieval_keyword_weight,
+        rerank: gptResult.data.rerank_enabled,
+      }]);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to load GPT details",
+        variant: "destructive",
+      });
+      navigate('/');
+    } finally {
+      setLoading(false);
+    }
+  }, [id, user, navigate, toast]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const updateVariant = (index: number, changes: Partial<SearchSettings>) => {
+    setVariants((prev) => prev.map((variant, i) => {
+      if (i !== index) return variant;
+      const next = { ...variant, ...changes };
+      // At least one ranking has to count, or search finds nothing
+      return next.vectorWeight + next.keywordWeight > 0 ? next : variant;
+    }));
+    setResults(null);
+  };
+
+  const addVariant = () => {
+    setVariants((prev) => [...prev, { ...prev[prev.length - 1] }]);
+    setResults(null);
+  };
+
+  const removeVariant = (index: number) => {
+    setVariants((prev) => prev.filter((_, i) => i !== index));
+    setResults(null);
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!id || !query.trim()) return;
+
+    setSearching(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('search-knowledge', {
+        body: { customGptId: id, query: query.trim(), filter: compactFilter(scope), variants },
+      });
+
+      if (error) {
+        const { message, code } = await getFunctionError(error, 'Search failed');
+        toast({
+          title: isApiKeyError(code) ? "API key required" : "Error",
+          description: message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setResults(data.results);
+      setEmbeddingModel(data.embeddingModel);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="text-center space-y-4">
+          <FlaskConical className="h-12 w-12 text-primary mx-auto animate-pulse" />
+          <p className="text-muted-foreground">Loading playground...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 max-w-7xl mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <h1 className="text-3xl font-bold text-foreground">Retrieval Playground</h1>
+          <p className="text-muted-foreground mt-1">
+            See which passages {gptName} would find for a question, and compare search settings. Nothing is sent to
+            the chat model.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => navigate(`/edit/${id}`)}>
+          Back to GPT
+        </Button>
+      </div>
+
+      <form onSubmit={handleSearch} className="flex items-center gap-2">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Ask something your documents should answer"
+          maxLength={2000}
+          className="bg-input border-border flex-1"
+        />
+        {id && <KnowledgeScopePicker customGptId={id} value={scope} onChange={setScope} disabled={searching} />}
+        <Button type="submit" variant="premium" disabled={searching || !query.trim()}>
+          {searching ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+          Search
+        </Button>
+      </form>
+
+      <div className={`grid grid-cols-1 gap-4 ${GRID_COLUMNS[variants.length]}`}>
+        {variants.map((variant, index) => {
+          const result = results?.[index];
+          return (
+            <div key={index} className="space-y-4 min-w-0">
+              <Card className="bg-card/50 backdrop-blur-glass border-border/50 shadow-card">
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-base">Settings {VARIANT_LABELS[index]}</CardTitle>
+                    {variants.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        title="Remove"
+                        onClick={() => removeVariant(index)}
+                        className="h-8 w-8"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Similarity threshold</Label>
+                      <span className="text-sm text-muted-foreground">{variant.matchThreshold.toFixed(2)}</span>
+                    </div>
+                    <Slider
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={[variant.matchThreshold]}
+                      onValueChange={([matchThreshold]) => updateVariant(index, { matchThreshold })}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Semantic</Label>
+                      <span className="text-sm text-muted-foreground">{variant.vectorWeight.toFixed(1)}</span>
+                    </div>
+                    <Slider
+                      min={0}
+                      max={2}
+                      step={0.1}
+                      value={[variant.vectorWeight]}
+                      onValueChange={([vectorWeight]) => updateVariant(index, { vectorWeight })}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Keyword</Label>
+                      <span className="text-sm text-muted-foreground">{variant.keywordWeight.toFixed(1)}</span>
+                    </div>
+                    <Slider
+                      min={0}
+                      max={2}
+                      step={0.1}
+                      value={[variant.keywordWeight]}
+                      onValueChange={([keywordWeight]) => updateVariant(index, { keywordWeight })}
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor={`match-count-${index}`}>Chunks</Label>
+                    <Input
+                      id={`match-count-${index}`}
+                      type="number"
+                      min={1}
+                      max={50}
+                      value={variant.matchCount}
+                      onChange={(e) => updateVariant(index, {
+                        matchCount: Math.min(50, Math.max(1, parseInt(e.target.value, 10) || 1)),
+                      })}
+                      className="bg-input border-border w-20"
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor={`rerank-${index}`}>Rerank</Label>
+                    <Switch
+                      id={`rerank-${index}`}
+                      checked={variant.rerank}
+                      onCheckedChange={(rerank) => updateVariant(index, { rerank })}
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+
+              {result && (
+                <div className="space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    {result.chunks.length} chunk{result.chunks.length === 1 ? '' : 's'} in {result.durationMs} ms
+                    {result.reranker && ` · reranked with ${result.reranker}`}
+                  </p>
+                  {result.chunks.length === 0 && (
+                    <p className="text-sm text-muted-foreground">Nothing matched. Try a lower threshold.</p>
+                  )}
+                  {result.chunks.map((chunk) => (
+                    <div
+                      key={chunk.chunkId}
+                      onMouseEnter={() => setHoveredChunk(chunk.chunkId)}
+                      onMouseLeave={() => setHoveredChunk(null)}
+                      className={`p-2 bg-muted/30 rounded text-xs space-y-1 ${
+                        hoveredChunk === chunk.chunkId ? 'ring-1 ring-primary' : ''
+                      }`}
+                    >
+                      <div className="flex justify-between items-start gap-2">
+                        <span className="text-muted-foreground font-medium break-words">
+                          [{chunk.index}] {formatSourceLabel(chunk)}
+                        </span>
+                        <span className="text-primary font-medium flex-shrink-0">{chunk.similarity}%</span>
+                      </div>
+                      <p className="text-muted-foreground">
+                        {chunk.vectorRank !== null ? `semantic #${chunk.vectorRank}` : 'no semantic match'}
+                        {' · '}
+                        {chunk.keywordRank !== null ? `keyword #${chunk.keywordRank}` : 'no keyword match'}
+                        {chunk.score !== null && ` · score ${chunk.score.toFixed(4)}`}
+                        {chunk.rerankScore !== null && ` · ${chunk.rerankScore}% rerank`}
+                      </p>
+                      <p className="text-foreground/80 leading-relaxed line-clamp-6">{chunk.content}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        {variants.length < MAX_VARIANTS ? (
+          <Button type="button" variant="outline" onClick={addVariant}>
+            <Plus className="h-4 w-4 mr-2" />
+            Compare other settings
+          </Button>
+        ) : <span />}
+        {embeddingModel && (
+          <p className="text-xs text-muted-foreground">Searched with {embeddingModel}. Hover a chunk to find it in other columns.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RetrievalPlayground;
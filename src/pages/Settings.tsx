@@ -0,0 +1,600 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useEncryptedApiKey,
+  maskApiKey,
+  validateApiKeyFormat,
+  testApiKey,
+} from '@/lib/supabase-encryption';
+import {
+  CHAT_MODELS,
+  DEFAULT_CHAT_MODEL,
+  DEFAULT_MATCH_THRESHOLD,
+  DEFAULT_MATCH_COUNT,
+} from '@/lib/models';
+import {
+  KeyRound,
+  SlidersHorizontal,
+  User,
+  Lock,
+  Loader2,
+  CheckCircle2,
+  XCircle,
+  Trash2,
+  RefreshCw,
+} from 'lucide-react';
+
+interface ProfileForm {
+  display_name: string;
+  default_model: string;
+  default_match_threshold: number;
+  default_match_count: number;
+}
+
+const Settings = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const {
+    apiKey,
+    metadata,
+    isLoading: keyLoading,
+    error: keyError,
+    saveKey,
+    deleteKey,
+  } = useEncryptedApiKey();
+
+  const [keyInput, setKeyInput] = useState('');
+  const [rotating, setRotating] = useState(false);
+  const [savingKey, setSavingKey] = useState(false);
+  const [testingKey, setTestingKey] = useState(false);
+  const [testResult, setTestResult] = useState<{ valid: boolean; message: string } | null>(null);
+
+  const [profile, setProfile] = useState<ProfileForm>({
+    display_name: '',
+    default_model: DEFAULT_CHAT_MODEL,
+    default_match_threshold: DEFAULT_MATCH_THRESHOLD,
+    default_match_count: DEFAULT_MATCH_COUNT,
+  });
+  const [profileLoading, setProfileLoading] = useState(true);
+  const [savingProfile, setSavingProfile] = useState(false);
+
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [savingPassword, setSavingPassword] = useState(false);
+
+  const fetchProfile = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('display_name, default_model, default_match_threshold, default_match_count')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (data) {
+        setProfile({
+          display_name: data.display_name || '',
+          default_model: data.default_model || DEFAULT_CHAT_MODEL,
+          default_match_threshold: data.default_match_threshold ?? DEFAULT_MATCH_THRESHOLD,
+          default_match_count: data.default_match_count ?? DEFAULT_MATCH_COUNT,
+        });
+      }
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to load your profile",
+        variant: "destructive",
+      });
+    } finally {
+      setProfileLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  const handleTestKey = async (candidate?: string) => {
+    setTestingKey(true);
+    setTestResult(null);
+    try {
+      setTestResult(await testApiKey(candidate));
+    } finally {
+      setTestingKey(false);
+    }
+  };
+
+  const handleSaveKey = async () => {
+    const trimmed = keyInput.trim();
+    if (!validateApiKeyFormat(trimmed)) {
+      setTestResult({ valid: false, message: 'Invalid API key format. Keys should start with "sk-".' });
+      return;
+    }
+
+    setSavingKey(true);
+    try {
+      // Don't replace a working key with one OpenAI rejects
+      const result = await testApiKey(trimmed);
+      setTestResult(result);
+      if (!result.valid) return;
+
+      await saveKey(trimmed);
+      setKeyInput('');
+      setRotating(false);
+      toast({
+        title: "Success!",
+        description: apiKey ? "Your API key has been rotated." : "Your API key has been saved.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save API key",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingKey(false);
+    }
+  };
+
+  const handleDeleteKey = async () => {
+    try {
+      await deleteKey();
+      setTestResult(null);
+      toast({
+        title: "Success",
+        description: "API key removed",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove API key",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setSavingProfile(true);
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .upsert({
+          user_id: user.id,
+          email: user.email,
+          display_name: profile.display_name.trim() || null,
+          default_model: profile.default_model,
+          default_match_threshold: profile.default_match_threshold,
+          default_match_count: profile.default_match_count,
+        }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success!",
+        description: "Your settings have been saved.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      toast({
+        title: "Error",
+        description: "Passwords do not match",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingPassword(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password: newPassword });
+      if (error) throw error;
+
+      setNewPassword('');
+      setConfirmPassword('');
+      toast({
+        title: "Success!",
+        description: "Your password has been updated.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update password",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  const formatDate = (dateString: string | null | undefined) => {
+    if (!dateString) return 'Never';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  const showKeyInput = !apiKey || rotating;
+
+  return (
+    <div className="p-8 max-w-4xl mx-auto space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Settings</h1>
+        <p className="text-muted-foreground mt-1">
+          Manage your API key, defaults and account.
+        </p>
+      </div>
+
+      {/* API Key */}
+      <Card className="bg-card/50 backdrop-blur-glass border-border/50 shadow-card">
+        <CardHeader>
+          <div className="flex items-center space-x-3">
+            <KeyRound className="h-6 w-6 text-primary" />
+            <div>
+              <CardTitle>OpenAI API Key</CardTitle>
+              <CardDescription>
+                Your GPTs use this key for chat and document processing. It is stored encrypted.
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {keyLoading ? (
+            <div className="flex items-center text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Loading API key...
+            </div>
+          ) : (
+            <>
+              {keyError && (
+                <p className="text-sm text-destructive">{keyError.message}</p>
+              )}
+
+              {apiKey && (
+                <div className="flex items-center justify-between p-3 bg-muted/30 rounded-lg">
+                  <div>
+                    <p className="text-sm font-mono text-foreground">{maskApiKey(apiKey)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Added {formatDate(metadata?.created_at)} •
+                      Last rotated {formatDate(metadata?.updated_at)} •
+                      Last used {formatDate(metadata?.last_used_at)}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleTestKey()}
+                      disabled={testingKey}
+                    >
+                      {testingKey && !showKeyInput ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Test'}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setRotating(!rotating);
+                        setTestResult(null);
+                      }}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                      Rotate
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          Remove
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Remove API key?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Your GPTs will stop working until you add a new key.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={handleDeleteKey}>Remove</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              )}
+
+              {showKeyInput && (
+                <div className="space-y-2">
+                  <Label htmlFor="api-key">{apiKey ? 'New API key' : 'API key'}</Label>
+                  <div className="flex space-x-2">
+                    <Input
+                      id="api-key"
+                      type="password"
+                      autoComplete="off"
+                      value={keyInput}
+                      onChange={(e) => setKeyInput(e.target.value)}
+                      placeholder="sk-..."
+                      className="bg-input border-border font-mono"
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => handleTestKey(keyInput.trim())}
+                      disabled={testingKey || savingKey || !keyInput.trim()}
+                    >
+                      Test
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="premium"
+                      onClick={handleSaveKey}
+                      disabled={savingKey || !keyInput.trim()}
+                    >
+                      {savingKey ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save Key'}
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    The key is tested against OpenAI before it is saved.
+                  </p>
+                </div>
+              )}
+
+              {testResult && (
+                <div className={`flex items-center text-sm ${testResult.valid ? 'text-primary' : 'text-destructive'}`}>
+                  {testResult.valid ? (
+                    <CheckCircle2 className="h-4 w-4 mr-2" />
+                  ) : (
+                    <XCircle className="h-4 w-4 mr-2" />
+                  )}
+                  {testResult.message}
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <form onSubmit={handleSaveProfile} className="space-y-8">
+        {/* Defaults */}
+        <Card className="bg-card/50 backdrop-blur-glass border-border/50 shadow-card">
+          <CardHeader>
+            <div className="flex items-center space-x-3">
+              <SlidersHorizontal className="h-6 w-6 text-accent" />
+              <div>
+                <CardTitle>Defaults</CardTitle>
+                <CardDescription>
+                  Used by your GPTs unless they override them.
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="default-model">Default model</Label>
+              <Select
+                value={profile.default_model}
+                onValueChange={(value) => setProfile(prev => ({ ...prev, default_model: value }))}
+                disabled={profileLoading}
+              >
+                <SelectTrigger id="default-model" className="bg-input border-border">
+                  <SelectValue placeholder="Select a model" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CHAT_MODELS.map((model) => (
+                    <SelectItem key={model.value} value={model.value}>
+                      {model.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Similarity threshold</Label>
+                <span className="text-sm text-muted-foreground">
+                  {profile.default_match_threshold.toFixed(2)}
+                </span>
+              </div>
+              <Slider
+                min={0}
+                max={1}
+                step={0.05}
+                value={[profile.default_match_threshold]}
+                onValueChange={([value]) => setProfile(prev => ({ ...prev, default_match_threshold: value }))}
+                disabled={profileLoading}
+              />
+              <p className="text-xs text-muted-foreground">
+                Semantic matches less similar than this to the question are ignored. Keyword matches are kept.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="match-count">Chunks per answer</Label>
+              <Input
+                id="match-count"
+                type="number"
+                min={1}
+                max={50}
+                value={profile.default_match_count}
+                onChange={(e) => setProfile(prev => ({
+                  ...prev,
+                  default_match_count: Math.min(50, Math.max(1, parseInt(e.target.value, 10) || 1)),
+                }))}
+                disabled={profileLoading}
+                className="bg-input border-border w-32"
+              />
+              <p className="text-xs text-muted-foreground">
+                Maximum number of knowledge chunks added to each prompt.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Profile */}
+        <Card className="bg-card/50 backdrop-blur-glass border-border/50 shadow-card">
+          <CardHeader>
+            <div className="flex items-center space-x-3">
+              <User className="h-6 w-6 text-primary-glow" />
+              <div>
+                <CardTitle>Profile</CardTitle>
+                <CardDescription>
+                  How you appear in GPT Studio.
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="display-name">Display name</Label>
+              <Input
+                id="display-name"
+                value={profile.display_name}
+                onChange={(e) => setProfile(prev => ({ ...prev, display_name: e.target.value }))}
+                placeholder="Your name"
+                disabled={profileLoading}
+                className="bg-input border-border"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                value={user?.email || ''}
+                disabled
+                className="bg-input border-border"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="flex items-center justify-end">
+          <Button
+            type="submit"
+            variant="premium"
+            size="lg"
+            disabled={savingProfile || profileLoading}
+          >
+            {savingProfile ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Settings'
+            )}
+          </Button>
+        </div>
+      </form>
+
+      {/* Account */}
+      <Card className="bg-card/50 backdrop-blur-glass border-border/50 shadow-card">
+        <CardHeader>
+          <div className="flex items-center space-x-3">
+            <Lock className="h-6 w-6 text-accent" />
+            <div>
+              <CardTitle>Account</CardTitle>
+              <CardDescription>
+                Change the password you use to sign in.
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleChangePassword} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  autoComplete="new-password"
+                  minLength={6}
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  className="bg-input border-border"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  autoComplete="new-password"
+                  minLength={6}
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className="bg-input border-border"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                variant="outline"
+                disabled={savingPassword || !newPassword || !confirmPassword}
+              >
+                {savingPassword ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Update Password'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Settings;
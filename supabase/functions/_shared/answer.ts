@@ -0,0 +1,346 @@
+/**
+ * The answer pipeline behind chat
+ *
+ * Plans a knowledge search for a message, runs it, and builds the chat
+ * request the GPT answers with: its instructions, the numbered sources and
+ * the conversation. generate-response sends that request and saves the turn;
+ * run-evaluation sends it for golden questions and scores the result, so
+ * both measure the same thing.
+ *
+ * @module answer
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import type { ChatMessage } from './conversation-memory.ts';
+import { DEFAULT_MODELS, type ChatRequest, type LLMProvider, type ProviderName } from './llm/index.ts';
+import {
+  buildCitations,
+  formatSourcesForPrompt,
+  CITATION_INSTRUCTIONS,
+  type Citation,
+} from './citations.ts';
+import {
+  planQuery,
+  embedQueries,
+  retrieveChunks,
+  resolveReranker,
+  isEmptyFilter,
+  describeFilter,
+  DEFAULT_MATCH_THRESHOLD,
+  DEFAULT_MATCH_COUNT,
+  type QueryPlan,
+  type RetrievalFilter,
+  type Reranker,
+} from './retrieval/index.ts';
+
+/** The GPT settings an answer depends on */
+export interface AnswerGpt {
+  id: string;
+  user_id: string;
+  instructions: string;
+  llm_provider: string;
+  llm_model: string | null;
+  temperature: number | null;
+  top_p: number | null;
+  max_tokens: number;
+  response_format: string;
+  retrieval_vector_weight: number;
+  retrieval_keyword_weight: number;
+  rerank_enabled: boolean;
+  embedding_model: string;
+}
+
+/** Columns to select for {@link AnswerGpt} */
+export const ANSWER_GPT_COLUMNS =
+  'id, user_id, instructions, llm_provider, llm_model, temperature, top_p, max_tokens, response_format, retrieval_vector_weight, retrieval_keyword_weight, rerank_enabled, embedding_model';
+
+/** The caller's Settings defaults; null where they kept ours */
+export interface UserDefaults {
+  model: string | null;
+  matchThreshold: number | null;
+  matchCount: number | null;
+}
+
+export interface AnswerInput {
+  gpt: AnswerGpt;
+  /** The GPT's chat provider, billed to the caller */
+  provider: LLMProvider;
+  embedder: LLMProvider;
+  defaults: UserDefaults;
+  message: string;
+  /** Prior turns, oldest first */
+  history: ChatMessage[];
+  /** Limit the knowledge search to some of the GPT's files */
+  filter: RetrievalFilter;
+}
+
+/**
+ * How an answer's sources were found
+ *
+ * Saved with the assistant reply, so a bad rating or an empty search can be
+ * traced back to the queries and settings that produced it.
+ */
+export interface RetrievalContext {
+  /** False when the planner decided the documents could not help */
+  searched: boolean;
+  queries: string[];
+  /** The scope the user limited the question to; empty for all files */
+  filter: RetrievalFilter;
+  embeddingModel: string;
+  matchThreshold: number;
+  matchCount: number;
+  vectorWeight: number;
+  keywordWeight: number;
+  /** Name of the reranker, or null when the sources were not reranked */
+  reranker: string | null;
+  /** The chat model that answered */
+  model: string;
+}
+
+export interface PreparedAnswer {
+  /** Ready to send to `provider.chat` or `provider.streamChat` */
+  request: ChatRequest;
+  plan: QueryPlan;
+  /** The numbered sources in the system prompt */
+  citations: Citation[];
+  retrieval: RetrievalContext;
+}
+
+interface SearchSettings {
+  matchThreshold: number;
+  matchCount: number;
+  vectorWeight: number;
+  keywordWeight: number;
+  reranker: Reranker | null;
+}
+
+interface KnowledgeFile {
+  file_name: string;
+  created_at: string;
+  file_size: number | null;
+  processed_at: string | null;
+}
+
+/**
+ * Read the caller's Settings defaults
+ *
+ * @param supabase - Service-role client
+ * @param userId - The caller
+ * @returns Their defaults; all null if they have none or the read fails
+ */
+export async function loadUserDefaults(supabase: SupabaseClient, userId: string): Promise<UserDefaults> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('default_model, default_match_threshold, default_match_count')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to load profile defaults:', error);
+  }
+
+  return {
+    model: data?.default_model ?? null,
+    matchThreshold: data?.default_match_threshold ?? null,
+    matchCount: data?.default_match_count ?? null,
+  };
+}
+
+/**
+ * The chat model a GPT answers with
+ *
+ * The GPT's own model wins; the Settings default only applies to OpenAI models.
+ */
+export function chatModelFor(gpt: AnswerGpt, providerName: ProviderName, defaults: UserDefaults): string {
+  return gpt.llm_model
+    || (providerName === 'openai' ? defaults.model : null)
+    || DEFAULT_MODELS[providerName].chat;
+}
+
+/**
+ * Search the GPT's knowledge for a message and build the request that answers it
+ *
+ * @param supabase - Service-role client
+ * @param input - The GPT, providers, message, conversation and search scope
+ * @returns The chat request, the search plan, the sources it was given and how they were found
+ */
+export async function prepareAnswer(supabase: SupabaseClient, input: AnswerInput): Promise<PreparedAnswer> {
+  const { gpt, provider, embedder, defaults, message, history, filter } = input;
+  const scoped = !isEmptyFilter(filter);
+
+  // Only the files the question is scoped to, if it is
+  const kbFiles = await loadKnowledgeFiles(supabase, gpt.id, filter);
+
+  // Decide whether and how to search; with no files there is nothing to find
+  let plan: QueryPlan = kbFiles.length > 0
+    ? await planQuery(provider, DEFAULT_MODELS[provider.name].utility, {
+        message,
+        history,
+        fileNames: kbFiles.map((f) => f.file_name),
+      })
+    : { needsRetrieval: false, queries: [], hypotheticalAnswer: null };
+  // Picking files to ask about is asking to search them
+  if (scoped && kbFiles.length > 0 && !plan.needsRetrieval) {
+    plan = { needsRetrieval: true, queries: [message], hypotheticalAnswer: null };
+  }
+  console.log('Query plan:', plan);
+
+  const search: SearchSettings = {
+    // Values the user chose in Settings win
+    matchThreshold: defaults.matchThreshold ?? DEFAULT_MATCH_THRESHOLD,
+    matchCount: defaults.matchCount ?? DEFAULT_MATCH_COUNT,
+    vectorWeight: gpt.retrieval_vector_weight,
+    keywordWeight: gpt.retrieval_keyword_weight,
+    reranker: gpt.rerank_enabled && plan.needsRetrieval
+      ? resolveReranker(provider, DEFAULT_MODELS[provider.name].utility)
+      : null,
+  };
+
+  // Search for relevant knowledge base content
+  const citations = plan.needsRetrieval
+    ? await searchKnowledgeBase(supabase, embedder, plan, gpt, search, filter)
+    : [];
+  console.log('Found relevant content chunks:', citations.length);
+
+  const responseFormat = gpt.response_format === 'json' ? 'json' : 'text';
+
+  // Build system message with instructions and context
+  let systemMessage = gpt.instructions;
+
+  if (scoped) {
+    const scope = describeFilter(filter, filter.fileIds ? kbFiles.map((f) => f.file_name) : []);
+    systemMessage += kbFiles.length > 0
+      ? `\n\nThe user limited this question to documents matching: ${scope}. Answer from those documents only.`
+      : `\n\nThe user limited this question to documents matching: ${scope}. No uploaded documents match, so say so instead of answering from other sources.`;
+  }
+
+  // Always inform about knowledge search when it ran
+  if (plan.needsRetrieval) {
+    systemMessage += `\n\n🔍 KNOWLEDGE BASE SEARCH PERFORMED: I searched your uploaded documents for relevant information.`;
+  }
+
+  if (citations.length > 0) {
+    systemMessage += `\n\nRelevant information from your knowledge base, as numbered sources:\n\n${formatSourcesForPrompt(citations)}`;
+    // Markers would end up inside the values of a JSON reply
+    if (responseFormat === 'text') {
+      systemMessage += `\n\n${CITATION_INSTRUCTIONS}`;
+    }
+    console.log('Added knowledge base context to system message');
+  } else if (plan.needsRetrieval) {
+    const fileDetails = kbFiles.slice(0, 5).map((f) => {
+      const uploadDate = new Date(f.created_at).toLocaleDateString();
+      const fileSize = f.file_size ? `${(f.file_size / 1024).toFixed(1)}KB` : 'Unknown size';
+      const status = f.processed_at ? 'Processed' : 'Processing';
+      return `• ${f.file_name} (${fileSize}, uploaded ${uploadDate}, ${status})`;
+    }).join('\n');
+    systemMessage += `\n\n⚠️ NO RELEVANT CONTENT FOUND: I searched your uploaded documents but couldn't find text that matches your query.\n\nYour uploaded files:\n${fileDetails}\n\nThis may be because: 1) The PDF is scanned/image-based rather than text-searchable, 2) The content doesn't closely match your question, or 3) The document needs to be re-uploaded as a text-based PDF.`;
+    console.log('Added detailed file information for knowledge query');
+  } else if (kbFiles.length > 0) {
+    const fileList = kbFiles.slice(0, 5).map((f) => f.file_name).join(', ');
+    systemMessage += `\n\nNote: Uploaded documents available: ${fileList}. If the user's question refers to these files, acknowledge their presence and offer to search them.`;
+    console.log('Added fallback file list to system message');
+  }
+
+  if (responseFormat === 'json') {
+    // OpenAI's JSON mode requires the prompt to mention JSON; other providers need the instruction anyway
+    systemMessage += `\n\nRespond with a single valid JSON object and nothing else.`;
+  }
+
+  // Build messages for the model
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: systemMessage
+    },
+    ...history,
+    {
+      role: 'user',
+      content: message
+    }
+  ];
+
+  const request: ChatRequest = {
+    model: chatModelFor(gpt, provider.name, defaults),
+    messages,
+    maxTokens: gpt.max_tokens ?? 2000,
+    temperature: gpt.temperature ?? undefined,
+    topP: gpt.top_p ?? undefined,
+    responseFormat,
+  };
+
+  const retrieval: RetrievalContext = {
+    searched: plan.needsRetrieval,
+    queries: plan.queries,
+    filter,
+    embeddingModel: gpt.embedding_model,
+    matchThreshold: search.matchThreshold,
+    matchCount: search.matchCount,
+    vectorWeight: search.vectorWeight,
+    keywordWeight: search.keywordWeight,
+    reranker: search.reranker?.name ?? null,
+    model: request.model,
+  };
+
+  return { request, plan, citations, retrieval };
+}
+
+// The GPT's knowledge files, newest first
+async function loadKnowledgeFiles(supabase: SupabaseClient, customGptId: string, filter: RetrievalFilter): Promise<KnowledgeFile[]> {
+  // Same conditions chunk_matches_filter applies to chunks
+  let query = supabase
+    .from('knowledge_base')
+    .select('file_name, created_at, file_size, processed_at')
+    .eq('custom_gpt_id', customGptId);
+
+  if (filter.fileIds) query = query.in('id', filter.fileIds);
+  if (filter.tags) query = query.overlaps('tags', filter.tags);
+  if (filter.dateFrom) query = query.gte('document_date', filter.dateFrom);
+  if (filter.dateTo) query = query.lte('document_date', filter.dateTo);
+  if (filter.author) query = query.ilike('author', filter.author.replace(/[%_\\]/g, '\\$&'));
+  if (filter.language) query = query.eq('language', filter.language);
+  if (filter.metadata) query = query.contains('custom_metadata', filter.metadata);
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(20);
+
+  if (error) {
+    console.error('Failed to load knowledge files:', error);
+  }
+  return data || [];
+}
+
+// Run the planned searches, fusing semantic and keyword rankings, then
+// rerank the candidates if the GPT asks for it
+async function searchKnowledgeBase(
+  supabase: SupabaseClient,
+  embedder: LLMProvider,
+  plan: QueryPlan,
+  gpt: AnswerGpt,
+  search: SearchSettings,
+  filter: RetrievalFilter
+): Promise<Citation[]> {
+  // Only vectors from the GPT's own model are comparable with its chunks
+  const queries = await embedQueries(embedder, gpt.embedding_model, plan);
+  console.log('Generated query embeddings:', queries.length);
+
+  const { reranker } = search;
+
+  try {
+    const chunks = await retrieveChunks(supabase, queries, {
+      customGptId: gpt.id,
+      matchThreshold: search.matchThreshold,
+      matchCount: search.matchCount,
+      vectorWeight: search.vectorWeight,
+      keywordWeight: search.keywordWeight,
+      filter,
+      rerank: reranker ? { reranker, query: plan.queries.join('\n') } : undefined,
+    });
+    console.log(`Knowledge search returned ${chunks.length} chunks${reranker ? `, reranked with ${reranker.name}` : ''}`);
+
+    return buildCitations(chunks);
+  } catch (error) {
+    console.error('Error searching knowledge base:', error);
+    return [];
+  }
+}
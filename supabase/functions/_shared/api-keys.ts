@@ -0,0 +1,91 @@
+/**
+ * Per-user OpenAI API key resolution for Supabase Edge Functions
+ *
+ * Keys are stored encrypted in `api_keys` (see supabase-encryption.ts on the
+ * client). Functions decrypt the calling user's key server-side so each user
+ * is billed on their own key. The global OPENAI_API_KEY is only used when
+ * ALLOW_GLOBAL_OPENAI_KEY is set to "true".
+ *
+ * Required secrets:
+ * - API_KEY_ENCRYPTION_KEY: must match VITE_ENCRYPTION_KEY used by the app
+ *
+ * Optional secrets:
+ * - OPENAI_API_KEY: shared fallback key
+ * - ALLOW_GLOBAL_OPENAI_KEY: "true" to use OPENAI_API_KEY for users without a key
+ *
+ * @module api-keys
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { HttpError } from './auth.ts';
+
+const encryptionKey = Deno.env.get('API_KEY_ENCRYPTION_KEY');
+const globalOpenAIKey = Deno.env.get('OPENAI_API_KEY');
+const allowGlobalKey = Deno.env.get('ALLOW_GLOBAL_OPENAI_KEY') === 'true';
+
+/**
+ * Error codes surfaced to the UI so it can point users at Settings
+ */
+export const API_KEY_ERROR_CODES = {
+  MISSING: 'API_KEY_MISSING',
+  UNREADABLE: 'API_KEY_UNREADABLE',
+} as const;
+
+/**
+ * Resolve the OpenAI API key to use on behalf of a user
+ *
+ * Also records usage: get_user_api_key() updates `last_used_at`.
+ *
+ * @param supabase - Service-role client
+ * @param userId - The user whose key should be used (the caller, or the GPT owner for background jobs)
+ * @returns The decrypted API key
+ * @throws {HttpError} 400 API_KEY_MISSING if the user has no key and the global fallback is not allowed
+ * @throws {HttpError} 400 API_KEY_UNREADABLE if the stored key cannot be decrypted
+ *
+ * @example
+ * ```typescript
+ * const apiKey = await resolveOpenAIKey(supabase, user.id);
+ * ```
+ */
+export async function resolveOpenAIKey(supabase: SupabaseClient, userId: string): Promise<string> {
+  if (encryptionKey) {
+    const { data: hasKey, error: lookupError } = await supabase
+      .from('api_keys')
+      .select('id')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (lookupError) throw lookupError;
+
+    if (hasKey) {
+      const { data: apiKey, error } = await supabase.rpc('get_user_api_key', {
+        p_user_id: userId,
+        p_encryption_key: encryptionKey,
+      });
+
+      if (error) throw error;
+
+      if (!apiKey) {
+        throw new HttpError(
+          400,
+          'Your stored OpenAI API key could not be decrypted. Please re-enter it in Settings.',
+          API_KEY_ERROR_CODES.UNREADABLE
+        );
+      }
+
+      return apiKey as string;
+    }
+  } else {
+    console.warn('API_KEY_ENCRYPTION_KEY not set; per-user API keys are unavailable');
+  }
+
+  if (allowGlobalKey && globalOpenAIKey) {
+    return globalOpenAIKey;
+  }
+
+  throw new HttpError(
+    400,
+    'No OpenAI API key configured. Add your key in Settings to continue.',
+    API_KEY_ERROR_CODES.MISSING
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * Caller authentication for Supabase Edge Functions
+ *
+ * Functions run with the service-role key, which bypasses RLS, so every
+ * function that acts on user data must identify the caller from their JWT
+ * and check ownership itself.
+ *
+ * @module auth
+ */
+
+import type { SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+
+/**
+ * Error carrying an HTTP status code, returned to the client as-is
+ *
+ * @example
+ * ```typescript
+ * throw new HttpError(404, 'Conversation not found');
+ * ```
+ */
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly code?: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Resolve the authenticated user from the request's Authorization header
+ *
+ * @param req - The incoming request
+ * @param supabase - Service-role client used to validate the token
+ * @returns The authenticated user
+ * @throws {HttpError} 401 if the header is missing or the token is invalid
+ *
+ * @example
+ * ```typescript
+ * const user = await requireUser(req, supabase);
+ * ```
+ */
+export async function requireUser(req: Request, supabase: SupabaseClient): Promise<User> {
+  const authHeader = req.headers.get('Authorization') || '';
+  const token = authHeader.replace(/^Bearer\s+/i, '').trim();
+
+  if (!token) {
+    throw new HttpError(401, 'Missing authorization header');
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+
+  if (error || !user) {
+    throw new HttpError(401, 'Invalid or expired session');
+  }
+
+  return user;
+}
+
+/**
+ * Require the service-role key as bearer token
+ *
+ * For functions meant to be called only by other functions or a scheduler,
+ * never from the browser.
+ *
+ * @param req - The incoming request
+ * @throws {HttpError} 401 if the token is not the service-role key
+ */
+export function requireServiceRole(req: Request): void {
+  const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '').trim();
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!token || !serviceKey || token !== serviceKey) {
+    throw new HttpError(401, 'This function requires the service role key');
+  }
+}
+
+/**
+ * Load a custom GPT and verify the user owns it
+ *
+ * @param supabase - Service-role client
+ * @param customGptId - GPT to load
+ * @param userId - The authenticated caller
+ * @returns The GPT row
+ * @throws {HttpError} 404 if the GPT does not exist or belongs to someone else
+ */
+export async function requireOwnedGpt<T = { id: string; user_id: string; instructions: string }>(
+  supabase: SupabaseClient,
+  customGptId: string,
+  userId: string,
+  columns = 'id, user_id, instructions'
+): Promise<T> {
+  const { data, error } = await supabase
+    .from('custom_gpts')
+    .select(columns)
+    .eq('id', customGptId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    // Same response whether missing or not owned, so ids can't be probed
+    throw new HttpError(404, 'GPT not found');
+  }
+
+  return data as T;
+}
+
+/**
+ * Turn an error into a JSON error response body and status
+ *
+ * @returns Status code and message safe to send to the client
+ */
+export function errorStatus(error: unknown): { status: number; message: string; code?: string } {
+  if (error instanceof HttpError) {
+    return { status: error.status, message: error.message, code: error.code };
+  }
+  return { status: 500, message: error instanceof Error ? error.message : 'Unknown error' };
+}
@@ -0,0 +1,101 @@
+/**
+ * Quality filter for chunks
+ *
+ * Drops chunks that would only add noise to search, and says why for each.
+ * Lists, tables and numbers are kept: they are often exactly what a user
+ * asks about.
+ *
+ * @module chunking/filter
+ */
+
+import type { DocumentSection } from '../ingest/types.ts';
+import { estimateTokens } from './tokens.ts';
+import type { ChunkingResult, DocumentChunk, DroppedChunk, DropReason } from './types.ts';
+
+// Below this a chunk is a page number, a stray label or a lone heading
+const MIN_CHUNK_TOKENS = 8;
+// Share of non-space characters that must be letters or digits
+const MIN_TEXT_RATIO = 0.5;
+const PREVIEW_CHARS = 160;
+
+/**
+ * Remove paragraphs that are pure noise before chunking
+ *
+ * Symbol runs and extraction debris would otherwise ride along inside
+ * otherwise good chunks. Only `no_text` and `garbled` apply here; short
+ * paragraphs such as list items are context for their neighbours.
+ *
+ * @returns The cleaned sections, and the removed paragraphs
+ */
+export function removeNoise(sections: DocumentSection[]): { sections: DocumentSection[]; dropped: DroppedChunk[] } {
+  const dropped: DroppedChunk[] = [];
+
+  const cleaned = sections.map((section) => {
+    const page = section.page ?? null;
+    const kept = section.text.split(/\n\s*\n/).filter((paragraph) => {
+      const reason = textReason(paragraph);
+      if (!reason) return true;
+      dropped.push(report(paragraph, reason, page, page));
+      return false;
+    });
+    return { ...section, text: kept.join('\n\n') };
+  });
+
+  return { sections: cleaned, dropped };
+}
+
+/**
+ * Why a chunk should be dropped, if it should
+ *
+ * @param content - Chunk text
+ * @param seen - Normalized texts of the chunks kept so far; updated when the chunk is kept
+ * @returns The reason, or null to keep the chunk
+ */
+export function dropReason(content: string, seen: Set<string>): DropReason | null {
+  const reason = textReason(content);
+  if (reason) return reason;
+  if (estimateTokens(content) < MIN_CHUNK_TOKENS) return 'too_short';
+
+  const key = content.toLowerCase().replace(/\s+/g, ' ').trim();
+  if (seen.has(key)) return 'duplicate';
+  seen.add(key);
+  return null;
+}
+
+/**
+ * Split chunks into those worth embedding and a report of the rest
+ */
+export function filterChunks(chunks: DocumentChunk[]): ChunkingResult {
+  const seen = new Set<string>();
+  const result: ChunkingResult = { chunks: [], dropped: [] };
+
+  for (const chunk of chunks) {
+    const reason = dropReason(chunk.content, seen);
+    if (!reason) {
+      result.chunks.push(chunk);
+      continue;
+    }
+    result.dropped.push(report(chunk.content, reason, chunk.pageStart, chunk.pageEnd));
+  }
+  return result;
+}
+
+function textReason(text: string): DropReason | null {
+  const visible = text.replace(/\s/g, '');
+  if (!visible) return null;
+  const textChars = (visible.match(/[\p{L}\p{N}]/gu) || []).length;
+
+  if (textChars === 0) return 'no_text';
+  if (textChars / visible.length < MIN_TEXT_RATIO) return 'garbled';
+  return null;
+}
+
+function report(content: string, reason: DropReason, pageStart: number | null, pageEnd: number | null): DroppedChunk {
+  return {
+    reason,
+    preview: content.length > PREVIEW_CHARS ? `${content.slice(0, PREVIEW_CHARS)}…` : content,
+    tokens: estimateTokens(content),
+    pageStart,
+    pageEnd,
+  };
+}
@@ -0,0 +1,37 @@
+import { deepEqual, equal } from 'node:assert/strict';
+import { dropReason, filterChunks, removeNoise } from './filter.ts';
+
+const chunk = (content: string, page: number | null = null) => ({ content, pageStart: page, pageEnd: page });
+
+Deno.test('dropReason explains why a chunk is left out', () => {
+  const seen = new Set<string>();
+
+  equal(dropReason('Refunds are paid back to the original card within five days.', seen), null);
+  equal(dropReason('Page 12', seen), 'too_short');
+  equal(dropReason('———— •••• ————', seen), 'no_text');
+  equal(dropReason('a~~~~~~~ b~~~~~~~ c~~~~~~~ d~~~~~~~ e~~~~~~~ f~~~~~~~ g~~~~~~~ h~~~~~~~', seen), 'garbled');
+  equal(dropReason('REFUNDS are paid back to the original card   within five days.', seen), 'duplicate');
+});
+
+Deno.test('filterChunks keeps good chunks in order and reports the rest', () => {
+  const good = 'Orders ship within two business days from our warehouse in Leeds.';
+  const result = filterChunks([chunk(good, 1), chunk('Page 1', 1), chunk(good, 2), chunk('Returns are free for thirty days after delivery.', 3)]);
+
+  deepEqual(result.chunks.map((c) => c.pageStart), [1, 3]);
+  deepEqual(result.dropped.map((d) => [d.reason, d.preview, d.pageStart]), [['too_short', 'Page 1', 1], ['duplicate', good, 2]]);
+});
+
+Deno.test('filterChunks shortens the preview of a long dropped chunk', () => {
+  const long = 'Repeated footer text. '.repeat(20).trim();
+  const { dropped } = filterChunks([chunk(long), chunk(long)]);
+
+  equal(dropped[0].reason, 'duplicate');
+  equal(dropped[0].preview, `${long.slice(0, 160)}…`);
+});
+
+Deno.test('removeNoise drops symbol runs but keeps short paragraphs', () => {
+  const { sections, dropped } = removeNoise([{ text: 'Step 1\n\n#### //// ####\n\nOpen the lid.', page: 4 }]);
+
+  deepEqual(sections, [{ text: 'Step 1\n\nOpen the lid.', page: 4 }]);
+  deepEqual(dropped.map((d) => [d.reason, d.pageStart, d.pageEnd]), [['no_text', 4, 4]]);
+});
@@ -0,0 +1,52 @@
+/**
+ * Fixed strategy: equal windows over the word stream
+ *
+ * Ignores paragraphs and headings entirely. Useful as a baseline when tuning
+ * the other strategies, and for text without usable structure such as
+ * transcripts or OCR output.
+ *
+ * @module chunking/fixed
+ */
+
+import type { DocumentSection } from '../ingest/types.ts';
+import { splitWords } from './tokens.ts';
+import type { DocumentChunk } from './types.ts';
+
+/**
+ * Chunk text into windows of `size` tokens, each starting `size - overlap` tokens after the last
+ *
+ * @param sections - Document text
+ * @param size - Tokens per window
+ * @param overlap - Tokens shared by consecutive windows
+ */
+export function chunkFixed(sections: DocumentSection[], size: number, overlap: number): DocumentChunk[] {
+  const words = sections.flatMap((section) => splitWords(section.text.trim() + '\n\n')
+    .map((word) => ({ ...word, page: section.page ?? null })));
+
+  const chunks: DocumentChunk[] = [];
+  let start = 0;
+  while (start < words.length) {
+    let end = start;
+    let tokens = 0;
+    while (end < words.length && (end === start || tokens + words[end].tokens <= size)) {
+      tokens += words[end++].tokens;
+    }
+
+    const window = words.slice(start, end);
+    chunks.push({
+      content: window.map((w) => w.text).join('').trim(),
+      pageStart: window.find((w) => w.page !== null)?.page ?? null,
+      pageEnd: window.findLast((w) => w.page !== null)?.page ?? null,
+    });
+    if (end >= words.length) break;
+
+    // Step back over `overlap` tokens, but always move forward
+    let next = end;
+    let overlapTokens = 0;
+    while (next - 1 > start && overlapTokens + words[next - 1].tokens <= overlap) {
+      overlapTokens += words[--next].tokens;
+    }
+    start = next;
+  }
+  return chunks;
+}
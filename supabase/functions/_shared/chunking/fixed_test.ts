@@ -0,0 +1,23 @@
+import { deepEqual } from 'node:assert/strict';
+import { chunkFixed } from './fixed.ts';
+
+const words = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => `w${from + i}`).join(' ');
+
+Deno.test('chunkFixed cuts equal windows that overlap by the given tokens', () => {
+  // "w1".."w9" are one word and one number piece each: two tokens
+  const chunks = chunkFixed([{ text: words(1, 9) }], 8, 2);
+
+  deepEqual(chunks.map((c) => c.content), ['w1 w2 w3 w4', 'w4 w5 w6 w7', 'w7 w8 w9']);
+});
+
+Deno.test('chunkFixed ignores structure and reports pages', () => {
+  const chunks = chunkFixed([{ text: '# One\n\nw1 w2', page: 1 }, { text: 'w3 w4', page: 2 }], 100, 0);
+
+  deepEqual(chunks, [{ content: '# One\n\nw1 w2\n\nw3 w4', pageStart: 1, pageEnd: 2 }]);
+});
+
+Deno.test('chunkFixed always moves forward when the overlap is as large as the window', () => {
+  const chunks = chunkFixed([{ text: words(1, 3) }], 2, 2);
+
+  deepEqual(chunks.map((c) => c.content), ['w1', 'w2', 'w3']);
+});
@@ -0,0 +1,140 @@
+/**
+ * Heading strategy: one topic per chunk, labelled with its heading path
+ *
+ * Text is grouped under the heading it appears below. A section that fits in
+ * a chunk is never split, small neighbouring sections share a chunk, and
+ * larger ones are packed by tokens. Every chunk starts with the path of
+ * headings it belongs to ("Returns > Damaged items"), so a passage that
+ * only makes sense under its heading still embeds and reads correctly.
+ *
+ * Headings are recognized as Markdown `#` lines (which the DOCX, HTML and
+ * EPUB extractors emit), numbered section titles ("2.3 Shipping") and short
+ * all-caps lines that are mostly letters (so "SKU 4411-22" stays text). A
+ * heading with nothing under it is kept as text of its parent section, unless
+ * a subheading follows and carries it in its path.
+ *
+ * @module chunking/heading
+ */
+
+import type { DocumentSection } from '../ingest/types.ts';
+import { packPieces, paragraphPieces, type Piece } from './pack.ts';
+import { estimateTokens } from './tokens.ts';
+import type { DocumentChunk } from './types.ts';
+
+interface Topic {
+  path: string[];
+  pieces: Piece[];
+}
+
+const MAX_HEADING_CHARS = 120;
+// Share of an all-caps line's non-space characters that must be letters
+const MIN_CAPS_LETTER_RATIO = 0.7;
+
+/**
+ * Recognize a heading paragraph
+ *
+ * @returns Its level (1 = top) and text, or null for body text
+ */
+export function parseHeading(paragraph: string): { level: number; text: string } | null {
+  if (paragraph.includes('\n') || paragraph.length > MAX_HEADING_CHARS) return null;
+
+  const markdown = paragraph.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+  if (markdown) return { level: markdown[1].length, text: markdown[2] };
+
+  // "2.3 Shipping" / "4. Returns", but not a sentence that starts with a number
+  const numbered = paragraph.match(/^(\d+(?:\.\d+)*)\.?\s+(\p{Lu}[^.!?:;,]*)$/u);
+  if (numbered && numbered[2].length <= 80) {
+    return { level: numbered[1].split('.').length, text: paragraph };
+  }
+
+  // Part numbers and codes ("AB-100 CD-200") are capitals too, but mostly not letters
+  const letters = paragraph.replace(/[^\p{L}]/gu, '');
+  const mostlyLetters = letters.length >= MIN_CAPS_LETTER_RATIO * paragraph.replace(/\s/g, '').length;
+  if (letters.length >= 3 && paragraph.length <= 60 && mostlyLetters && letters === letters.toUpperCase() && letters !== letters.toLowerCase()) {
+    return { level: 1, text: paragraph };
+  }
+  return null;
+}
+
+/**
+ * Chunk text along its headings
+ *
+ * @param sections - Document text
+ * @param size - Maximum tokens per chunk, heading path included
+ * @param overlap - Tokens repeated between consecutive chunks of one long section
+ */
+export function chunkByHeadings(sections: DocumentSection[], size: number, overlap: number): DocumentChunk[] {
+  const topics: Topic[] = [];
+  const path: { level: number; text: string }[] = [];
+  let topic: Topic = { path: [], pieces: [] };
+  // The heading that opened `topic`, with the path above it
+  let opened: { piece: Piece; level: number; parentPath: string[] } | null = null;
+
+  // A subheading carries an empty topic's heading in its path; anything else
+  // would lose it, so it becomes text of the section above
+  const closeTopic = (nextLevel: number | null) => {
+    if (topic.pieces.length > 0) {
+      topics.push(topic);
+    } else if (opened && (nextLevel === null || nextLevel <= opened.level)) {
+      topics.push({ path: opened.parentPath, pieces: [opened.piece] });
+    }
+  };
+
+  for (const piece of paragraphPieces(sections)) {
+    const heading = parseHeading(piece.text);
+    if (!heading) {
+      topic.pieces.push(piece);
+      continue;
+    }
+
+    closeTopic(heading.level);
+    while (path.length > 0 && path[path.length - 1].level >= heading.level) path.pop();
+    opened = {
+      piece: { ...piece, text: heading.text, tokens: estimateTokens(heading.text) },
+      level: heading.level,
+      parentPath: path.map((h) => h.text),
+    };
+    path.push(heading);
+    topic = { path: path.map((h) => h.text), pieces: [] };
+  }
+  closeTopic(null);
+
+  const chunks: DocumentChunk[] = [];
+  // Whether the last chunk holds whole topics, so a small next topic may join it
+  let lastIsWhole = false;
+  let lastTokens = 0;
+
+  for (const { path: topicPath, pieces } of topics) {
+    const label = topicPath.join(' > ');
+    const labelTokens = label ? estimateTokens(label) + 1 : 0;
+    const bodyTokens = pieces.reduce((sum, p) => sum + p.tokens, 0);
+
+    if (labelTokens + bodyTokens <= size) {
+      const content = [label, ...pieces.map((p) => p.text)].filter(Boolean).join('\n\n');
+      const pageStart = pieces[0].page;
+      const pageEnd = pieces[pieces.length - 1].page;
+      const last = chunks[chunks.length - 1];
+
+      if (last && lastIsWhole && lastTokens + labelTokens + bodyTokens <= size) {
+        last.content += '\n\n' + content;
+        last.pageStart ??= pageStart;
+        last.pageEnd = pageEnd ?? last.pageEnd;
+        lastTokens += labelTokens + bodyTokens;
+      } else {
+        chunks.push({ content, pageStart, pageEnd });
+        lastIsWhole = true;
+        lastTokens = labelTokens + bodyTokens;
+      }
+      continue;
+    }
+
+    // Too big to keep whole: pack its paragraphs, repeating the label on every piece
+    const budget = Math.max(size - labelTokens, Math.ceil(size / 2));
+    for (const chunk of packPieces(pieces, budget, overlap)) {
+      chunks.push({ ...chunk, content: label ? `${label}\n\n${chunk.content}` : chunk.content });
+    }
+    lastIsWhole = false;
+  }
+
+  return chunks;
+}
@@ -0,0 +1,51 @@
+import { deepEqual, equal, ok } from 'node:assert/strict';
+import { chunkByHeadings, parseHeading } from './heading.ts';
+
+Deno.test('parseHeading recognizes Markdown, numbered and all-caps headings', () => {
+  deepEqual(parseHeading('## Returns ##'), { level: 2, text: 'Returns' });
+  deepEqual(parseHeading('2.3 Shipping'), { level: 2, text: '2.3 Shipping' });
+  deepEqual(parseHeading('4. Returns'), { level: 1, text: '4. Returns' });
+  deepEqual(parseHeading('WARRANTY TERMS'), { level: 1, text: 'WARRANTY TERMS' });
+});
+
+Deno.test('parseHeading leaves body text, sentences and codes alone', () => {
+  equal(parseHeading('Refunds take five business days.'), null);
+  equal(parseHeading('3 items ship today, the rest tomorrow.'), null);
+  equal(parseHeading('AB-100 CD-200 EF-300'), null);
+  equal(parseHeading('SKU 4411-22'), null);
+  equal(parseHeading('# Title\nwith a second line'), null);
+});
+
+Deno.test('chunkByHeadings labels chunks with their heading path', () => {
+  const text = '# Returns\n\n## Damaged items\n\nSend a photo of the damage within 14 days.\n\n# Shipping\n\nWe ship worldwide.';
+  const chunks = chunkByHeadings([{ text, page: 1 }], 20, 0);
+
+  deepEqual(chunks.map((c) => c.content), [
+    'Returns > Damaged items\n\nSend a photo of the damage within 14 days.',
+    'Shipping\n\nWe ship worldwide.',
+  ]);
+});
+
+Deno.test('chunkByHeadings lets small sections share a chunk', () => {
+  const text = '# Returns\n\nWithin 30 days.\n\n# Shipping\n\nWorldwide.';
+
+  deepEqual(chunkByHeadings([{ text }], 100, 0).map((c) => c.content), [
+    'Returns\n\nWithin 30 days.\n\nShipping\n\nWorldwide.',
+  ]);
+});
+
+Deno.test('chunkByHeadings keeps codes as text and headings without a body', () => {
+  const text = 'PARTS\n\nAB-100 CD-200 EF-300\n\n# Empty\n\n# Shipping\n\nWe ship worldwide.\n\n# Tail';
+
+  deepEqual(chunkByHeadings([{ text }], 100, 0).map((c) => c.content), [
+    'PARTS\n\nAB-100 CD-200 EF-300\n\nEmpty\n\nShipping\n\nWe ship worldwide.\n\nTail',
+  ]);
+});
+
+Deno.test('chunkByHeadings repeats the label on every chunk of a long section', () => {
+  const body = Array.from({ length: 6 }, (_, i) => `Step ${i + 1} of the return process is described here.`).join('\n\n');
+  const chunks = chunkByHeadings([{ text: `# Returns\n\n${body}` }], 30, 0);
+
+  ok(chunks.length > 1);
+  for (const chunk of chunks) ok(chunk.content.startsWith('Returns\n\nStep'));
+});
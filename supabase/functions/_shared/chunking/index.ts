@@ -0,0 +1,85 @@
+/**
+ * Chunking strategies for knowledge files
+ *
+ * Turns an extracted document into chunks for `document_chunks` with the
+ * strategy, size and overlap a GPT is configured for, and reports every
+ * chunk it leaves out and why. Independent of storage and embeddings, so
+ * strategies can be compared on the same document.
+ *
+ * @module chunking
+ */
+
+import type { ExtractedDocument } from '../ingest/types.ts';
+import { filterChunks, removeNoise } from './filter.ts';
+import { chunkFixed } from './fixed.ts';
+import { chunkByHeadings } from './heading.ts';
+import { chunkTable } from './table.ts';
+import { chunkByTokens } from './token.ts';
+import {
+  CHUNKING_STRATEGIES,
+  DEFAULT_CHUNKING_OPTIONS,
+  MAX_CHUNK_SIZE,
+  MIN_CHUNK_SIZE,
+  type ChunkingOptions,
+  type ChunkingResult,
+  type ChunkingStrategy,
+} from './types.ts';
+
+export * from './types.ts';
+export { estimateTokens } from './tokens.ts';
+export { parseHeading } from './heading.ts';
+export { dropReason } from './filter.ts';
+export { chunkByTokens, chunkByHeadings, chunkFixed, chunkTable };
+
+/**
+ * Whether a value names a chunking strategy
+ */
+export function isChunkingStrategy(value: unknown): value is ChunkingStrategy {
+  return typeof value === 'string' && (CHUNKING_STRATEGIES as string[]).includes(value);
+}
+
+/**
+ * Clamp options to workable values
+ *
+ * Unknown strategies fall back to the default; overlap is limited to half a
+ * chunk so every chunk adds new text.
+ */
+export function normalizeChunkingOptions(options: Partial<ChunkingOptions>): ChunkingOptions {
+  const chunkSize = Math.min(MAX_CHUNK_SIZE, Math.max(MIN_CHUNK_SIZE, Math.round(options.chunkSize ?? DEFAULT_CHUNKING_OPTIONS.chunkSize)));
+  return {
+    strategy: isChunkingStrategy(options.strategy) ? options.strategy : DEFAULT_CHUNKING_OPTIONS.strategy,
+    chunkSize,
+    overlap: Math.min(Math.floor(chunkSize / 2), Math.max(0, Math.round(options.overlap ?? DEFAULT_CHUNKING_OPTIONS.overlap))),
+  };
+}
+
+/**
+ * Split an extracted document into chunks
+ *
+ * @param document - Output of `extractDocument`
+ * @param options - Strategy, chunk size and overlap; missing values use the defaults
+ * @returns Kept chunks in document order, and the dropped ones with their reasons
+ *
+ * @example
+ * ```typescript
+ * const { chunks, dropped } = chunkDocument(document, { strategy: 'heading', chunkSize: 300, overlap: 40 });
+ * console.log(`${chunks.length} chunks, dropped:`, dropped.map((d) => d.reason));
+ * ```
+ */
+export function chunkDocument(document: ExtractedDocument, options: Partial<ChunkingOptions> = {}): ChunkingResult {
+  const { strategy, chunkSize, overlap } = normalizeChunkingOptions(options);
+
+  if (document.kind === 'table') {
+    return filterChunks(chunkTable(document.table, chunkSize));
+  }
+
+  const { sections, dropped: noise } = removeNoise(document.sections);
+  const chunks = strategy === 'heading'
+    ? chunkByHeadings(sections, chunkSize, overlap)
+    : strategy === 'fixed'
+      ? chunkFixed(sections, chunkSize, overlap)
+      : chunkByTokens(sections, chunkSize, overlap);
+
+  const result = filterChunks(chunks);
+  return { chunks: result.chunks, dropped: [...noise, ...result.dropped] };
+}
@@ -0,0 +1,46 @@
+import { deepEqual, equal } from 'node:assert/strict';
+import { chunkDocument, DEFAULT_CHUNKING_OPTIONS, MAX_CHUNK_SIZE, MIN_CHUNK_SIZE, normalizeChunkingOptions } from './index.ts';
+
+Deno.test('normalizeChunkingOptions fills in the defaults', () => {
+  deepEqual(normalizeChunkingOptions({}), DEFAULT_CHUNKING_OPTIONS);
+});
+
+Deno.test('normalizeChunkingOptions clamps the chunk size and rounds it', () => {
+  equal(normalizeChunkingOptions({ chunkSize: 10 }).chunkSize, MIN_CHUNK_SIZE);
+  equal(normalizeChunkingOptions({ chunkSize: 10_000 }).chunkSize, MAX_CHUNK_SIZE);
+  equal(normalizeChunkingOptions({ chunkSize: 250.6 }).chunkSize, 251);
+});
+
+Deno.test('normalizeChunkingOptions limits the overlap to half a chunk', () => {
+  deepEqual(normalizeChunkingOptions({ chunkSize: 200, overlap: 500 }), { strategy: 'token', chunkSize: 200, overlap: 100 });
+  equal(normalizeChunkingOptions({ overlap: -5 }).overlap, 0);
+});
+
+Deno.test('normalizeChunkingOptions falls back to the default strategy', () => {
+  equal(normalizeChunkingOptions({ strategy: 'semantic' as never }).strategy, 'token');
+  equal(normalizeChunkingOptions({ strategy: 'heading' }).strategy, 'heading');
+});
+
+Deno.test('chunkDocument reports noise and dropped chunks together', () => {
+  // About 60 tokens each, so every paragraph fills a chunk of its own
+  const terms = 'Orders ship within two business days from our warehouse, and every order is tracked until it arrives. '.repeat(3).trim();
+  const returns = 'Returns are free for thirty days after delivery, as long as the item is unused and in its box. '.repeat(3).trim();
+  const text = [terms, '~~~~ ---- ~~~~', returns, terms].join('\n\n');
+
+  const { chunks, dropped } = chunkDocument(
+    { format: 'text', kind: 'text', sections: [{ text, page: 1 }] },
+    { strategy: 'token', chunkSize: 100, overlap: 0 },
+  );
+
+  deepEqual(chunks.map((c) => c.content), [terms, returns]);
+  deepEqual(dropped.map((d) => d.reason), ['no_text', 'duplicate']);
+});
+
+Deno.test('chunkDocument chunks tables by rows whatever the strategy', () => {
+  const { chunks } = chunkDocument(
+    { format: 'csv', kind: 'table', table: { header: ['Question', 'Answer'], rows: [['How long is the warranty?', 'Two years from the date of purchase']] } },
+    { strategy: 'fixed' },
+  );
+
+  deepEqual(chunks.map((c) => c.content), ['Question: How long is the warranty?; Answer: Two years from the date of purchase']);
+});
@@ -0,0 +1,118 @@
+/**
+ * Packing text pieces into token-bounded chunks
+ *
+ * The building block of the `token` and `heading` strategies: pieces
+ * (paragraphs, or sentences of paragraphs too long to keep whole) are added
+ * to a chunk until the next one would overflow it, and each new chunk starts
+ * with the tail of the previous one.
+ *
+ * @module chunking/pack
+ */
+
+import type { DocumentSection } from '../ingest/types.ts';
+import { estimateTokens, splitWords, tailTokens } from './tokens.ts';
+import type { DocumentChunk } from './types.ts';
+
+export interface Piece {
+  text: string;
+  tokens: number;
+  page: number | null;
+  /** Separator placed before this piece when it follows another in a chunk */
+  joiner: '\n\n' | '\n' | ' ';
+}
+
+// Sentence ends, in Latin and CJK punctuation
+const SENTENCE_END = /(?<=[.!?…。！？])\s+/;
+
+/**
+ * One piece per paragraph, in document order
+ */
+export function paragraphPieces(sections: DocumentSection[]): Piece[] {
+  return sections.flatMap((section) => section.text
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((text): Piece => ({ text, tokens: estimateTokens(text), page: section.page ?? null, joiner: '\n\n' })));
+}
+
+/**
+ * Split a piece that is larger than `size` into lines, then sentences, then word windows
+ */
+export function splitOversized(piece: Piece, size: number): Piece[] {
+  if (piece.tokens <= size) return [piece];
+
+  const parts: Piece[] = [];
+  piece.text.split('\n').forEach((line, lineIndex) => {
+    line.split(SENTENCE_END).forEach((sentence, sentenceIndex) => {
+      const text = sentence.trim();
+      if (!text) return;
+      const joiner = lineIndex === 0 && sentenceIndex === 0 ? piece.joiner : sentenceIndex === 0 ? '\n' : ' ';
+      parts.push(...wordWindows({ text, tokens: estimateTokens(text), page: piece.page, joiner }, size));
+    });
+  });
+  return parts;
+}
+
+// Last resort for sentences longer than a chunk
+function wordWindows(piece: Piece, size: number): Piece[] {
+  if (piece.tokens <= size) return [piece];
+
+  const windows: Piece[] = [];
+  let text = '';
+  let tokens = 0;
+  for (const word of splitWords(piece.text)) {
+    if (text && tokens + word.tokens > size) {
+      windows.push({ text: text.trim(), tokens, page: piece.page, joiner: windows.length === 0 ? piece.joiner : ' ' });
+      text = '';
+      tokens = 0;
+    }
+    text += word.text;
+    tokens += word.tokens;
+  }
+  if (text.trim()) {
+    windows.push({ text: text.trim(), tokens, page: piece.page, joiner: windows.length === 0 ? piece.joiner : ' ' });
+  }
+  return windows;
+}
+
+/**
+ * Pack pieces into chunks of at most `size` tokens, overlapping by `overlap`
+ *
+ * @param pieces - Text in document order
+ * @param size - Maximum tokens per chunk
+ * @param overlap - Tokens from the end of each chunk repeated at the start of the next
+ * @returns Chunks with the pages they span
+ */
+export function packPieces(pieces: Piece[], size: number, overlap: number): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  let current: { content: string; tokens: number; pageStart: number | null; pageEnd: number | null } | null = null;
+  // Whether `current` holds anything beyond the previous chunk's overlap
+  let fresh = false;
+
+  for (const piece of pieces.flatMap((p) => splitOversized(p, size))) {
+    if (current && current.tokens + piece.tokens > size) {
+      if (fresh) chunks.push({ content: current.content, pageStart: current.pageStart, pageEnd: current.pageEnd });
+
+      const tail = tailTokens(current.content, Math.min(overlap, size - piece.tokens));
+      current = tail
+        ? { content: tail, tokens: estimateTokens(tail), pageStart: current.pageEnd, pageEnd: current.pageEnd }
+        : null;
+      fresh = false;
+    }
+
+    if (current) {
+      current.content += piece.joiner + piece.text;
+      current.tokens += piece.tokens;
+      current.pageStart ??= piece.page;
+      current.pageEnd = piece.page ?? current.pageEnd;
+    } else {
+      current = { content: piece.text, tokens: piece.tokens, pageStart: piece.page, pageEnd: piece.page };
+    }
+    fresh = true;
+  }
+
+  if (current && fresh) {
+    chunks.push({ content: current.content, pageStart: current.pageStart, pageEnd: current.pageEnd });
+  }
+  return chunks;
+}
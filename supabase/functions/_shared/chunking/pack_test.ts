@@ -0,0 +1,42 @@
+import { deepEqual, equal } from 'node:assert/strict';
+import { packPieces, type Piece } from './pack.ts';
+import { estimateTokens } from './tokens.ts';
+
+const piece = (text: string, page: number | null = null): Piece => ({ text, tokens: estimateTokens(text), page, joiner: '\n\n' });
+
+// 12 tokens: "Sentence" is two, the rest one each
+const sentence = (n: number) => `Sentence ${n} has some plain words in it here now.`;
+
+Deno.test('packPieces keeps pieces whole while they fit', () => {
+  const chunks = packPieces([piece('One two three.'), piece('Four five six.')], 100, 10);
+  deepEqual(chunks, [{ content: 'One two three.\n\nFour five six.', pageStart: null, pageEnd: null }]);
+});
+
+Deno.test('packPieces starts each chunk with the tail of the previous one', () => {
+  const chunks = packPieces([1, 2, 3, 4].map((n) => piece(sentence(n))), 25, 5);
+
+  deepEqual(chunks.map((c) => c.content), [
+    `${sentence(1)}\n\n${sentence(2)}`,
+    `in it here now.\n\n${sentence(3)}`,
+    `in it here now.\n\n${sentence(4)}`,
+  ]);
+});
+
+Deno.test('packPieces without overlap repeats nothing', () => {
+  const pieces = [1, 2, 3, 4].map((n) => piece(sentence(n)));
+  const chunks = packPieces(pieces, 25, 0);
+
+  equal(chunks.map((c) => c.content).join('\n\n'), pieces.map((p) => p.text).join('\n\n'));
+});
+
+Deno.test('packPieces splits a piece larger than a chunk', () => {
+  const chunks = packPieces([piece([1, 2, 3].map(sentence).join(' '))], 15, 0);
+
+  deepEqual(chunks.map((c) => c.content), [1, 2, 3].map(sentence));
+});
+
+Deno.test('packPieces reports the pages a chunk spans', () => {
+  const chunks = packPieces([piece(sentence(1), 1), piece(sentence(2), 2), piece(sentence(3), 3)], 30, 0);
+
+  deepEqual(chunks.map((c) => [c.pageStart, c.pageEnd]), [[1, 2], [3, 3]]);
+});
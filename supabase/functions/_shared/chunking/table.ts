@@ -0,0 +1,71 @@
+/**
+ * Chunking for CSV and TSV tables
+ *
+ * The same for every strategy: rows are the natural unit of a table, so they
+ * are never split or overlapped.
+ *
+ * @module chunking/table
+ */
+
+import type { TableData } from '../ingest/types.ts';
+import { estimateTokens, splitWords } from './tokens.ts';
+import type { DocumentChunk } from './types.ts';
+
+/**
+ * Pack table rows into chunks of at most `size` tokens without splitting a row
+ *
+ * Each row is written as `column: value` pairs so a chunk stands on its own
+ * without the header row. Only a single row larger than a chunk is split.
+ */
+export function chunkTable(table: TableData, size: number): DocumentChunk[] {
+  const { header, rows } = table;
+
+  // A single-row file is all header
+  const lines = rows.length === 0
+    ? [header.filter(Boolean).join(' | ')]
+    : rows.map((row) => row
+      .map((value, i) => (value ? `${header[i] || `Column ${i + 1}`}: ${value.replace(/\s+/g, ' ')}` : ''))
+      .filter(Boolean)
+      .join('; '));
+
+  const contents: string[] = [];
+  let current = '';
+  let currentTokens = 0;
+  for (const line of lines.filter(Boolean)) {
+    const tokens = estimateTokens(line);
+    if (tokens > size) {
+      if (current) contents.push(current);
+      current = '';
+      currentTokens = 0;
+      contents.push(...splitRow(line, size));
+      continue;
+    }
+    if (current && currentTokens + tokens > size) {
+      contents.push(current);
+      current = '';
+      currentTokens = 0;
+    }
+    current += (current ? '\n' : '') + line;
+    currentTokens += tokens;
+  }
+  if (current) contents.push(current);
+
+  return contents.map((content) => ({ content, pageStart: null, pageEnd: null }));
+}
+
+function splitRow(line: string, size: number): string[] {
+  const parts: string[] = [];
+  let part = '';
+  let tokens = 0;
+  for (const word of splitWords(line)) {
+    if (part && tokens + word.tokens > size) {
+      parts.push(part.trim());
+      part = '';
+      tokens = 0;
+    }
+    part += word.text;
+    tokens += word.tokens;
+  }
+  if (part.trim()) parts.push(part.trim());
+  return parts;
+}
@@ -0,0 +1,29 @@
+import { deepEqual } from 'node:assert/strict';
+import { chunkTable } from './table.ts';
+
+Deno.test('chunkTable writes rows as column: value pairs and skips empty cells', () => {
+  const chunks = chunkTable({ header: ['Name', 'Price', ''], rows: [['Lamp', '20', 'white'], ['Desk', '', '']] }, 100);
+
+  deepEqual(chunks, [{ content: 'Name: Lamp; Price: 20; Column 3: white\nName: Desk', pageStart: null, pageEnd: null }]);
+});
+
+Deno.test('chunkTable starts a new chunk instead of splitting a row', () => {
+  const rows = [['Lamp', 'A white desk lamp'], ['Desk', 'A wide oak desk'], ['Chair', 'A red office chair']];
+  const chunks = chunkTable({ header: ['Name', 'Description'], rows }, 15);
+
+  deepEqual(chunks.map((c) => c.content), [
+    'Name: Lamp; Description: A white desk lamp',
+    'Name: Desk; Description: A wide oak desk',
+    'Name: Chair; Description: A red office chair',
+  ]);
+});
+
+Deno.test('chunkTable splits only a row larger than a chunk', () => {
+  const chunks = chunkTable({ header: ['Notes'], rows: [['one two three four five six']] }, 4);
+
+  deepEqual(chunks.map((c) => c.content), ['Notes: one two', 'three four five six']);
+});
+
+Deno.test('chunkTable turns a header-only file into one chunk', () => {
+  deepEqual(chunkTable({ header: ['Name', '', 'Price'], rows: [] }, 100).map((c) => c.content), ['Name | Price']);
+});
@@ -0,0 +1,23 @@
+/**
+ * Token strategy: paragraphs packed up to a token budget, with overlap
+ *
+ * @module chunking/token
+ */
+
+import type { DocumentSection } from '../ingest/types.ts';
+import { packPieces, paragraphPieces } from './pack.ts';
+import type { DocumentChunk } from './types.ts';
+
+/**
+ * Chunk flowing text by tokens
+ *
+ * Paragraphs are kept whole when they fit and packed across section (page)
+ * boundaries; longer paragraphs are split at sentence ends.
+ *
+ * @param sections - Document text
+ * @param size - Maximum tokens per chunk
+ * @param overlap - Tokens repeated between consecutive chunks
+ */
+export function chunkByTokens(sections: DocumentSection[], size: number, overlap: number): DocumentChunk[] {
+  return packPieces(paragraphPieces(sections), size, overlap);
+}
@@ -0,0 +1,27 @@
+import { deepEqual, ok } from 'node:assert/strict';
+import { chunkByTokens } from './token.ts';
+import { estimateTokens } from './tokens.ts';
+
+const paragraph = (n: number) => `Paragraph ${n} talks about refunds and how long they take to arrive.`;
+
+Deno.test('chunkByTokens packs paragraphs across pages', () => {
+  const chunks = chunkByTokens([{ text: paragraph(1), page: 1 }, { text: paragraph(2), page: 2 }], 100, 10);
+
+  deepEqual(chunks, [{ content: `${paragraph(1)}\n\n${paragraph(2)}`, pageStart: 1, pageEnd: 2 }]);
+});
+
+Deno.test('chunkByTokens stays within the chunk size and overlaps consecutive chunks', () => {
+  const text = [1, 2, 3, 4, 5, 6].map(paragraph).join('\n\n');
+  // 15 tokens a paragraph: two per chunk, and the last 8 tokens of one carried into the next
+  const chunks = chunkByTokens([{ text }], 40, 8);
+
+  ok(chunks.length > 1);
+  for (const [i, chunk] of chunks.entries()) {
+    ok(estimateTokens(chunk.content) <= 40, `chunk ${i} is too large`);
+    if (i > 0) ok(chunk.content.startsWith('and how long they take to arrive.\n\nParagraph'), `chunk ${i} lacks the overlap`);
+  }
+});
+
+Deno.test('chunkByTokens returns nothing for empty text', () => {
+  deepEqual(chunkByTokens([{ text: '' }, { text: '\n\n' }], 100, 10), []);
+});
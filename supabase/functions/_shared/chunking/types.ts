@@ -0,0 +1,60 @@
+/**
+ * Shared types for chunking strategies
+ *
+ * @module chunking/types
+ */
+
+import type { DocumentChunk } from '../ingest/types.ts';
+
+export type { DocumentChunk };
+
+/**
+ * - `token`: packs paragraphs, then sentences, up to a token budget, with overlap
+ * - `heading`: keeps each heading's section together and labels chunks with their heading path
+ * - `fixed`: equal windows of the word stream, ignoring document structure
+ */
+export type ChunkingStrategy = 'token' | 'heading' | 'fixed';
+
+export const CHUNKING_STRATEGIES: ChunkingStrategy[] = ['token', 'heading', 'fixed'];
+
+export interface ChunkingOptions {
+  strategy: ChunkingStrategy;
+  /** Target chunk size in (estimated) tokens */
+  chunkSize: number;
+  /** Tokens repeated from the end of one chunk at the start of the next */
+  overlap: number;
+}
+
+/** Keep in sync with the custom_gpts chunking CHECK constraints */
+export const MIN_CHUNK_SIZE = 100;
+export const MAX_CHUNK_SIZE = 1500;
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  strategy: 'token',
+  chunkSize: 400,
+  overlap: 60,
+};
+
+/**
+ * Why a chunk was left out
+ *
+ * - `too_short`: fewer tokens than a chunk needs to mean anything (page numbers, stray labels)
+ * - `no_text`: no letters or digits at all
+ * - `garbled`: mostly symbols, typically a failed text extraction
+ * - `duplicate`: same text as an earlier chunk (repeated headers and footers)
+ */
+export type DropReason = 'too_short' | 'no_text' | 'garbled' | 'duplicate';
+
+export interface DroppedChunk {
+  reason: DropReason;
+  /** Start of the dropped text */
+  preview: string;
+  tokens: number;
+  pageStart: number | null;
+  pageEnd: number | null;
+}
+
+export interface ChunkingResult {
+  chunks: DocumentChunk[];
+  dropped: DroppedChunk[];
+}
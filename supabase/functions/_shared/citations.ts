@@ -0,0 +1,106 @@
+/**
+ * Numbered knowledge base sources for chat answers
+ *
+ * Retrieved chunks are put in the system prompt as numbered sources labelled
+ * with their file, page and chunk. The model cites them with `[n]` markers,
+ * and the same numbered list goes back to the client so each marker can be
+ * resolved to the passage it refers to.
+ *
+ * @module citations
+ */
+
+/** A chunk returned by the `hybrid_match_documents` (or `match_documents`) RPC */
+export interface MatchedChunk {
+  id: string;
+  content: string;
+  similarity: number;
+  knowledge_base_id: string;
+  file_name: string;
+  chunk_index: number;
+  page_start: number | null;
+  page_end: number | null;
+  /** Position in the semantic ranking; hybrid search only, null if only the keyword search found it */
+  vector_rank?: number | null;
+  /** Position in the keyword ranking; hybrid search only, null if only the semantic search found it */
+  keyword_rank?: number | null;
+  /** Fused rank score; hybrid search only */
+  score?: number;
+  /** Set when the chunk went through reranking (0-1); null if the reranker failed */
+  rerank_score?: number | null;
+}
+
+export interface Citation {
+  /** The number the model cites this source with, starting at 1 */
+  index: number;
+  chunkId: string;
+  knowledgeBaseId: string;
+  fileName: string;
+  chunkIndex: number;
+  pageStart: number | null;
+  pageEnd: number | null;
+  /** Similarity to the query as a percentage, e.g. "82.4" */
+  similarity: string;
+  /** Reranker score as a percentage, or null when the chunk was not reranked */
+  rerankScore: string | null;
+  /** The chunk text the model was given */
+  content: string;
+}
+
+export const CITATION_INSTRUCTIONS = [
+  'When you use information from a numbered source, cite it right after the statement with its number in square brackets, e.g. [1] or [2][3].',
+  'Only cite sources from the list above, and never invent source numbers.',
+  'Do not add a list of sources at the end; the sources are shown to the user separately.',
+].join(' ');
+
+/**
+ * Number retrieved chunks in ranking order
+ *
+ * @param chunks - Rows from the retrieval RPC, best match first
+ * @returns One citation per chunk; `index` is its position counting from 1
+ */
+export function buildCitations(chunks: MatchedChunk[]): Citation[] {
+  return chunks.map((chunk, position) => ({
+    index: position + 1,
+    chunkId: chunk.id,
+    knowledgeBaseId: chunk.knowledge_base_id,
+    fileName: chunk.file_name,
+    chunkIndex: chunk.chunk_index,
+    pageStart: chunk.page_start,
+    pageEnd: chunk.page_end,
+    similarity: (chunk.similarity * 100).toFixed(1),
+    rerankScore: chunk.rerank_score != null ? (chunk.rerank_score * 100).toFixed(1) : null,
+    content: chunk.content,
+  }));
+}
+
+/**
+ * Human-readable location of a source
+ *
+ * @example
+ * ```typescript
+ * formatSourceLabel(citation); // "handbook.pdf, pp. 4-5, chunk 12"
+ * ```
+ */
+export function formatSourceLabel(citation: Citation): string {
+  const parts = [citation.fileName];
+
+  if (citation.pageStart !== null) {
+    const pageEnd = citation.pageEnd ?? citation.pageStart;
+    parts.push(pageEnd > citation.pageStart ? `pp. ${citation.pageStart}-${pageEnd}` : `p. ${citation.pageStart}`);
+  }
+  // Chunk indexes are stored from 0
+  parts.push(`chunk ${citation.chunkIndex + 1}`);
+
+  return parts.join(', ');
+}
+
+/**
+ * Render citations as the numbered source list for the system prompt
+ *
+ * @returns Blocks of the form `[n] (file, page, chunk; similarity)` followed by the chunk text
+ */
+export function formatSourcesForPrompt(citations: Citation[]): string {
+  return citations
+    .map((citation) => `[${citation.index}] (${formatSourceLabel(citation)}; similarity ${citation.similarity}%)\n${citation.content}`)
+    .join('\n\n');
+}
@@ -0,0 +1,156 @@
+/**
+ * Conversation memory for chat completions
+ *
+ * Loads the prior messages of a conversation and fits them into a token
+ * budget. Turns that no longer fit are folded into a rolling summary stored
+ * on the conversation row, so older context is condensed rather than dropped.
+ *
+ * @module conversation-memory
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import type { ChatMessage } from './llm/types.ts';
+import { estimateTokens } from './chunking/tokens.ts';
+
+export type { ChatMessage };
+
+/**
+ * Summarizes older turns into a single paragraph
+ *
+ * @param previousSummary - The existing summary to extend, if any
+ * @param messages - The turns being folded into the summary, oldest first
+ * @returns The updated summary text
+ */
+export type SummarizeFn = (previousSummary: string | null, messages: ChatMessage[]) => Promise<string>;
+
+export interface ConversationMemoryOptions {
+  /** Approximate number of tokens the verbatim history may use */
+  tokenBudget?: number;
+  /** Used to condense turns that overflow the budget */
+  summarize: SummarizeFn;
+}
+
+const DEFAULT_TOKEN_BUDGET = 3000;
+
+/**
+ * Load the history of a conversation, trimmed to fit a token budget
+ *
+ * The newest turns are kept verbatim. When they overflow the budget, the
+ * overflowing turns (plus enough extra to leave headroom for the next few
+ * turns) are summarized and the summary is persisted on the conversation.
+ *
+ * @param supabase - Service-role client
+ * @param conversationId - Conversation to load
+ * @param options - Token budget and summarizer
+ * @returns Messages to place between the system prompt and the current user message
+ *
+ * @example
+ * ```typescript
+ * const history = await loadConversationHistory(supabase, conversationId, {
+ *   summarize: summarizeTurns,
+ * });
+ * const messages = [{ role: 'system', content: systemMessage }, ...history, { role: 'user', content: message }];
+ * ```
+ */
+export async function loadConversationHistory(
+  supabase: SupabaseClient,
+  conversationId: string,
+  options: ConversationMemoryOptions
+): Promise<ChatMessage[]> {
+  const tokenBudget = options.tokenBudget ?? DEFAULT_TOKEN_BUDGET;
+
+  const [{ data: conversation, error: conversationError }, { data: rows, error: messagesError }] = await Promise.all([
+    supabase
+      .from('conversations')
+      .select('summary, summary_message_count')
+      .eq('id', conversationId)
+      .single(),
+    supabase
+      .from('messages')
+      .select('role, content')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true }),
+  ]);
+
+  if (conversationError) throw conversationError;
+  if (messagesError) throw messagesError;
+
+  const allMessages: ChatMessage[] = (rows || [])
+    .filter((m: ChatMessage) => m.role === 'user' || m.role === 'assistant');
+
+  let summary: string | null = conversation?.summary ?? null;
+  let summarizedCount: number = conversation?.summary_message_count ?? 0;
+
+  // Messages were deleted since the summary was written; start over
+  if (summarizedCount > allMessages.length) {
+    summary = null;
+    summarizedCount = 0;
+  }
+
+  const pending = allMessages.slice(summarizedCount);
+  const keepFrom = fitToBudget(pending, tokenBudget);
+
+  if (keepFrom > 0) {
+    // Fold down to half the budget so we don't re-summarize on every turn
+    const foldUntil = Math.max(keepFrom, fitToBudget(pending, Math.floor(tokenBudget / 2)));
+    const overflow = pending.slice(0, foldUntil);
+
+    try {
+      summary = await options.summarize(summary, overflow);
+      summarizedCount += overflow.length;
+
+      const { error: updateError } = await supabase
+        .from('conversations')
+        .update({ summary, summary_message_count: summarizedCount })
+        .eq('id', conversationId);
+
+      if (updateError) {
+        console.error('Failed to persist conversation summary:', updateError);
+      }
+      console.log(`Summarized ${overflow.length} older messages`);
+    } catch (error) {
+      // Losing the oldest turns is better than failing the whole request
+      console.error('Conversation summarization failed, dropping oldest turns:', error);
+      summarizedCount += keepFrom;
+    }
+  }
+
+  const recent = allMessages.slice(summarizedCount);
+  const history: ChatMessage[] = [];
+
+  if (summary) {
+    history.push({
+      role: 'system',
+      content: `Summary of the earlier part of this conversation:\n${summary}`,
+    });
+  }
+
+  return [...history, ...recent];
+}
+
+/**
+ * Find the index of the oldest message that still fits in the budget
+ * when keeping messages newest-first
+ *
+ * @returns Index into `messages`; everything before it overflows
+ */
+function fitToBudget(messages: ChatMessage[], budget: number): number {
+  let used = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    used += estimateTokens(messages[i].content);
+    if (used > budget) {
+      // Keep whole user/assistant pairs together where possible
+      return messages[i + 1]?.role === 'assistant' ? Math.min(i + 2, messages.length) : i + 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Render turns as a plain transcript for summarization prompts
+ */
+export function formatTranscript(messages: ChatMessage[]): string {
+  return messages
+    .map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+    .join('\n\n');
+}
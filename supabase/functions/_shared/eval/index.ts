@@ -0,0 +1,14 @@
+/**
+ * Scoring for RAG evaluations
+ *
+ * An evaluation answers golden questions with the chat pipeline and scores
+ * each answer: {@link retrievalScores} checks the sources against the files
+ * the answer should come from, {@link judgeAnswer} grades the answer itself,
+ * and {@link aggregateScores} and {@link compareRuns} turn the cases into a
+ * run report.
+ *
+ * @module eval
+ */
+
+export * from './metrics.ts';
+export * from './judge.ts';
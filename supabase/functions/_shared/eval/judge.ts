@@ -0,0 +1,87 @@
+/**
+ * LLM judge for evaluation answers
+ *
+ * A utility model grades how well the sources support an answer
+ * (faithfulness) and how well it matches the expected answer (correctness).
+ * When the call fails or the reply is unusable, the lexical scores from
+ * {@link lexicalScores} are used instead and the result says so.
+ *
+ * @module eval/judge
+ */
+
+import { formatSourcesForPrompt, type Citation } from '../citations.ts';
+import type { LLMProvider } from '../llm/types.ts';
+import { lexicalScores, type AnswerScores } from './metrics.ts';
+
+export interface JudgeInput {
+  question: string;
+  answer: string;
+  citations: Citation[];
+  expectedAnswer: string | null;
+}
+
+const JUDGE_PROMPT = `You grade answers of a document assistant. Reply with a JSON object:
+{"faithfulness": number | null, "correctness": number | null}
+
+- faithfulness: 0-10, how fully the numbered sources support the claims in the answer. 10 means every claim is backed by a source; an answer that says it could not find the information is fully faithful. null when there are no sources.
+- correctness: 0-10, how well the answer agrees with the expected answer in substance; wording does not matter. null when there is no expected answer.`;
+
+// Sources beyond this are cut from the judge prompt
+const MAX_SOURCE_CHARS = 12_000;
+
+/**
+ * Grade an answer with a model, falling back to lexical scores
+ *
+ * Never throws.
+ *
+ * @param provider - Provider to judge with
+ * @param model - A cheap model is fine (e.g. `DEFAULT_MODELS[name].utility`)
+ * @param input - The question, the answer, its sources and the expected answer
+ * @returns Scores from 0 to 1, and what produced them
+ */
+export async function judgeAnswer(provider: LLMProvider, model: string, input: JudgeInput): Promise<AnswerScores> {
+  const { question, answer, citations, expectedAnswer } = input;
+  const fallback = lexicalScores(answer, citations, expectedAnswer);
+
+  const sources = citations.length > 0 ? formatSourcesForPrompt(citations).slice(0, MAX_SOURCE_CHARS) : '(none)';
+  const context = [
+    `Question:\n${question}`,
+    `Sources:\n${sources}`,
+    `Expected answer:\n${expectedAnswer?.trim() || '(none)'}`,
+    `Answer to grade:\n${answer}`,
+  ].join('\n\n');
+
+  try {
+    const reply = await provider.chat({
+      model,
+      messages: [
+        { role: 'system', content: JUDGE_PROMPT },
+        { role: 'user', content: context },
+      ],
+      maxTokens: 60,
+      temperature: 0,
+      responseFormat: 'json',
+    });
+
+    const parsed = JSON.parse(reply.trim().replace(/^```(?:json)?\s*|\s*```$/g, '')) as Record<string, unknown>;
+    const faithfulness = readGrade(parsed?.faithfulness);
+    const correctness = readGrade(parsed?.correctness);
+    // Each score the judge was in a position to give must be there
+    if ((citations.length > 0 && faithfulness == null) || (expectedAnswer?.trim() && correctness == null)) {
+      throw new Error('Judge reply is missing a grade');
+    }
+
+    return {
+      faithfulness: citations.length > 0 ? faithfulness : null,
+      correctness: expectedAnswer?.trim() ? correctness : null,
+      judge: `llm:${model}`,
+    };
+  } catch (error) {
+    console.error('Judging failed, using lexical scores:', error);
+    return fallback;
+  }
+}
+
+function readGrade(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value / 10)) : null;
+}
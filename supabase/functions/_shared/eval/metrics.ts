@@ -0,0 +1,240 @@
+/**
+ * Evaluation metrics
+ *
+ * Retrieval is scored against the files a case names: recall is the share
+ * of them among the sources, and the reciprocal rank is 1 / the position of
+ * the first source from one of them (averaged over cases, that is MRR).
+ * Files are matched by name, case-insensitively, so sets survive re-uploads.
+ *
+ * The lexical answer scores stand in for the LLM judge when it is
+ * unavailable (including under the stub provider): faithfulness is the
+ * share of the answer's words found in its sources, correctness the word
+ * overlap (F1) with the expected answer. They are cruder than the judge, so
+ * runs are only comparable when both were scored the same way.
+ *
+ * @module eval/metrics
+ */
+
+import type { Citation } from '../citations.ts';
+
+export interface RetrievalScores {
+  /** Null when the case names no expected files */
+  recall: number | null;
+  reciprocalRank: number | null;
+}
+
+export interface AnswerScores {
+  /** 0-1; null when the answer had no sources */
+  faithfulness: number | null;
+  /** 0-1; null when the case has no expected answer */
+  correctness: number | null;
+  /** `llm:<model>` or `lexical` */
+  judge: string;
+}
+
+/** Scores of one case, as stored in eval_results */
+export interface CaseScores {
+  caseId: string | null;
+  question: string;
+  recall: number | null;
+  reciprocalRank: number | null;
+  faithfulness: number | null;
+  correctness: number | null;
+  /** Set when the case could not be answered */
+  error: string | null;
+}
+
+/** Means over a run's cases; null where no case had the score */
+export interface RunMetrics {
+  recall: number | null;
+  mrr: number | null;
+  faithfulness: number | null;
+  correctness: number | null;
+  cases: number;
+  failed: number;
+}
+
+export type MetricName = 'recall' | 'mrr' | 'faithfulness' | 'correctness';
+
+export interface CaseChange {
+  caseId: string | null;
+  question: string;
+  metric: MetricName;
+  from: number;
+  to: number;
+}
+
+/** How a run differs from the previous finished run of the same set */
+export interface RunReport {
+  previousRunId: string | null;
+  /** Current minus previous, per metric; null where either run lacks it */
+  deltas: Record<MetricName, number | null>;
+  /** Settings that differ between the runs, to explain the deltas */
+  settingsChanged: Array<{ key: string; from: unknown; to: unknown }>;
+  regressions: CaseChange[];
+  improvements: CaseChange[];
+}
+
+export const METRIC_NAMES: MetricName[] = ['recall', 'mrr', 'faithfulness', 'correctness'];
+
+// Per-case score change reported as a regression or improvement
+const CHANGE_THRESHOLD = 0.1;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'which', 'with', 'you', 'your',
+]);
+
+/**
+ * Score the sources an answer was given against the expected files
+ *
+ * @param expectedFiles - File names the answer should come from
+ * @param citations - The numbered sources, best first
+ *
+ * @example
+ * ```typescript
+ * retrievalScores(['Handbook.pdf'], citations); // handbook is source [2] only
+ * // => { recall: 1, reciprocalRank: 0.5 }
+ * ```
+ */
+export function retrievalScores(expectedFiles: string[], citations: Citation[]): RetrievalScores {
+  const expected = new Set(expectedFiles.map((name) => name.trim().toLowerCase()).filter(Boolean));
+  if (expected.size === 0) return { recall: null, reciprocalRank: null };
+
+  const retrieved = citations.map((c) => c.fileName.toLowerCase());
+  const found = [...expected].filter((name) => retrieved.includes(name)).length;
+  const firstHit = retrieved.findIndex((name) => expected.has(name));
+
+  return {
+    recall: found / expected.size,
+    reciprocalRank: firstHit === -1 ? 0 : 1 / (firstHit + 1),
+  };
+}
+
+/**
+ * Score an answer by word overlap, without a model
+ *
+ * @param answer - The GPT's reply
+ * @param citations - The sources it was given
+ * @param expectedAnswer - The reference answer, if the case has one
+ */
+export function lexicalScores(answer: string, citations: Citation[], expectedAnswer: string | null): AnswerScores {
+  const answerWords = contentWords(answer);
+
+  let faithfulness: number | null = null;
+  if (citations.length > 0) {
+    const sourceWords = new Set(contentWords(citations.map((c) => c.content).join('\n')));
+    faithfulness = answerWords.length === 0
+      ? 0
+      : answerWords.filter((word) => sourceWords.has(word)).length / answerWords.length;
+  }
+
+  const correctness = expectedAnswer?.trim() ? wordF1(answerWords, contentWords(expectedAnswer)) : null;
+
+  return { faithfulness, correctness, judge: 'lexical' };
+}
+
+/**
+ * Mean of each score over the cases that have it
+ */
+export function aggregateScores(cases: CaseScores[]): RunMetrics {
+  return {
+    recall: mean(cases.map((c) => c.recall)),
+    mrr: mean(cases.map((c) => c.reciprocalRank)),
+    faithfulness: mean(cases.map((c) => c.faithfulness)),
+    correctness: mean(cases.map((c) => c.correctness)),
+    cases: cases.length,
+    failed: cases.filter((c) => c.error).length,
+  };
+}
+
+/**
+ * Compare a run with the previous one of the same set
+ *
+ * Cases are paired by id, so edited questions still pair up and deleted
+ * ones drop out.
+ *
+ * @param current - The finished run's metrics, settings snapshot and cases
+ * @param previous - The previous finished run, or null for a set's first run
+ */
+export function compareRuns(
+  current: { metrics: RunMetrics; settings: Record<string, unknown>; cases: CaseScores[] },
+  previous: { id: string; metrics: RunMetrics; settings: Record<string, unknown>; cases: CaseScores[] } | null
+): RunReport {
+  const deltas = Object.fromEntries(METRIC_NAMES.map((metric) => {
+    const now = current.metrics[metric];
+    const before = previous?.metrics[metric];
+    return [metric, now != null && before != null ? now - before : null];
+  })) as Record<MetricName, number | null>;
+
+  if (!previous) {
+    return { previousRunId: null, deltas, settingsChanged: [], regressions: [], improvements: [] };
+  }
+
+  const keys = new Set([...Object.keys(current.settings), ...Object.keys(previous.settings)]);
+  const settingsChanged = [...keys]
+    .filter((key) => JSON.stringify(current.settings[key]) !== JSON.stringify(previous.settings[key]))
+    .map((key) => ({ key, from: previous.settings[key] ?? null, to: current.settings[key] ?? null }));
+
+  const previousCases = new Map(previous.cases.filter((c) => c.caseId).map((c) => [c.caseId, c]));
+  const regressions: CaseChange[] = [];
+  const improvements: CaseChange[] = [];
+
+  for (const now of current.cases) {
+    const before = now.caseId ? previousCases.get(now.caseId) : undefined;
+    if (!before) continue;
+
+    for (const metric of METRIC_NAMES) {
+      const from = caseScore(before, metric);
+      const to = caseScore(now, metric);
+      if (from == null || to == null || Math.abs(to - from) < CHANGE_THRESHOLD) continue;
+      (to < from ? regressions : improvements).push({ caseId: now.caseId, question: now.question, metric, from, to });
+    }
+  }
+
+  // Largest changes first
+  const bySize = (a: CaseChange, b: CaseChange) => Math.abs(b.to - b.from) - Math.abs(a.to - a.from);
+  return {
+    previousRunId: previous.id,
+    deltas,
+    settingsChanged,
+    regressions: regressions.sort(bySize),
+    improvements: improvements.sort(bySize),
+  };
+}
+
+function caseScore(scores: CaseScores, metric: MetricName): number | null {
+  return metric === 'mrr' ? scores.reciprocalRank : scores[metric];
+}
+
+function mean(values: Array<number | null>): number | null {
+  const present = values.filter((value): value is number => value != null);
+  return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+}
+
+// Lowercase words that carry meaning, without citation markers
+function contentWords(text: string): string[] {
+  return (text.replace(/\[\d+\]/g, ' ').toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((word) => !STOPWORDS.has(word));
+}
+
+function wordF1(predicted: string[], reference: string[]): number {
+  if (predicted.length === 0 || reference.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const word of reference) counts.set(word, (counts.get(word) ?? 0) + 1);
+
+  let overlap = 0;
+  for (const word of predicted) {
+    const left = counts.get(word) ?? 0;
+    if (left > 0) {
+      overlap++;
+      counts.set(word, left - 1);
+    }
+  }
+  if (overlap === 0) return 0;
+
+  const precision = overlap / predicted.length;
+  const recall = overlap / reference.length;
+  return (2 * precision * recall) / (precision + recall);
+}
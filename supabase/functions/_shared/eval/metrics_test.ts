@@ -0,0 +1,122 @@
+import { deepEqual } from 'node:assert/strict';
+import type { Citation } from '../citations.ts';
+import { aggregateScores, compareRuns, lexicalScores, retrievalScores, type CaseScores, type RunMetrics } from './metrics.ts';
+
+const source = (index: number, fileName: string, content = ''): Citation => ({
+  index,
+  chunkId: `chunk-${index}`,
+  knowledgeBaseId: 'kb',
+  fileName,
+  chunkIndex: 0,
+  pageStart: null,
+  pageEnd: null,
+  similarity: '80.0',
+  rerankScore: null,
+  content,
+});
+
+const scores = (caseId: string | null, values: Partial<CaseScores> = {}): CaseScores => ({
+  caseId,
+  question: `Question ${caseId}`,
+  recall: null,
+  reciprocalRank: null,
+  faithfulness: null,
+  correctness: null,
+  error: null,
+  ...values,
+});
+
+const metrics = (values: Partial<RunMetrics> = {}): RunMetrics => ({
+  recall: null,
+  mrr: null,
+  faithfulness: null,
+  correctness: null,
+  cases: 0,
+  failed: 0,
+  ...values,
+});
+
+Deno.test('retrievalScores measures recall and the rank of the first expected file', () => {
+  const sources = [source(1, 'faq.pdf'), source(2, 'handbook.pdf'), source(3, 'Handbook.pdf')];
+
+  deepEqual(retrievalScores(['Handbook.pdf', 'Policy.pdf'], sources), { recall: 0.5, reciprocalRank: 0.5 });
+  deepEqual(retrievalScores([' FAQ.pdf '], sources), { recall: 1, reciprocalRank: 1 });
+  deepEqual(retrievalScores(['Policy.pdf'], sources), { recall: 0, reciprocalRank: 0 });
+});
+
+Deno.test('retrievalScores has no score for cases without expected files', () => {
+  deepEqual(retrievalScores([], [source(1, 'faq.pdf')]), { recall: null, reciprocalRank: null });
+  deepEqual(retrievalScores(['  '], [source(1, 'faq.pdf')]), { recall: null, reciprocalRank: null });
+});
+
+Deno.test('lexicalScores compares content words with the sources and the expected answer', () => {
+  const sources = [source(1, 'faq.pdf', 'Refunds take five days.')];
+
+  deepEqual(lexicalScores('The refunds take five weeks [1].', sources, 'Refunds take ten weeks'), {
+    faithfulness: 0.75,
+    correctness: 0.75,
+    judge: 'lexical',
+  });
+  deepEqual(lexicalScores('', sources, 'Refunds take ten weeks'), { faithfulness: 0, correctness: 0, judge: 'lexical' });
+});
+
+Deno.test('lexicalScores leaves out scores it has nothing to compare with', () => {
+  deepEqual(lexicalScores('Refunds take five days.', [], '  '), { faithfulness: null, correctness: null, judge: 'lexical' });
+});
+
+Deno.test('aggregateScores averages each score over the cases that have it', () => {
+  const cases = [
+    scores('a', { recall: 1, faithfulness: 0.5 }),
+    scores('b', { faithfulness: 1, error: 'Rate limited' }),
+    scores('c', { recall: 0.5 }),
+  ];
+
+  deepEqual(aggregateScores(cases), metrics({ recall: 0.75, faithfulness: 0.75, cases: 3, failed: 1 }));
+  deepEqual(aggregateScores([]), metrics());
+});
+
+Deno.test('compareRuns reports no changes for a set\'s first run', () => {
+  const current = { metrics: metrics({ recall: 1 }), settings: { topK: 5 }, cases: [scores('a', { recall: 1 })] };
+
+  deepEqual(compareRuns(current, null), {
+    previousRunId: null,
+    deltas: { recall: null, mrr: null, faithfulness: null, correctness: null },
+    settingsChanged: [],
+    regressions: [],
+    improvements: [],
+  });
+});
+
+Deno.test('compareRuns reports metric deltas, changed settings and per-case changes past the threshold', () => {
+  const current = {
+    metrics: metrics({ recall: 0.75, mrr: 0.5, faithfulness: 0.5 }),
+    settings: { topK: 8, rerank: true, hybrid: true },
+    cases: [
+      scores('a', { recall: 0.5, reciprocalRank: 0.75 }),
+      scores('b', { faithfulness: 0.5, correctness: 0.75 }),
+      scores('new', { recall: 0 }),
+      scores(null, { recall: 0 }),
+    ],
+  };
+  const previous = {
+    id: 'run-1',
+    metrics: metrics({ recall: 0.5, mrr: 0.5, correctness: 0.5 }),
+    settings: { topK: 5, rerank: true },
+    cases: [
+      scores('a', { recall: 1, reciprocalRank: 1 }),
+      scores('b', { faithfulness: 0.55, correctness: 0.25 }),
+      scores(null, { recall: 1 }),
+    ],
+  };
+
+  deepEqual(compareRuns(current, previous), {
+    previousRunId: 'run-1',
+    deltas: { recall: 0.25, mrr: 0, faithfulness: null, correctness: null },
+    settingsChanged: [{ key: 'topK', from: 5, to: 8 }, { key: 'hybrid', from: null, to: true }],
+    regressions: [
+      { caseId: 'a', question: 'Question a', metric: 'recall', from: 1, to: 0.5 },
+      { caseId: 'a', question: 'Question a', metric: 'mrr', from: 1, to: 0.75 },
+    ],
+    improvements: [{ caseId: 'b', question: 'Question b', metric: 'correctness', from: 0.25, to: 0.75 }],
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * CSV and TSV parsing
+ *
+ * @module ingest/csv
+ */
+
+import type { TableData } from './types.ts';
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Parse delimited text into a header and rows
+ *
+ * Follows RFC 4180: fields may be quoted, quotes inside quoted fields are
+ * doubled, and quoted fields may span lines. Blank lines are skipped.
+ *
+ * @param text - The file text
+ * @param delimiter - Field delimiter; detected from the first line when omitted
+ * @returns The first row as header and the remaining rows
+ *
+ * @example
+ * ```typescript
+ * parseDelimited('name,role\n"Smith, J",admin');
+ * // => { header: ['name', 'role'], rows: [['Smith, J', 'admin']] }
+ * ```
+ */
+export function parseDelimited(text: string, delimiter = detectDelimiter(text)): TableData {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.some((value) => value.trim())) records.push(record.map((value) => value.trim()));
+    record = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && !field.trim()) {
+      quoted = true;
+      field = '';
+    } else if (c === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (c === '\n') {
+      endRecord();
+    } else if (c !== '\r') {
+      field += c;
+    }
+  }
+  if (field || record.length > 0) endRecord();
+
+  const [header = [], ...rows] = records;
+  return { header, rows };
+}
+
+// The candidate that splits the first line into the most fields wins
+function detectDelimiter(text: string): string {
+  const firstLine = text.split('\n', 1)[0].replace(/"[^"]*"/g, '');
+  let best = ',';
+  let bestCount = 0;
+  for (const candidate of CANDIDATE_DELIMITERS) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
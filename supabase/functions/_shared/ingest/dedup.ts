@@ -0,0 +1,120 @@
+/**
+ * Content hashes for knowledge files and chunks
+ *
+ * Files are hashed so the same content isn't ingested twice into a GPT
+ * unless the user asked for a new version. Chunks are hashed (the
+ * `document_chunks.content_hash` column is generated from the text) so a
+ * revised file reuses the vectors of passages that did not change.
+ *
+ * @module ingest/dedup
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+
+export interface StoredEmbedding {
+  /** Index into the hashes that were looked up */
+  index: number;
+  /** The vector as PostgREST returns it, ready to insert again */
+  embedding: string;
+  dim: number | null;
+}
+
+// Hashes per lookup; keeps the request URL and the vectors held in memory small
+const LOOKUP_BATCH = 100;
+
+/**
+ * SHA-256 of a file or text, hex encoded
+ *
+ * Text is hashed as UTF-8, matching the generated column in Postgres.
+ */
+export async function sha256Hex(data: Uint8Array | string): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Another file of the GPT with the same content, if any
+ *
+ * @param supabase - Service-role client
+ * @param file - The file being ingested and its hash
+ * @returns The earliest such file, or null
+ */
+export async function findDuplicateFile(
+  supabase: SupabaseClient,
+  file: { id: string; customGptId: string; contentHash: string }
+): Promise<{ id: string; file_name: string } | null> {
+  const { data, error } = await supabase
+    .from('knowledge_base')
+    .select('id, file_name')
+    .eq('custom_gpt_id', file.customGptId)
+    .eq('content_hash', file.contentHash)
+    .neq('id', file.id)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Find vectors already stored in a GPT for chunks with these hashes
+ *
+ * Only vectors from `model` are reused, so they stay comparable with the
+ * rest of the GPT's chunks.
+ *
+ * @param supabase - Service-role client
+ * @param scope - The GPT and the model it embeds with
+ * @param hashes - Chunk hashes, from {@link sha256Hex}
+ * @param onFound - Called per lookup batch with the chunks that can reuse a vector; awaited before the next lookup
+ * @returns Number of chunks that reused a vector
+ *
+ * @example
+ * ```typescript
+ * const hashes = await Promise.all(chunks.map((chunk) => sha256Hex(chunk.content)));
+ * await reuseStoredEmbeddings(supabase, { customGptId, model }, hashes, async (found) => {
+ *   await storeChunks(found.map(({ index, embedding }) => ({ ...chunks[index], embedding })));
+ * });
+ * ```
+ */
+export async function reuseStoredEmbeddings(
+  supabase: SupabaseClient,
+  scope: { customGptId: string; model: string },
+  hashes: string[],
+  onFound: (found: StoredEmbedding[]) => Promise<void>
+): Promise<number> {
+  // A passage can repeat within a file; every copy gets the vector
+  const indexesByHash = new Map<string, number[]>();
+  hashes.forEach((hash, index) => indexesByHash.set(hash, [...(indexesByHash.get(hash) ?? []), index]));
+  const unique = [...indexesByHash.keys()];
+  let reused = 0;
+
+  for (let start = 0; start < unique.length; start += LOOKUP_BATCH) {
+    const { data, error } = await supabase
+      .from('document_chunks')
+      .select('content_hash, embedding, embedding_dim')
+      .eq('custom_gpt_id', scope.customGptId)
+      .eq('embedding_model', scope.model)
+      .not('embedding', 'is', null)
+      .in('content_hash', unique.slice(start, start + LOOKUP_BATCH));
+
+    if (error) throw error;
+
+    const found: StoredEmbedding[] = [];
+    for (const row of data ?? []) {
+      // Several files may hold the passage; the first vector will do
+      const indexes = indexesByHash.get(row.content_hash);
+      if (!indexes) continue;
+      indexesByHash.delete(row.content_hash);
+      for (const index of indexes) found.push({ index, embedding: row.embedding, dim: row.embedding_dim });
+    }
+
+    if (found.length > 0) {
+      await onFound(found);
+      reused += found.length;
+    }
+  }
+
+  return reused;
+}
@@ -0,0 +1,169 @@
+/**
+ * Optional LLM cleanup of extracted text
+ *
+ * Some extracted text carries debris a parser cannot tell from content:
+ * running headers and footers, page numbers, words broken across lines,
+ * leftovers of forms and layout. Distillation has a utility model tidy each
+ * page on its own, so the whole document is covered whatever its length.
+ *
+ * The cleanup must not lose content. A page whose reply is much shorter or
+ * longer than its raw text, or whose call still fails after retries, keeps its
+ * raw text, and every page carries both versions so the result can be audited.
+ * Pages distilled by an earlier attempt at the same job are not sent again.
+ *
+ * @module ingest/distill
+ */
+
+import { packPieces, paragraphPieces } from '../chunking/pack.ts';
+import { estimateTokens } from '../chunking/tokens.ts';
+import { withRetry, type RetryOptions } from '../llm/embeddings.ts';
+import type { LLMProvider } from '../llm/types.ts';
+import type { DocumentSection } from './types.ts';
+
+/**
+ * Why a page kept its raw text
+ *
+ * `failed`: the model call failed; `lost_text`: the reply dropped too much of
+ * the page; `added_text`: the reply was longer than the page.
+ */
+export type DistillNote = 'failed' | 'lost_text' | 'added_text';
+
+/**
+ * One page of a document, before and after distillation
+ */
+export interface DocumentPage {
+  /** 0-based position in the document */
+  index: number;
+  /** 1-based page number, for paginated formats */
+  page: number | null;
+  raw: string;
+  /** Cleaned text, or null if distillation was off or the raw text was kept */
+  distilled: string | null;
+  note: DistillNote | null;
+}
+
+/** Unpaginated text is cut into pages of about this many tokens */
+export const MAX_PAGE_TOKENS = 2000;
+
+// A reply must keep this share of the page's letters and digits...
+const MIN_KEPT_RATIO = 0.6;
+// ...and not grow it beyond this, or the raw text is kept
+const MAX_GROWTH_RATIO = 1.15;
+// Pages distilled at once
+const PAGE_CONCURRENCY = 4;
+// Rate limits and server errors on one page; after these the page keeps its raw text
+const DISTILL_RETRY: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 2_000,
+  maxDelayMs: 30_000,
+};
+
+const DISTILL_PROMPT = `You clean up text extracted from one page of a document. Remove only extraction debris: running headers and footers, page numbers, stray symbols, and layout or markup leftovers. Rejoin words and sentences broken across lines.
+
+Keep everything else exactly: every sentence, heading, list item, table row, name, number and date, in the original order and language. Keep lines starting with # as they are. Do not summarize, shorten, paraphrase, translate, explain or add anything.
+
+Reply with the cleaned text only.`;
+
+/**
+ * Cut document sections into pages
+ *
+ * Paginated sections are pages already; longer unpaginated ones are split at
+ * paragraph boundaries into pages of about {@link MAX_PAGE_TOKENS}.
+ */
+export function splitPages(sections: DocumentSection[]): DocumentPage[] {
+  const texts = sections.flatMap((section) => {
+    const page = section.page ?? null;
+    if (estimateTokens(section.text) <= MAX_PAGE_TOKENS) {
+      return [{ page, raw: section.text.trim() }];
+    }
+    return packPieces(paragraphPieces([section]), MAX_PAGE_TOKENS, 0).map((chunk) => ({ page, raw: chunk.content }));
+  });
+
+  return texts
+    .filter((text) => text.raw)
+    .map((text, index) => ({ index, ...text, distilled: null, note: null }));
+}
+
+/**
+ * Sections to chunk: each page's distilled text, or its raw text where there is none
+ */
+export function pagesToSections(pages: DocumentPage[]): DocumentSection[] {
+  return pages.map((page) => ({
+    text: page.distilled ?? page.raw,
+    ...(page.page !== null ? { page: page.page } : {}),
+  }));
+}
+
+/**
+ * Distill every page of a document
+ *
+ * Never throws: a page that cannot be distilled keeps its raw text and
+ * records why in `note`. Pages that already have distilled text, e.g. stored
+ * by an earlier attempt, are kept as they are.
+ *
+ * @param provider - Provider to distill with
+ * @param model - A cheap model is fine (e.g. `DEFAULT_MODELS[name].utility`)
+ * @param pages - Output of {@link splitPages}
+ * @param onProgress - Called with the number of pages finished so far and the page just distilled
+ * @returns The pages with `distilled` and `note` filled in, in document order
+ *
+ * @example
+ * ```typescript
+ * const pages = await distillPages(provider, DEFAULT_MODELS[provider.name].utility, splitPages(document.sections));
+ * const sections = pagesToSections(pages);
+ * ```
+ */
+export async function distillPages(
+  provider: LLMProvider,
+  model: string,
+  pages: DocumentPage[],
+  onProgress?: (done: number, page: DocumentPage) => Promise<void>
+): Promise<DocumentPage[]> {
+  const results = [...pages];
+  const pending = pages.flatMap((page, i) => (page.distilled === null ? [i] : []));
+  let next = 0;
+  let done = pages.length - pending.length;
+
+  const work = async () => {
+    while (next < pending.length) {
+      const i = pending[next++];
+      results[i] = await distillPage(provider, model, pages[i]);
+      done++;
+      await onProgress?.(done, results[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(PAGE_CONCURRENCY, pending.length) }, work));
+
+  return results;
+}
+
+async function distillPage(provider: LLMProvider, model: string, page: DocumentPage): Promise<DocumentPage> {
+  let reply: string;
+  try {
+    reply = await withRetry(() => provider.chat({
+      model,
+      messages: [
+        { role: 'system', content: DISTILL_PROMPT },
+        { role: 'user', content: page.raw },
+      ],
+      // Room for the whole page back, so a long page is never cut short
+      maxTokens: Math.ceil(estimateTokens(page.raw) * 1.5) + 200,
+      temperature: 0,
+    }), DISTILL_RETRY);
+  } catch (error) {
+    console.warn('Distillation failed for page', page.index, error);
+    return { ...page, distilled: null, note: 'failed' };
+  }
+
+  const distilled = reply.trim().replace(/^```\w*\n|\n```$/g, '').trim();
+  const ratio = textLength(distilled) / Math.max(1, textLength(page.raw));
+
+  if (ratio < MIN_KEPT_RATIO) return { ...page, distilled: null, note: 'lost_text' };
+  if (ratio > MAX_GROWTH_RATIO) return { ...page, distilled: null, note: 'added_text' };
+  return { ...page, distilled, note: null };
+}
+
+// Letters and digits; whitespace and symbols are what cleanup is allowed to remove
+function textLength(text: string): number {
+  return (text.match(/[\p{L}\p{N}]/gu) || []).length;
+}
@@ -0,0 +1,106 @@
+/**
+ * DOCX (Office Open XML) text extraction
+ *
+ * Reads the main document part and keeps paragraphs, line breaks, tabs and
+ * tables. Paragraphs styled as headings become Markdown `#` lines. Deleted
+ * revisions, field codes, headers and footers are ignored.
+ *
+ * @module ingest/docx
+ */
+
+import { tokenizeMarkup } from './markup.ts';
+import { ZipArchive } from './zip.ts';
+import { DocumentParseError } from './types.ts';
+
+/**
+ * Extract the body text of a .docx file
+ *
+ * @param data - The .docx file contents
+ * @returns Plain text with `\n\n` between paragraphs; table rows become `cell | cell` lines
+ * @throws {DocumentParseError} If the file is not a Word document
+ */
+export async function extractDocxText(data: Uint8Array): Promise<string> {
+  const zip = ZipArchive.open(data);
+  const xml = await zip.readText('word/document.xml');
+  if (xml === undefined) {
+    throw new DocumentParseError('Not a Word document (word/document.xml is missing)');
+  }
+
+  const blocks: string[] = [];
+  let paragraph = '';
+  let row: string[] = [];
+  let cell: string[] = [];
+  let tableRows: string[] = [];
+  let tableDepth = 0;
+  let inText = false;
+  let headingLevel = 0;
+
+  for (const token of tokenizeMarkup(xml)) {
+    if (token.type === 'text') {
+      if (inText) paragraph += token.text;
+      continue;
+    }
+
+    if (token.type === 'open') {
+      switch (token.name) {
+        case 'w:t':
+          inText = !token.selfClosing;
+          break;
+        case 'w:tab':
+          paragraph += '\t';
+          break;
+        case 'w:pStyle':
+          headingLevel = headingStyleLevel(token.attrs['w:val'] ?? '');
+          break;
+        case 'w:br':
+        case 'w:cr':
+          paragraph += '\n';
+          break;
+        case 'w:tbl':
+          if (!token.selfClosing) tableDepth++;
+          break;
+      }
+      continue;
+    }
+
+    switch (token.name) {
+      case 'w:t':
+        inText = false;
+        break;
+      case 'w:p': {
+        const text = paragraph.replace(/[^\S\n]+/g, ' ').trim();
+        const level = headingLevel;
+        paragraph = '';
+        headingLevel = 0;
+        if (!text) break;
+        if (tableDepth > 0) cell.push(text.replace(/\s+/g, ' '));
+        else blocks.push(level > 0 ? `${'#'.repeat(level)} ${text.replace(/\s+/g, ' ')}` : text);
+        break;
+      }
+      case 'w:tc':
+        row.push(cell.join(' '));
+        cell = [];
+        break;
+      case 'w:tr':
+        if (row.some(Boolean)) tableRows.push(row.join(' | '));
+        row = [];
+        break;
+      case 'w:tbl':
+        // Nested tables are flattened into the enclosing one
+        if (--tableDepth === 0) {
+          if (tableRows.length > 0) blocks.push(tableRows.join('\n'));
+          tableRows = [];
+        }
+        break;
+    }
+  }
+
+  return blocks.join('\n\n');
+}
+
+// Word's built-in heading styles are "Title" and "Heading1".."Heading9"
+function headingStyleLevel(styleId: string): number {
+  if (/^title$/i.test(styleId)) return 1;
+  const match = styleId.match(/^heading\s*(\d)$/i);
+  return match ? Math.min(6, Number(match[1])) : 0;
+}
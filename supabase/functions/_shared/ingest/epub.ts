@@ -0,0 +1,91 @@
+/**
+ * EPUB text extraction
+ *
+ * Follows the package: META-INF/container.xml points at the OPF file, whose
+ * spine lists the content documents in reading order. Each content document
+ * becomes one section.
+ *
+ * @module ingest/epub
+ */
+
+import { htmlToText } from './html.ts';
+import { tokenizeMarkup } from './markup.ts';
+import { ZipArchive } from './zip.ts';
+import { DocumentParseError, type DocumentSection } from './types.ts';
+
+/**
+ * Extract the chapters of an EPUB in reading order
+ *
+ * @param data - The .epub file contents
+ * @returns One section per spine document that has text
+ * @throws {DocumentParseError} If the package cannot be read
+ */
+export async function extractEpubSections(data: Uint8Array): Promise<DocumentSection[]> {
+  const zip = ZipArchive.open(data);
+
+  const container = await zip.readText('META-INF/container.xml');
+  if (container === undefined) {
+    throw new DocumentParseError('Not an EPUB (META-INF/container.xml is missing)');
+  }
+
+  let packagePath: string | undefined;
+  for (const token of tokenizeMarkup(container)) {
+    if (token.type === 'open' && localName(token.name) === 'rootfile' && token.attrs['full-path']) {
+      packagePath = token.attrs['full-path'];
+      break;
+    }
+  }
+  const opf = packagePath && await zip.readText(packagePath);
+  if (!packagePath || !opf) {
+    throw new DocumentParseError('EPUB package document not found');
+  }
+
+  const manifest = new Map<string, { href: string; mediaType: string }>();
+  const spine: string[] = [];
+  for (const token of tokenizeMarkup(opf)) {
+    if (token.type !== 'open') continue;
+    const name = localName(token.name);
+    if (name === 'item' && token.attrs.id && token.attrs.href) {
+      manifest.set(token.attrs.id, { href: token.attrs.href, mediaType: token.attrs['media-type'] ?? '' });
+    } else if (name === 'itemref' && token.attrs.idref) {
+      spine.push(token.attrs.idref);
+    }
+  }
+
+  const baseDir = packagePath.includes('/') ? packagePath.slice(0, packagePath.lastIndexOf('/') + 1) : '';
+  const sections: DocumentSection[] = [];
+
+  for (const idref of spine) {
+    const item = manifest.get(idref);
+    if (!item || !/html|xml/.test(item.mediaType)) continue;
+
+    const html = await zip.readText(resolvePath(baseDir, item.href));
+    if (!html) continue;
+
+    const text = htmlToText(html);
+    if (text) sections.push({ text });
+  }
+
+  return sections;
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+// Resolve a manifest href (URL-encoded, possibly with "../") against the package directory
+function resolvePath(baseDir: string, href: string): string {
+  let path = href.split('#')[0];
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // Not percent-encoded after all
+  }
+
+  const segments: string[] = [];
+  for (const segment of (baseDir + path).split('/')) {
+    if (segment === '..') segments.pop();
+    else if (segment && segment !== '.') segments.push(segment);
+  }
+  return segments.join('/');
+}
@@ -0,0 +1,140 @@
+/**
+ * HTML to text with boilerplate removal
+ *
+ * Keeps the readable body of a page: navigation, headers, footers, sidebars,
+ * forms and scripts are dropped, and when the page marks up its content with
+ * `<main>` or `<article>` only that content is kept. Block elements become
+ * paragraph breaks so the chunker can split on them, and `<h1>`-`<h6>`
+ * become Markdown `#` lines so it can follow the outline.
+ *
+ * @module ingest/html
+ */
+
+import { tokenizeMarkup, type MarkupToken } from './markup.ts';
+
+// Never content
+const SKIPPED_ELEMENTS = new Set([
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object',
+  'form', 'button', 'select', 'textarea', 'title',
+]);
+
+// Page chrome, skipped unless it sits inside the main content
+const BOILERPLATE_ELEMENTS = new Set(['nav', 'header', 'footer', 'aside', 'menu']);
+const BOILERPLATE_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'complementary', 'search', 'menu']);
+
+const CONTENT_ELEMENTS = new Set(['main', 'article']);
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+const PARAGRAPH_ELEMENTS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'blockquote', 'pre', 'table', 'ul', 'ol', 'dl',
+  'figure', 'figcaption', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'address', 'details', 'summary',
+]);
+const LINE_ELEMENTS = new Set(['br', 'li', 'tr', 'dt', 'dd', 'caption']);
+const CELL_ELEMENTS = new Set(['td', 'th']);
+
+/**
+ * Extract the readable text of an HTML document
+ *
+ * @param html - HTML or XHTML source
+ * @returns Plain text with `\n` between lines and `\n\n` between blocks
+ *
+ * @example
+ * ```typescript
+ * htmlToText('<nav>Home</nav><main><h1>Title</h1><p>Body</p></main>');
+ * // => '# Title\n\nBody'
+ * ```
+ */
+export function htmlToText(html: string): string {
+  const tokens = [...tokenizeMarkup(html)].map(normalizeToken);
+  const hasContentRoot = tokens.some((t) => t.type === 'open' && CONTENT_ELEMENTS.has(t.name));
+
+  const out: string[] = [];
+  let pendingBreak = 0;
+  let skip: { name: string; depth: number } | null = null;
+  let contentDepth = 0;
+  let preDepth = 0;
+
+  const requestBreak = (level: number) => {
+    pendingBreak = Math.max(pendingBreak, level);
+  };
+
+  const write = (text: string) => {
+    if (pendingBreak && out.length > 0) {
+      out.push(pendingBreak === 2 ? '\n\n' : '\n');
+    }
+    pendingBreak = 0;
+    out.push(text);
+  };
+
+  for (const token of tokens) {
+    if (skip) {
+      if (token.type === 'open' && token.name === skip.name && !token.selfClosing) skip.depth++;
+      if (token.type === 'close' && token.name === skip.name && --skip.depth === 0) skip = null;
+      continue;
+    }
+
+    if (token.type === 'text') {
+      if (hasContentRoot && contentDepth === 0) continue;
+      if (preDepth > 0) {
+        if (token.text) write(token.text);
+        continue;
+      }
+      const text = token.text.replace(/\s+/g, ' ');
+      if (!text.trim()) {
+        // Whitespace between inline elements still separates words
+        if (text && out.length > 0 && !pendingBreak) out.push(' ');
+        continue;
+      }
+      write(text);
+      continue;
+    }
+
+    const name = token.name;
+
+    if (token.type === 'open') {
+      const chrome = BOILERPLATE_ELEMENTS.has(name) || BOILERPLATE_ROLES.has(token.attrs.role ?? '');
+      const hidden = 'hidden' in token.attrs || token.attrs['aria-hidden'] === 'true';
+      if (!token.selfClosing && !VOID_ELEMENTS.has(name)
+        && (SKIPPED_ELEMENTS.has(name) || hidden || (chrome && contentDepth === 0))) {
+        skip = { name, depth: 1 };
+        continue;
+      }
+
+      if (CONTENT_ELEMENTS.has(name) && !token.selfClosing) contentDepth++;
+      if (name === 'pre' && !token.selfClosing) preDepth++;
+
+      if (PARAGRAPH_ELEMENTS.has(name)) requestBreak(2);
+      else if (LINE_ELEMENTS.has(name)) requestBreak(1);
+      else if (CELL_ELEMENTS.has(name) && out.length > 0 && !pendingBreak) out.push(' | ');
+
+      if (name === 'li') write('- ');
+      if (/^h[1-6]$/.test(name) && (!hasContentRoot || contentDepth > 0)) write(`${'#'.repeat(Number(name[1]))} `);
+      if (name === 'img' && token.attrs.alt?.trim() && (!hasContentRoot || contentDepth > 0)) {
+        write(token.attrs.alt.trim());
+      }
+      continue;
+    }
+
+    // Closing tag
+    if (CONTENT_ELEMENTS.has(name) && contentDepth > 0) contentDepth--;
+    if (name === 'pre' && preDepth > 0) preDepth--;
+    if (PARAGRAPH_ELEMENTS.has(name)) requestBreak(2);
+    else if (LINE_ELEMENTS.has(name)) requestBreak(1);
+  }
+
+  return out.join('')
+    .replace(/[^\S\n]*\n[^\S\n]*/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/[^\S\n]{2,}/g, ' ')
+    .trim();
+}
+
+// HTML names are case-insensitive; XHTML may carry a namespace prefix
+function normalizeToken(token: MarkupToken): MarkupToken {
+  if (token.type === 'text') return token;
+  const name = token.name.toLowerCase().replace(/^[a-z]+:/, '');
+  return token.type === 'open' ? { ...token, name } : { type: 'close', name };
+}
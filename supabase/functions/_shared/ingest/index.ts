@@ -0,0 +1,127 @@
+/**
+ * Knowledge file ingestion
+ *
+ * Detects a file's format and hands it to the matching extractor. Every
+ * extractor produces the same {@link ExtractedDocument} shape, which
+ * `chunkDocument` (see `../chunking`) turns into chunks for `document_chunks`
+ * once the GPT's ingestion profile (see `./profiles`) and, optionally,
+ * `distillPages` have cleaned it up.
+ *
+ * @module ingest
+ */
+
+import { extractPdfPages } from '../pdf/index.ts';
+import { parseDelimited } from './csv.ts';
+import { extractDocxText } from './docx.ts';
+import { extractEpubSections } from './epub.ts';
+import { htmlToText } from './html.ts';
+import { decodeText, markdownToText } from './text.ts';
+import { DocumentParseError, type DocumentFormat, type DocumentSection, type ExtractedDocument } from './types.ts';
+
+export { DocumentParseError } from './types.ts';
+export { distillPages, pagesToSections, splitPages, type DistillNote, type DocumentPage } from './distill.ts';
+export {
+  applyProfile,
+  isIngestionProfileName,
+  resolveProfile,
+  INGESTION_PROFILES,
+  type IngestionProfile,
+  type IngestionProfileName,
+} from './profiles/index.ts';
+export type { DocumentChunk, DocumentFormat, DocumentSection, ExtractedDocument } from './types.ts';
+
+/**
+ * File extensions we can ingest, by format
+ *
+ * Keep in sync with `KNOWLEDGE_FILE_TYPES` in src/lib/knowledge-files.ts.
+ */
+export const FORMAT_BY_EXTENSION: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  md: 'markdown',
+  markdown: 'markdown',
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  txt: 'text',
+  text: 'text',
+  csv: 'csv',
+  tsv: 'csv',
+  epub: 'epub',
+};
+
+/**
+ * Work out a file's format from its name, falling back to its leading bytes
+ *
+ * @param fileName - Original file name
+ * @param data - File contents
+ * @returns The format, or null if the file type is not supported
+ */
+export function detectFormat(fileName: string, data: Uint8Array): DocumentFormat | null {
+  const extension = fileName.includes('.') ? fileName.slice(fileName.lastIndexOf('.') + 1).toLowerCase() : '';
+  const byExtension = FORMAT_BY_EXTENSION[extension];
+  if (byExtension) return byExtension;
+
+  const magic = String.fromCharCode(...data.subarray(0, 5));
+  if (magic === '%PDF-') return 'pdf';
+  return null;
+}
+
+/**
+ * Extract the text of a knowledge file
+ *
+ * @param data - File contents
+ * @param fileName - Original file name, used for format detection
+ * @returns The document's text sections, or its rows for CSV/TSV
+ * @throws {DocumentParseError} If the format is unsupported or the file cannot be read
+ * @throws {PdfParseError} If a PDF is malformed or encrypted
+ *
+ * @example
+ * ```typescript
+ * const document = await extractDocument(bytes, 'handbook.docx');
+ * const { chunks } = chunkDocument(document);
+ * ```
+ */
+export async function extractDocument(data: Uint8Array, fileName: string): Promise<ExtractedDocument> {
+  const format = detectFormat(fileName, data);
+
+  switch (format) {
+    case 'pdf': {
+      const pages = await extractPdfPages(data);
+      return { format, kind: 'text', sections: cleanSections(pages.map((p) => ({ text: p.text, page: p.pageNumber }))) };
+    }
+    case 'docx':
+      return { format, kind: 'text', sections: cleanSections([{ text: await extractDocxText(data) }]) };
+    case 'epub':
+      return { format, kind: 'text', sections: cleanSections(await extractEpubSections(data)) };
+    case 'html':
+      return { format, kind: 'text', sections: cleanSections([{ text: htmlToText(decodeText(data)) }]) };
+    case 'markdown':
+      return { format, kind: 'text', sections: cleanSections([{ text: markdownToText(decodeText(data)) }]) };
+    case 'text':
+      return { format, kind: 'text', sections: cleanSections([{ text: decodeText(data) }]) };
+    case 'csv': {
+      const delimiter = fileName.toLowerCase().endsWith('.tsv') ? '\t' : undefined;
+      return { format, kind: 'table', table: parseDelimited(decodeText(data), delimiter) };
+    }
+    default:
+      throw new DocumentParseError(`Unsupported file type: ${fileName}`);
+  }
+}
+
+// Normalize section text while keeping its line and paragraph breaks
+function cleanSections(sections: DocumentSection[]): DocumentSection[] {
+  return sections.map((section) => ({
+    ...section,
+    text: section.text
+      // Remove null bytes and control characters
+      .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '')
+      // Remove invalid Unicode
+      .replace(/\uFFFD/g, ' ')
+      .replace(/\r\n?/g, '\n')
+      .replace(/[^\S\n]+/g, ' ')
+      .replace(/ *\n */g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim(),
+  }));
+}
@@ -0,0 +1,100 @@
+/**
+ * Ingestion job queue
+ *
+ * Knowledge files are processed by the ingestion-worker function, not in
+ * the request that uploads them. A request only enqueues a job and wakes the
+ * worker; the job row in `ingestion_jobs` carries status and progress that
+ * the UI follows over Realtime.
+ *
+ * @module ingest/jobs
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+
+export type IngestionStatus = 'queued' | 'extracting' | 'distilling' | 'embedding' | 'done' | 'failed';
+
+export interface IngestionJob {
+  id: string;
+  knowledge_base_id: string;
+  custom_gpt_id: string;
+  user_id: string;
+  status: IngestionStatus;
+  progress_current: number;
+  progress_total: number | null;
+  error: string | null;
+  error_code: string | null;
+  attempts: number;
+  max_attempts: number;
+}
+
+// Supabase Edge Runtime global for work that outlives the response
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+/**
+ * Queue a knowledge file for processing
+ *
+ * Returns the file's active job instead of creating a second one, so
+ * repeated requests (double clicks, retries) are harmless.
+ *
+ * @param supabase - Service-role client
+ * @param job - The file, its GPT and the owning user
+ * @returns The queued (or already active) job
+ */
+export async function enqueueIngestionJob(
+  supabase: SupabaseClient,
+  job: { knowledgeBaseId: string; customGptId: string; userId: string }
+): Promise<IngestionJob> {
+  const { data: active, error: activeError } = await supabase
+    .from('ingestion_jobs')
+    .select('*')
+    .eq('knowledge_base_id', job.knowledgeBaseId)
+    .not('status', 'in', '(done,failed)')
+    .maybeSingle();
+
+  if (activeError) throw activeError;
+  if (active) return active as IngestionJob;
+
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .insert({
+      knowledge_base_id: job.knowledgeBaseId,
+      custom_gpt_id: job.customGptId,
+      user_id: job.userId,
+    })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return data as IngestionJob;
+}
+
+/**
+ * Ask the ingestion worker to drain the queue
+ *
+ * Fire-and-forget: the worker answers immediately and keeps running in the
+ * background. If the call is lost, the job stays queued until the next
+ * wake-up or scheduled run.
+ */
+export function wakeIngestionWorker(): void {
+  const request = fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/ingestion-worker`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+      'Content-Type': 'application/json',
+    },
+    body: '{}',
+  })
+    .then((response) => response.body?.cancel())
+    .catch((error) => console.error('Failed to wake ingestion worker:', error));
+
+  runInBackground(request);
+}
+
+/**
+ * Keep the function alive until `promise` settles, without delaying the response
+ */
+export function runInBackground(promise: Promise<unknown>): void {
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(promise);
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Lenient XML/HTML tokenizer
+ *
+ * Good enough for pulling text out of OOXML parts, EPUB packages and
+ * real-world HTML: it never throws, tolerates unclosed and mismatched tags,
+ * and treats the contents of `<script>` and `<style>` as opaque.
+ *
+ * @module ingest/markup
+ */
+
+export type MarkupToken =
+  | { type: 'open'; name: string; attrs: Record<string, string>; selfClosing: boolean }
+  | { type: 'close'; name: string }
+  | { type: 'text'; text: string };
+
+// Elements whose content is not markup
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', bull: '•', middot: '·',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+  copy: '©', reg: '®', trade: '™', deg: '°', times: '×', divide: '÷',
+  euro: '€', pound: '£', yen: '¥', cent: '¢', sect: '§', para: '¶',
+  shy: '', zwj: '', zwnj: '', thinsp: ' ', ensp: ' ', emsp: ' ',
+};
+
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+/**
+ * Decode character references in text or attribute values
+ *
+ * Unknown named references are left as written.
+ */
+export function decodeEntities(text: string): string {
+  if (!text.includes('&')) return text;
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (match, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    }
+    return NAMED_ENTITIES[ref.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Split markup into tags and text
+ *
+ * Comments, doctypes and processing instructions are dropped; CDATA becomes
+ * text. Text is entity-decoded. Tag names keep their case and prefix
+ * (e.g. `w:p`).
+ *
+ * @param source - XML or HTML source
+ */
+export function* tokenizeMarkup(source: string): Generator<MarkupToken> {
+  let pos = 0;
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    if (lt < 0) {
+      yield { type: 'text', text: decodeEntities(source.slice(pos)) };
+      return;
+    }
+    if (lt > pos) yield { type: 'text', text: decodeEntities(source.slice(pos, lt)) };
+
+    if (source.startsWith('<!--', lt)) {
+      const end = source.indexOf('-->', lt + 4);
+      pos = end < 0 ? source.length : end + 3;
+      continue;
+    }
+    if (source.startsWith('<![CDATA[', lt)) {
+      const end = source.indexOf(']]>', lt + 9);
+      yield { type: 'text', text: source.slice(lt + 9, end < 0 ? source.length : end) };
+      pos = end < 0 ? source.length : end + 3;
+      continue;
+    }
+    if (source[lt + 1] === '!' || source[lt + 1] === '?') {
+      const end = source.indexOf('>', lt);
+      pos = end < 0 ? source.length : end + 1;
+      continue;
+    }
+
+    const end = findTagEnd(source, lt + 1);
+    if (!/[A-Za-z/]/.test(source[lt + 1] ?? '')) {
+      // A stray "<" in text, e.g. "a < b"
+      yield { type: 'text', text: '<' };
+      pos = lt + 1;
+      continue;
+    }
+
+    const body = source.slice(lt + 1, end);
+    pos = end + 1;
+
+    if (body[0] === '/') {
+      yield { type: 'close', name: body.slice(1).trim().split(/\s/)[0] };
+      continue;
+    }
+
+    const nameMatch = /^[^\s/>]+/.exec(body);
+    if (!nameMatch) continue;
+    const name = nameMatch[0];
+    const selfClosing = body.endsWith('/');
+    const attrs: Record<string, string> = {};
+    for (const match of body.slice(name.length, selfClosing ? -1 : undefined).matchAll(ATTRIBUTE_PATTERN)) {
+      attrs[match[1]] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+    yield { type: 'open', name, attrs, selfClosing };
+
+    const lower = name.toLowerCase();
+    if (!selfClosing && RAW_TEXT_ELEMENTS.has(lower)) {
+      // Skip straight to the closing tag so "<" in code is not read as markup
+      const closePattern = new RegExp(`</${lower}`, 'ig');
+      closePattern.lastIndex = pos;
+      pos = closePattern.exec(source)?.index ?? source.length;
+    }
+  }
+}
+
+// Find the ">" closing a tag, ignoring any inside quoted attribute values
+function findTagEnd(source: string, from: number): number {
+  let quote = '';
+  for (let i = from; i < source.length; i++) {
+    const c = source[i];
+    if (quote) {
+      if (c === quote) quote = '';
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === '>') {
+      return i;
+    }
+  }
+  return source.length;
+}
@@ -0,0 +1,55 @@
+/**
+ * The contract profile: agreements, terms and other legal documents
+ *
+ * Turns fill-in blanks into a marker instead of lines of underscores, and
+ * records the parties, effective date and governing law.
+ *
+ * @module ingest/profiles/contract
+ */
+
+import { dropLinesRule, GENERIC_RULES, textRule, titleExtractor } from './generic.ts';
+import { DATE, firstMatch } from './patterns.ts';
+import type { IngestionProfile, MetadataExtractor } from './types.ts';
+
+// A party name: up to the first comma, parenthesis or line break
+const PARTY = '([^,(\\n]{2,100}?)';
+
+/** Lines that are only a blank to fill in or sign on */
+export const removeBlankLines = dropLinesRule('remove_blank_lines', /^[_.\s]*_{5,}[_.\s]*$/);
+
+/** "Name: ________" → "Name: [blank]" */
+export const markBlanks = textRule('mark_blanks', (text) => text.replace(/_{5,}/g, '[blank]'));
+
+/** "by and between ACME Inc., a Delaware corporation, and Foo LLC" → "ACME Inc.; Foo LLC" */
+export const partiesExtractor: MetadataExtractor = {
+  key: 'parties',
+  extract: (text) => {
+    const match = text.match(new RegExp(`\\b(?:by\\s+and\\s+)?between\\s+${PARTY}\\s*(?:,|\\(|\\band\\b)[\\s\\S]{0,300}?\\band\\s+${PARTY}\\s*(?:,|\\(|\\.|\\n|$)`, 'i'));
+    if (!match) return null;
+    const parties = [match[1], match[2]].map((party) => party.replace(/\s+/g, ' ').trim()).filter(Boolean);
+    return parties.length === 2 ? parties.join('; ') : null;
+  },
+};
+
+/** "effective as of March 1, 2024", "Effective Date: 2024-03-01", "dated 1st day of March 2024" */
+export const effectiveDateExtractor: MetadataExtractor = {
+  key: 'effective_date',
+  extract: (text) =>
+    firstMatch(text, new RegExp(`effective\\s+(?:as\\s+of|date\\s*:?|on)\\s*(?:the\\s+)?(${DATE})`, 'i'))
+    ?? firstMatch(text, new RegExp(`\\bdated\\s+(?:as\\s+of\\s+)?(?:the\\s+)?(${DATE})`, 'i')),
+};
+
+/** "governed by the laws of the State of New York" → "New York" */
+export const governingLawExtractor: MetadataExtractor = {
+  key: 'governing_law',
+  extract: (text) => firstMatch(
+    text,
+    /governed\s+by(?:,?\s+and\s+construed\s+in\s+accordance\s+with,?)?\s+the\s+laws?\s+of\s+(?:the\s+)?(?:(?:State|Commonwealth|Province|Republic)\s+of\s+)?(\p{Lu}[\p{L}'-]*(?:[ \t]+(?:and[ \t]+)?\p{Lu}[\p{L}'-]*){0,3})/u
+  ),
+};
+
+export const CONTRACT_PROFILE: IngestionProfile = {
+  name: 'contract',
+  cleaningRules: [...GENERIC_RULES, removeBlankLines, markBlanks],
+  metadataExtractors: [titleExtractor, partiesExtractor, effectiveDateExtractor, governingLawExtractor],
+};
@@ -0,0 +1,83 @@
+/**
+ * The financial profile: bank and card statements, financial reports
+ *
+ * Masks card numbers so they never reach embeddings or prompts, drops
+ * "continued" markers between statement pages, and records the period,
+ * fiscal year and main currency a document covers.
+ *
+ * @module ingest/profiles/financial
+ */
+
+import { dropLinesRule, GENERIC_RULES, textRule, titleExtractor } from './generic.ts';
+import { DATE, firstMatch } from './patterns.ts';
+import type { IngestionProfile, MetadataExtractor } from './types.ts';
+
+// 13-19 digits, optionally grouped by spaces or dashes
+const CARD_NUMBER = /\b\d(?:[ -]?\d){12,18}\b/g;
+
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'INR', 'CNY'];
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR' };
+
+/** Card numbers that pass the Luhn check become "**** 1234" */
+export const maskCardNumbers = textRule('mask_card_numbers', (text) => text.replace(CARD_NUMBER, (match) => {
+  const digits = match.replace(/\D/g, '');
+  return isLuhnValid(digits) ? `**** ${digits.slice(-4)}` : match;
+}));
+
+/** "(continued)", "Continued on next page" and the like on a line of their own */
+export const removeContinuationLines = dropLinesRule(
+  'remove_continuation_lines',
+  /^\(?(?:continued(?:\s+(?:on|from)\s+(?:the\s+)?(?:next|following|previous)\s+page)?|cont(?:'d|\.))\)?\.?$/i
+);
+
+/** "Statement period: Jan 1, 2024 - Jan 31, 2024", "for the year ended December 31, 2023" */
+export const periodExtractor: MetadataExtractor = {
+  key: 'period',
+  extract: (text) =>
+    firstMatch(text, new RegExp(`(?:statement|billing|reporting)\\s+period\\s*:?\\s*(${DATE}\\s*(?:-|–|to|through)\\s*${DATE})`, 'i'))
+    ?? firstMatch(text, new RegExp(`for\\s+the\\s+((?:(?:fiscal\\s+)?year|quarter|period|(?:three|six|nine|twelve)\\s+months)\\s+ended\\s+${DATE})`, 'i')),
+};
+
+/** "Fiscal year 2023", "FY24" */
+export const fiscalYearExtractor: MetadataExtractor = {
+  key: 'fiscal_year',
+  extract: (text) => {
+    const year = firstMatch(text, /\b(?:fiscal\s+(?:year\s+)?|FY\s?'?)(\d{4}|\d{2})\b/i);
+    if (!year) return null;
+    return `FY${year.length === 2 ? `20${year}` : year}`;
+  },
+};
+
+/** The most used currency code or symbol; `$` counts as USD */
+export const currencyExtractor: MetadataExtractor = {
+  key: 'currency',
+  extract: (text) => {
+    const counts = new Map<string, number>();
+    const add = (code: string) => counts.set(code, (counts.get(code) ?? 0) + 1);
+
+    for (const match of text.matchAll(new RegExp(`\\b(${CURRENCY_CODES.join('|')})\\b`, 'g'))) add(match[1]);
+    for (const match of text.matchAll(/[$€£¥₹](?=\s?\d)/g)) add(CURRENCY_SYMBOLS[match[0]]);
+
+    const [top] = [...counts].sort((a, b) => b[1] - a[1]);
+    return top?.[0] ?? null;
+  },
+};
+
+export const FINANCIAL_PROFILE: IngestionProfile = {
+  name: 'financial',
+  cleaningRules: [...GENERIC_RULES, maskCardNumbers, removeContinuationLines],
+  metadataExtractors: [titleExtractor, periodExtractor, fiscalYearExtractor, currencyExtractor],
+};
+
+function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
@@ -0,0 +1,119 @@
+/**
+ * The generic profile: content-neutral cleanup for any document
+ *
+ * Its rules only remove what no document means as content (page furniture
+ * and line-break hyphenation) and every other profile starts with them.
+ *
+ * @module ingest/profiles/generic
+ */
+
+import type { CleaningRule, IngestionProfile, MetadataExtractor } from './types.ts';
+
+// Lines repeated on at least this share of pages are headers or footers
+const REPEATED_LINE_SHARE = 0.5;
+const MIN_PAGES_FOR_REPEATS = 3;
+// Lines at each end of a page that may be header or footer
+const EDGE_LINES = 2;
+const MAX_TITLE_CHARS = 120;
+
+const PAGE_NUMBER = /^(?:page\s+)?\d{1,4}(?:\s*(?:of|\/)\s*\d{1,4})?$|^[-–—]\s*\d{1,4}\s*[-–—]$/i;
+
+/**
+ * Build a rule that rewrites each section's text on its own
+ */
+export function textRule(name: string, rewrite: (text: string) => string): CleaningRule {
+  return {
+    name,
+    apply: (sections) => sections.map((section) => ({ ...section, text: rewrite(section.text) })),
+  };
+}
+
+/**
+ * Build a rule that removes lines matching a pattern
+ */
+export function dropLinesRule(name: string, pattern: RegExp): CleaningRule {
+  return textRule(name, (text) => text
+    .split('\n')
+    .filter((line) => !pattern.test(line.trim()))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim());
+}
+
+/** "exam-\nple" → "example"; only between lowercase letters, so "Jean-\nPaul" stays */
+export const joinHyphenatedWords = textRule('join_hyphenated_words', (text) => text.replace(/(\p{Ll})-\n(\p{Ll})/gu, '$1$2'));
+
+/** Page numbers ("12", "Page 3 of 10", "- 4 -") at the top or bottom of a page */
+export const removePageNumbers: CleaningRule = {
+  name: 'remove_page_numbers',
+  apply: (sections) => sections.map((section) => {
+    if (section.page === undefined) return section;
+    return { ...section, text: dropEdgeLines(section.text, (line) => PAGE_NUMBER.test(line)) };
+  }),
+};
+
+/** Running headers and footers: the same line at the edge of many pages, page numbers aside */
+export const removeRepeatedLines: CleaningRule = {
+  name: 'remove_repeated_lines',
+  apply: (sections) => {
+    const pages = sections.filter((section) => section.page !== undefined);
+    if (pages.length < MIN_PAGES_FOR_REPEATS) return sections;
+
+    const counts = new Map<string, number>();
+    for (const page of pages) {
+      for (const key of new Set(edgeLines(page.text).map(lineKey))) {
+        if (key) counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+    }
+    const minCount = Math.max(MIN_PAGES_FOR_REPEATS, Math.ceil(pages.length * REPEATED_LINE_SHARE));
+    const repeated = new Set([...counts].filter(([, count]) => count >= minCount).map(([key]) => key));
+    if (repeated.size === 0) return sections;
+
+    return sections.map((section) => section.page === undefined
+      ? section
+      : { ...section, text: dropEdgeLines(section.text, (line) => repeated.has(lineKey(line))) });
+  },
+};
+
+export const GENERIC_RULES: CleaningRule[] = [removeRepeatedLines, removePageNumbers, joinHyphenatedWords];
+
+/** The first top-level heading, or a short first line */
+export const titleExtractor: MetadataExtractor = {
+  key: 'title',
+  extract: (text) => {
+    const heading = text.match(/^#\s+(.+)$/m);
+    if (heading) return heading[1].trim().slice(0, MAX_TITLE_CHARS);
+
+    const first = text.trim().split('\n')[0]?.trim() ?? '';
+    return first && first.length <= MAX_TITLE_CHARS && /\p{L}/u.test(first) && !/[.!?:;,]$/.test(first) ? first : null;
+  },
+};
+
+export const GENERIC_PROFILE: IngestionProfile = {
+  name: 'generic',
+  cleaningRules: GENERIC_RULES,
+  metadataExtractors: [titleExtractor],
+};
+
+function edgeLines(text: string): string[] {
+  const lines = text.split('\n').filter((line) => line.trim());
+  return lines.length <= EDGE_LINES * 2 ? lines : [...lines.slice(0, EDGE_LINES), ...lines.slice(-EDGE_LINES)];
+}
+
+// Digits vary between pages ("Page 3", "Page 4"), so they don't count
+function lineKey(line: string): string {
+  return line.trim().toLowerCase().replace(/\d+/g, '#');
+}
+
+function dropEdgeLines(text: string, matches: (line: string) => boolean): string {
+  const lines = text.split('\n');
+  const drop = new Set<number>();
+  const filled = lines.map((line, i) => [line.trim(), i] as const).filter(([line]) => line);
+
+  for (const [line, i] of [...filled.slice(0, EDGE_LINES), ...filled.slice(-EDGE_LINES)]) {
+    if (matches(line)) drop.add(i);
+  }
+  // Never empty a page: a page that is one repeated line is content
+  if (drop.size === filled.length) return text;
+  return lines.filter((_, i) => !drop.has(i)).join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
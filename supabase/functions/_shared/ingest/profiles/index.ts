@@ -0,0 +1,87 @@
+/**
+ * Ingestion profiles
+ *
+ * Extraction itself is content-neutral. What is debris and what is worth
+ * recording depends on the kind of document, so each GPT picks a profile:
+ * its cleaning rules tidy the extracted text before chunking, and its
+ * metadata extractors fill `knowledge_base.extracted_metadata`. The generic
+ * profile is the default and assumes nothing about the content.
+ *
+ * @module ingest/profiles
+ */
+
+import type { ExtractedDocument } from '../types.ts';
+import { CONTRACT_PROFILE } from './contract.ts';
+import { FINANCIAL_PROFILE } from './financial.ts';
+import { GENERIC_PROFILE } from './generic.ts';
+import { MANUAL_PROFILE } from './manual.ts';
+import { INGESTION_PROFILE_NAMES, type IngestionProfile, type IngestionProfileName } from './types.ts';
+
+export * from './types.ts';
+
+export const INGESTION_PROFILES: Record<IngestionProfileName, IngestionProfile> = {
+  generic: GENERIC_PROFILE,
+  financial: FINANCIAL_PROFILE,
+  contract: CONTRACT_PROFILE,
+  manual: MANUAL_PROFILE,
+};
+
+// Metadata is stated near the start; scanning a whole book costs time for nothing
+const METADATA_SCAN_CHARS = 20_000;
+
+/**
+ * Whether a value names an ingestion profile
+ */
+export function isIngestionProfileName(value: unknown): value is IngestionProfileName {
+  return typeof value === 'string' && (INGESTION_PROFILE_NAMES as string[]).includes(value);
+}
+
+/**
+ * The profile with this name, or the generic one
+ */
+export function resolveProfile(name: unknown): IngestionProfile {
+  return isIngestionProfileName(name) ? INGESTION_PROFILES[name] : GENERIC_PROFILE;
+}
+
+/**
+ * Clean a document and extract its metadata with a profile
+ *
+ * Metadata is read from the text as extracted, since running headers often
+ * carry the title. Tables are not cleaned (rows are already structured) but
+ * their metadata is extracted like any other text.
+ *
+ * @param document - Output of `extractDocument`
+ * @param profile - The GPT's profile
+ * @returns The cleaned document, and the metadata values its extractors found
+ *
+ * @example
+ * ```typescript
+ * const { document: cleaned, metadata } = applyProfile(document, resolveProfile('contract'));
+ * // metadata => { title: 'Master Services Agreement', parties: 'ACME Inc.; Foo LLC', governing_law: 'Delaware' }
+ * ```
+ */
+export function applyProfile(
+  document: ExtractedDocument,
+  profile: IngestionProfile
+): { document: ExtractedDocument; metadata: Record<string, string> } {
+  let cleaned = document;
+  if (document.kind === 'text') {
+    const sections = profile.cleaningRules
+      .reduce((current, rule) => rule.apply(current), document.sections)
+      .filter((section) => section.text.trim());
+    cleaned = { ...document, sections };
+  }
+
+  const text = (document.kind === 'table'
+    ? [document.table.header, ...document.table.rows].map((row) => row.join(' ')).join('\n')
+    : document.sections.map((section) => section.text).join('\n\n')
+  ).slice(0, METADATA_SCAN_CHARS);
+
+  const metadata: Record<string, string> = {};
+  for (const extractor of profile.metadataExtractors) {
+    const value = extractor.extract(text);
+    if (value) metadata[extractor.key] = value;
+  }
+
+  return { document: cleaned, metadata };
+}
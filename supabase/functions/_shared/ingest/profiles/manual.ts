@@ -0,0 +1,44 @@
+/**
+ * The manual profile: user guides, handbooks and technical documentation
+ *
+ * Drops table-of-contents lines, which repeat every heading with a page
+ * number and would otherwise match almost any question, and records the
+ * product and version a manual documents.
+ *
+ * @module ingest/profiles/manual
+ */
+
+import { dropLinesRule, GENERIC_RULES, titleExtractor } from './generic.ts';
+import { firstMatch } from './patterns.ts';
+import type { IngestionProfile, MetadataExtractor } from './types.ts';
+
+// Product names and versions are stated on the first pages
+const HEAD_CHARS = 3000;
+
+/** "Installation ........ 12", "Safety … 3" */
+export const removeTocLines = dropLinesRule('remove_toc_lines', /^.{2,150}?(?:\s*\.{4,}\s*|\s*…+\s*|\s*(?:\.\s){3,})\d{1,4}$/);
+
+/** "Acme Router X2 User Guide" → "Acme Router X2" */
+export const productExtractor: MetadataExtractor = {
+  key: 'product',
+  extract: (text) => firstMatch(
+    text.slice(0, HEAD_CHARS),
+    /^(?:#+\s+)?(.{2,80}?)\s+(?:User(?:'s)?\s+(?:Guide|Manual)|Owner(?:'s)?\s+Manual|Installation\s+Guide|Reference\s+(?:Guide|Manual)|Administrator(?:'s)?\s+Guide|Handbook|Manual|Guide)\b/im
+  ),
+};
+
+/** "Version 2.3", "Release 4.1.0", "Rev. B", "v2.3" */
+export const versionExtractor: MetadataExtractor = {
+  key: 'version',
+  extract: (text) => {
+    const head = text.slice(0, HEAD_CHARS);
+    return firstMatch(head, /\b(?:version|release|rev(?:ision)?\.?)\s*:?\s*(v?\d+(?:\.\d+){0,3}[a-z]?|[A-Z])\b/i)
+      ?? firstMatch(head, /\bv(\d+(?:\.\d+){1,3})\b/);
+  },
+};
+
+export const MANUAL_PROFILE: IngestionProfile = {
+  name: 'manual',
+  cleaningRules: [...GENERIC_RULES, removeTocLines],
+  metadataExtractors: [titleExtractor, productExtractor, versionExtractor],
+};
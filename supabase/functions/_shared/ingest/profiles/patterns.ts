@@ -0,0 +1,21 @@
+/**
+ * Regular expression pieces shared by metadata extractors
+ *
+ * @module ingest/profiles/patterns
+ */
+
+const MONTH = '(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)';
+
+/** A written date: "March 5, 2024", "5 March 2024", "2024-03-05" or "03/05/2024" */
+export const DATE = `(?:${MONTH}\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}|\\d{1,2}(?:st|nd|rd|th)?\\s+(?:day\\s+of\\s+)?${MONTH}\\.?,?\\s+\\d{4}|\\d{4}-\\d{2}-\\d{2}|\\d{1,2}[/.]\\d{1,2}[/.]\\d{2,4})`;
+
+// Extracted values longer than this are a pattern gone wrong
+const MAX_VALUE_CHARS = 200;
+
+/**
+ * First capture group of the first match, tidied; null without a match
+ */
+export function firstMatch(text: string, pattern: RegExp): string | null {
+  const value = text.match(pattern)?.[1]?.replace(/\s+/g, ' ').trim();
+  return value && value.length <= MAX_VALUE_CHARS ? value : null;
+}
@@ -0,0 +1,45 @@
+/**
+ * Shared types for ingestion profiles
+ *
+ * @module ingest/profiles/types
+ */
+
+import type { DocumentSection } from '../types.ts';
+
+/**
+ * - `generic`: content-neutral cleanup only; the default
+ * - `financial`: statements and reports
+ * - `contract`: agreements and other legal documents
+ * - `manual`: user guides, handbooks and technical documentation
+ */
+export type IngestionProfileName = 'generic' | 'financial' | 'contract' | 'manual';
+
+export const INGESTION_PROFILE_NAMES: IngestionProfileName[] = ['generic', 'financial', 'contract', 'manual'];
+
+/**
+ * A cleanup step over a document's text
+ *
+ * Rules see every section at once, so they can spot text repeated across
+ * pages. They must keep section order and page numbers.
+ */
+export interface CleaningRule {
+  name: string;
+  apply(sections: DocumentSection[]): DocumentSection[];
+}
+
+/**
+ * Pulls one metadata value out of a document's text
+ */
+export interface MetadataExtractor {
+  /** Key in `knowledge_base.extracted_metadata` */
+  key: string;
+  /** @returns The value, or null if the document doesn't state it */
+  extract(text: string): string | null;
+}
+
+export interface IngestionProfile {
+  name: IngestionProfileName;
+  /** Applied in order; the specialised profiles start with the generic rules */
+  cleaningRules: CleaningRule[];
+  metadataExtractors: MetadataExtractor[];
+}
@@ -0,0 +1,179 @@
+/**
+ * Re-embedding a GPT's knowledge with another embedding model
+ *
+ * Vectors from different models can't be compared, so a GPT searches only
+ * chunks embedded with its `custom_gpts.embedding_model`. A re-embed job
+ * writes a copy of every chunk embedded with the new model while the old
+ * vectors keep answering searches, then switches the GPT over and drops the
+ * old vectors in one transaction (`finish_reembed_job`). Copies are stored
+ * batch by batch, so an interrupted job picks up where it stopped.
+ *
+ * Jobs live in `reembed_jobs` and are run by the ingestion-worker function.
+ *
+ * @module ingest/reembed
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { HttpError } from '../auth.ts';
+import { embedInBatches } from '../llm/embeddings.ts';
+import type { LLMProvider } from '../llm/types.ts';
+
+export type ReembedStatus = 'queued' | 'embedding' | 'done' | 'failed';
+
+export interface ReembedJob {
+  id: string;
+  custom_gpt_id: string;
+  user_id: string;
+  from_model: string;
+  to_model: string;
+  status: ReembedStatus;
+  progress_current: number;
+  progress_total: number | null;
+  attempts: number;
+  max_attempts: number;
+}
+
+interface PendingChunk {
+  knowledge_base_id: string;
+  chunk_index: number;
+  content: string;
+  page_start: number | null;
+  page_end: number | null;
+  excluded: boolean;
+  edited_at: string | null;
+}
+
+// Chunks fetched per round; each round is embedded in token-sized batches
+const ROUND_SIZE = 500;
+// Rounds that find new chunks after the last one (files processed meanwhile) before giving up for this run
+const MAX_FINISH_ROUNDS = 5;
+
+/**
+ * Queue a re-embed of a GPT's chunks
+ *
+ * Returns the GPT's active job if it already targets `toModel`.
+ *
+ * @param supabase - Service-role client
+ * @param job - The GPT, its owner, and the current and new model
+ * @returns The queued (or already active) job
+ * @throws {HttpError} 409 REEMBED_IN_PROGRESS if a re-embed to another model is running
+ */
+export async function enqueueReembedJob(
+  supabase: SupabaseClient,
+  job: { customGptId: string; userId: string; fromModel: string; toModel: string }
+): Promise<ReembedJob> {
+  const { data: active, error: activeError } = await supabase
+    .from('reembed_jobs')
+    .select('*')
+    .eq('custom_gpt_id', job.customGptId)
+    .not('status', 'in', '(done,failed)')
+    .maybeSingle();
+
+  if (activeError) throw activeError;
+  if (active) {
+    if (active.to_model === job.toModel) return active as ReembedJob;
+    throw new HttpError(409, `A re-embed to ${active.to_model} is already running`, 'REEMBED_IN_PROGRESS');
+  }
+
+  const { data, error } = await supabase
+    .from('reembed_jobs')
+    .insert({
+      custom_gpt_id: job.customGptId,
+      user_id: job.userId,
+      from_model: job.fromModel,
+      to_model: job.toModel,
+    })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return data as ReembedJob;
+}
+
+/**
+ * Embed every chunk that has no copy with the job's model yet, then switch the GPT over
+ *
+ * @param supabase - Service-role client
+ * @param embedder - The embedding provider
+ * @param job - A claimed job
+ * @param options - When to stop for this run, and a progress callback given the chunks copied so far
+ * @returns `done` once the GPT uses the new model; `paused` if the deadline came first
+ * @throws {ProviderError} If embedding fails after retries; copies stored so far are kept
+ */
+export async function runReembed(
+  supabase: SupabaseClient,
+  embedder: LLMProvider,
+  job: ReembedJob,
+  options: { deadline: number; onProgress: (done: number, total: number) => Promise<void> }
+): Promise<'done' | 'paused'> {
+  const total = await countToCopy(supabase, job);
+  let done = 0;
+  let finishRounds = 0;
+
+  while (Date.now() < options.deadline) {
+    const { data, error } = await supabase.rpc('pending_reembed_chunks', {
+      p_custom_gpt_id: job.custom_gpt_id,
+      p_model: job.to_model,
+      p_limit: ROUND_SIZE,
+    });
+    if (error) throw error;
+
+    const pending = (data ?? []) as PendingChunk[];
+    if (pending.length === 0) {
+      const { data: remaining, error: finishError } = await supabase.rpc('finish_reembed_job', { p_job_id: job.id });
+      if (finishError) throw finishError;
+      if (remaining === 0) return 'done';
+
+      // Chunks arrived between the last round and the switch
+      if (++finishRounds >= MAX_FINISH_ROUNDS) break;
+      continue;
+    }
+
+    await embedInBatches(embedder, job.to_model, pending.map((chunk) => chunk.content), async (start, vectors) => {
+      const { error: insertError } = await supabase
+        .from('document_chunks')
+        .insert(vectors.map((embedding, i) => {
+          const chunk = pending[start + i];
+          return {
+            knowledge_base_id: chunk.knowledge_base_id,
+            custom_gpt_id: job.custom_gpt_id,
+            content: chunk.content,
+            chunk_index: chunk.chunk_index,
+            page_start: chunk.page_start,
+            page_end: chunk.page_end,
+            excluded: chunk.excluded,
+            edited_at: chunk.edited_at,
+            embedding,
+            embedding_model: job.to_model,
+            embedding_dim: embedding.length,
+          };
+        }));
+
+      if (insertError) throw insertError;
+      done += vectors.length;
+      await options.onProgress(done, Math.max(total, done));
+    });
+  }
+
+  return 'paused';
+}
+
+// Chunks without a copy when the run starts; copies from earlier runs don't count
+async function countToCopy(supabase: SupabaseClient, job: ReembedJob): Promise<number> {
+  const [{ count: old, error: oldError }, { count: copied, error: copiedError }] = await Promise.all([
+    supabase
+      .from('document_chunks')
+      .select('id', { count: 'exact', head: true })
+      .eq('custom_gpt_id', job.custom_gpt_id)
+      .neq('embedding_model', job.to_model),
+    supabase
+      .from('document_chunks')
+      .select('id', { count: 'exact', head: true })
+      .eq('custom_gpt_id', job.custom_gpt_id)
+      .eq('embedding_model', job.to_model),
+  ]);
+
+  if (oldError) throw oldError;
+  if (copiedError) throw copiedError;
+  return Math.max(0, (old ?? 0) - (copied ?? 0));
+}
@@ -0,0 +1,56 @@
+/**
+ * Plain text and Markdown
+ *
+ * @module ingest/text
+ */
+
+/**
+ * Decode a text file, honouring a byte-order mark
+ *
+ * Files without a BOM are read as UTF-8, falling back to Windows-1252 (the
+ * usual encoding of legacy "ANSI" text files) when they are not valid UTF-8.
+ *
+ * @param data - Raw file contents
+ * @returns The decoded text with line endings normalized to `\n`
+ */
+export function decodeText(data: Uint8Array): string {
+  let text: string;
+  if (data[0] === 0xff && data[1] === 0xfe) {
+    text = new TextDecoder('utf-16le').decode(data.subarray(2));
+  } else if (data[0] === 0xfe && data[1] === 0xff) {
+    text = new TextDecoder('utf-16be').decode(data.subarray(2));
+  } else {
+    try {
+      // The default decoder strips a UTF-8 BOM
+      text = new TextDecoder('utf-8', { fatal: true }).decode(data);
+    } catch {
+      text = new TextDecoder('windows-1252').decode(data);
+    }
+  }
+  return text.replace(/\r\n?/g, '\n');
+}
+
+/**
+ * Reduce Markdown to readable text
+ *
+ * Headings, lists, emphasis and code are kept as written since they read
+ * fine as text; front matter, comments, link targets and image URLs are
+ * removed.
+ *
+ * @param markdown - Markdown source
+ * @returns Text with the document's blank-line paragraph structure intact
+ */
+export function markdownToText(markdown: string): string {
+  return markdown
+    // YAML or TOML front matter
+    .replace(/^(---|\+\+\+)\n[\s\S]*?\n\1\n/, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    // Reference-style link definitions
+    .replace(/^ {0,3}\[[^\]\n]+\]:\s+\S+.*$/gm, '')
+    // Images keep their alt text, links their label
+    .replace(/!\[([^\]\n]*)\]\([^)\n]*\)/g, '$1')
+    .replace(/\[([^\]\n]+)\]\([^)\n]*\)/g, '$1')
+    .replace(/\[([^\]\n]+)\]\[[^\]\n]*\]/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,48 @@
+/**
+ * Shared types for knowledge file ingestion
+ *
+ * @module ingest/types
+ */
+
+export type DocumentFormat = 'pdf' | 'docx' | 'markdown' | 'html' | 'text' | 'csv' | 'epub';
+
+/**
+ * A run of document text, e.g. a PDF page or an EPUB chapter
+ */
+export interface DocumentSection {
+  /** Plain text, with `\n\n` between paragraphs; headings are Markdown `#` lines where the format marks them */
+  text: string;
+  /** 1-based page number, for paginated formats */
+  page?: number;
+}
+
+export interface TableData {
+  header: string[];
+  rows: string[][];
+}
+
+/**
+ * Output of a format extractor: flowing text, or rows of a table
+ */
+export type ExtractedDocument =
+  | { format: DocumentFormat; kind: 'text'; sections: DocumentSection[] }
+  | { format: DocumentFormat; kind: 'table'; table: TableData };
+
+/**
+ * A chunk ready to be embedded and stored in `document_chunks`
+ */
+export interface DocumentChunk {
+  content: string;
+  pageStart: number | null;
+  pageEnd: number | null;
+}
+
+/**
+ * Error for files that cannot be read as their declared format
+ */
+export class DocumentParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentParseError';
+  }
+}
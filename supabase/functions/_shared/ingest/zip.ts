@@ -0,0 +1,122 @@
+/**
+ * Minimal ZIP reader
+ *
+ * DOCX and EPUB files are ZIP archives. This reads the central directory
+ * and inflates individual entries on demand with the runtime's built-in
+ * DecompressionStream, so no archive library is needed.
+ *
+ * @module ingest/zip
+ */
+
+import { DocumentParseError } from './types.ts';
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+export class ZipArchive {
+  private constructor(
+    private readonly data: Uint8Array,
+    private readonly view: DataView,
+    private readonly entries: Map<string, ZipEntry>
+  ) {}
+
+  /**
+   * Read an archive's directory
+   *
+   * @param data - The archive contents
+   * @throws {DocumentParseError} If the data is not a readable ZIP archive
+   */
+  static open(data: Uint8Array): ZipArchive {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    // The end-of-central-directory record sits at the end, before an optional comment
+    let eocd = -1;
+    for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+      if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) throw new DocumentParseError('Not a ZIP archive');
+
+    const count = view.getUint16(eocd + 10, true);
+    let offset = view.getUint32(eocd + 16, true);
+    if (offset === 0xffffffff) throw new DocumentParseError('ZIP64 archives are not supported');
+
+    const decoder = new TextDecoder();
+    const entries = new Map<string, ZipEntry>();
+    for (let i = 0; i < count; i++) {
+      if (offset + 46 > data.length || view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+        throw new DocumentParseError('Corrupt ZIP central directory');
+      }
+      const nameLength = view.getUint16(offset + 28, true);
+      const extraLength = view.getUint16(offset + 30, true);
+      const commentLength = view.getUint16(offset + 32, true);
+      const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+
+      entries.set(name, {
+        method: view.getUint16(offset + 10, true),
+        compressedSize: view.getUint32(offset + 20, true),
+        localHeaderOffset: view.getUint32(offset + 42, true),
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return new ZipArchive(data, view, entries);
+  }
+
+  /** Entry names, in directory order */
+  names(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  /**
+   * Read and decompress an entry
+   *
+   * @param name - Path of the entry inside the archive
+   * @returns The entry's bytes, or undefined if there is no such entry
+   * @throws {DocumentParseError} If the entry is corrupt or uses an unsupported compression method
+   */
+  async read(name: string): Promise<Uint8Array | undefined> {
+    const entry = this.entries.get(name);
+    if (!entry) return undefined;
+
+    const header = entry.localHeaderOffset;
+    if (header + 30 > this.data.length || this.view.getUint32(header, true) !== LOCAL_SIGNATURE) {
+      throw new DocumentParseError(`Corrupt ZIP entry: ${name}`);
+    }
+    const start = header + 30 + this.view.getUint16(header + 26, true) + this.view.getUint16(header + 28, true);
+    const raw = this.data.subarray(start, start + entry.compressedSize);
+
+    if (entry.method === 0) return raw;
+    if (entry.method !== 8) {
+      throw new DocumentParseError(`Unsupported ZIP compression method ${entry.method} for ${name}`);
+    }
+
+    try {
+      const stream = new Blob([new Uint8Array(raw)]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    } catch (error) {
+      throw new DocumentParseError(`Corrupt ZIP entry ${name}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Read an entry as UTF-8 text
+   */
+  async readText(name: string): Promise<string | undefined> {
+    const data = await this.read(name);
+    return data && new TextDecoder().decode(data);
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Anthropic Messages API adapter
+ *
+ * Anthropic has no embeddings endpoint, so `embed` always fails; ingestion
+ * and retrieval use the embedding provider configured in `llm/index.ts`.
+ *
+ * @module llm/anthropic
+ */
+
+import { readSSEData } from '../sse.ts';
+import { ProviderError, retryAfterMs, type ChatMessage, type ChatRequest, type LLMProvider } from './types.ts';
+
+export interface AnthropicProviderOptions {
+  apiKey: string;
+  /** API root including the version */
+  baseUrl?: string;
+}
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// The Messages API requires max_tokens
+const DEFAULT_MAX_TOKENS = 2000;
+
+/**
+ * Split our chat messages into Anthropic's top-level system prompt and
+ * user/assistant turns
+ */
+function toAnthropicMessages(messages: ChatMessage[]) {
+  const system = messages
+    .filter((m) => m.role === 'system')
+    .map((m) => m.content)
+    .join('\n\n');
+
+  const turns = messages
+    .filter((m) => m.role !== 'system')
+    .map((m) => ({ role: m.role, content: m.content }));
+
+  return { system: system || undefined, messages: turns };
+}
+
+/**
+ * Sampling and limit fields of a Messages API request
+ *
+ * Anthropic's temperature tops out at 1, and recent models reject requests
+ * that set both temperature and top_p, so temperature wins. There is no JSON
+ * mode; callers ask for JSON in the prompt instead.
+ */
+function toAnthropicOptions({ maxTokens = DEFAULT_MAX_TOKENS, temperature, topP }: ChatRequest) {
+  if (temperature !== undefined) {
+    return { max_tokens: maxTokens, temperature: Math.min(temperature, 1) };
+  }
+  return { max_tokens: maxTokens, ...(topP === undefined ? {} : { top_p: topP }) };
+}
+
+/**
+ * Create a provider backed by the Anthropic Messages API
+ *
+ * @param options - API key and optional base URL
+ * @returns The provider
+ *
+ * @example
+ * ```typescript
+ * const provider = createAnthropicProvider({ apiKey });
+ * const reply = await provider.chat({ model: 'claude-sonnet-4-5', messages });
+ * ```
+ */
+export function createAnthropicProvider({ apiKey, baseUrl = DEFAULT_BASE_URL }: AnthropicProviderOptions): LLMProvider {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const post = async (body: unknown, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${root}/messages`, {
+      method: 'POST',
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      console.error('anthropic API error:', errorData);
+      throw new ProviderError('anthropic', response.status, `anthropic API error: ${response.status}`, retryAfterMs(response));
+    }
+
+    return response;
+  };
+
+  return {
+    name: 'anthropic',
+
+    async chat(request: ChatRequest): Promise<string> {
+      const response = await post({ model: request.model, ...toAnthropicOptions(request), ...toAnthropicMessages(request.messages) });
+      const data = await response.json();
+      return (data.content ?? [])
+        .filter((block: { type: string }) => block.type === 'text')
+        .map((block: { text: string }) => block.text)
+        .join('');
+    },
+
+    async *streamChat(request: ChatRequest, signal?: AbortSignal): AsyncGenerator<string> {
+      const response = await post(
+        { model: request.model, ...toAnthropicOptions(request), ...toAnthropicMessages(request.messages), stream: true },
+        signal
+      );
+      if (!response.body) {
+        throw new ProviderError('anthropic', response.status, 'anthropic API returned no stream');
+      }
+
+      for await (const data of readSSEData(response.body)) {
+        const event = JSON.parse(data);
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          yield event.delta.text;
+        } else if (event.type === 'message_stop') {
+          return;
+        } else if (event.type === 'error') {
+          throw new ProviderError('anthropic', 0, `anthropic stream error: ${event.error?.message ?? 'unknown'}`);
+        }
+      }
+    },
+
+    embed(): Promise<number[][]> {
+      return Promise.reject(new ProviderError('anthropic', 0, 'anthropic does not provide an embeddings API'));
+    },
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Embedding client: token-aware batching with retries
+ *
+ * Packs texts into as few requests as the provider's limits allow, retries
+ * rate limits and server errors with exponential backoff (honouring
+ * `Retry-After`), and hands every finished batch to the caller, so progress
+ * can be shown and stored as it happens and a failed run resumes after the
+ * last stored batch instead of starting over.
+ *
+ * @module llm/embeddings
+ */
+
+import { estimateTokens } from '../chunking/tokens.ts';
+import { ProviderError, type LLMProvider } from './types.ts';
+
+export interface EmbeddingLimits {
+  /** Texts per request */
+  maxInputs: number;
+  /** Estimated tokens per request, all texts together */
+  maxBatchTokens: number;
+  /** Longer texts are cut to this many characters */
+  maxInputChars: number;
+}
+
+export interface RetryOptions {
+  /** Attempts after the first */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Within OpenAI's limits (2048 inputs, 300k tokens, 8191 tokens per input),
+ * with room for the token estimate running low
+ */
+export const EMBEDDING_LIMITS: EmbeddingLimits = {
+  maxInputs: 256,
+  maxBatchTokens: 100_000,
+  maxInputChars: 12_000,
+};
+
+export const EMBEDDING_RETRY: RetryOptions = {
+  retries: 5,
+  baseDelayMs: 1_000,
+  maxDelayMs: 60_000,
+};
+
+/**
+ * Whether an error is worth retrying: rate limits, server errors and network failures
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof ProviderError) return error.status === 429 || error.status >= 500;
+  // fetch rejects with a TypeError when the connection fails
+  return error instanceof TypeError;
+}
+
+/**
+ * Run a provider call, retrying transient failures with exponential backoff
+ *
+ * Waits as long as the API's `Retry-After` asks for when it sends one,
+ * otherwise `baseDelayMs` doubled per attempt with jitter, capped at
+ * `maxDelayMs`.
+ *
+ * @throws The last error once retries run out, or the first one that is not transient
+ */
+export async function withRetry<T>(call: () => Promise<T>, options: RetryOptions = EMBEDDING_RETRY): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      if (attempt >= options.retries || !isTransientError(error)) throw error;
+
+      const backoff = options.baseDelayMs * 2 ** attempt * (0.8 + Math.random() * 0.4);
+      const requested = error instanceof ProviderError ? error.retryAfterMs : undefined;
+      const delay = Math.min(options.maxDelayMs, requested ?? backoff);
+      console.warn(`Provider request failed (${(error as Error).message}); retry ${attempt + 1}/${options.retries} in ${Math.round(delay)} ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Split texts into request-sized batches
+ *
+ * @returns `[start, end)` index ranges, in order
+ */
+export function planBatches(texts: string[], limits: EmbeddingLimits = EMBEDDING_LIMITS): Array<[number, number]> {
+  const batches: Array<[number, number]> = [];
+  let start = 0;
+  let tokens = 0;
+
+  texts.forEach((text, i) => {
+    const textTokens = estimateTokens(text.slice(0, limits.maxInputChars));
+    if (i > start && (i - start >= limits.maxInputs || tokens + textTokens > limits.maxBatchTokens)) {
+      batches.push([start, i]);
+      start = i;
+      tokens = 0;
+    }
+    tokens += textTokens;
+  });
+  if (start < texts.length) batches.push([start, texts.length]);
+
+  return batches;
+}
+
+/**
+ * Embed many texts in as few requests as the limits allow
+ *
+ * @param provider - The embedding provider
+ * @param model - Embedding model
+ * @param texts - Texts to embed
+ * @param onBatch - Called after each batch with the index of its first text and its vectors; awaited before the next batch
+ * @returns One vector per text, in input order
+ * @throws {ProviderError} If a batch still fails after retries; earlier batches have already been passed to `onBatch`
+ *
+ * @example
+ * ```typescript
+ * await embedInBatches(embedder, gpt.embedding_model, chunks.map((c) => c.content), async (start, vectors) => {
+ *   await storeChunks(chunks.slice(start, start + vectors.length), vectors);
+ * });
+ * ```
+ */
+export async function embedInBatches(
+  provider: LLMProvider,
+  model: string,
+  texts: string[],
+  onBatch?: (start: number, vectors: number[][]) => Promise<void>,
+  limits: EmbeddingLimits = EMBEDDING_LIMITS
+): Promise<number[][]> {
+  const vectors: number[][] = [];
+
+  for (const [start, end] of planBatches(texts, limits)) {
+    const batch = texts.slice(start, end).map((text) => text.slice(0, limits.maxInputChars));
+    const batchVectors = await withRetry(() => provider.embed(batch, model));
+    if (batchVectors.length !== batch.length) {
+      throw new ProviderError(provider.name, 502, `Expected ${batch.length} embeddings, got ${batchVectors.length}`);
+    }
+
+    vectors.push(...batchVectors);
+    await onBatch?.(start, batchVectors);
+  }
+
+  return vectors;
+}
@@ -0,0 +1,131 @@
+/**
+ * LLM provider registry for Supabase Edge Functions
+ *
+ * Picks the adapter for a GPT's configured provider and supplies its
+ * credentials. Chat can use any provider; embeddings always come from the
+ * embedding provider, with the model recorded per GPT
+ * (`custom_gpts.embedding_model`) and per chunk so vectors from different
+ * models are never compared.
+ *
+ * Optional secrets:
+ * - OPENAI_BASE_URL: send OpenAI traffic elsewhere (e.g. a local stub server)
+ * - ANTHROPIC_API_KEY: enables the anthropic provider
+ * - ANTHROPIC_BASE_URL: override the Anthropic API root
+ * - OPENAI_COMPATIBLE_BASE_URL: enables the openai-compatible provider (e.g. http://localhost:11434/v1)
+ * - OPENAI_COMPATIBLE_API_KEY: bearer token for that server, if it needs one
+ * - OPENAI_COMPATIBLE_MODEL: model used when a GPT does not name one
+ * - EMBEDDING_PROVIDER: "openai" (default) or "openai-compatible"
+ * - EMBEDDING_MODEL: model a re-embed moves a GPT to when none is named; defaults to text-embedding-3-small
+ * - LLM_STUB: "true" replaces every provider with the offline stub in stub.ts (local runs and evaluations)
+ *
+ * @module llm
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { HttpError } from '../auth.ts';
+import { resolveOpenAIKey } from '../api-keys.ts';
+import { createOpenAIProvider } from './openai.ts';
+import { createAnthropicProvider } from './anthropic.ts';
+import { createStubProvider } from './stub.ts';
+import type { LLMProvider, ProviderName } from './types.ts';
+
+export * from './types.ts';
+export * from './embeddings.ts';
+
+const openAIBaseUrl = Deno.env.get('OPENAI_BASE_URL') || undefined;
+const anthropicApiKey = Deno.env.get('ANTHROPIC_API_KEY');
+const anthropicBaseUrl = Deno.env.get('ANTHROPIC_BASE_URL') || undefined;
+const compatibleBaseUrl = Deno.env.get('OPENAI_COMPATIBLE_BASE_URL');
+const compatibleApiKey = Deno.env.get('OPENAI_COMPATIBLE_API_KEY') ?? '';
+const compatibleModel = Deno.env.get('OPENAI_COMPATIBLE_MODEL') || 'llama3.1';
+const embeddingProvider = Deno.env.get('EMBEDDING_PROVIDER') === 'openai-compatible' ? 'openai-compatible' : 'openai';
+const useStub = Deno.env.get('LLM_STUB') === 'true';
+
+export const EMBEDDING_MODEL = Deno.env.get('EMBEDDING_MODEL') || 'text-embedding-3-small';
+
+export const PROVIDER_NAMES: ProviderName[] = ['openai', 'anthropic', 'openai-compatible'];
+
+/**
+ * Models used when neither the GPT nor the user picked one
+ *
+ * `chat` answers the user; `utility` handles background work such as
+ * conversation summaries and document cleanup, where a cheaper model will do.
+ */
+export const DEFAULT_MODELS: Record<ProviderName, { chat: string; utility: string }> = {
+  'openai': { chat: 'gpt-5-2025-08-07', utility: 'gpt-4.1-2025-04-14' },
+  'anthropic': { chat: 'claude-sonnet-4-5', utility: 'claude-haiku-4-5' },
+  'openai-compatible': { chat: compatibleModel, utility: compatibleModel },
+};
+
+/**
+ * Error code returned when a GPT names a provider this deployment has no credentials for
+ */
+export const PROVIDER_NOT_CONFIGURED = 'PROVIDER_NOT_CONFIGURED';
+
+/**
+ * Whether a value is a known provider name
+ */
+export function isProviderName(value: unknown): value is ProviderName {
+  return typeof value === 'string' && (PROVIDER_NAMES as string[]).includes(value);
+}
+
+/**
+ * Build the provider for chat completions on behalf of a user
+ *
+ * OpenAI calls are billed to the user's own key (see api-keys.ts); the other
+ * providers use deployment-wide credentials.
+ *
+ * @param supabase - Service-role client
+ * @param userId - The user whose OpenAI key should be used
+ * @param name - The GPT's configured provider
+ * @returns The provider
+ * @throws {HttpError} 400 PROVIDER_NOT_CONFIGURED if the provider has no credentials
+ * @throws {HttpError} 400 API_KEY_MISSING / API_KEY_UNREADABLE for OpenAI without a usable key
+ *
+ * @example
+ * ```typescript
+ * const provider = await resolveChatProvider(supabase, user.id, gpt.llm_provider);
+ * const reply = await provider.chat({ model, messages });
+ * ```
+ */
+export async function resolveChatProvider(supabase: SupabaseClient, userId: string, name: ProviderName): Promise<LLMProvider> {
+  if (useStub) return createStubProvider(name);
+
+  switch (name) {
+    case 'anthropic':
+      if (!anthropicApiKey) {
+        throw new HttpError(400, 'The Anthropic provider is not configured on this server.', PROVIDER_NOT_CONFIGURED);
+      }
+      return createAnthropicProvider({ apiKey: anthropicApiKey, baseUrl: anthropicBaseUrl });
+
+    case 'openai-compatible':
+      return createCompatibleProvider();
+
+    case 'openai':
+    default:
+      return createOpenAIProvider({ apiKey: await resolveOpenAIKey(supabase, userId), baseUrl: openAIBaseUrl });
+  }
+}
+
+/**
+ * Build the provider used for document and query embeddings
+ *
+ * @param supabase - Service-role client
+ * @param userId - The user whose OpenAI key should be used
+ * @returns The provider; pair it with the GPT's `embedding_model`
+ * @throws {HttpError} 400 if the embedding provider has no credentials
+ */
+export async function resolveEmbeddingProvider(supabase: SupabaseClient, userId: string): Promise<LLMProvider> {
+  if (useStub) return createStubProvider(embeddingProvider);
+  if (embeddingProvider === 'openai-compatible') {
+    return createCompatibleProvider();
+  }
+  return createOpenAIProvider({ apiKey: await resolveOpenAIKey(supabase, userId), baseUrl: openAIBaseUrl });
+}
+
+function createCompatibleProvider(): LLMProvider {
+  if (!compatibleBaseUrl) {
+    throw new HttpError(400, 'The OpenAI-compatible provider is not configured on this server.', PROVIDER_NOT_CONFIGURED);
+  }
+  return createOpenAIProvider({ apiKey: compatibleApiKey, baseUrl: compatibleBaseUrl, name: 'openai-compatible' });
+}
@@ -0,0 +1,108 @@
+/**
+ * OpenAI chat completions and embeddings adapter
+ *
+ * Also serves any OpenAI-compatible server (Ollama, vLLM, LM Studio, a
+ * local stub) by pointing `baseUrl` at it.
+ *
+ * @module llm/openai
+ */
+
+import { readSSEData } from '../sse.ts';
+import { ProviderError, retryAfterMs, type ChatRequest, type LLMProvider, type ProviderName } from './types.ts';
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  /** API root including the version, e.g. `http://localhost:11434/v1` */
+  baseUrl?: string;
+  /** Reported as the provider name; use 'openai-compatible' for other servers */
+  name?: Extract<ProviderName, 'openai' | 'openai-compatible'>;
+}
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+// Models that reject temperature/top_p other than the default
+const REASONING_MODEL = /^(gpt-5|o\d)/;
+
+/**
+ * Create a provider that speaks the OpenAI REST API
+ *
+ * @param options - API key, base URL and the name to report
+ * @returns The provider
+ *
+ * @example
+ * ```typescript
+ * const provider = createOpenAIProvider({ apiKey });
+ * const reply = await provider.chat({ model: 'gpt-4.1-2025-04-14', messages });
+ * ```
+ */
+export function createOpenAIProvider({ apiKey, baseUrl = DEFAULT_BASE_URL, name = 'openai' }: OpenAIProviderOptions): LLMProvider {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+
+  // OpenAI's reasoning models only accept max_completion_tokens and the
+  // default sampling; most compatible servers only understand max_tokens
+  const requestOptions = ({ model, maxTokens, temperature, topP, responseFormat }: ChatRequest) => {
+    const reasoning = name === 'openai' && REASONING_MODEL.test(model);
+    return {
+      ...(maxTokens === undefined ? {} : name === 'openai' ? { max_completion_tokens: maxTokens } : { max_tokens: maxTokens }),
+      ...(temperature === undefined || reasoning ? {} : { temperature }),
+      ...(topP === undefined || reasoning ? {} : { top_p: topP }),
+      ...(responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+    };
+  };
+
+  const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${root}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      console.error(`${name} API error:`, errorData);
+      throw new ProviderError(name, response.status, `${name} API error: ${response.status}`, retryAfterMs(response));
+    }
+
+    return response;
+  };
+
+  return {
+    name,
+
+    async chat(request: ChatRequest): Promise<string> {
+      const { model, messages } = request;
+      const response = await post('/chat/completions', { model, messages, ...requestOptions(request) });
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content ?? '';
+    },
+
+    async *streamChat(request: ChatRequest, signal?: AbortSignal): AsyncGenerator<string> {
+      const { model, messages } = request;
+      const response = await post('/chat/completions', { model, messages, ...requestOptions(request), stream: true }, signal);
+      if (!response.body) {
+        throw new ProviderError(name, response.status, `${name} API returned no stream`);
+      }
+
+      for await (const data of readSSEData(response.body)) {
+        if (data === '[DONE]') return;
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+
+    async embed(texts: string[], model: string): Promise<number[][]> {
+      const response = await post('/embeddings', { model, input: texts });
+      const data = await response.json();
+      // The API may return items out of order; `index` is authoritative
+      return [...data.data]
+        .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+        .map((item: { embedding: number[] }) => item.embedding);
+    },
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Deterministic stand-in for a real LLM provider
+ *
+ * Used instead of every provider when the LLM_STUB secret is "true", so the
+ * functions (and evaluations in particular) run locally without API keys or
+ * network access. Replies are predictable rather than useful:
+ *
+ * - JSON requests (query planning, LLM reranking, judging) get `{}`, so
+ *   callers take their documented fallback path
+ * - Text requests are answered with the first sentence of the first
+ *   numbered source in the system prompt, cited as `[1]`
+ * - Embeddings are hashed bags of words, so texts sharing words are similar
+ *
+ * Documents ingested under the stub can only be searched under the stub:
+ * its vectors are not comparable with any real model's.
+ *
+ * @module llm/stub
+ */
+
+import type { ChatRequest, LLMProvider, ProviderName } from './types.ts';
+
+export const STUB_EMBEDDING_DIM = 256;
+
+const NOT_FOUND_REPLY = "I couldn't find this in the uploaded documents.";
+
+// First numbered source in a system prompt built by formatSourcesForPrompt
+const FIRST_SOURCE = /^\[1\] \(.*\)\n([\s\S]*?)(?:\n\n\[2\] \(|$)/m;
+
+/**
+ * Create the stub provider
+ *
+ * @param name - The provider it stands in for, so model defaults still resolve
+ *
+ * @example
+ * ```typescript
+ * const stub = createStubProvider('openai');
+ * const [vector] = await stub.embed(['termination notice'], 'text-embedding-3-small');
+ * // vector.length === STUB_EMBEDDING_DIM
+ * ```
+ */
+export function createStubProvider(name: ProviderName): LLMProvider {
+  return {
+    name,
+
+    async chat(request) {
+      return stubReply(request);
+    },
+
+    async *streamChat(request) {
+      for (const word of stubReply(request).split(/(?<=\s)/)) {
+        yield word;
+      }
+    },
+
+    async embed(texts) {
+      return texts.map(embedWords);
+    },
+  };
+}
+
+function stubReply(request: ChatRequest): string {
+  if (request.responseFormat === 'json') return '{}';
+
+  const system = request.messages.find((m) => m.role === 'system')?.content ?? '';
+  const source = FIRST_SOURCE.exec(system)?.[1]?.trim();
+  if (!source) return NOT_FOUND_REPLY;
+
+  const sentence = source.match(/^[\s\S]*?[.!?](?=\s|$)/)?.[0] ?? source.slice(0, 300);
+  return `${sentence.replace(/\s+/g, ' ').trim()} [1]`;
+}
+
+// Feature hashing of lowercase words (FNV-1a), L2-normalized
+function embedWords(text: string): number[] {
+  const vector = new Array<number>(STUB_EMBEDDING_DIM).fill(0);
+
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < word.length; i++) {
+      hash = Math.imul(hash ^ word.charCodeAt(i), 0x01000193);
+    }
+    vector[(hash >>> 0) % STUB_EMBEDDING_DIM] += 1;
+  }
+
+  const norm = Math.hypot(...vector);
+  // An all-zero vector has no cosine similarity; point it somewhere fixed
+  if (norm === 0) {
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map((value) => value / norm);
+}
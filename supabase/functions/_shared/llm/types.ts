@@ -0,0 +1,94 @@
+/**
+ * Common types for LLM providers
+ *
+ * Every adapter implements {@link LLMProvider}, so the Edge Functions can
+ * chat, stream and embed without knowing which vendor is behind the call.
+ *
+ * @module llm/types
+ */
+
+export type ProviderName = 'openai' | 'anthropic' | 'openai-compatible';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+/**
+ * `json` asks the model for a single JSON object instead of prose
+ */
+export type ResponseFormat = 'text' | 'json';
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  /** Upper bound on generated tokens */
+  maxTokens?: number;
+  /** Sampling temperature; omitted = provider default */
+  temperature?: number;
+  /** Nucleus sampling cutoff; omitted = provider default */
+  topP?: number;
+  responseFormat?: ResponseFormat;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+
+  /**
+   * Run a chat completion and return the full reply
+   *
+   * @throws {ProviderError} If the upstream API rejects the request
+   */
+  chat(request: ChatRequest): Promise<string>;
+
+  /**
+   * Run a chat completion in streaming mode, yielding content deltas
+   *
+   * Aborting `signal` cancels the upstream request.
+   *
+   * @throws {ProviderError} If the upstream API rejects the request
+   */
+  streamChat(request: ChatRequest, signal?: AbortSignal): AsyncGenerator<string>;
+
+  /**
+   * Embed a batch of texts, returning one vector per input in input order
+   *
+   * @throws {ProviderError} If the upstream API rejects the request or the provider has no embeddings API
+   */
+  embed(texts: string[], model: string): Promise<number[][]>;
+}
+
+/**
+ * Error returned by an upstream LLM API
+ *
+ * `status` is the upstream HTTP status (0 when the provider does not
+ * support the operation at all). `retryAfterMs` is the wait the API asked
+ * for in its `Retry-After` header, if it sent one.
+ */
+export class ProviderError extends Error {
+  constructor(
+    public readonly provider: ProviderName,
+    public readonly status: number,
+    message: string,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * Read a response's `Retry-After` header, in seconds or as an HTTP date
+ *
+ * @returns Milliseconds to wait, or undefined without a usable header
+ */
+export function retryAfterMs(response: Response): number | undefined {
+  const header = response.headers.get('retry-after');
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,145 @@
+/**
+ * CMap parsing
+ *
+ * Reads the parts of a CMap we need for text extraction: codespace ranges
+ * (how many bytes make up one character code) and, for ToUnicode CMaps,
+ * the bfchar/bfrange mappings from codes to Unicode text.
+ *
+ * @module pdf/cmap
+ */
+
+import { PdfLexer, PdfOperator, PdfString, type PdfValue } from './objects.ts';
+
+interface CodespaceRange {
+  low: Uint8Array;
+  high: Uint8Array;
+}
+
+// bfrange entries wider than this are almost certainly garbage
+const MAX_RANGE = 0x10000;
+
+const utf16 = new TextDecoder('utf-16be');
+
+function bytesToCode(bytes: Uint8Array): number {
+  let code = 0;
+  for (const byte of bytes) code = code * 256 + byte;
+  return code;
+}
+
+function key(code: number, length: number): number {
+  return length * 0x100000000 + code;
+}
+
+export class CMap {
+  private readonly codespaces: CodespaceRange[] = [];
+  private readonly unicode = new Map<number, string>();
+
+  /**
+   * @param data - Decoded CMap stream
+   */
+  constructor(data: Uint8Array) {
+    const lexer = new PdfLexer(data, 0);
+    let operands: PdfValue[] = [];
+
+    while (true) {
+      const value = lexer.parseValue(true);
+      if (value === undefined) break;
+
+      if (!(value instanceof PdfOperator)) {
+        operands.push(value);
+        continue;
+      }
+
+      switch (value.op) {
+        case 'endcodespacerange':
+          for (let i = 0; i + 1 < operands.length; i += 2) {
+            const low = operands[i];
+            const high = operands[i + 1];
+            if (low instanceof PdfString && high instanceof PdfString && low.bytes.length === high.bytes.length) {
+              this.codespaces.push({ low: low.bytes, high: high.bytes });
+            }
+          }
+          break;
+        case 'endbfchar':
+          for (let i = 0; i + 1 < operands.length; i += 2) {
+            const src = operands[i];
+            const dst = operands[i + 1];
+            if (src instanceof PdfString && dst instanceof PdfString) {
+              this.unicode.set(key(bytesToCode(src.bytes), src.bytes.length), utf16.decode(dst.bytes));
+            }
+          }
+          break;
+        case 'endbfrange':
+          for (let i = 0; i + 2 < operands.length; i += 3) {
+            this.addRange(operands[i], operands[i + 1], operands[i + 2]);
+          }
+          break;
+      }
+      operands = [];
+    }
+  }
+
+  get hasCodespaces(): boolean {
+    return this.codespaces.length > 0;
+  }
+
+  get hasMappings(): boolean {
+    return this.unicode.size > 0;
+  }
+
+  /**
+   * Length in bytes of the character code starting at `offset`
+   *
+   * @param fallback - Length to use when no codespace range matches
+   */
+  codeLength(bytes: Uint8Array, offset: number, fallback: number): number {
+    for (let length = 1; length <= 4 && offset + length <= bytes.length; length++) {
+      for (const range of this.codespaces) {
+        if (range.low.length !== length) continue;
+        let inside = true;
+        for (let i = 0; i < length; i++) {
+          const byte = bytes[offset + i];
+          if (byte < range.low[i] || byte > range.high[i]) {
+            inside = false;
+            break;
+          }
+        }
+        if (inside) return length;
+      }
+    }
+    return fallback;
+  }
+
+  lookup(code: number, length: number): string | undefined {
+    return this.unicode.get(key(code, length));
+  }
+
+  private addRange(lowValue: PdfValue, highValue: PdfValue, dst: PdfValue): void {
+    if (!(lowValue instanceof PdfString) || !(highValue instanceof PdfString)) return;
+
+    const length = lowValue.bytes.length;
+    const low = bytesToCode(lowValue.bytes);
+    const high = bytesToCode(highValue.bytes);
+    if (high < low || high - low > MAX_RANGE) return;
+
+    if (Array.isArray(dst)) {
+      // [<dst1> <dst2> ...] gives each code its own text
+      dst.forEach((item, i) => {
+        if (item instanceof PdfString && low + i <= high) {
+          this.unicode.set(key(low + i, length), utf16.decode(item.bytes));
+        }
+      });
+      return;
+    }
+
+    if (!(dst instanceof PdfString) || dst.bytes.length === 0) return;
+
+    // Otherwise the last UTF-16 unit of dst increments across the range
+    const base = utf16.decode(dst.bytes);
+    const prefix = base.slice(0, -1);
+    const last = base.charCodeAt(base.length - 1);
+    for (let code = low; code <= high; code++) {
+      this.unicode.set(key(code, length), prefix + String.fromCharCode(last + (code - low)));
+    }
+  }
+}
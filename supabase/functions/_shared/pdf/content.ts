@@ -0,0 +1,281 @@
+/**
+ * Content stream interpreter
+ *
+ * Executes just enough of a page's content stream to know where each piece
+ * of text lands: graphics state (q/Q/cm), text state and positioning, the
+ * text-showing operators and form XObjects. Everything else is skipped.
+ *
+ * @module pdf/content
+ */
+
+import { loadFont, type PdfFont } from './fonts.ts';
+import {
+  PdfLexer,
+  PdfName,
+  PdfOperator,
+  PdfString,
+  getName,
+  type PdfDict,
+  type PdfValue,
+} from './objects.ts';
+import type { PdfDocument } from './document.ts';
+
+/**
+ * A run of text placed on the page, in default user space (points, y up)
+ */
+export interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+  /** x where the run ends */
+  endX: number;
+  /** Rendered font size, after all scaling */
+  fontSize: number;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Nested forms deeper than this are almost always a reference loop
+const MAX_FORM_DEPTH = 8;
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+function toMatrix(values: PdfValue[]): Matrix | undefined {
+  if (values.length < 6 || values.slice(0, 6).some((v) => typeof v !== 'number')) return undefined;
+  return values.slice(0, 6) as Matrix;
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  font: PdfFont | undefined;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+  rise: number;
+}
+
+/**
+ * Collect the positioned text runs of a page
+ *
+ * @param doc - The document
+ * @param contents - Decoded page content stream
+ * @param resources - The page's resource dictionary
+ * @returns Text runs in content-stream order
+ */
+export async function extractTextRuns(
+  doc: PdfDocument,
+  contents: Uint8Array,
+  resources: PdfDict | undefined
+): Promise<TextRun[]> {
+  const runs: TextRun[] = [];
+  const fontCache = new Map<PdfDict, PdfFont>();
+  await runContent(doc, contents, resources, IDENTITY, runs, fontCache, 0);
+  return runs;
+}
+
+async function runContent(
+  doc: PdfDocument,
+  contents: Uint8Array,
+  resources: PdfDict | undefined,
+  baseCtm: Matrix,
+  runs: TextRun[],
+  fontCache: Map<PdfDict, PdfFont>,
+  depth: number
+): Promise<void> {
+  const lexer = new PdfLexer(contents, 0);
+  const stack: GraphicsState[] = [];
+  let state: GraphicsState = {
+    ctm: baseCtm,
+    font: undefined,
+    fontSize: 0,
+    charSpacing: 0,
+    wordSpacing: 0,
+    horizontalScale: 1,
+    leading: 0,
+    rise: 0,
+  };
+  let textMatrix: Matrix = IDENTITY;
+  let lineMatrix: Matrix = IDENTITY;
+  let operands: PdfValue[] = [];
+
+  const fonts = await doc.resolveDict(resources?.get('Font'));
+  const xobjects = await doc.resolveDict(resources?.get('XObject'));
+
+  const nextLine = (tx: number, ty: number) => {
+    lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+    textMatrix = lineMatrix;
+  };
+
+  const showText = (bytes: Uint8Array) => {
+    const font = state.font;
+    if (!font) return;
+
+    const start = multiply([1, 0, 0, 1, 0, state.rise], multiply(textMatrix, state.ctm));
+    let text = '';
+
+    for (const glyph of font.decode(bytes)) {
+      text += glyph.text;
+      const advance = ((glyph.width / 1000) * state.fontSize + state.charSpacing + (glyph.isSpace ? state.wordSpacing : 0))
+        * state.horizontalScale;
+      textMatrix = multiply([1, 0, 0, 1, advance, 0], textMatrix);
+    }
+
+    if (!text) return;
+
+    const end = multiply(textMatrix, state.ctm);
+    runs.push({
+      text,
+      x: start[4],
+      y: start[5],
+      endX: end[4],
+      fontSize: Math.abs(state.fontSize * Math.hypot(start[2], start[3])) || state.fontSize,
+    });
+  };
+
+  while (true) {
+    const value = lexer.parseValue(true);
+    if (value === undefined) break;
+
+    if (!(value instanceof PdfOperator)) {
+      operands.push(value);
+      continue;
+    }
+
+    const op = value.op;
+    const num = (i: number) => (typeof operands[i] === 'number' ? operands[i] as number : 0);
+
+    switch (op) {
+      case 'q':
+        stack.push({ ...state });
+        break;
+      case 'Q':
+        state = stack.pop() ?? state;
+        break;
+      case 'cm': {
+        const matrix = toMatrix(operands);
+        if (matrix) state.ctm = multiply(matrix, state.ctm);
+        break;
+      }
+      case 'BT':
+        textMatrix = IDENTITY;
+        lineMatrix = IDENTITY;
+        break;
+      case 'Tf': {
+        const name = operands[0];
+        state.fontSize = num(1);
+        state.font = undefined;
+        if (name instanceof PdfName) {
+          const dict = await doc.resolveDict(fonts?.get(name.name));
+          if (dict) {
+            let font = fontCache.get(dict);
+            if (!font) {
+              font = await loadFont(doc, dict);
+              fontCache.set(dict, font);
+            }
+            state.font = font;
+          }
+        }
+        break;
+      }
+      case 'Tc':
+        state.charSpacing = num(0);
+        break;
+      case 'Tw':
+        state.wordSpacing = num(0);
+        break;
+      case 'Tz':
+        state.horizontalScale = num(0) / 100;
+        break;
+      case 'TL':
+        state.leading = num(0);
+        break;
+      case 'Ts':
+        state.rise = num(0);
+        break;
+      case 'Td':
+        nextLine(num(0), num(1));
+        break;
+      case 'TD':
+        state.leading = -num(1);
+        nextLine(num(0), num(1));
+        break;
+      case 'Tm': {
+        const matrix = toMatrix(operands);
+        if (matrix) {
+          textMatrix = matrix;
+          lineMatrix = matrix;
+        }
+        break;
+      }
+      case 'T*':
+        nextLine(0, -state.leading);
+        break;
+      case 'Tj':
+        if (operands[0] instanceof PdfString) showText(operands[0].bytes);
+        break;
+      case "'":
+        nextLine(0, -state.leading);
+        if (operands[0] instanceof PdfString) showText(operands[0].bytes);
+        break;
+      case '"':
+        state.wordSpacing = num(0);
+        state.charSpacing = num(1);
+        nextLine(0, -state.leading);
+        if (operands[2] instanceof PdfString) showText(operands[2].bytes);
+        break;
+      case 'TJ': {
+        const items = Array.isArray(operands[0]) ? operands[0] : [];
+        for (const item of items) {
+          if (item instanceof PdfString) {
+            showText(item.bytes);
+          } else if (typeof item === 'number') {
+            // Kerning adjustment in thousandths of an em, moving left
+            const shift = (-item / 1000) * state.fontSize * state.horizontalScale;
+            textMatrix = multiply([1, 0, 0, 1, shift, 0], textMatrix);
+          }
+        }
+        break;
+      }
+      case 'Do': {
+        const name = operands[0];
+        if (!(name instanceof PdfName) || depth >= MAX_FORM_DEPTH) break;
+        const xobject = await doc.resolveStream(xobjects?.get(name.name));
+        if (!xobject || getName(xobject.dict, 'Subtype') !== 'Form') break;
+
+        const formMatrix = toMatrix((await doc.resolveArray(xobject.dict.get('Matrix'))) ?? []) ?? IDENTITY;
+        const formResources = (await doc.resolveDict(xobject.dict.get('Resources'))) ?? resources;
+        try {
+          const data = await doc.decodeStream(xobject);
+          await runContent(doc, data, formResources, multiply(formMatrix, state.ctm), runs, fontCache, depth + 1);
+        } catch (error) {
+          console.warn('Skipping unreadable form XObject:', (error as Error).message);
+        }
+        break;
+      }
+      case 'BI': {
+        // Inline image: skip the parameters and binary data
+        while (true) {
+          const token = lexer.nextToken();
+          if (token.type === 'eof' || (token.type === 'keyword' && token.value === 'ID')) break;
+        }
+        lexer.skipInlineImage();
+        break;
+      }
+    }
+
+    operands = [];
+  }
+}
@@ -0,0 +1,321 @@
+/**
+ * PDF document loader
+ *
+ * Indexes objects by scanning for `n g obj` headers instead of trusting the
+ * cross-reference table, which is frequently broken in generated files.
+ * Later definitions win, so incremental updates are honoured. Objects packed
+ * into object streams (/Type /ObjStm, PDF 1.5+) are unpacked on demand.
+ *
+ * @module pdf/document
+ */
+
+import {
+  PdfLexer,
+  PdfName,
+  PdfOperator,
+  PdfParseError,
+  PdfRef,
+  PdfStream,
+  bytesToLatin1,
+  getName,
+  getNumber,
+  isDict,
+  type PdfDict,
+  type PdfValue,
+} from './objects.ts';
+import { concatBytes, decodeFilters, type FilterParams } from './filters.ts';
+
+export interface PdfPage {
+  /** 1-based position in the page tree */
+  pageNumber: number;
+  dict: PdfDict;
+  /** Inherited from ancestors when the page has none of its own */
+  resources: PdfDict | undefined;
+}
+
+const OBJECT_HEADER = /(\d+)\s+(\d+)\s+obj\b/g;
+
+export class PdfDocument {
+  private readonly offsets = new Map<number, number>();
+  private readonly cache = new Map<number, PdfValue>();
+  private readonly decoded = new WeakMap<PdfStream, Promise<Uint8Array>>();
+  private objectStreamsLoaded = false;
+
+  private constructor(private readonly data: Uint8Array) {
+    const text = bytesToLatin1(data);
+    for (const match of text.matchAll(OBJECT_HEADER)) {
+      // Object headers start a line (or follow whitespace in sloppy writers)
+      if (match.index! > 0 && !/\s/.test(text[match.index! - 1])) continue;
+      this.offsets.set(parseInt(match[1], 10), match.index! + match[0].length);
+    }
+
+    if (/\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(text)) {
+      throw new PdfParseError('This PDF is encrypted and cannot be read. Remove the password protection and upload it again.');
+    }
+  }
+
+  /**
+   * Parse a PDF file
+   *
+   * @throws {PdfParseError} If the file is not a PDF or is encrypted
+   */
+  static load(data: Uint8Array): PdfDocument {
+    const header = bytesToLatin1(data.subarray(0, 1024));
+    if (!header.includes('%PDF-')) {
+      throw new PdfParseError('File is not a PDF');
+    }
+    return new PdfDocument(data);
+  }
+
+  /**
+   * Follow indirect references until a direct value is reached
+   */
+  async resolve(value: PdfValue | undefined): Promise<PdfValue | undefined> {
+    let current = value;
+    for (let depth = 0; current instanceof PdfRef && depth < 32; depth++) {
+      current = await this.getObject(current.num);
+    }
+    return current instanceof PdfRef ? undefined : current;
+  }
+
+  async resolveDict(value: PdfValue | undefined): Promise<PdfDict | undefined> {
+    const resolved = await this.resolve(value);
+    if (resolved instanceof PdfStream) return resolved.dict;
+    return isDict(resolved) ? resolved : undefined;
+  }
+
+  async resolveArray(value: PdfValue | undefined): Promise<PdfValue[] | undefined> {
+    const resolved = await this.resolve(value);
+    return Array.isArray(resolved) ? resolved : undefined;
+  }
+
+  async resolveStream(value: PdfValue | undefined): Promise<PdfStream | undefined> {
+    const resolved = await this.resolve(value);
+    return resolved instanceof PdfStream ? resolved : undefined;
+  }
+
+  async getObject(num: number): Promise<PdfValue | undefined> {
+    if (this.cache.has(num)) return this.cache.get(num);
+
+    const offset = this.offsets.get(num);
+    if (offset === undefined) {
+      if (!this.objectStreamsLoaded) {
+        await this.loadObjectStreams();
+        return this.cache.get(num);
+      }
+      return undefined;
+    }
+
+    const value = this.parseObjectAt(offset);
+    this.cache.set(num, value ?? null);
+    return value;
+  }
+
+  /**
+   * Decode a stream's data through its filters
+   *
+   * @throws {PdfParseError} If a filter is unsupported or the data is corrupt
+   */
+  decodeStream(stream: PdfStream): Promise<Uint8Array> {
+    let pending = this.decoded.get(stream);
+    if (!pending) {
+      pending = this.runFilters(stream);
+      this.decoded.set(stream, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * All pages in document order, with inherited resources resolved
+   */
+  async getPages(): Promise<PdfPage[]> {
+    const pages: PdfPage[] = [];
+    const visited = new Set<PdfDict>();
+
+    const walk = async (node: PdfDict, inherited: PdfDict | undefined): Promise<void> => {
+      if (visited.has(node)) return;
+      visited.add(node);
+
+      const resources = (await this.resolveDict(node.get('Resources'))) ?? inherited;
+      const type = getName(node, 'Type');
+      const kids = await this.resolveArray(node.get('Kids'));
+
+      if (type === 'Page' || (!kids && node.has('Contents'))) {
+        pages.push({ pageNumber: pages.length + 1, dict: node, resources });
+        return;
+      }
+
+      for (const kid of kids ?? []) {
+        const child = await this.resolveDict(kid);
+        if (child) await walk(child, resources);
+      }
+    };
+
+    const root = await this.findPageTreeRoot();
+    if (root) {
+      await walk(root, undefined);
+    }
+
+    if (pages.length === 0) {
+      // Broken page tree: fall back to every page object in file order
+      await this.loadObjectStreams();
+      const nums = [...new Set([...this.offsets.keys(), ...this.cache.keys()])].sort((a, b) => a - b);
+      for (const num of nums) {
+        const dict = await this.resolveDict(new PdfRef(num, 0));
+        if (dict && getName(dict, 'Type') === 'Page') {
+          const resources = await this.resolveDict(dict.get('Resources'));
+          pages.push({ pageNumber: pages.length + 1, dict, resources });
+        }
+      }
+    }
+
+    return pages;
+  }
+
+  /**
+   * Concatenated, decoded content streams of a page or form
+   */
+  async getContents(value: PdfValue | undefined): Promise<Uint8Array> {
+    const resolved = await this.resolve(value);
+    const parts = Array.isArray(resolved) ? resolved : [resolved];
+    const chunks: Uint8Array[] = [];
+
+    for (const part of parts) {
+      const stream = await this.resolveStream(part as PdfValue);
+      if (!stream) continue;
+      try {
+        chunks.push(await this.decodeStream(stream));
+        // Content streams may split between any two tokens
+        chunks.push(new Uint8Array([0x0a]));
+      } catch (error) {
+        console.warn('Skipping unreadable content stream:', (error as Error).message);
+      }
+    }
+
+    return concatBytes(chunks);
+  }
+
+  private async findPageTreeRoot(): Promise<PdfDict | undefined> {
+    // The catalog is the last /Type /Catalog object (incremental updates append)
+    let catalog: PdfDict | undefined;
+    await this.loadObjectStreams();
+    const nums = [...new Set([...this.offsets.keys(), ...this.cache.keys()])];
+    for (const num of nums) {
+      const dict = await this.resolveDict(new PdfRef(num, 0));
+      if (dict && getName(dict, 'Type') === 'Catalog') catalog = dict;
+    }
+    return catalog ? this.resolveDict(catalog.get('Pages')) : undefined;
+  }
+
+  private parseObjectAt(offset: number): PdfValue | undefined {
+    const lexer = new PdfLexer(this.data, offset);
+    const value = lexer.parseValue(false);
+    if (value === undefined || value instanceof PdfOperator) return undefined;
+
+    if (!isDict(value)) return value;
+
+    // Is this dictionary the header of a stream?
+    const saved = lexer.pos;
+    const token = lexer.nextToken();
+    if (token.type !== 'keyword' || token.value !== 'stream') {
+      lexer.pos = saved;
+      return value;
+    }
+
+    let start = lexer.pos;
+    if (this.data[start] === 0x0d) start++;
+    if (this.data[start] === 0x0a) start++;
+
+    return new PdfStream(value, this.data.subarray(start, this.findStreamEnd(value, start)));
+  }
+
+  private findStreamEnd(dict: PdfDict, start: number): number {
+    // Trust a direct /Length only if "endstream" really follows it
+    const length = getNumber(dict, 'Length');
+    if (length !== undefined && start + length <= this.data.length) {
+      const after = bytesToLatin1(this.data.subarray(start + length, start + length + 32));
+      if (/^\s*endstream/.test(after)) return start + length;
+    }
+
+    const marker = [0x65, 0x6e, 0x64, 0x73, 0x74, 0x72, 0x65, 0x61, 0x6d]; // endstream
+    for (let i = start; i <= this.data.length - marker.length; i++) {
+      let found = true;
+      for (let j = 0; j < marker.length; j++) {
+        if (this.data[i + j] !== marker[j]) {
+          found = false;
+          break;
+        }
+      }
+      if (found) {
+        let end = i;
+        if (this.data[end - 1] === 0x0a) end--;
+        if (this.data[end - 1] === 0x0d) end--;
+        return end;
+      }
+    }
+    return this.data.length;
+  }
+
+  private async runFilters(stream: PdfStream): Promise<Uint8Array> {
+    const filterValue = await this.resolve(stream.dict.get('Filter'));
+    const paramsValue = await this.resolve(stream.dict.get('DecodeParms'));
+
+    const filters = (Array.isArray(filterValue) ? filterValue : [filterValue])
+      .filter((f): f is PdfName => f instanceof PdfName)
+      .map((f) => f.name);
+
+    const rawParams = Array.isArray(paramsValue) ? paramsValue : [paramsValue];
+    const params: Array<FilterParams | undefined> = [];
+    for (const raw of rawParams) {
+      const dict = await this.resolveDict(raw as PdfValue);
+      params.push(dict ? {
+        predictor: getNumber(dict, 'Predictor'),
+        colors: getNumber(dict, 'Colors'),
+        bitsPerComponent: getNumber(dict, 'BitsPerComponent'),
+        columns: getNumber(dict, 'Columns'),
+      } : undefined);
+    }
+
+    return decodeFilters(stream.data, filters, params);
+  }
+
+  private async loadObjectStreams(): Promise<void> {
+    if (this.objectStreamsLoaded) return;
+    this.objectStreamsLoaded = true;
+
+    for (const num of [...this.offsets.keys()]) {
+      const value = await this.getObject(num);
+      if (!(value instanceof PdfStream) || getName(value.dict, 'Type') !== 'ObjStm') continue;
+
+      const count = getNumber(value.dict, 'N') ?? 0;
+      const first = getNumber(value.dict, 'First') ?? 0;
+
+      let data: Uint8Array;
+      try {
+        data = await this.decodeStream(value);
+      } catch (error) {
+        console.warn('Skipping unreadable object stream:', (error as Error).message);
+        continue;
+      }
+
+      const header = new PdfLexer(data, 0);
+      const entries: Array<[number, number]> = [];
+      for (let i = 0; i < count; i++) {
+        const objNum = header.parseValue(true);
+        const objOffset = header.parseValue(true);
+        if (typeof objNum !== 'number' || typeof objOffset !== 'number') break;
+        entries.push([objNum, objOffset]);
+      }
+
+      for (const [objNum, objOffset] of entries) {
+        // Objects written directly in the file take precedence
+        if (this.offsets.has(objNum) || this.cache.has(objNum)) continue;
+        const lexer = new PdfLexer(data, first + objOffset);
+        const objValue = lexer.parseValue(false);
+        if (objValue !== undefined && !(objValue instanceof PdfOperator)) {
+          this.cache.set(objNum, objValue);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Simple-font encodings and glyph names
+ *
+ * Used when a font has no ToUnicode CMap. Base encodings map single-byte
+ * codes to Unicode; /Differences arrays name glyphs, which we map back to
+ * Unicode with a compact subset of the Adobe Glyph List plus the `uniXXXX`
+ * and `uXXXX` conventions.
+ *
+ * @module pdf/encodings
+ */
+
+export type Encoding = Array<string | undefined>;
+
+function fromDecoder(label: string): Encoding {
+  const decoder = new TextDecoder(label);
+  const encoding: Encoding = [];
+  for (let code = 0; code < 256; code++) {
+    const char = decoder.decode(new Uint8Array([code]));
+    const unicode = char.charCodeAt(0);
+    // Control characters and unassigned codes carry no text
+    encoding[code] = code < 0x20 || (unicode >= 0x7f && unicode < 0xa0) || char === '\uFFFD' ? undefined : char;
+  }
+  return encoding;
+}
+
+// Adobe StandardEncoding differs from ASCII in the quotes and the upper half
+function standardEncoding(): Encoding {
+  const encoding: Encoding = [];
+  for (let code = 0x20; code < 0x7f; code++) encoding[code] = String.fromCharCode(code);
+  encoding[0x27] = '’';
+  encoding[0x60] = '‘';
+  const upper: Record<number, string> = {
+    0xa1: '¡', 0xa2: '¢', 0xa3: '£', 0xa4: '⁄', 0xa5: '¥', 0xa6: 'ƒ',
+    0xa7: '§', 0xa8: '¤', 0xa9: "'", 0xaa: '“', 0xab: '«', 0xac: '‹',
+    0xad: '›', 0xae: 'ﬁ', 0xaf: 'ﬂ', 0xb1: '–', 0xb2: '†', 0xb3: '‡',
+    0xb4: '·', 0xb6: '¶', 0xb7: '•', 0xb8: '‚', 0xb9: '„', 0xba: '”',
+    0xbb: '»', 0xbc: '…', 0xbd: '‰', 0xbf: '¿', 0xc1: '`', 0xc2: '´',
+    0xc3: 'ˆ', 0xc4: '˜', 0xc5: '¯', 0xc6: '˘', 0xc7: '˙', 0xc8: '¨',
+    0xca: '˚', 0xcb: '¸', 0xcd: '˝', 0xce: '˛', 0xcf: 'ˇ', 0xd0: '—',
+    0xe1: 'Æ', 0xe3: 'ª', 0xe8: 'Ł', 0xe9: 'Ø', 0xea: 'Œ', 0xeb: 'º',
+    0xf1: 'æ', 0xf5: 'ı', 0xf8: 'ł', 0xf9: 'ø', 0xfa: 'œ', 0xfb: 'ß',
+  };
+  for (const [code, char] of Object.entries(upper)) encoding[Number(code)] = char;
+  return encoding;
+}
+
+let encodings: Record<string, Encoding> | undefined;
+
+/**
+ * Look up a named base encoding
+ *
+ * @param name - WinAnsiEncoding, MacRomanEncoding or StandardEncoding
+ * @returns The encoding, or undefined for names we do not know
+ */
+export function getBaseEncoding(name: string | undefined): Encoding | undefined {
+  encodings ??= {
+    WinAnsiEncoding: fromDecoder('windows-1252'),
+    MacRomanEncoding: fromDecoder('macintosh'),
+    StandardEncoding: standardEncoding(),
+    // PDFDocEncoding is close enough to Latin-1 for text extraction
+    PDFDocEncoding: fromDecoder('windows-1252'),
+  };
+  return name ? encodings[name] : undefined;
+}
+
+const GLYPHS: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%',
+  ampersand: '&', quotesingle: "'", parenleft: '(', parenright: ')', asterisk: '*', plus: '+',
+  comma: ',', hyphen: '-', period: '.', slash: '/', zero: '0', one: '1', two: '2', three: '3',
+  four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9', colon: ':', semicolon: ';',
+  less: '<', equal: '=', greater: '>', question: '?', at: '@', bracketleft: '[', backslash: '\\',
+  bracketright: ']', asciicircum: '^', underscore: '_', grave: '`', braceleft: '{', bar: '|',
+  braceright: '}', asciitilde: '~', quoteleft: '‘', quoteright: '’',
+  quotedblleft: '“', quotedblright: '”', quotesinglbase: '‚', quotedblbase: '„',
+  guillemotleft: '«', guillemotright: '»', guilsinglleft: '‹', guilsinglright: '›',
+  endash: '–', emdash: '—', bullet: '•', ellipsis: '…', dagger: '†',
+  daggerdbl: '‡', perthousand: '‰', trademark: '™', copyright: '©',
+  registered: '®', degree: '°', section: '§', paragraph: '¶', periodcentered: '·',
+  minus: '−', multiply: '×', divide: '÷', plusminus: '±', cent: '¢',
+  sterling: '£', yen: '¥', Euro: '€', currency: '¤', florin: 'ƒ',
+  exclamdown: '¡', questiondown: '¿', germandbls: 'ß', AE: 'Æ', ae: 'æ',
+  OE: 'Œ', oe: 'œ', Oslash: 'Ø', oslash: 'ø', Lslash: 'Ł', lslash: 'ł',
+  dotlessi: 'ı', Eth: 'Ð', eth: 'ð', Thorn: 'Þ', thorn: 'þ',
+  ordfeminine: 'ª', ordmasculine: 'º', onehalf: '½', onequarter: '¼',
+  threequarters: '¾', onesuperior: '¹', twosuperior: '²', threesuperior: '³',
+  mu: 'µ', logicalnot: '¬', brokenbar: '¦', nbspace: '\u00A0', sfthyphen: '\u00AD',
+  fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl',
+  acute: '´', circumflex: 'ˆ', tilde: '˜', dieresis: '¨', macron: '¯',
+  cedilla: '¸', ring: '˚', caron: 'ˇ', breve: '˘', dotaccent: '˙',
+  ogonek: '˛', hungarumlaut: '˝', fraction: '⁄', arrowright: '→',
+  arrowleft: '←', checkmark: '✓',
+};
+
+// Accented Latin letters are named base letter + accent, e.g. eacute, Udieresis
+const ACCENTS: Record<string, string> = {
+  acute: '\u0301', grave: '\u0300', circumflex: '\u0302', dieresis: '\u0308',
+  tilde: '\u0303', ring: '\u030A', cedilla: '\u0327', caron: '\u030C',
+  macron: '\u0304', breve: '\u0306', ogonek: '\u0328', dotaccent: '\u0307',
+  hungarumlaut: '\u030B',
+};
+
+/**
+ * Map a glyph name to the Unicode text it represents
+ *
+ * @param name - PostScript glyph name, e.g. "eacute", "uni00E9", "f_i", "a.sc"
+ * @returns The text, or undefined when the name carries no Unicode meaning (e.g. "g42")
+ */
+export function glyphNameToUnicode(name: string): string | undefined {
+  // Suffixes after a period are stylistic variants
+  const base = name.split('.')[0];
+  if (!base) return undefined;
+
+  if (base.includes('_')) {
+    const parts = base.split('_').map(glyphNameToUnicode);
+    return parts.every((p) => p !== undefined) ? parts.join('') : undefined;
+  }
+
+  if (GLYPHS[base] !== undefined) return GLYPHS[base];
+  if (/^[A-Za-z]$/.test(base)) return base;
+
+  let match = /^uni([0-9A-Fa-f]{4})+$/.exec(base);
+  if (match) {
+    const codes = base.slice(3).match(/.{4}/g)!.map((hex) => parseInt(hex, 16));
+    return String.fromCharCode(...codes);
+  }
+
+  match = /^u([0-9A-Fa-f]{4,6})$/.exec(base);
+  if (match) {
+    const code = parseInt(match[1], 16);
+    return code <= 0x10ffff ? String.fromCodePoint(code) : undefined;
+  }
+
+  match = /^([A-Za-z])(acute|grave|circumflex|dieresis|tilde|ring|cedilla|caron|macron|breve|ogonek|dotaccent|hungarumlaut)$/.exec(base);
+  if (match) {
+    return (match[1] + ACCENTS[match[2]]).normalize('NFC');
+  }
+
+  return undefined;
+}
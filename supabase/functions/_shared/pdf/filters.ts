@@ -0,0 +1,198 @@
+/**
+ * Stream filters
+ *
+ * Decodes the filters that carry text and page structure: FlateDecode
+ * (with PNG predictors), ASCIIHexDecode and ASCII85Decode. Image-only
+ * filters such as DCTDecode are left alone; we never need their output.
+ *
+ * @module pdf/filters
+ */
+
+import { PdfParseError, isWhitespace } from './objects.ts';
+
+export interface FilterParams {
+  predictor?: number;
+  colors?: number;
+  bitsPerComponent?: number;
+  columns?: number;
+}
+
+/**
+ * Apply a chain of filters in order
+ *
+ * @param data - Raw stream bytes
+ * @param filters - Filter names from the stream's /Filter entry
+ * @param params - Matching /DecodeParms entries (may be shorter than `filters`)
+ * @returns The decoded bytes
+ * @throws {PdfParseError} If a filter is unsupported or the data is corrupt
+ */
+export async function decodeFilters(
+  data: Uint8Array,
+  filters: string[],
+  params: Array<FilterParams | undefined>
+): Promise<Uint8Array> {
+  let out = data;
+  for (let i = 0; i < filters.length; i++) {
+    switch (filters[i]) {
+      case 'FlateDecode':
+      case 'Fl':
+        out = applyPredictor(await inflate(out), params[i]);
+        break;
+      case 'ASCIIHexDecode':
+      case 'AHx':
+        out = decodeASCIIHex(out);
+        break;
+      case 'ASCII85Decode':
+      case 'A85':
+        out = decodeASCII85(out);
+        break;
+      default:
+        throw new PdfParseError(`Unsupported stream filter: ${filters[i]}`);
+    }
+  }
+  return out;
+}
+
+/**
+ * Inflate zlib data, keeping whatever decoded before any corruption
+ *
+ * Many real-world PDFs have streams with bad checksums or trailing junk;
+ * readers tolerate that, so we do too.
+ */
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new DecompressionStream('deflate');
+  const writer = stream.writable.getWriter();
+  writer.write(new Uint8Array(data)).catch(() => {});
+  writer.close().catch(() => {});
+
+  const reader = stream.readable.getReader();
+  const chunks: Uint8Array[] = [];
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+  } catch (error) {
+    if (chunks.length === 0) {
+      throw new PdfParseError(`Corrupt Flate stream: ${(error as Error).message}`);
+    }
+  }
+
+  return concatBytes(chunks);
+}
+
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+// Undo PNG row filters (Predictor >= 10); TIFF predictor 2 is not used for text
+function applyPredictor(data: Uint8Array, params?: FilterParams): Uint8Array {
+  const predictor = params?.predictor ?? 1;
+  if (predictor < 10) return data;
+
+  const colors = params?.colors ?? 1;
+  const bits = params?.bitsPerComponent ?? 8;
+  const columns = params?.columns ?? 1;
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bits) / 8));
+  const rowLength = Math.ceil((colors * bits * columns) / 8);
+
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = new Uint8Array(rows * rowLength);
+  let previous = new Uint8Array(rowLength);
+
+  for (let r = 0; r < rows; r++) {
+    const filterType = data[r * (rowLength + 1)];
+    const row = data.subarray(r * (rowLength + 1) + 1, (r + 1) * (rowLength + 1));
+    const current = out.subarray(r * rowLength, (r + 1) * rowLength);
+
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= bytesPerPixel ? current[i - bytesPerPixel] : 0;
+      const up = previous[i];
+      const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+      let value = row[i];
+
+      switch (filterType) {
+        case 1: value += left; break;
+        case 2: value += up; break;
+        case 3: value += (left + up) >> 1; break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          value += pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+          break;
+        }
+      }
+      current[i] = value & 0xff;
+    }
+    previous = current;
+  }
+
+  return out;
+}
+
+function decodeASCIIHex(data: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  let high = -1;
+  for (const byte of data) {
+    if (byte === 0x3e) break; // > end of data
+    const digit = byte >= 0x30 && byte <= 0x39 ? byte - 0x30
+      : byte >= 0x41 && byte <= 0x46 ? byte - 0x37
+      : byte >= 0x61 && byte <= 0x66 ? byte - 0x57
+      : -1;
+    if (digit < 0) continue;
+    if (high < 0) {
+      high = digit;
+    } else {
+      out.push((high << 4) | digit);
+      high = -1;
+    }
+  }
+  if (high >= 0) out.push(high << 4);
+  return Uint8Array.from(out);
+}
+
+function decodeASCII85(data: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  const group: number[] = [];
+
+  for (let i = 0; i < data.length; i++) {
+    const byte = data[i];
+    if (byte === 0x7e) break; // ~> end of data
+    if (isWhitespace(byte)) continue;
+    if (byte === 0x7a && group.length === 0) {
+      // z = four zero bytes
+      out.push(0, 0, 0, 0);
+      continue;
+    }
+    if (byte < 0x21 || byte > 0x75) continue;
+
+    group.push(byte - 0x21);
+    if (group.length === 5) {
+      let value = 0;
+      for (const digit of group) value = value * 85 + digit;
+      out.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+      group.length = 0;
+    }
+  }
+
+  if (group.length > 1) {
+    const missing = 5 - group.length;
+    for (let i = 0; i < missing; i++) group.push(84);
+    let value = 0;
+    for (const digit of group) value = value * 85 + digit;
+    const bytes = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+    out.push(...bytes.slice(0, 4 - missing));
+  }
+
+  return Uint8Array.from(out);
+}
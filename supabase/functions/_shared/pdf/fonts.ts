@@ -0,0 +1,231 @@
+/**
+ * Font decoding for text extraction
+ *
+ * Turns the bytes of a text-showing string into Unicode text and glyph
+ * widths. Prefers the font's ToUnicode CMap; falls back to the simple-font
+ * encoding (+ /Differences), to UCS-2 CMaps, or to the embedded TrueType
+ * cmap for composite fonts.
+ *
+ * @module pdf/fonts
+ */
+
+import { CMap } from './cmap.ts';
+import { readGlyphUnicodeMap } from './truetype.ts';
+import { getBaseEncoding, glyphNameToUnicode, type Encoding } from './encodings.ts';
+import { PdfName, getName, getNumber, type PdfDict } from './objects.ts';
+import type { PdfDocument } from './document.ts';
+
+export interface Glyph {
+  text: string;
+  /** Advance width in thousandths of the font size */
+  width: number;
+  /** Single-byte code 32, which word spacing (Tw) applies to */
+  isSpace: boolean;
+}
+
+// Used when a font gives no widths (e.g. the standard 14 fonts)
+const DEFAULT_WIDTH = 500;
+
+interface FontData {
+  composite: boolean;
+  toUnicode?: CMap;
+  /** Embedded encoding CMap of a composite font */
+  encodingCMap?: CMap;
+  /** Code to text for simple fonts */
+  encoding?: Encoding;
+  /** Composite font whose codes are UCS-2 */
+  ucs2?: boolean;
+  /** Glyph id to text, recovered from the embedded TrueType cmap */
+  glyphText?: Map<number, string>;
+  /** CIDToGIDMap stream; absent means Identity */
+  cidToGid?: Uint8Array;
+  widths: Map<number, number>;
+  defaultWidth: number;
+}
+
+export class PdfFont {
+  constructor(private readonly font: FontData) {}
+
+  /**
+   * Split a string operand into glyphs
+   */
+  decode(bytes: Uint8Array): Glyph[] {
+    const glyphs: Glyph[] = [];
+    const fallbackLength = this.font.composite ? 2 : 1;
+    const codespace = this.font.encodingCMap?.hasCodespaces ? this.font.encodingCMap : this.font.toUnicode;
+
+    for (let offset = 0; offset < bytes.length;) {
+      const length = codespace?.hasCodespaces
+        ? codespace.codeLength(bytes, offset, fallbackLength)
+        : fallbackLength;
+
+      let code = 0;
+      for (let i = 0; i < length; i++) code = code * 256 + (bytes[offset + i] ?? 0);
+      offset += length;
+
+      glyphs.push({
+        text: this.textFor(code, length),
+        width: this.font.widths.get(code) ?? this.font.defaultWidth,
+        isSpace: length === 1 && code === 32,
+      });
+    }
+
+    return glyphs;
+  }
+
+  private textFor(code: number, length: number): string {
+    const { toUnicode, composite, encoding, ucs2, glyphText, cidToGid } = this.font;
+
+    const mapped = toUnicode?.lookup(code, length);
+    if (mapped !== undefined) return mapped;
+
+    if (!composite) {
+      return encoding?.[code] ?? (code >= 0x20 && code < 0x7f ? String.fromCharCode(code) : '');
+    }
+
+    // UCS-2 encoded CMaps (e.g. UniGB-UCS2-H) carry Unicode directly
+    if (ucs2) return String.fromCharCode(code);
+
+    if (glyphText) {
+      const gid = cidToGid && cidToGid.length >= code * 2 + 2
+        ? (cidToGid[code * 2] << 8) | cidToGid[code * 2 + 1]
+        : code;
+      return glyphText.get(gid) ?? '';
+    }
+
+    // Otherwise glyph ids cannot be mapped back to text
+    return '';
+  }
+}
+
+/**
+ * Build a {@link PdfFont} from a font dictionary
+ *
+ * @param doc - The document the font belongs to
+ * @param dict - The font dictionary from the page resources
+ * @returns The font (never throws; unreadable parts degrade to defaults)
+ */
+export async function loadFont(doc: PdfDocument, dict: PdfDict): Promise<PdfFont> {
+  const subtype = getName(dict, 'Subtype');
+  const composite = subtype === 'Type0';
+
+  let toUnicode: CMap | undefined;
+  const toUnicodeStream = await doc.resolveStream(dict.get('ToUnicode'));
+  if (toUnicodeStream) {
+    try {
+      toUnicode = new CMap(await doc.decodeStream(toUnicodeStream));
+      if (!toUnicode.hasMappings) toUnicode = undefined;
+    } catch (error) {
+      console.warn('Ignoring unreadable ToUnicode CMap:', (error as Error).message);
+    }
+  }
+
+  if (composite) {
+    return loadCompositeFont(doc, dict, toUnicode);
+  }
+
+  // Simple font: base encoding plus /Differences
+  const encodingValue = await doc.resolve(dict.get('Encoding'));
+  let encoding: Encoding = [...(getBaseEncoding(subtype === 'TrueType' ? 'WinAnsiEncoding' : 'StandardEncoding') ?? [])];
+
+  if (encodingValue instanceof PdfName) {
+    encoding = [...(getBaseEncoding(encodingValue.name) ?? encoding)];
+  } else if (encodingValue instanceof Map) {
+    const base = getBaseEncoding(getName(encodingValue, 'BaseEncoding'));
+    if (base) encoding = [...base];
+
+    const differences = await doc.resolveArray(encodingValue.get('Differences'));
+    let code = 0;
+    for (const item of differences ?? []) {
+      if (typeof item === 'number') {
+        code = item;
+      } else if (item instanceof PdfName) {
+        // Unknown names (e.g. "g42" in subset fonts) map to nothing rather than to the raw code
+        encoding[code++] = glyphNameToUnicode(item.name) ?? '';
+      }
+    }
+  }
+
+  // Type3 glyph widths are in glyph space, scaled by the FontMatrix
+  let scale = 1;
+  if (subtype === 'Type3') {
+    const matrix = await doc.resolveArray(dict.get('FontMatrix'));
+    if (matrix && typeof matrix[0] === 'number') scale = matrix[0] * 1000;
+  }
+
+  const widths = new Map<number, number>();
+  const firstChar = getNumber(dict, 'FirstChar') ?? 0;
+  const widthArray = await doc.resolveArray(dict.get('Widths'));
+  for (let i = 0; i < (widthArray?.length ?? 0); i++) {
+    const width = await doc.resolve(widthArray![i]);
+    if (typeof width === 'number') widths.set(firstChar + i, width * scale);
+  }
+
+  const descriptor = await doc.resolveDict(dict.get('FontDescriptor'));
+  const missingWidth = getNumber(descriptor, 'MissingWidth');
+
+  return new PdfFont({ composite: false, toUnicode, encoding, widths, defaultWidth: missingWidth || DEFAULT_WIDTH });
+}
+
+async function loadCompositeFont(doc: PdfDocument, dict: PdfDict, toUnicode: CMap | undefined): Promise<PdfFont> {
+  const encodingValue = await doc.resolve(dict.get('Encoding'));
+  let encodingCMap: CMap | undefined;
+  let ucs2 = false;
+
+  if (encodingValue instanceof PdfName) {
+    ucs2 = /UCS2|UTF16/.test(encodingValue.name);
+  } else {
+    const stream = await doc.resolveStream(dict.get('Encoding'));
+    if (stream) {
+      try {
+        encodingCMap = new CMap(await doc.decodeStream(stream));
+      } catch (error) {
+        console.warn('Ignoring unreadable encoding CMap:', (error as Error).message);
+      }
+    }
+  }
+
+  const descendants = await doc.resolveArray(dict.get('DescendantFonts'));
+  const descendant = await doc.resolveDict(descendants?.[0]);
+  const defaultWidth = getNumber(descendant, 'DW') ?? 1000;
+
+  // /W is a mix of "c [w1 w2 ...]" and "cFirst cLast w" entries
+  const widths = new Map<number, number>();
+  const w = (await doc.resolveArray(descendant?.get('W'))) ?? [];
+  for (let i = 0; i < w.length;) {
+    const first = await doc.resolve(w[i]);
+    const next = await doc.resolve(w[i + 1]);
+    if (typeof first !== 'number') break;
+
+    if (Array.isArray(next)) {
+      for (let j = 0; j < next.length; j++) {
+        const width = await doc.resolve(next[j]);
+        if (typeof width === 'number') widths.set(first + j, width);
+      }
+      i += 2;
+    } else {
+      const width = await doc.resolve(w[i + 2]);
+      if (typeof next === 'number' && typeof width === 'number' && next - first <= 0x10000) {
+        for (let code = first; code <= next; code++) widths.set(code, width);
+      }
+      i += 3;
+    }
+  }
+
+  // Last resort for Identity-H fonts without ToUnicode: invert the embedded TrueType cmap
+  let glyphText: Map<number, string> | undefined;
+  let cidToGid: Uint8Array | undefined;
+  if (!toUnicode && !ucs2 && getName(descendant, 'Subtype') === 'CIDFontType2') {
+    const descriptor = await doc.resolveDict(descendant?.get('FontDescriptor'));
+    const fontFile = await doc.resolveStream(descriptor?.get('FontFile2'));
+    try {
+      if (fontFile) glyphText = readGlyphUnicodeMap(await doc.decodeStream(fontFile));
+      const cidToGidStream = await doc.resolveStream(descendant?.get('CIDToGIDMap'));
+      if (cidToGidStream) cidToGid = await doc.decodeStream(cidToGidStream);
+    } catch (error) {
+      console.warn('Ignoring unreadable embedded font:', (error as Error).message);
+    }
+  }
+
+  return new PdfFont({ composite: true, toUnicode, encodingCMap, ucs2, glyphText, cidToGid, widths, defaultWidth });
+}
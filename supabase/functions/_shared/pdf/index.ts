@@ -0,0 +1,61 @@
+/**
+ * PDF text extraction for Supabase Edge Functions
+ *
+ * A small, dependency-free PDF reader aimed at getting searchable text out
+ * of real-world files: it inflates compressed streams, unpacks object
+ * streams, maps glyphs to Unicode via ToUnicode CMaps and font encodings,
+ * and lays text out in reading order page by page.
+ *
+ * Not supported: encrypted files, and scanned (image-only) pages, which
+ * have no text to extract.
+ *
+ * @module pdf
+ */
+
+import { PdfDocument } from './document.ts';
+import { extractTextRuns } from './content.ts';
+import { layoutPage } from './layout.ts';
+
+export { PdfParseError } from './objects.ts';
+
+export interface PdfPageText {
+  /** 1-based page number */
+  pageNumber: number;
+  text: string;
+}
+
+/**
+ * Extract the text of every page of a PDF
+ *
+ * Pages that fail to parse come back with empty text instead of failing
+ * the whole document.
+ *
+ * @param data - The PDF file contents
+ * @returns One entry per page, in page order
+ * @throws {PdfParseError} If the file is not a PDF or is encrypted
+ *
+ * @example
+ * ```typescript
+ * const pages = await extractPdfPages(new Uint8Array(await blob.arrayBuffer()));
+ * const text = pages.map((p) => p.text).join('\n\n');
+ * ```
+ */
+export async function extractPdfPages(data: Uint8Array): Promise<PdfPageText[]> {
+  const doc = PdfDocument.load(data);
+  const pages = await doc.getPages();
+  const result: PdfPageText[] = [];
+
+  for (const page of pages) {
+    let text = '';
+    try {
+      const contents = await doc.getContents(page.dict.get('Contents'));
+      const runs = await extractTextRuns(doc, contents, page.resources);
+      text = layoutPage(runs);
+    } catch (error) {
+      console.warn(`Failed to extract text from page ${page.pageNumber}:`, (error as Error).message);
+    }
+    result.push({ pageNumber: page.pageNumber, text });
+  }
+
+  return result;
+}
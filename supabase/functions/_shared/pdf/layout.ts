@@ -0,0 +1,98 @@
+/**
+ * Reading-order layout
+ *
+ * Turns positioned text runs into plain text: runs are grouped into lines
+ * by baseline, lines are read top to bottom and left to right, spaces are
+ * inserted where glyphs are visibly apart, and larger vertical gaps become
+ * paragraph breaks.
+ *
+ * @module pdf/layout
+ */
+
+import type { TextRun } from './content.ts';
+
+interface Line {
+  y: number;
+  fontSize: number;
+  runs: TextRun[];
+}
+
+// Fraction of the font size that counts as a word gap
+const SPACE_THRESHOLD = 0.2;
+// Baselines closer than this fraction of the font size share a line
+const SAME_LINE_THRESHOLD = 0.5;
+// Line gaps larger than this multiple of the font size start a paragraph
+const PARAGRAPH_THRESHOLD = 1.8;
+
+/**
+ * Lay out a page's text runs as plain text
+ *
+ * @param runs - The page's text runs, in any order
+ * @returns The page text with `\n` between lines and `\n\n` between paragraphs
+ */
+export function layoutPage(runs: TextRun[]): string {
+  const visible = runs.filter((run) => run.text.trim() || run.text === ' ');
+  if (visible.length === 0) return '';
+
+  // Top of the page first (PDF y grows upwards), then left to right
+  const sorted = [...visible].sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const lines: Line[] = [];
+  for (const run of sorted) {
+    const line = lines[lines.length - 1];
+    const size = Math.max(run.fontSize, 1);
+    if (line && Math.abs(line.y - run.y) < Math.min(line.fontSize, size) * SAME_LINE_THRESHOLD) {
+      line.runs.push(run);
+      line.fontSize = Math.max(line.fontSize, size);
+    } else {
+      lines.push({ y: run.y, fontSize: size, runs: [run] });
+    }
+  }
+
+  let text = '';
+  let previous: Line | undefined;
+
+  for (const line of lines) {
+    const lineText = joinRuns(line.runs);
+    if (!lineText) continue;
+
+    if (previous) {
+      const gap = previous.y - line.y;
+      if (gap > Math.max(previous.fontSize, line.fontSize) * PARAGRAPH_THRESHOLD) {
+        text += '\n\n';
+      } else if (/[A-Za-z]-$/.test(text) && /^[a-z]/.test(lineText)) {
+        // Re-join words hyphenated across a line break
+        text = text.slice(0, -1);
+      } else {
+        text += '\n';
+      }
+    }
+
+    text += lineText;
+    previous = line;
+  }
+
+  return text.normalize('NFKC');
+}
+
+function joinRuns(runs: TextRun[]): string {
+  const ordered = [...runs].sort((a, b) => a.x - b.x);
+  let text = '';
+  let last: TextRun | undefined;
+
+  for (const run of ordered) {
+    // Fake bold: the same text drawn twice with a tiny offset
+    if (last && run.text === last.text && Math.abs(run.x - last.x) < run.fontSize * 0.2) continue;
+
+    if (last) {
+      const gap = run.x - last.endX;
+      const needsSpace = gap > Math.max(run.fontSize, 1) * SPACE_THRESHOLD;
+      if (needsSpace && !/\s$/.test(text) && !/^\s/.test(run.text)) text += ' ';
+    }
+
+    text += run.text;
+    last = run;
+  }
+
+  return text.replace(/[^\S\n]+/g, ' ').trim();
+}
@@ -0,0 +1,355 @@
+/**
+ * PDF object model and tokenizer
+ *
+ * Parses the COS syntax shared by PDF files and content streams: numbers,
+ * strings, names, arrays, dictionaries, indirect references and (in content
+ * streams) operators. Works directly on bytes so string and stream data are
+ * never mangled by a text decoder.
+ *
+ * @module pdf/objects
+ */
+
+export class PdfName {
+  constructor(public readonly name: string) {}
+}
+
+export class PdfRef {
+  constructor(public readonly num: number, public readonly gen: number) {}
+}
+
+export class PdfString {
+  constructor(public readonly bytes: Uint8Array) {}
+}
+
+export class PdfOperator {
+  constructor(public readonly op: string) {}
+}
+
+export type PdfDict = Map<string, PdfValue>;
+
+export class PdfStream {
+  constructor(public readonly dict: PdfDict, public readonly data: Uint8Array) {}
+}
+
+export type PdfValue =
+  | number
+  | boolean
+  | null
+  | PdfName
+  | PdfRef
+  | PdfString
+  | PdfValue[]
+  | PdfDict
+  | PdfStream;
+
+/**
+ * Raised for input the parser cannot make sense of
+ */
+export class PdfParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfParseError';
+  }
+}
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+export function isWhitespace(byte: number): boolean {
+  return WHITESPACE.has(byte);
+}
+
+function isRegular(byte: number): boolean {
+  return !WHITESPACE.has(byte) && !DELIMITERS.has(byte);
+}
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: PdfString }
+  | { type: 'name'; value: PdfName }
+  | { type: 'keyword'; value: string }
+  | { type: 'arrayStart' | 'arrayEnd' | 'dictStart' | 'dictEnd' | 'eof' };
+
+/**
+ * Byte-level tokenizer and value parser
+ *
+ * @example
+ * ```typescript
+ * const lexer = new PdfLexer(bytes, offset);
+ * const value = lexer.parseValue();
+ * ```
+ */
+export class PdfLexer {
+  constructor(private readonly data: Uint8Array, public pos = 0) {}
+
+  get length(): number {
+    return this.data.length;
+  }
+
+  private skipWhitespaceAndComments(): void {
+    const data = this.data;
+    while (this.pos < data.length) {
+      const byte = data[this.pos];
+      if (WHITESPACE.has(byte)) {
+        this.pos++;
+      } else if (byte === 0x25) {
+        // % comment runs to end of line
+        while (this.pos < data.length && data[this.pos] !== 0x0a && data[this.pos] !== 0x0d) this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  nextToken(): Token {
+    this.skipWhitespaceAndComments();
+    const data = this.data;
+    if (this.pos >= data.length) return { type: 'eof' };
+
+    const byte = data[this.pos];
+
+    switch (byte) {
+      case 0x5b: // [
+        this.pos++;
+        return { type: 'arrayStart' };
+      case 0x5d: // ]
+        this.pos++;
+        return { type: 'arrayEnd' };
+      case 0x28: // (
+        return { type: 'string', value: this.readLiteralString() };
+      case 0x2f: // /
+        return { type: 'name', value: this.readName() };
+      case 0x3c: // <
+        if (data[this.pos + 1] === 0x3c) {
+          this.pos += 2;
+          return { type: 'dictStart' };
+        }
+        return { type: 'string', value: this.readHexString() };
+      case 0x3e: // >
+        if (data[this.pos + 1] === 0x3e) {
+          this.pos += 2;
+          return { type: 'dictEnd' };
+        }
+        this.pos++;
+        return this.nextToken();
+      case 0x7b: // { } only appear in PostScript functions
+      case 0x7d:
+      case 0x29: // stray )
+        this.pos++;
+        return this.nextToken();
+    }
+
+    const start = this.pos;
+    while (this.pos < data.length && isRegular(data[this.pos])) this.pos++;
+    const word = bytesToLatin1(data.subarray(start, this.pos));
+
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      return { type: 'number', value: parseFloat(word) };
+    }
+    return { type: 'keyword', value: word };
+  }
+
+  private readLiteralString(): PdfString {
+    const data = this.data;
+    const out: number[] = [];
+    let depth = 1;
+    this.pos++; // opening (
+
+    while (this.pos < data.length) {
+      const byte = data[this.pos++];
+
+      if (byte === 0x5c) {
+        // backslash escape
+        const next = data[this.pos++];
+        switch (next) {
+          case 0x6e: out.push(0x0a); break; // \n
+          case 0x72: out.push(0x0d); break; // \r
+          case 0x74: out.push(0x09); break; // \t
+          case 0x62: out.push(0x08); break; // \b
+          case 0x66: out.push(0x0c); break; // \f
+          case 0x0d: // line continuation
+            if (data[this.pos] === 0x0a) this.pos++;
+            break;
+          case 0x0a:
+            break;
+          default:
+            if (next >= 0x30 && next <= 0x37) {
+              let octal = next - 0x30;
+              for (let i = 0; i < 2 && data[this.pos] >= 0x30 && data[this.pos] <= 0x37; i++) {
+                octal = octal * 8 + (data[this.pos++] - 0x30);
+              }
+              out.push(octal & 0xff);
+            } else if (next !== undefined) {
+              out.push(next);
+            }
+        }
+        continue;
+      }
+
+      if (byte === 0x28) depth++;
+      if (byte === 0x29 && --depth === 0) break;
+      out.push(byte);
+    }
+
+    return new PdfString(Uint8Array.from(out));
+  }
+
+  private readHexString(): PdfString {
+    const data = this.data;
+    const digits: number[] = [];
+    this.pos++; // <
+
+    while (this.pos < data.length && data[this.pos] !== 0x3e) {
+      const value = hexValue(data[this.pos++]);
+      if (value >= 0) digits.push(value);
+    }
+    this.pos++; // >
+
+    if (digits.length % 2 === 1) digits.push(0);
+    const bytes = new Uint8Array(digits.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = (digits[i * 2] << 4) | digits[i * 2 + 1];
+    }
+    return new PdfString(bytes);
+  }
+
+  private readName(): PdfName {
+    const data = this.data;
+    this.pos++; // /
+    let name = '';
+    while (this.pos < data.length && isRegular(data[this.pos])) {
+      const byte = data[this.pos++];
+      if (byte === 0x23 && hexValue(data[this.pos]) >= 0 && hexValue(data[this.pos + 1]) >= 0) {
+        // #xx escape
+        name += String.fromCharCode((hexValue(data[this.pos]) << 4) | hexValue(data[this.pos + 1]));
+        this.pos += 2;
+      } else {
+        name += String.fromCharCode(byte);
+      }
+    }
+    return new PdfName(name);
+  }
+
+  /**
+   * Parse one value, resolving `n g R` into a {@link PdfRef}
+   *
+   * In content streams (`allowOperators`), bare keywords come back as
+   * {@link PdfOperator}; elsewhere they end the value.
+   */
+  parseValue(allowOperators = false): PdfValue | PdfOperator | undefined {
+    const token = this.nextToken();
+
+    switch (token.type) {
+      case 'eof':
+        return undefined;
+      case 'number': {
+        if (!allowOperators && Number.isInteger(token.value)) {
+          // Look ahead for "gen R"
+          const saved = this.pos;
+          const gen = this.nextToken();
+          if (gen.type === 'number' && Number.isInteger(gen.value)) {
+            const r = this.nextToken();
+            if (r.type === 'keyword' && r.value === 'R') {
+              return new PdfRef(token.value, gen.value);
+            }
+          }
+          this.pos = saved;
+        }
+        return token.value;
+      }
+      case 'string':
+      case 'name':
+        return token.value;
+      case 'arrayStart': {
+        const items: PdfValue[] = [];
+        while (true) {
+          const saved = this.pos;
+          const next = this.nextToken();
+          if (next.type === 'arrayEnd' || next.type === 'eof') break;
+          this.pos = saved;
+          const value = this.parseValue(false);
+          if (value === undefined || value instanceof PdfOperator) break;
+          items.push(value);
+        }
+        return items;
+      }
+      case 'dictStart': {
+        const dict: PdfDict = new Map();
+        while (true) {
+          const key = this.nextToken();
+          if (key.type === 'dictEnd' || key.type === 'eof') break;
+          if (key.type !== 'name') continue;
+          const value = this.parseValue(false);
+          if (value === undefined || value instanceof PdfOperator) break;
+          dict.set(key.value.name, value);
+        }
+        return dict;
+      }
+      case 'keyword':
+        if (token.value === 'true') return true;
+        if (token.value === 'false') return false;
+        if (token.value === 'null') return null;
+        return allowOperators ? new PdfOperator(token.value) : undefined;
+      default:
+        // Unbalanced ] or >> at top level
+        return allowOperators ? this.parseValue(true) : undefined;
+    }
+  }
+
+  /**
+   * Skip the binary data of an inline image (after its ID operator)
+   *
+   * Leaves the position just after the closing EI.
+   */
+  skipInlineImage(): void {
+    const data = this.data;
+    this.pos++; // single whitespace after ID
+    while (this.pos < data.length - 1) {
+      if (
+        data[this.pos] === 0x45 && data[this.pos + 1] === 0x49 && // EI
+        isWhitespace(data[this.pos - 1]) &&
+        (this.pos + 2 >= data.length || isWhitespace(data[this.pos + 2]))
+      ) {
+        this.pos += 2;
+        return;
+      }
+      this.pos++;
+    }
+    this.pos = data.length;
+  }
+}
+
+/**
+ * Decode bytes one-to-one into a string (PDF syntax is 8-bit)
+ */
+export function bytesToLatin1(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return result;
+}
+
+function hexValue(byte: number): number {
+  if (byte >= 0x30 && byte <= 0x39) return byte - 0x30;
+  if (byte >= 0x41 && byte <= 0x46) return byte - 0x37;
+  if (byte >= 0x61 && byte <= 0x66) return byte - 0x57;
+  return -1;
+}
+
+/**
+ * Typed accessors for dictionary entries
+ */
+export function getName(dict: PdfDict | undefined, key: string): string | undefined {
+  const value = dict?.get(key);
+  return value instanceof PdfName ? value.name : undefined;
+}
+
+export function getNumber(dict: PdfDict | undefined, key: string): number | undefined {
+  const value = dict?.get(key);
+  return typeof value === 'number' ? value : undefined;
+}
+
+export function isDict(value: unknown): value is PdfDict {
+  return value instanceof Map;
+}
@@ -0,0 +1,115 @@
+/**
+ * Embedded TrueType `cmap` reader
+ *
+ * Composite fonts with Identity-H encoding and no ToUnicode CMap only give
+ * us glyph ids. When the embedded TrueType program still carries its cmap
+ * table we can invert it to get from glyph id back to Unicode.
+ *
+ * @module pdf/truetype
+ */
+
+/**
+ * Build a glyph id to Unicode map from a TrueType font program
+ *
+ * @param data - Decoded FontFile2 stream
+ * @returns Map from glyph id to text; empty if the font has no usable cmap
+ */
+export function readGlyphUnicodeMap(data: Uint8Array): Map<number, string> {
+  const result = new Map<number, string>();
+  if (data.length < 12) return result;
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const numTables = view.getUint16(4);
+
+  let cmapOffset = -1;
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    if (record + 16 > data.length) return result;
+    const tag = String.fromCharCode(data[record], data[record + 1], data[record + 2], data[record + 3]);
+    if (tag === 'cmap') {
+      cmapOffset = view.getUint32(record + 8);
+      break;
+    }
+  }
+  if (cmapOffset < 0 || cmapOffset + 4 > data.length) return result;
+
+  // Prefer Windows Unicode full repertoire, then BMP, then Unicode platform
+  const subtables: Array<{ score: number; offset: number }> = [];
+  const count = view.getUint16(cmapOffset + 2);
+  for (let i = 0; i < count; i++) {
+    const record = cmapOffset + 4 + i * 8;
+    if (record + 8 > data.length) break;
+    const platform = view.getUint16(record);
+    const encoding = view.getUint16(record + 2);
+    const offset = cmapOffset + view.getUint32(record + 4);
+    const score = platform === 3 && encoding === 10 ? 3 : platform === 3 && encoding === 1 ? 2 : platform === 0 ? 1 : 0;
+    if (score > 0) subtables.push({ score, offset });
+  }
+  subtables.sort((a, b) => b.score - a.score);
+
+  for (const { offset } of subtables) {
+    try {
+      readSubtable(view, offset, result);
+    } catch {
+      // Truncated subtable in a subset font; try the next one
+    }
+    if (result.size > 0) break;
+  }
+
+  return result;
+}
+
+function readSubtable(view: DataView, offset: number, out: Map<number, string>): void {
+  const format = view.getUint16(offset);
+
+  const add = (codePoint: number, glyph: number) => {
+    if (glyph !== 0 && !out.has(glyph) && codePoint <= 0x10ffff) {
+      out.set(glyph, String.fromCodePoint(codePoint));
+    }
+  };
+
+  if (format === 4) {
+    const segCount = view.getUint16(offset + 6) / 2;
+    const endCodes = offset + 14;
+    const startCodes = endCodes + segCount * 2 + 2;
+    const idDeltas = startCodes + segCount * 2;
+    const idRangeOffsets = idDeltas + segCount * 2;
+
+    for (let s = 0; s < segCount; s++) {
+      const end = view.getUint16(endCodes + s * 2);
+      const start = view.getUint16(startCodes + s * 2);
+      const delta = view.getInt16(idDeltas + s * 2);
+      const rangeOffset = view.getUint16(idRangeOffsets + s * 2);
+      if (start === 0xffff) continue;
+
+      for (let code = start; code <= end; code++) {
+        let glyph: number;
+        if (rangeOffset === 0) {
+          glyph = (code + delta) & 0xffff;
+        } else {
+          const glyphOffset = idRangeOffsets + s * 2 + rangeOffset + (code - start) * 2;
+          glyph = view.getUint16(glyphOffset);
+          if (glyph !== 0) glyph = (glyph + delta) & 0xffff;
+        }
+        add(code, glyph);
+      }
+    }
+  } else if (format === 12) {
+    const groups = view.getUint32(offset + 12);
+    for (let g = 0; g < groups; g++) {
+      const group = offset + 16 + g * 12;
+      const start = view.getUint32(group);
+      const end = view.getUint32(group + 4);
+      const startGlyph = view.getUint32(group + 8);
+      for (let code = start; code <= end && code - start < 0x10000; code++) {
+        add(code, startGlyph + (code - start));
+      }
+    }
+  } else if (format === 6) {
+    const first = view.getUint16(offset + 6);
+    const count = view.getUint16(offset + 8);
+    for (let i = 0; i < count; i++) {
+      add(first + i, view.getUint16(offset + 10 + i * 2));
+    }
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Search filters on document metadata
+ *
+ * Lets a question be scoped to some of a GPT's files: picked by id, by tag,
+ * by document date, author, language or user-defined metadata. The match
+ * functions apply the filter in SQL (`chunk_matches_filter`); this module
+ * validates what the client sent and converts it to that shape.
+ *
+ * @module retrieval/filter
+ */
+
+import { HttpError } from '../auth.ts';
+
+export interface RetrievalFilter {
+  /** Only these files */
+  fileIds?: string[];
+  /** Files with any of these tags */
+  tags?: string[];
+  /** Document date on or after, YYYY-MM-DD */
+  dateFrom?: string;
+  /** Document date on or before, YYYY-MM-DD */
+  dateTo?: string;
+  author?: string;
+  /** ISO 639-1 code, e.g. en */
+  language?: string;
+  /** User-defined pairs the file must all have */
+  metadata?: Record<string, string>;
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_VALUES = 100;
+
+/**
+ * Validate a filter from a request body
+ *
+ * Tags are matched lowercase, the way they are stored. Empty lists and
+ * blank strings are dropped.
+ *
+ * @param value - The request's `filter`, possibly missing
+ * @returns The filter, empty if none was sent
+ * @throws {HttpError} 400 INVALID_FILTER if a value has the wrong shape
+ */
+export function normalizeFilter(value: unknown): RetrievalFilter {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) invalid('filter must be an object');
+  const input = value as Record<string, unknown>;
+  const filter: RetrievalFilter = {};
+
+  const fileIds = stringList(input.fileIds, 'fileIds');
+  if (fileIds.some((id) => !UUID.test(id))) invalid('fileIds must be file ids');
+  if (fileIds.length > 0) filter.fileIds = fileIds;
+
+  const tags = stringList(input.tags, 'tags').map((tag) => tag.trim().toLowerCase()).filter(Boolean);
+  if (tags.length > 0) filter.tags = [...new Set(tags)];
+
+  for (const key of ['dateFrom', 'dateTo'] as const) {
+    const date = optionalString(input[key], key);
+    if (!date) continue;
+    if (!ISO_DATE.test(date) || Number.isNaN(Date.parse(date))) invalid(`${key} must be a YYYY-MM-DD date`);
+    filter[key] = date;
+  }
+
+  const author = optionalString(input.author, 'author');
+  if (author) filter.author = author;
+  const language = optionalString(input.language, 'language');
+  if (language) filter.language = language.toLowerCase();
+
+  if (input.metadata !== undefined && input.metadata !== null) {
+    if (typeof input.metadata !== 'object' || Array.isArray(input.metadata)) invalid('metadata must be an object');
+    const entries = Object.entries(input.metadata as Record<string, unknown>);
+    if (entries.some(([, v]) => typeof v !== 'string')) invalid('metadata values must be strings');
+    if (entries.length > 0) filter.metadata = Object.fromEntries(entries) as Record<string, string>;
+  }
+
+  return filter;
+}
+
+/**
+ * Whether a filter lets every chunk through
+ */
+export function isEmptyFilter(filter: RetrievalFilter): boolean {
+  return Object.keys(filter).length === 0;
+}
+
+/**
+ * The filter in the shape the match functions take
+ *
+ * @example
+ * ```typescript
+ * toFilterParam({ tags: ['contracts'], dateFrom: '2024-01-01', dateTo: '2024-12-31' });
+ * // => { tags: ['contracts'], date_from: '2024-01-01', date_to: '2024-12-31' }
+ * ```
+ */
+export function toFilterParam(filter: RetrievalFilter): Record<string, unknown> {
+  const param: Record<string, unknown> = {};
+  if (filter.fileIds) param.file_ids = filter.fileIds;
+  if (filter.tags) param.tags = filter.tags;
+  if (filter.dateFrom) param.date_from = filter.dateFrom;
+  if (filter.dateTo) param.date_to = filter.dateTo;
+  if (filter.author) param.author = filter.author;
+  if (filter.language) param.language = filter.language;
+  if (filter.metadata) param.metadata = filter.metadata;
+  return param;
+}
+
+/**
+ * Describe a filter for the system prompt, e.g. `tagged contracts, dated 2024-01-01 to 2024-12-31`
+ *
+ * File ids are left out; pass the names of the files they select as `fileNames`.
+ */
+export function describeFilter(filter: RetrievalFilter, fileNames: string[] = []): string {
+  const parts: string[] = [];
+  if (fileNames.length > 0) parts.push(`the files ${fileNames.join(', ')}`);
+  if (filter.tags) parts.push(`tagged ${filter.tags.join(' or ')}`);
+  if (filter.dateFrom && filter.dateTo) parts.push(`dated ${filter.dateFrom} to ${filter.dateTo}`);
+  else if (filter.dateFrom) parts.push(`dated ${filter.dateFrom} or later`);
+  else if (filter.dateTo) parts.push(`dated ${filter.dateTo} or earlier`);
+  if (filter.author) parts.push(`by ${filter.author}`);
+  if (filter.language) parts.push(`in ${filter.language}`);
+  if (filter.metadata) {
+    parts.push(Object.entries(filter.metadata).map(([key, value]) => `${key} = ${value}`).join(', '));
+  }
+  return parts.join(', ');
+}
+
+function stringList(value: unknown, name: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) invalid(`${name} must be a list of strings`);
+  if (value.length > MAX_VALUES) invalid(`${name} can hold at most ${MAX_VALUES} values`);
+  return value as string[];
+}
+
+function optionalString(value: unknown, name: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') invalid(`${name} must be a string`);
+  return (value as string).trim() || undefined;
+}
+
+function invalid(message: string): never {
+  throw new HttpError(400, `Invalid filter: ${message}`, 'INVALID_FILTER');
+}
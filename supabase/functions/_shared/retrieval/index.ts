@@ -0,0 +1,16 @@
+/**
+ * Knowledge retrieval for chat answers
+ *
+ * {@link planQuery} decides whether and how to search, {@link embedQueries}
+ * and {@link searchKnowledge} run the planned searches, and
+ * {@link rerankChunks} optionally reorders the results;
+ * {@link retrieveChunks} does both the way chat answers do. A
+ * {@link RetrievalFilter} scopes the searches to some of the GPT's files.
+ *
+ * @module retrieval
+ */
+
+export * from './plan.ts';
+export * from './search.ts';
+export * from './rerank.ts';
+export * from './filter.ts';
@@ -0,0 +1,153 @@
+/**
+ * Query planning for knowledge retrieval
+ *
+ * Before searching, a utility model turns the user's message into
+ * standalone search queries using the conversation so far ("what about the
+ * second one?" becomes a query that names it), splits compound questions
+ * into sub-queries, drafts a short hypothetical answer to search with
+ * (HyDE), and decides whether the knowledge base is needed at all.
+ *
+ * The planner only talks to an {@link LLMProvider}, so it can be exercised
+ * with a stub whose `chat` returns canned JSON.
+ *
+ * @module retrieval/plan
+ */
+
+import { formatTranscript } from '../conversation-memory.ts';
+import type { ChatMessage, LLMProvider } from '../llm/types.ts';
+
+export interface QueryPlan {
+  /** False for messages the documents can't help with (greetings, thanks, questions about the chat itself) */
+  needsRetrieval: boolean;
+  /** Standalone search queries, one per distinct thing asked */
+  queries: string[];
+  /** A passage an answering document might contain, searched by meaning only */
+  hypotheticalAnswer: string | null;
+}
+
+export interface PlanQueryInput {
+  message: string;
+  /** Prior turns, oldest first */
+  history: ChatMessage[];
+  /** Names of the GPT's knowledge files, so the planner knows what could be found */
+  fileNames: string[];
+}
+
+export const MAX_SUB_QUERIES = 3;
+
+// Recent turns are enough to resolve references; older ones only cost tokens
+const HISTORY_MESSAGES = 6;
+const HISTORY_MESSAGE_CHARS = 1000;
+const MAX_QUERY_CHARS = 300;
+const MAX_HYPOTHETICAL_CHARS = 800;
+
+const PLANNER_PROMPT = `You plan knowledge base searches for an assistant. Given the conversation and the user's latest message, reply with a JSON object:
+{"retrieve": boolean, "queries": string[], "hypothetical_answer": string | null}
+
+- retrieve: false only when the uploaded documents cannot help: greetings, thanks, small talk, or requests about the conversation itself (e.g. "shorten your last answer"). When unsure, true.
+- queries: 1 to ${MAX_SUB_QUERIES} standalone search queries. Resolve pronouns and references from the conversation so each query makes sense on its own. Use one query for a single question; split only messages that ask about several distinct things. Keep exact names, identifiers, numbers and acronyms.
+- hypothetical_answer: 1-3 sentences a document answering the question might contain, or null if you cannot guess the wording. It is only used for search and never shown.`;
+
+/**
+ * Plan used when planning is skipped or fails: search for the message as-is
+ */
+export function fallbackPlan(message: string): QueryPlan {
+  return { needsRetrieval: true, queries: [message], hypotheticalAnswer: null };
+}
+
+/**
+ * Ask the model how to search for a message
+ *
+ * Never throws: if the call fails or the reply is unusable, the message is
+ * searched as-is.
+ *
+ * @param provider - Provider to plan with
+ * @param model - A cheap model is fine (e.g. `DEFAULT_MODELS[name].utility`)
+ * @param input - The message, its conversation and the available files
+ * @returns The search plan
+ *
+ * @example
+ * ```typescript
+ * const stub = { chat: async () => '{"retrieve": false, "queries": []}' } as unknown as LLMProvider;
+ * const plan = await planQuery(stub, 'stub-model', { message: 'thanks!', history: [], fileNames: ['faq.pdf'] });
+ * // plan.needsRetrieval === false
+ * ```
+ */
+export async function planQuery(provider: LLMProvider, model: string, input: PlanQueryInput): Promise<QueryPlan> {
+  const recent = input.history
+    .filter((m) => m.role !== 'system')
+    .slice(-HISTORY_MESSAGES)
+    .map((m) => ({ ...m, content: truncate(m.content, HISTORY_MESSAGE_CHARS) }));
+
+  const context = [
+    `Knowledge files: ${input.fileNames.join(', ') || '(none)'}`,
+    recent.length > 0 ? `Conversation so far:\n${formatTranscript(recent)}` : null,
+    `Latest message:\n${input.message}`,
+  ].filter(Boolean).join('\n\n');
+
+  try {
+    const reply = await provider.chat({
+      model,
+      messages: [
+        { role: 'system', content: PLANNER_PROMPT },
+        { role: 'user', content: context },
+      ],
+      maxTokens: 400,
+      temperature: 0,
+      responseFormat: 'json',
+    });
+    return parseQueryPlan(reply, input.message);
+  } catch (error) {
+    console.error('Query planning failed:', error);
+    return fallbackPlan(input.message);
+  }
+}
+
+/**
+ * Read a planner reply, falling back to the raw message where it is unusable
+ *
+ * @param reply - The model's reply; a JSON object, possibly in a code fence
+ * @param message - The user message, searched as-is if the reply has no queries
+ * @returns A plan with 1 to {@link MAX_SUB_QUERIES} queries when retrieval is needed
+ */
+export function parseQueryPlan(reply: string, message: string): QueryPlan {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(reply.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    console.warn('Query plan is not JSON, searching the message as-is');
+    return fallbackPlan(message);
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    return fallbackPlan(message);
+  }
+  const plan = parsed as Record<string, unknown>;
+
+  if (plan.retrieve === false) {
+    return { needsRetrieval: false, queries: [], hypotheticalAnswer: null };
+  }
+
+  const queries = Array.isArray(plan.queries)
+    ? [...new Set(
+        plan.queries
+          .filter((q): q is string => typeof q === 'string')
+          .map((q) => truncate(q.trim(), MAX_QUERY_CHARS))
+          .filter(Boolean)
+      )].slice(0, MAX_SUB_QUERIES)
+    : [];
+
+  const hypothetical = typeof plan.hypothetical_answer === 'string'
+    ? truncate(plan.hypothetical_answer.trim(), MAX_HYPOTHETICAL_CHARS)
+    : '';
+
+  return {
+    needsRetrieval: true,
+    queries: queries.length > 0 ? queries : [message],
+    hypotheticalAnswer: hypothetical || null,
+  };
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? text.slice(0, maxChars) : text;
+}
@@ -0,0 +1,66 @@
+import { deepEqual, equal } from 'node:assert/strict';
+import type { LLMProvider } from '../llm/types.ts';
+import { MAX_SUB_QUERIES, planQuery } from './plan.ts';
+
+const replying = (reply: string) => ({ chat: async () => reply }) as unknown as LLMProvider;
+
+const plan = (reply: string, message = 'How long do refunds take?') =>
+  planQuery(replying(reply), 'stub-model', { message, history: [], fileNames: ['faq.pdf'] });
+
+Deno.test('planQuery skips retrieval when the planner says so', async () => {
+  deepEqual(await plan('{"retrieve": false, "queries": ["thanks"], "hypothetical_answer": "You are welcome."}', 'thanks!'), {
+    needsRetrieval: false,
+    queries: [],
+    hypotheticalAnswer: null,
+  });
+});
+
+Deno.test('planQuery drops duplicate and empty sub-queries and keeps at most three', async () => {
+  const result = await plan(JSON.stringify({
+    retrieve: true,
+    queries: ['refund time', ' refund time ', '', 42, 'refund method', 'refund fees', 'refund countries'],
+    hypothetical_answer: null,
+  }));
+
+  equal(MAX_SUB_QUERIES, 3);
+  deepEqual(result, {
+    needsRetrieval: true,
+    queries: ['refund time', 'refund method', 'refund fees'],
+    hypotheticalAnswer: null,
+  });
+});
+
+Deno.test('planQuery shortens long hypothetical answers', async () => {
+  const answer = 'Refunds are paid back within five business days. '.repeat(30);
+  const result = await plan(JSON.stringify({ retrieve: true, queries: ['refund time'], hypothetical_answer: answer }));
+
+  equal(result.hypotheticalAnswer, answer.trim().slice(0, 800));
+});
+
+Deno.test('planQuery reads replies wrapped in a code fence', async () => {
+  const reply = '```json\n{"retrieve": true, "queries": ["refund processing time"], "hypothetical_answer": "Refunds take five days."}\n```';
+
+  deepEqual(await plan(reply), {
+    needsRetrieval: true,
+    queries: ['refund processing time'],
+    hypotheticalAnswer: 'Refunds take five days.',
+  });
+});
+
+Deno.test('planQuery searches the message as-is when the reply is unusable', async () => {
+  const fallback = { needsRetrieval: true, queries: ['How long do refunds take?'], hypotheticalAnswer: null };
+
+  deepEqual(await plan('Sure! I would search for refund times.'), fallback);
+  deepEqual(await plan('{"retrieve": true, "queries": []}'), fallback);
+  deepEqual(await plan('null'), fallback);
+});
+
+Deno.test('planQuery searches the message as-is when the planner call fails', async () => {
+  const failing = { chat: () => Promise.reject(new Error('rate limited')) } as unknown as LLMProvider;
+
+  deepEqual(await planQuery(failing, 'stub-model', { message: 'refunds?', history: [], fileNames: [] }), {
+    needsRetrieval: true,
+    queries: ['refunds?'],
+    hypotheticalAnswer: null,
+  });
+});
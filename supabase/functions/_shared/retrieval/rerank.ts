@@ -0,0 +1,171 @@
+/**
+ * Reranking of retrieved chunks
+ *
+ * Search ranks chunks by embedding distance and keyword overlap, which is
+ * only a rough proxy for whether a passage answers the question. When a GPT
+ * turns reranking on, search over-fetches candidates, a reranker scores each
+ * one against the query, and the best ones that fit the context budget are
+ * kept.
+ *
+ * Two rerankers are available:
+ * - A hosted cross-encoder speaking the Cohere/Jina `/rerank` API, used when
+ *   RERANK_API_URL is set (with RERANK_API_KEY and RERANK_MODEL)
+ * - Otherwise the GPT's chat provider, asked to grade each passage
+ *
+ * @module retrieval/rerank
+ */
+
+import { estimateTokens } from '../chunking/tokens.ts';
+import type { LLMProvider } from '../llm/types.ts';
+import type { MatchedChunk } from '../citations.ts';
+
+export interface Reranker {
+  readonly name: string;
+
+  /**
+   * Score passages against a query
+   *
+   * @returns One relevance score in [0, 1] per document, in input order
+   */
+  score(query: string, documents: string[]): Promise<number[]>;
+}
+
+export interface RerankOptions {
+  /** Maximum number of chunks to keep */
+  topK: number;
+  /** Approximate tokens the kept chunks may use together */
+  tokenBudget: number;
+}
+
+/** A chunk with the reranker's score attached */
+export type RerankedChunk = MatchedChunk & { rerank_score: number | null };
+
+const rerankApiUrl = Deno.env.get('RERANK_API_URL');
+const rerankApiKey = Deno.env.get('RERANK_API_KEY') ?? '';
+const rerankModel = Deno.env.get('RERANK_MODEL') || 'rerank-v3.5';
+
+// Candidates fetched per kept chunk when reranking
+export const RERANK_OVERFETCH = 3;
+export const MAX_RERANK_CANDIDATES = 30;
+// Approximate tokens reranked chunks may take up in the system prompt
+export const RERANK_TOKEN_BUDGET = 3000;
+
+// Long passages cost tokens without helping the grader decide
+const LLM_PASSAGE_CHARS = 1500;
+
+const LLM_RERANK_PROMPT = `You judge how relevant passages are to a search query. Reply with a JSON object {"scores": [...]} holding one integer per passage, in passage order, from 0 (unrelated) to 10 (directly answers the query).`;
+
+/**
+ * Pick the reranker for this deployment
+ *
+ * @param provider - Chat provider to grade with when no cross-encoder is configured
+ * @param model - Model for LLM grading; a cheap one is fine
+ */
+export function resolveReranker(provider: LLMProvider, model: string): Reranker {
+  return rerankApiUrl
+    ? createCrossEncoderReranker({ apiUrl: rerankApiUrl, apiKey: rerankApiKey, model: rerankModel })
+    : createLLMReranker(provider, model);
+}
+
+/**
+ * Reranker backed by a hosted cross-encoder (`POST {apiUrl}` with `{model, query, documents}`)
+ */
+export function createCrossEncoderReranker(config: { apiUrl: string; apiKey: string; model: string }): Reranker {
+  return {
+    name: `cross-encoder:${config.model}`,
+    async score(query, documents) {
+      const response = await fetch(config.apiUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: config.model, query, documents }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Rerank API error ${response.status}: ${await response.text()}`);
+      }
+
+      const { results } = await response.json() as { results?: Array<{ index: number; relevance_score: number }> };
+      const scores = new Array<number>(documents.length).fill(0);
+      for (const result of results || []) {
+        scores[result.index] = result.relevance_score;
+      }
+      return scores;
+    },
+  };
+}
+
+/**
+ * Reranker that asks a chat model to grade every passage in one call
+ */
+export function createLLMReranker(provider: LLMProvider, model: string): Reranker {
+  return {
+    name: `llm:${model}`,
+    async score(query, documents) {
+      const passages = documents
+        .map((doc, i) => `[${i + 1}] ${doc.length > LLM_PASSAGE_CHARS ? doc.slice(0, LLM_PASSAGE_CHARS) : doc}`)
+        .join('\n\n');
+
+      const reply = await provider.chat({
+        model,
+        messages: [
+          { role: 'system', content: LLM_RERANK_PROMPT },
+          { role: 'user', content: `Query: ${query}\n\nPassages:\n${passages}` },
+        ],
+        maxTokens: 20 + documents.length * 6,
+        temperature: 0,
+        responseFormat: 'json',
+      });
+
+      const { scores } = JSON.parse(reply.trim().replace(/^```(?:json)?\s*|\s*```$/g, '')) as { scores?: unknown };
+      if (!Array.isArray(scores) || scores.length !== documents.length || !scores.every((s) => typeof s === 'number')) {
+        throw new Error('Reranker reply does not hold one score per passage');
+      }
+      return scores.map((s: number) => Math.min(1, Math.max(0, s / 10)));
+    },
+  };
+}
+
+/**
+ * Reorder candidates by reranker score and keep the best that fit
+ *
+ * Chunks are taken best first until `topK` are kept, skipping any that
+ * would overflow `tokenBudget` (the best chunk is always kept). If the
+ * reranker fails, the search order is kept and scores are null.
+ *
+ * @param reranker - From {@link resolveReranker}
+ * @param query - The search query the chunks should answer
+ * @param candidates - Over-fetched search results, best first
+ * @param options - How many chunks to keep and their token budget
+ * @returns The kept chunks with their rerank scores, best first
+ */
+export async function rerankChunks(
+  reranker: Reranker,
+  query: string,
+  candidates: MatchedChunk[],
+  options: RerankOptions
+): Promise<RerankedChunk[]> {
+  let ranked: RerankedChunk[];
+  try {
+    const scores = await reranker.score(query, candidates.map((chunk) => chunk.content));
+    ranked = candidates
+      .map((chunk, i) => ({ ...chunk, rerank_score: scores[i] }))
+      .sort((a, b) => (b.rerank_score ?? 0) - (a.rerank_score ?? 0));
+  } catch (error) {
+    console.error(`Reranking with ${reranker.name} failed, keeping search order:`, error);
+    ranked = candidates.map((chunk) => ({ ...chunk, rerank_score: null }));
+  }
+
+  const kept: RerankedChunk[] = [];
+  let tokens = 0;
+  for (const chunk of ranked) {
+    if (kept.length >= options.topK) break;
+    const chunkTokens = estimateTokens(chunk.content);
+    if (kept.length > 0 && tokens + chunkTokens > options.tokenBudget) continue;
+    kept.push(chunk);
+    tokens += chunkTokens;
+  }
+  return kept;
+}
@@ -0,0 +1,49 @@
+import { deepEqual } from 'node:assert/strict';
+import type { MatchedChunk } from '../citations.ts';
+import { rerankChunks, type Reranker } from './rerank.ts';
+
+const chunk = (id: string, content: string): MatchedChunk => ({
+  id,
+  content,
+  similarity: 0.5,
+  knowledge_base_id: 'kb',
+  file_name: 'faq.pdf',
+  chunk_index: 0,
+  page_start: null,
+  page_end: null,
+});
+
+const scoring = (scores: number[]): Reranker => ({ name: 'test', score: async () => scores });
+
+const candidates = [
+  chunk('a', 'Orders ship within two business days.'),
+  chunk('b', 'Refunds are paid back to the original card within five days.'),
+  chunk('c', 'Returns are free for thirty days after delivery.'),
+];
+
+Deno.test('rerankChunks orders chunks by score and keeps the top k', async () => {
+  const kept = await rerankChunks(scoring([0.2, 0.9, 0.5]), 'refund time', candidates, { topK: 2, tokenBudget: 1000 });
+
+  deepEqual(kept.map((c) => [c.id, c.rerank_score]), [['b', 0.9], ['c', 0.5]]);
+});
+
+Deno.test('rerankChunks keeps the search order when the reranker fails', async () => {
+  const failing: Reranker = { name: 'test', score: () => Promise.reject(new Error('Rerank API error 503')) };
+  const kept = await rerankChunks(failing, 'refund time', candidates, { topK: 2, tokenBudget: 1000 });
+
+  deepEqual(kept.map((c) => [c.id, c.rerank_score]), [['a', null], ['b', null]]);
+});
+
+Deno.test('rerankChunks always keeps the top chunk, even over the token budget', async () => {
+  const long = chunk('long', 'Refund policy details. '.repeat(50));
+  const kept = await rerankChunks(scoring([0.9, 0.3, 0.8, 0.1]), 'refund time', [long, ...candidates], { topK: 3, tokenBudget: 20 });
+
+  deepEqual(kept.map((c) => c.id), ['long']);
+});
+
+Deno.test('rerankChunks skips chunks that overflow the token budget but keeps smaller ones after them', async () => {
+  const long = chunk('long', 'Refund policy details. '.repeat(50));
+  const kept = await rerankChunks(scoring([0.8, 0.9, 0.5, 0.1]), 'refund time', [long, ...candidates], { topK: 3, tokenBudget: 30 });
+
+  deepEqual(kept.map((c) => c.id), ['a', 'b']);
+});
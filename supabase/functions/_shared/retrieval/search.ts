@@ -0,0 +1,170 @@
+/**
+ * Knowledge base search
+ *
+ * Runs `hybrid_match_documents` once per planned query and fuses the result
+ * lists with reciprocal-rank fusion, so a chunk that several queries find
+ * beats one that a single query ranks first.
+ *
+ * @module retrieval/search
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { withRetry } from '../llm/embeddings.ts';
+import type { LLMProvider } from '../llm/types.ts';
+import type { MatchedChunk } from '../citations.ts';
+import type { QueryPlan } from './plan.ts';
+import { toFilterParam, type RetrievalFilter } from './filter.ts';
+import { rerankChunks, RERANK_OVERFETCH, MAX_RERANK_CANDIDATES, RERANK_TOKEN_BUDGET, type Reranker } from './rerank.ts';
+
+export interface SearchQuery {
+  text: string;
+  embedding: number[];
+  /** Hypothetical answers are made-up text, so they only search by meaning */
+  keyword: boolean;
+}
+
+export interface SearchOptions {
+  customGptId: string;
+  /** Minimum cosine similarity for semantic matches */
+  matchThreshold: number;
+  /** Number of chunks to return */
+  matchCount: number;
+  vectorWeight: number;
+  keywordWeight: number;
+  /** Only search files matching this; all files if missing */
+  filter?: RetrievalFilter;
+}
+
+export interface RetrieveOptions extends SearchOptions {
+  /** Rerank candidates against `query` before keeping `matchCount`; plain search if missing */
+  rerank?: { reranker: Reranker; query: string };
+}
+
+/** Minimum cosine similarity when the user hasn't set their own in Settings */
+export const DEFAULT_MATCH_THRESHOLD = 0.3;
+/** Chunks per answer when the user hasn't set their own in Settings */
+export const DEFAULT_MATCH_COUNT = 5;
+
+// Standard RRF damping constant; same default as hybrid_match_documents
+const RRF_K = 60;
+
+/**
+ * Embed a plan's queries (and hypothetical answer) in one request
+ *
+ * @param embedder - The embedding provider
+ * @param model - Embedding model; must match the one used for the documents
+ * @param plan - Plan from {@link planQuery}
+ * @returns One search query per text, in plan order
+ */
+export async function embedQueries(embedder: LLMProvider, model: string, plan: QueryPlan): Promise<SearchQuery[]> {
+  const texts = [
+    ...plan.queries.map((text) => ({ text, keyword: true })),
+    ...(plan.hypotheticalAnswer ? [{ text: plan.hypotheticalAnswer, keyword: false }] : []),
+  ];
+  if (texts.length === 0) return [];
+
+  // Someone is waiting for the answer, so retry briefly
+  const embeddings = await withRetry(
+    () => embedder.embed(texts.map((t) => t.text), model),
+    { retries: 2, baseDelayMs: 500, maxDelayMs: 5_000 }
+  );
+  return texts.map((t, i) => ({ ...t, embedding: embeddings[i] }));
+}
+
+/**
+ * Search the knowledge base for every query and fuse the results
+ *
+ * @param supabase - Service-role client
+ * @param queries - Embedded queries from {@link embedQueries}
+ * @param options - GPT, limits, ranking weights and filter
+ * @returns Up to `matchCount` chunks, best first
+ * @throws The RPC error if a search fails
+ */
+export async function searchKnowledge(
+  supabase: SupabaseClient,
+  queries: SearchQuery[],
+  options: SearchOptions
+): Promise<MatchedChunk[]> {
+  const lists = await Promise.all(queries.map(async (query) => {
+    const { data, error } = await supabase.rpc('hybrid_match_documents', {
+      query_embedding: query.embedding,
+      query_text: query.keyword ? query.text : '',
+      custom_gpt_id: options.customGptId,
+      match_threshold: options.matchThreshold,
+      match_count: options.matchCount,
+      vector_weight: options.vectorWeight,
+      keyword_weight: query.keyword ? options.keywordWeight : 0,
+      filter: toFilterParam(options.filter ?? {}),
+    });
+
+    if (error) throw error;
+    return (data as MatchedChunk[] | null) || [];
+  }));
+
+  return fuseResults(lists, options.matchCount);
+}
+
+/**
+ * Search and, when asked, rerank: the retrieval step of a chat answer
+ *
+ * With a reranker, fetches up to {@link RERANK_OVERFETCH} times `matchCount`
+ * candidates and keeps the best `matchCount` that fit
+ * {@link RERANK_TOKEN_BUDGET}.
+ *
+ * @param supabase - Service-role client
+ * @param queries - Embedded queries from {@link embedQueries}
+ * @param options - Search options, plus the reranker to use if any
+ * @returns Up to `matchCount` chunks, best first
+ * @throws The RPC error if a search fails
+ */
+export async function retrieveChunks(
+  supabase: SupabaseClient,
+  queries: SearchQuery[],
+  options: RetrieveOptions
+): Promise<MatchedChunk[]> {
+  const { rerank, ...search } = options;
+  if (!rerank) return searchKnowledge(supabase, queries, search);
+
+  const candidates = await searchKnowledge(supabase, queries, {
+    ...search,
+    matchCount: Math.min(search.matchCount * RERANK_OVERFETCH, MAX_RERANK_CANDIDATES),
+  });
+  if (candidates.length === 0) return candidates;
+
+  return rerankChunks(rerank.reranker, rerank.query, candidates, {
+    topK: search.matchCount,
+    tokenBudget: RERANK_TOKEN_BUDGET,
+  });
+}
+
+/**
+ * Merge ranked lists by reciprocal-rank fusion
+ *
+ * A single list comes back unchanged (up to `limit`).
+ *
+ * @param lists - Result lists, each best first
+ * @param limit - Maximum number of chunks to return
+ * @returns Distinct chunks ordered by fused score
+ */
+export function fuseResults(lists: MatchedChunk[][], limit: number): MatchedChunk[] {
+  const fused = new Map<string, { chunk: MatchedChunk; score: number }>();
+
+  for (const list of lists) {
+    list.forEach((chunk, rank) => {
+      const entry = fused.get(chunk.id);
+      const score = 1 / (RRF_K + rank + 1);
+      if (entry) {
+        entry.score += score;
+        // Report the best similarity any query saw
+        if (chunk.similarity > entry.chunk.similarity) entry.chunk = chunk;
+      } else {
+        fused.set(chunk.id, { chunk, score });
+      }
+    });
+  }
+
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((entry) => entry.chunk);
+}
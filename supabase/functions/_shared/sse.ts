@@ -0,0 +1,90 @@
+/**
+ * Server-Sent Events helpers for Supabase Edge Functions
+ *
+ * Used both to emit our own event streams to the browser and to consume
+ * upstream provider streams (OpenAI-style `data: ...` lines).
+ *
+ * @module sse
+ */
+
+const encoder = new TextEncoder();
+
+/**
+ * Format a single SSE event
+ *
+ * @param event - Event name (sent as the `event:` field)
+ * @param data - Payload, serialized as JSON
+ * @returns The encoded event, terminated by a blank line
+ *
+ * @example
+ * ```typescript
+ * controller.enqueue(encodeSSE('token', { content: 'Hello' }));
+ * ```
+ */
+export function encodeSSE(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Headers for an SSE response, merged with the CORS headers of the request
+ */
+export function sseHeaders(corsHeaders: Record<string, string>): Record<string, string> {
+  return {
+    ...corsHeaders,
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  };
+}
+
+/**
+ * Read the `data:` payloads of an SSE stream
+ *
+ * Multi-line data fields are joined with newlines, as per the spec.
+ * Comment lines and other fields are ignored.
+ *
+ * @param body - The response body of an upstream SSE request
+ * @yields Each event's data payload as a raw string
+ *
+ * @example
+ * ```typescript
+ * for await (const data of readSSEData(response.body!)) {
+ *   if (data === '[DONE]') break;
+ *   const chunk = JSON.parse(data);
+ * }
+ * ```
+ */
+export async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let dataLines: string[] = [];
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+
+        if (line === '') {
+          if (dataLines.length > 0) {
+            yield dataLines.join('\n');
+            dataLines = [];
+          }
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+    }
+
+    if (dataLines.length > 0) {
+      yield dataLines.join('\n');
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,144 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { getCorsHeaders, handleCorsPreflightRequest } from '../_shared/cors.ts';
+import { HttpError, requireUser, requireOwnedGpt, errorStatus } from '../_shared/auth.ts';
+import { resolveEmbeddingProvider, withRetry, EMBEDDING_LIMITS } from '../_shared/llm/index.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+interface EditChunkRequest {
+  chunkId: string;
+  /** New text; re-embedded with the GPT's embedding model */
+  content?: string;
+  /** Leave the chunk out of searches, or bring it back */
+  excluded?: boolean;
+}
+
+interface ChunkRow {
+  id: string;
+  knowledge_base_id: string;
+  custom_gpt_id: string;
+  chunk_index: number;
+  content: string;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return handleCorsPreflightRequest(req);
+  }
+
+  const corsHeaders = getCorsHeaders(req);
+
+  try {
+    const user = await requireUser(req, supabase);
+    const { chunkId, content, excluded }: EditChunkRequest = await req.json();
+
+    if (!chunkId) {
+      throw new HttpError(400, 'chunkId is required');
+    }
+    if (content === undefined && excluded === undefined) {
+      throw new HttpError(400, 'Nothing to change: send content or excluded');
+    }
+    if (excluded !== undefined && typeof excluded !== 'boolean') {
+      throw new HttpError(400, 'excluded must be true or false');
+    }
+
+    const text = content === undefined ? undefined : String(content).trim();
+    if (text !== undefined && !text) {
+      throw new HttpError(400, 'A chunk can\'t be empty; exclude it instead', 'CHUNK_EMPTY');
+    }
+    if (text !== undefined && text.length > EMBEDDING_LIMITS.maxInputChars) {
+      throw new HttpError(400, `A chunk can hold at most ${EMBEDDING_LIMITS.maxInputChars} characters`, 'CHUNK_TOO_LONG');
+    }
+
+    const { data: chunk, error: chunkError } = await supabase
+      .from('document_chunks')
+      .select('id, knowledge_base_id, custom_gpt_id, chunk_index, content')
+      .eq('id', chunkId)
+      .maybeSingle<ChunkRow>();
+
+    if (chunkError) throw chunkError;
+    if (!chunk) {
+      throw new HttpError(404, 'Chunk not found');
+    }
+
+    const gpt = await requireOwnedGpt<{ id: string; embedding_model: string }>(
+      supabase,
+      chunk.custom_gpt_id,
+      user.id,
+      'id, embedding_model'
+    );
+
+    if (text !== undefined && text !== chunk.content) {
+      console.log('Re-embedding edited chunk:', { chunkId, model: gpt.embedding_model });
+
+      const embedder = await resolveEmbeddingProvider(supabase, user.id);
+      const [embedding] = await withRetry(() => embedder.embed([text], gpt.embedding_model));
+
+      const { error: updateError } = await supabase
+        .from('document_chunks')
+        .update({
+          content: text,
+          embedding,
+          embedding_model: gpt.embedding_model,
+          embedding_dim: embedding.length,
+          edited_at: new Date().toISOString(),
+        })
+        .eq('id', chunk.id);
+
+      if (updateError) throw updateError;
+
+      // Copies under other models hold the old text; a running re-embed copies the new one
+      const { error: deleteError } = await supabase
+        .from('document_chunks')
+        .delete()
+        .eq('knowledge_base_id', chunk.knowledge_base_id)
+        .eq('chunk_index', chunk.chunk_index)
+        .neq('id', chunk.id);
+
+      if (deleteError) throw deleteError;
+    }
+
+    if (excluded !== undefined) {
+      const { error: excludeError } = await supabase
+        .from('document_chunks')
+        .update({ excluded })
+        .eq('knowledge_base_id', chunk.knowledge_base_id)
+        .eq('chunk_index', chunk.chunk_index);
+
+      if (excludeError) throw excludeError;
+    }
+
+    const { data: updated, error: updatedError } = await supabase
+      .from('document_chunks')
+      .select('id, chunk_index, content, page_start, page_end, embedding_model, embedding_dim, excluded, edited_at')
+      .eq('id', chunk.id)
+      .single();
+
+    if (updatedError) throw updatedError;
+
+    return new Response(JSON.stringify({
+      success: true,
+      chunk: updated
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in edit-chunk function:', error);
+    const { status, message, code } = errorStatus(error);
+    return new Response(JSON.stringify({
+      error: message,
+      code,
+      success: false
+    }), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
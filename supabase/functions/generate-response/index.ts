@@ -2,23 +2,45 @@ import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
 import { getCorsHeaders, handleCorsPreflightRequest, createCorsErrorResponse, createCorsSuccessResponse } from '../_shared/cors.ts';
+import { loadConversationHistory, formatTranscript, type ChatMessage } from '../_shared/conversation-memory.ts';
+import { encodeSSE, sseHeaders } from '../_shared/sse.ts';
+import { HttpError, requireUser, requireOwnedGpt, errorStatus } from '../_shared/auth.ts';
+import {
+  resolveChatProvider,
+  resolveEmbeddingProvider,
+  isProviderName,
+  DEFAULT_MODELS,
+  type ChatRequest,
+  type LLMProvider,
+  type ProviderName,
+} from '../_shared/llm/index.ts';
+import type { Citation } from '../_shared/citations.ts';
+import { normalizeFilter, type RetrievalFilter } from '../_shared/retrieval/index.ts';
+import {
+  prepareAnswer,
+  loadUserDefaults,
+  ANSWER_GPT_COLUMNS,
+  type AnswerGpt,
+  type RetrievalContext,
+} from '../_shared/answer.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
 
 const supabase = createClient(supabaseUrl, supabaseKey);
 
-interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-}
-
 interface GenerateRequest {
   message: string;
   conversationId: string;
-  customGptId: string;
-  gptInstructions: string;
+  customGptId?: string;
+  stream?: boolean;
+  /** Limit the knowledge search to some of the GPT's files */
+  filter?: RetrievalFilter;
+}
+
+interface PersistedTurn {
+  userMessageId: string;
+  assistantMessageId: string;
 }
 
 serve(async (req) => {
@@ -30,180 +52,223 @@ serve(async (req) => {
   const corsHeaders = getCorsHeaders(req);
 
   try {
-    const { message, conversationId, customGptId, gptInstructions }: GenerateRequest = await req.json();
-    
-    console.log('Generating response for:', { customGptId, conversationId });
+    const user = await requireUser(req, supabase);
+    const { message, conversationId, customGptId: requestedGptId, stream = false, filter: requestedFilter }: GenerateRequest = await req.json();
 
-    if (!openAIApiKey) {
-      throw new Error('OpenAI API key not configured');
+    if (!message?.trim() || !conversationId) {
+      throw new HttpError(400, 'message and conversationId are required');
     }
+    const filter = normalizeFilter(requestedFilter);
 
-    // Generate embedding for the user's message
-    const queryEmbedding = await generateQueryEmbedding(message);
-    console.log('Generated query embedding');
-
-    // Check if user is explicitly asking about knowledge/documents
-    const isKnowledgeQuery = /\b(knowledge|document|file|statement|pdf|uploaded|reference)\b/i.test(message);
-    console.log('Is knowledge query:', isKnowledgeQuery);
+    // The conversation decides which GPT we talk to; never trust the client for that
+    const { data: conversation, error: conversationError } = await supabase
+      .from('conversations')
+      .select('id, user_id, custom_gpt_id')
+      .eq('id', conversationId)
+      .eq('user_id', user.id)
+      .maybeSingle();
 
-    // Search for relevant knowledge base content
-    const { relevantContent, searchResults } = await searchKnowledgeBase(queryEmbedding, customGptId, isKnowledgeQuery);
-    console.log('Found relevant content chunks:', relevantContent.length);
-
-    // Build system message with instructions and context
-    let systemMessage = gptInstructions;
-    
-    // Always inform about knowledge search when user asks about knowledge/documents
-    if (isKnowledgeQuery) {
-      systemMessage += `\n\n🔍 KNOWLEDGE BASE SEARCH PERFORMED: I searched your uploaded documents for relevant information.`;
+    if (conversationError) throw conversationError;
+    if (!conversation) {
+      throw new HttpError(404, 'Conversation not found');
     }
-    
-    if (relevantContent.length > 0) {
-      systemMessage += `\n\nRelevant information from your knowledge base:\n${relevantContent.join('\n\n')}`;
-      console.log('Added knowledge base context to system message');
-    } else if (isKnowledgeQuery) {
-      const { data: kbFiles } = await supabase
-        .from('knowledge_base')
-        .select('file_name, created_at, file_size, processed_at')
-        .eq('custom_gpt_id', customGptId)
-        .order('created_at', { ascending: false })
-        .limit(5);
-      if (kbFiles && kbFiles.length > 0) {
-        const fileDetails = kbFiles.map((f: any) => {
-          const uploadDate = new Date(f.created_at).toLocaleDateString();
-          const fileSize = f.file_size ? `${(f.file_size / 1024).toFixed(1)}KB` : 'Unknown size';
-          const status = f.processed_at ? 'Processed' : 'Processing';
-          return `• ${f.file_name} (${fileSize}, uploaded ${uploadDate}, ${status})`;
-        }).join('\n');
-        systemMessage += `\n\n⚠️ NO RELEVANT CONTENT FOUND: I searched your uploaded documents but couldn't find text that matches your query.\n\nYour uploaded files:\n${fileDetails}\n\nThis may be because: 1) The PDF is scanned/image-based rather than text-searchable, 2) The content doesn't closely match your question, or 3) The document needs to be re-uploaded as a text-based PDF.`;
-        console.log('Added detailed file information for knowledge query');
-      }
-    } else {
-      const { data: kbFiles } = await supabase
-        .from('knowledge_base')
-        .select('file_name')
-        .eq('custom_gpt_id', customGptId)
-        .order('created_at', { ascending: false })
-        .limit(5);
-      if (kbFiles && kbFiles.length > 0) {
-        const fileList = kbFiles.map((f: any) => f.file_name).join(', ');
-        systemMessage += `\n\nNote: Uploaded documents available: ${fileList}. If the user's question refers to these files, acknowledge their presence and offer to search them.`;
-        console.log('Added fallback file list to system message');
-      }
+    if (requestedGptId && requestedGptId !== conversation.custom_gpt_id) {
+      throw new HttpError(400, 'Conversation does not belong to this GPT');
     }
 
-    // Build messages for OpenAI
-    const messages: ChatMessage[] = [
-      {
-        role: 'system',
-        content: systemMessage
-      },
-      {
-        role: 'user',
-        content: message
-      }
-    ];
+    const customGptId: string = conversation.custom_gpt_id;
+    const gpt = await requireOwnedGpt<AnswerGpt>(supabase, customGptId, user.id, ANSWER_GPT_COLUMNS);
+    
+    console.log('Generating response for:', { customGptId, conversationId });
 
-    console.log('Calling OpenAI API...');
+    // Bill the caller's own key
+    const providerName: ProviderName = isProviderName(gpt.llm_provider) ? gpt.llm_provider : 'openai';
+    const provider = await resolveChatProvider(supabase, user.id, providerName);
+    const embedder = await resolveEmbeddingProvider(supabase, user.id);
+    const defaults = await loadUserDefaults(supabase, user.id);
 
-    // Call OpenAI API
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-5-2025-08-07',
-        messages: messages,
-        max_completion_tokens: 2000,
-      }),
+    // Load prior turns, summarizing whatever no longer fits the history budget
+    let history: ChatMessage[] = [];
+    try {
+      history = await loadConversationHistory(supabase, conversationId, {
+        summarize: (previousSummary, turns) => summarizeTurns(provider, previousSummary, turns),
+      });
+      console.log('Loaded conversation history messages:', history.length);
+    } catch (error) {
+      console.error('Failed to load conversation history:', error);
+    }
+
+    const { request: chatRequest, citations, retrieval } = await prepareAnswer(supabase, {
+      gpt,
+      provider,
+      embedder,
+      defaults,
+      message,
+      history,
+      filter,
     });
 
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error('OpenAI API error:', errorData);
-      throw new Error(`OpenAI API error: ${response.status}`);
+    if (stream) {
+      console.log('Streaming response from', provider.name, chatRequest.model);
+      return createStreamingResponse(provider, chatRequest, corsHeaders, conversationId, message, retrieval, {
+        usedKnowledgeBase: citations.length > 0,
+        citations,
+      });
     }
 
-    const data = await response.json();
-    console.log('OpenAI response received');
+    console.log('Calling', provider.name, chatRequest.model);
 
-    const assistantMessage = data.choices[0].message.content;
+    const assistantMessage = await provider.chat(chatRequest);
+    console.log('Model response received');
+
+    const turn = await persistTurn(conversationId, message, assistantMessage, citations, retrieval);
 
     return new Response(JSON.stringify({ 
       content: assistantMessage,
       success: true,
-      usedKnowledgeBase: relevantContent.length > 0,
-      retrievedChunks: searchResults.map((chunk: any) => ({
-        content: chunk.content,
-        similarity: (chunk.similarity * 100).toFixed(1)
-      }))
+      ...turn,
+      usedKnowledgeBase: citations.length > 0,
+      citations,
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
   } catch (error) {
     console.error('Error in generate-response function:', error);
+    const { status, message, code } = errorStatus(error);
     return new Response(JSON.stringify({ 
-      error: error.message,
+      error: message,
+      code,
       success: false 
     }), {
-      status: 500,
+      status,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
 });
 
-// Generate embedding for search query
-async function generateQueryEmbedding(text: string): Promise<number[]> {
-  const response = await fetch('https://api.openai.com/v1/embeddings', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${openAIApiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'text-embedding-3-small',
-      input: text,
-    }),
-  });
+// Save the user message and the assistant reply in one transaction, then
+// attach the reply's sources so its citations still resolve after a reload,
+// and how they were found so feedback on the reply can be traced back
+async function persistTurn(
+  conversationId: string,
+  userMessage: string,
+  assistantMessage: string,
+  citations: Citation[],
+  retrieval: RetrievalContext
+): Promise<PersistedTurn> {
+  const { data, error } = await supabase
+    .rpc('append_conversation_turn', {
+      p_conversation_id: conversationId,
+      p_user_content: userMessage,
+      p_assistant_content: assistantMessage,
+    })
+    .single();
 
-  if (!response.ok) {
-    throw new Error('Failed to generate query embedding');
+  if (error) {
+    console.error('Failed to persist conversation turn:', error);
+    throw new Error(`Failed to save messages: ${error.message}`);
   }
 
-  const data = await response.json();
-  return data.data[0].embedding;
+  const row = data as { user_message_id: string; assistant_message_id: string };
+
+  const { error: citationsError } = await supabase
+    .from('messages')
+    .update({ citations: citations.length > 0 ? citations : null, retrieval })
+    .eq('id', row.assistant_message_id);
+
+  // The reply itself is saved; only the source links are lost
+  if (citationsError) {
+    console.error('Failed to save citations:', citationsError);
+  }
+
+  return { userMessageId: row.user_message_id, assistantMessageId: row.assistant_message_id };
 }
 
-// Search knowledge base for relevant content
-async function searchKnowledgeBase(queryEmbedding: number[], customGptId: string, isKnowledgeQuery: boolean = false): Promise<{relevantContent: string[], searchResults: any[]}> {
-  try {
-    // Use more aggressive search when user explicitly asks about knowledge
-    const threshold = isKnowledgeQuery ? 0.1 : 0.3;
-    const count = isKnowledgeQuery ? 8 : 5;
-    
-    console.log(`Searching with threshold: ${threshold}, count: ${count}`);
-    
-    const { data, error } = await supabase.rpc('match_documents', {
-      query_embedding: queryEmbedding,
-      custom_gpt_id: customGptId,
-      match_threshold: threshold,
-      match_count: count
-    });
+// Stream the completion to the client as SSE: a metadata event with the
+// numbered sources first, then token events, then a final done event
+function createStreamingResponse(
+  provider: LLMProvider,
+  chatRequest: ChatRequest,
+  corsHeaders: Record<string, string>,
+  conversationId: string,
+  userMessage: string,
+  retrieval: RetrievalContext,
+  metadata: { usedKnowledgeBase: boolean; citations: Citation[] }
+): Response {
+  const upstream = new AbortController();
 
-    if (error) {
-      console.error('Knowledge base search error:', error);
-      return { relevantContent: [], searchResults: [] };
-    }
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        try {
+          controller.enqueue(encodeSSE(event, data));
+        } catch (_) {
+          // Client went away; cancel() aborts the upstream request
+        }
+      };
 
-    const relevantContent = data?.map((chunk: any) => `[Similarity: ${(chunk.similarity * 100).toFixed(1)}%] ${chunk.content}`) || [];
-    console.log(`Knowledge search returned ${relevantContent.length} chunks`);
-    
-    return { relevantContent, searchResults: data || [] };
-  } catch (error) {
-    console.error('Error searching knowledge base:', error);
-    return { relevantContent: [], searchResults: [] };
+      send('metadata', metadata);
+
+      let content = '';
+      try {
+        for await (const delta of provider.streamChat(chatRequest, upstream.signal)) {
+          content += delta;
+          send('token', { content: delta });
+        }
+        console.log('Model stream completed');
+
+        const turn = await persistTurn(conversationId, userMessage, content, metadata.citations, retrieval);
+        send('done', { content, ...turn });
+      } catch (error) {
+        if (upstream.signal.aborted) {
+          console.log('Stream aborted by client');
+          // Keep what the user already saw; nothing is saved if no tokens arrived
+          if (content.trim()) {
+            await persistTurn(conversationId, userMessage, content, metadata.citations, retrieval).catch((persistError) => {
+              console.error('Failed to persist stopped turn:', persistError);
+            });
+          }
+        } else {
+          console.error('Streaming error:', error);
+          send('error', { error: (error as Error).message });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch (_) {
+          // Already closed by cancellation
+        }
+      }
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+
+  return new Response(body, { headers: sseHeaders(corsHeaders) });
+}
+
+// Condense older conversation turns into a running summary
+async function summarizeTurns(provider: LLMProvider, previousSummary: string | null, turns: ChatMessage[]): Promise<string> {
+  const reply = await provider.chat({
+    model: DEFAULT_MODELS[provider.name].utility,
+    messages: [
+      {
+        role: 'system',
+        content: 'Summarize the conversation so far for use as memory in a later turn. Keep names, numbers, decisions, open questions and anything the user asked to remember. Refer to list items by their position when the user might ask about them later. Write at most 250 words. No commentary.'
+      },
+      {
+        role: 'user',
+        content: `${previousSummary ? `Existing summary:\n${previousSummary}\n\n` : ''}New turns to fold in:\n${formatTranscript(turns)}`
+      }
+    ],
+    maxTokens: 500,
+  });
+
+  const summary = reply.trim();
+  if (!summary) {
+    throw new Error('Summarization returned no content');
   }
-}
\ No newline at end of file
+  return summary;
+}
@@ -0,0 +1,78 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { getCorsHeaders, handleCorsPreflightRequest } from '../_shared/cors.ts';
+import { HttpError, requireUser, requireOwnedGpt, errorStatus } from '../_shared/auth.ts';
+import { resolveEmbeddingProvider } from '../_shared/llm/index.ts';
+import { enqueueIngestionJob, wakeIngestionWorker } from '../_shared/ingest/jobs.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+interface ProcessRequest {
+  knowledgeBaseId: string;
+  customGptId: string;
+  filePath: string;
+  fileName: string;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return handleCorsPreflightRequest(req);
+  }
+
+  const corsHeaders = getCorsHeaders(req);
+
+  try {
+    const user = await requireUser(req, supabase);
+    const { knowledgeBaseId, customGptId, filePath, fileName }: ProcessRequest = await req.json();
+    
+    console.log('Queueing knowledge file:', { knowledgeBaseId, customGptId, filePath, fileName });
+
+    await requireOwnedGpt(supabase, customGptId, user.id, 'id');
+
+    const { data: kbRow, error: kbError } = await supabase
+      .from('knowledge_base')
+      .select('id, upload_path')
+      .eq('id', knowledgeBaseId)
+      .eq('custom_gpt_id', customGptId)
+      .maybeSingle();
+
+    if (kbError) throw kbError;
+    if (!kbRow || kbRow.upload_path !== filePath) {
+      throw new HttpError(404, 'Knowledge file not found');
+    }
+
+    // Resolve the embedder up front so a missing key fails now rather than in the background
+    await resolveEmbeddingProvider(supabase, user.id);
+
+    // Processing happens in ingestion-worker; the client follows the job over Realtime
+    const job = await enqueueIngestionJob(supabase, { knowledgeBaseId, customGptId, userId: user.id });
+    wakeIngestionWorker();
+
+    return new Response(JSON.stringify({ 
+      success: true,
+      jobId: job.id,
+      status: job.status,
+      message: 'File queued for processing'
+    }), {
+      status: 202,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in ingest-file function:', error);
+    const { status, message, code } = errorStatus(error);
+    return new Response(JSON.stringify({ 
+      error: message,
+      code,
+      success: false 
+    }), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
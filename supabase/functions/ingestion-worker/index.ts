@@ -0,0 +1,655 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { getCorsHeaders, handleCorsPreflightRequest } from '../_shared/cors.ts';
+import { HttpError, requireServiceRole, errorStatus } from '../_shared/auth.ts';
+import {
+  resolveChatProvider,
+  resolveEmbeddingProvider,
+  isProviderName,
+  embedInBatches,
+  DEFAULT_MODELS,
+  EMBEDDING_MODEL,
+  ProviderError,
+  type ProviderName,
+} from '../_shared/llm/index.ts';
+import { PdfParseError } from '../_shared/pdf/index.ts';
+import {
+  extractDocument,
+  detectFormat,
+  distillPages,
+  pagesToSections,
+  splitPages,
+  applyProfile,
+  resolveProfile,
+  DocumentParseError,
+  type DocumentChunk,
+  type DocumentPage,
+  type IngestionProfile,
+  type ExtractedDocument,
+} from '../_shared/ingest/index.ts';
+import { chunkDocument, normalizeChunkingOptions, type ChunkingOptions, type DroppedChunk } from '../_shared/chunking/index.ts';
+import { runInBackground, wakeIngestionWorker, type IngestionJob } from '../_shared/ingest/jobs.ts';
+import { runReembed, type ReembedJob } from '../_shared/ingest/reembed.ts';
+import { findDuplicateFile, reuseStoredEmbeddings, sha256Hex } from '../_shared/ingest/dedup.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+// Claims jobs from ingestion_jobs and runs them: download, extract, clean
+// with the GPT's ingestion profile, optionally distill, chunk, embed, store.
+// ingest-file wakes it right after queueing a job, and the
+// wake-ingestion-worker cron job (see the ingestion_jobs migration) every
+// minute while one is waiting, so retries and jobs whose worker died mid-run
+// are picked up. Once no file is waiting it works on re-embed jobs
+// (reembed_jobs), which reembed-knowledge queues.
+
+// Stop claiming new jobs after this long so a run ends inside the function's wall-clock limit
+const RUN_BUDGET_MS = 120_000;
+// First retry delay; doubles with every attempt
+const RETRY_BASE_DELAY_MS = 30_000;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return handleCorsPreflightRequest(req);
+  }
+
+  const corsHeaders = getCorsHeaders(req);
+
+  try {
+    requireServiceRole(req);
+
+    // Answer right away; the queue is drained in the background
+    const run = drainQueue().catch((error) => console.error('Ingestion worker run failed:', error));
+    runInBackground(run);
+
+    return new Response(JSON.stringify({ success: true }), {
+      status: 202,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in ingestion-worker function:', error);
+    const { status, message, code } = errorStatus(error);
+    return new Response(JSON.stringify({
+      error: message,
+      code,
+      success: false
+    }), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+async function drainQueue(): Promise<void> {
+  const deadline = Date.now() + RUN_BUDGET_MS;
+
+  while (Date.now() < deadline) {
+    const { data, error } = await supabase.rpc('claim_ingestion_job');
+    if (error) throw error;
+
+    const job = (data as IngestionJob[] | null)?.[0];
+    if (job) {
+      await runJob(job);
+      continue;
+    }
+
+    // Files first: they are what users are waiting on
+    const { data: reembedData, error: reembedError } = await supabase.rpc('claim_reembed_job');
+    if (reembedError) throw reembedError;
+
+    const reembedJob = (reembedData as ReembedJob[] | null)?.[0];
+    if (!reembedJob) break;
+
+    await runReembedJob(reembedJob, deadline);
+  }
+}
+
+async function runReembedJob(job: ReembedJob, deadline: number): Promise<void> {
+  console.log('Running re-embed job:', { jobId: job.id, customGptId: job.custom_gpt_id, toModel: job.to_model, attempt: job.attempts });
+
+  try {
+    if (job.attempts > job.max_attempts) {
+      throw new HttpError(500, `Gave up after ${job.max_attempts} attempts`, 'ATTEMPTS_EXHAUSTED');
+    }
+
+    const embedder = await resolveEmbeddingProvider(supabase, job.user_id);
+    const result = await runReembed(supabase, embedder, job, {
+      deadline,
+      onProgress: (done, total) => updateReembedJob(job.id, { progress_current: done, progress_total: total }),
+    });
+
+    if (result === 'paused') {
+      // Out of time, not failing: give the attempt back and carry on in a fresh run
+      await updateReembedJob(job.id, { status: 'queued', attempts: job.attempts - 1, locked_at: null });
+      wakeIngestionWorker();
+      console.log('Re-embed job paused:', { jobId: job.id });
+      return;
+    }
+
+    await updateReembedJob(job.id, {
+      status: 'done',
+      error: null,
+      error_code: null,
+      locked_at: null,
+      completed_at: new Date().toISOString(),
+    });
+    console.log('Re-embed job done:', { jobId: job.id, model: job.to_model });
+  } catch (error) {
+    console.error('Re-embed job failed:', { jobId: job.id, error });
+    const { message, code } = errorStatus(error);
+
+    if (isRetryable(error) && job.attempts < job.max_attempts) {
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1);
+      await updateReembedJob(job.id, {
+        status: 'queued',
+        error: message,
+        error_code: code ?? null,
+        locked_at: null,
+        run_after: new Date(Date.now() + delay).toISOString(),
+      });
+    } else {
+      // The GPT keeps searching with its current model; copies made so far are reused by the next re-embed
+      await updateReembedJob(job.id, {
+        status: 'failed',
+        error: message,
+        error_code: code ?? null,
+        locked_at: null,
+        completed_at: new Date().toISOString(),
+      });
+    }
+  }
+}
+
+async function runJob(job: IngestionJob): Promise<void> {
+  console.log('Running ingestion job:', { jobId: job.id, knowledgeBaseId: job.knowledge_base_id, attempt: job.attempts });
+
+  try {
+    // A reclaimed job whose worker kept dying
+    if (job.attempts > job.max_attempts) {
+      throw new HttpError(500, `Gave up after ${job.max_attempts} attempts`, 'ATTEMPTS_EXHAUSTED');
+    }
+
+    const chunkCount = await processFile(job);
+
+    await updateJob(job.id, {
+      status: 'done',
+      progress_current: chunkCount,
+      progress_total: chunkCount,
+      error: null,
+      error_code: null,
+      locked_at: null,
+      completed_at: new Date().toISOString(),
+    });
+    console.log('Ingestion job done:', { jobId: job.id, chunks: chunkCount });
+  } catch (error) {
+    console.error('Ingestion job failed:', { jobId: job.id, error });
+    const { message, code } = errorStatus(error);
+
+    if (isRetryable(error) && job.attempts < job.max_attempts) {
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1);
+      await updateJob(job.id, {
+        status: 'queued',
+        error: message,
+        error_code: code ?? null,
+        locked_at: null,
+        run_after: new Date(Date.now() + delay).toISOString(),
+      });
+    } else {
+      await updateJob(job.id, {
+        status: 'failed',
+        error: message,
+        error_code: code ?? null,
+        locked_at: null,
+        completed_at: new Date().toISOString(),
+      });
+    }
+  }
+}
+
+// Client errors (unreadable file, missing API key, bad credentials) fail the same way every time
+function isRetryable(error: unknown): boolean {
+  if (error instanceof HttpError) return error.status >= 500;
+  if (error instanceof ProviderError) return error.status === 429 || error.status >= 500;
+  return true;
+}
+
+async function updateJob(jobId: string, fields: Record<string, unknown>): Promise<void> {
+  const { error } = await supabase
+    .from('ingestion_jobs')
+    .update({ locked_at: new Date().toISOString(), ...fields })
+    .eq('id', jobId);
+
+  if (error) {
+    console.error('Failed to update ingestion job:', error);
+  }
+}
+
+async function updateReembedJob(jobId: string, fields: Record<string, unknown>): Promise<void> {
+  const { error } = await supabase
+    .from('reembed_jobs')
+    .update({ locked_at: new Date().toISOString(), ...fields })
+    .eq('id', jobId);
+
+  if (error) {
+    console.error('Failed to update re-embed job:', error);
+  }
+}
+
+/**
+ * Run the pipeline for one file
+ *
+ * @returns Number of chunks stored
+ */
+async function processFile(job: IngestionJob): Promise<number> {
+  const { data: kbRow, error: kbError } = await supabase
+    .from('knowledge_base')
+    .select('id, file_name, upload_path, previous_version_id, replaces_id')
+    .eq('id', job.knowledge_base_id)
+    .maybeSingle();
+
+  if (kbError) throw kbError;
+  if (!kbRow?.upload_path) {
+    throw new HttpError(404, 'Knowledge file not found');
+  }
+  const fileName: string = kbRow.file_name;
+
+  const embedder = await resolveEmbeddingProvider(supabase, job.user_id);
+
+  // Download the file from storage
+  const { data: fileData, error: downloadError } = await supabase.storage
+    .from('documents')
+    .download(kbRow.upload_path);
+
+  if (downloadError) {
+    throw new Error(`Failed to download file: ${downloadError.message}`);
+  }
+
+  console.log('File downloaded, size:', fileData.size);
+
+  const bytes = new Uint8Array(await fileData.arrayBuffer());
+  await checkDuplicate(job, kbRow, bytes);
+  const format = detectFormat(fileName, bytes);
+  if (!format) {
+    throw new HttpError(415, `Unsupported file type: ${fileName}`, 'UNSUPPORTED_FILE_TYPE');
+  }
+
+  // Extract text with the format's extractor
+  let document: ExtractedDocument;
+  try {
+    document = await extractDocument(bytes, fileName);
+  } catch (error) {
+    if (error instanceof PdfParseError || error instanceof DocumentParseError) {
+      throw new HttpError(422, `Unable to read ${fileName}: ${error.message}`, 'FILE_UNREADABLE');
+    }
+    throw error;
+  }
+
+  console.log('Text extracted from', format, 'file, length:', documentText(document).length);
+
+  assertReadableText(document);
+
+  const settings = await loadIngestionSettings(job.custom_gpt_id);
+
+  // Clean the text and read metadata the way the GPT's kind of documents needs
+  const profiled = applyProfile(document, settings.profile);
+  document = profiled.document;
+  console.log('Applied the', settings.profile.name, 'profile; metadata found:', Object.keys(profiled.metadata));
+
+  const { error: metadataError } = await supabase
+    .from('knowledge_base')
+    .update({ extracted_metadata: profiled.metadata })
+    .eq('id', job.knowledge_base_id);
+
+  if (metadataError) throw metadataError;
+
+  // Keep every page's raw text, and clean it up first if the GPT asks for it
+  if (document.kind === 'text') {
+    let pages = splitPages(document.sections);
+
+    if (settings.distillEnabled) {
+      const provider = await resolveChatProvider(supabase, job.user_id, settings.llmProvider);
+      pages = await reuseDistilledPages(job, pages);
+      await updateJob(job.id, {
+        status: 'distilling',
+        progress_current: pages.filter((page) => page.distilled !== null).length,
+        progress_total: pages.length,
+      });
+      pages = await distillPages(
+        provider,
+        DEFAULT_MODELS[provider.name].utility,
+        pages,
+        async (done, page) => {
+          await savePage(job, page);
+          await updateJob(job.id, { progress_current: done });
+        }
+      );
+      const kept = pages.filter((page) => page.note).length;
+      console.log('Distilled', pages.length - kept, 'of', pages.length, 'pages; kept raw text for', kept);
+    }
+
+    await storePages(job, pages);
+    document = { ...document, sections: pagesToSections(pages) };
+  }
+
+  // Split the text into chunks the way the GPT is configured to
+  const options = settings.chunking;
+  const { chunks, dropped } = chunkDocument(document, options);
+  console.log('Text split into', chunks.length, 'chunks with the', options.strategy, 'strategy; dropped', dropped.length);
+
+  if (chunks.length === 0) {
+    throw new HttpError(422, `No usable text left after chunking (${summarizeDropped(dropped)})`, 'FILE_NO_TEXT');
+  }
+
+  // Pick up after the chunks an earlier, interrupted attempt already stored
+  const model = settings.embeddingModel;
+  const resumeFrom = await keepStoredPrefix(job.knowledge_base_id, model, chunks);
+  if (resumeFrom > 0) {
+    console.log('Resuming after', resumeFrom, 'chunks stored by an earlier attempt');
+  }
+
+  await updateJob(job.id, {
+    status: 'embedding',
+    progress_current: resumeFrom,
+    progress_total: chunks.length,
+    chunking_report: { ...options, chunks: chunks.length, dropped },
+  });
+
+  let stored = resumeFrom;
+  const storeChunks = async (rows: Array<{ index: number; embedding: number[] | string; dim: number | null }>) => {
+    const { error } = await supabase
+      .from('document_chunks')
+      .insert(rows.map(({ index, embedding, dim }) => ({
+        knowledge_base_id: job.knowledge_base_id,
+        custom_gpt_id: job.custom_gpt_id,
+        content: chunks[index].content,
+        chunk_index: index,
+        embedding,
+        embedding_model: model,
+        embedding_dim: dim,
+        page_start: chunks[index].pageStart,
+        page_end: chunks[index].pageEnd,
+      })));
+
+    if (error) {
+      console.error('Error inserting chunks:', error);
+      throw error;
+    }
+    stored += rows.length;
+    await updateJob(job.id, { progress_current: stored });
+  };
+
+  // Passages already embedded for this GPT, e.g. unchanged ones of a revised file, keep their vectors
+  const remaining = chunks.slice(resumeFrom);
+  const hashes = await Promise.all(remaining.map((chunk) => sha256Hex(chunk.content)));
+  const reused = new Set<number>();
+  await reuseStoredEmbeddings(supabase, { customGptId: job.custom_gpt_id, model }, hashes, async (found) => {
+    const rows = found.map(({ index, embedding, dim }) => ({ index: resumeFrom + index, embedding, dim }));
+    rows.forEach(({ index }) => reused.add(index));
+    await storeChunks(rows);
+  });
+  if (reused.size > 0) {
+    console.log('Reused stored vectors for', reused.size, 'unchanged chunks');
+  }
+
+  // Embed the rest in token-sized batches, storing each batch as soon as it is embedded
+  const toEmbed = remaining.map((_, i) => resumeFrom + i).filter((index) => !reused.has(index));
+  await embedInBatches(embedder, model, toEmbed.map((index) => chunks[index].content), (start, vectors) =>
+    storeChunks(vectors.map((embedding, i) => ({ index: toEmbed[start + i], embedding, dim: embedding.length })))
+  );
+  console.log('All chunks embedded and stored');
+
+  // A re-embed that finished meanwhile switched the GPT to another model and
+  // dropped these vectors; start over with the new one
+  const { embeddingModel: current } = await loadIngestionSettings(job.custom_gpt_id);
+  if (current !== model) {
+    throw new HttpError(503, `The GPT switched to ${current} while this file was embedded with ${model}`, 'EMBEDDING_MODEL_CHANGED');
+  }
+
+  // Update knowledge_base record as processed
+  const { error: updateError } = await supabase
+    .from('knowledge_base')
+    .update({ processed_at: new Date().toISOString() })
+    .eq('id', job.knowledge_base_id);
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  if (kbRow.replaces_id) {
+    await removeReplacedFile(job, kbRow.replaces_id);
+  }
+
+  return chunks.length;
+}
+
+/**
+ * Record the file's hash and refuse content the GPT already has
+ *
+ * A second copy is only ingested when the user chose to keep it as a new
+ * version or to replace the earlier file with it.
+ *
+ * @throws {HttpError} 409 DUPLICATE_FILE if another file of the GPT has the same content
+ */
+async function checkDuplicate(
+  job: IngestionJob,
+  kbRow: { id: string; previous_version_id: string | null; replaces_id: string | null },
+  bytes: Uint8Array
+): Promise<void> {
+  const contentHash = await sha256Hex(bytes);
+
+  const { error } = await supabase
+    .from('knowledge_base')
+    .update({ content_hash: contentHash })
+    .eq('id', job.knowledge_base_id);
+
+  if (error) throw error;
+  if (kbRow.previous_version_id || kbRow.replaces_id) return;
+
+  const duplicate = await findDuplicateFile(supabase, {
+    id: job.knowledge_base_id,
+    customGptId: job.custom_gpt_id,
+    contentHash,
+  });
+  if (duplicate) {
+    throw new HttpError(409, `Same content as ${duplicate.file_name}, which is already in this GPT`, 'DUPLICATE_FILE');
+  }
+}
+
+// The new file is searchable now, so the one it replaces can go; its chunks, pages and jobs cascade
+async function removeReplacedFile(job: IngestionJob, replacedId: string): Promise<void> {
+  const { data: replaced, error } = await supabase
+    .from('knowledge_base')
+    .select('id, upload_path')
+    .eq('id', replacedId)
+    .eq('custom_gpt_id', job.custom_gpt_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!replaced) return;
+
+  if (replaced.upload_path) {
+    const { error: storageError } = await supabase.storage.from('documents').remove([replaced.upload_path]);
+    if (storageError) console.error('Failed to remove replaced file from storage:', storageError);
+  }
+
+  const { error: deleteError } = await supabase
+    .from('knowledge_base')
+    .delete()
+    .eq('id', replaced.id);
+
+  if (deleteError) throw deleteError;
+  console.log('Removed replaced file:', { knowledgeBaseId: replaced.id });
+}
+
+interface IngestionSettings {
+  profile: IngestionProfile;
+  chunking: ChunkingOptions;
+  distillEnabled: boolean;
+  llmProvider: ProviderName;
+  embeddingModel: string;
+}
+
+async function loadIngestionSettings(customGptId: string): Promise<IngestionSettings> {
+  const { data, error } = await supabase
+    .from('custom_gpts')
+    .select('ingestion_profile, chunking_strategy, chunk_size, chunk_overlap, distill_enabled, llm_provider, embedding_model')
+    .eq('id', customGptId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return {
+    profile: resolveProfile(data?.ingestion_profile),
+    chunking: normalizeChunkingOptions({
+      strategy: data?.chunking_strategy,
+      chunkSize: data?.chunk_size,
+      overlap: data?.chunk_overlap,
+    }),
+    distillEnabled: data?.distill_enabled === true,
+    llmProvider: isProviderName(data?.llm_provider) ? data.llm_provider : 'openai',
+    embeddingModel: data?.embedding_model ?? EMBEDDING_MODEL,
+  };
+}
+
+// Distilled text an earlier attempt stored for pages with the same raw text,
+// so a retried job does not pay to distill them again
+async function reuseDistilledPages(job: IngestionJob, pages: DocumentPage[]): Promise<DocumentPage[]> {
+  const { data, error } = await supabase
+    .from('document_pages')
+    .select('page_index, raw_text, distilled_text')
+    .eq('knowledge_base_id', job.knowledge_base_id)
+    .not('distilled_text', 'is', null);
+
+  if (error) throw error;
+
+  const stored = new Map((data ?? []).map((row) => [row.page_index as number, row]));
+  return pages.map((page) => {
+    const row = stored.get(page.index);
+    return row && row.raw_text === page.raw ? { ...page, distilled: row.distilled_text as string, note: null } : page;
+  });
+}
+
+// Keep a page as soon as it is distilled; a retry picks it up from here
+async function savePage(job: IngestionJob, page: DocumentPage): Promise<void> {
+  const { error } = await supabase
+    .from('document_pages')
+    .upsert({
+      knowledge_base_id: job.knowledge_base_id,
+      custom_gpt_id: job.custom_gpt_id,
+      page_index: page.index,
+      page: page.page,
+      raw_text: page.raw,
+      distilled_text: page.distilled,
+      distill_note: page.note,
+    }, { onConflict: 'knowledge_base_id,page_index' });
+
+  if (error) throw error;
+}
+
+// Replace the pages stored by an earlier attempt or an earlier version of the file
+async function storePages(job: IngestionJob, pages: DocumentPage[]): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from('document_pages')
+    .delete()
+    .eq('knowledge_base_id', job.knowledge_base_id);
+
+  if (deleteError) throw deleteError;
+
+  const { error } = await supabase
+    .from('document_pages')
+    .insert(pages.map((page) => ({
+      knowledge_base_id: job.knowledge_base_id,
+      custom_gpt_id: job.custom_gpt_id,
+      page_index: page.index,
+      page: page.page,
+      raw_text: page.raw,
+      distilled_text: page.distilled,
+      distill_note: page.note,
+    })));
+
+  if (error) throw error;
+}
+
+// e.g. "3 too_short, 1 garbled"
+function summarizeDropped(dropped: DroppedChunk[]): string {
+  const counts = new Map<string, number>();
+  for (const { reason } of dropped) counts.set(reason, (counts.get(reason) ?? 0) + 1);
+  return [...counts].map(([reason, count]) => `${count} ${reason}`).join(', ') || 'nothing extracted';
+}
+
+function documentText(document: ExtractedDocument): string {
+  return document.kind === 'table'
+    ? [document.table.header, ...document.table.rows].map((row) => row.join(' ')).join('\n')
+    : document.sections.map((section) => section.text).join('\n\n');
+}
+
+// Reject documents with no usable text before spending on embeddings
+function assertReadableText(document: ExtractedDocument): void {
+  const visible = documentText(document).replace(/\s/g, '');
+
+  if (document.kind === 'table') {
+    if (!visible) throw new HttpError(422, 'The file has no rows', 'FILE_NO_TEXT');
+    return;
+  }
+
+  if (visible.length < 50) {
+    throw new HttpError(
+      422,
+      document.format === 'pdf'
+        ? 'No text found in this PDF. It may be a scanned or image-only document, which needs OCR before it can be searched.'
+        : 'No text found in this file.',
+      'FILE_NO_TEXT'
+    );
+  }
+
+  // Letters in any script, so non-Latin documents pass
+  const letters = (visible.match(/\p{L}/gu) || []).length;
+  if (letters / visible.length < 0.4) {
+    throw new HttpError(422, 'Insufficient readable text extracted from file', 'FILE_NO_TEXT');
+  }
+}
+
+/**
+ * Keep the stored chunks that match the start of this run's chunks and delete the rest
+ *
+ * Chunking is deterministic, so after an interrupted attempt the stored rows
+ * are a prefix of the new chunks and only the remainder needs embedding.
+ * Rows from an older version of the file or other settings stop matching at
+ * the first difference. Only rows embedded with `model` count; copies a
+ * re-embed made for the kept part stay, everything past it goes. Rows the
+ * owner edited or excluded don't count either, so reprocessing a file
+ * resets them to the text as chunked.
+ *
+ * @returns Number of chunks already stored
+ */
+async function keepStoredPrefix(knowledgeBaseId: string, model: string, chunks: DocumentChunk[]): Promise<number> {
+  const { data, error } = await supabase
+    .from('document_chunks')
+    .select('chunk_index, content')
+    .eq('knowledge_base_id', knowledgeBaseId)
+    .eq('embedding_model', model)
+    .eq('excluded', false)
+    .is('edited_at', null)
+    .order('chunk_index', { ascending: true });
+
+  if (error) throw error;
+
+  let kept = 0;
+  for (const row of data ?? []) {
+    if (row.chunk_index !== kept || kept >= chunks.length || row.content !== chunks[kept].content) break;
+    kept++;
+  }
+
+  const { error: deleteError } = await supabase
+    .from('document_chunks')
+    .delete()
+    .eq('knowledge_base_id', knowledgeBaseId)
+    .gte('chunk_index', kept);
+
+  if (deleteError) throw deleteError;
+  return kept;
+}
@@ -0,0 +1,98 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { getCorsHeaders, handleCorsPreflightRequest } from '../_shared/cors.ts';
+import { HttpError, requireUser, requireOwnedGpt, errorStatus } from '../_shared/auth.ts';
+import { resolveEmbeddingProvider, EMBEDDING_MODEL, ProviderError } from '../_shared/llm/index.ts';
+import { wakeIngestionWorker } from '../_shared/ingest/jobs.ts';
+import { enqueueReembedJob } from '../_shared/ingest/reembed.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+interface ReembedRequest {
+  customGptId: string;
+  /** Defaults to the server's EMBEDDING_MODEL */
+  model?: string;
+}
+
+// Model names as providers spell them, e.g. text-embedding-3-large or nomic-embed-text:v1.5
+const MODEL_NAME = /^[\w.:/-]{1,100}$/;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return handleCorsPreflightRequest(req);
+  }
+
+  const corsHeaders = getCorsHeaders(req);
+
+  try {
+    const user = await requireUser(req, supabase);
+    const { customGptId, model = EMBEDDING_MODEL }: ReembedRequest = await req.json();
+
+    if (!customGptId) {
+      throw new HttpError(400, 'customGptId is required');
+    }
+    if (typeof model !== 'string' || !MODEL_NAME.test(model)) {
+      throw new HttpError(400, 'Invalid embedding model name', 'EMBEDDING_MODEL_INVALID');
+    }
+
+    const gpt = await requireOwnedGpt<{ id: string; embedding_model: string }>(
+      supabase,
+      customGptId,
+      user.id,
+      'id, embedding_model'
+    );
+
+    if (gpt.embedding_model === model) {
+      throw new HttpError(400, `This GPT already uses ${model}`, 'EMBEDDING_MODEL_UNCHANGED');
+    }
+
+    console.log('Queueing re-embed:', { customGptId, from: gpt.embedding_model, to: model });
+
+    // Try the model once so a typo or missing access fails now rather than in the background
+    const embedder = await resolveEmbeddingProvider(supabase, user.id);
+    try {
+      await embedder.embed(['test'], model);
+    } catch (error) {
+      if (error instanceof ProviderError && (error.status === 400 || error.status === 404)) {
+        throw new HttpError(400, `${model} can't be used for embeddings: ${error.message}`, 'EMBEDDING_MODEL_INVALID');
+      }
+      throw error;
+    }
+
+    // The GPT keeps searching with its current model until every chunk has been re-embedded
+    const job = await enqueueReembedJob(supabase, {
+      customGptId,
+      userId: user.id,
+      fromModel: gpt.embedding_model,
+      toModel: model,
+    });
+    wakeIngestionWorker();
+
+    return new Response(JSON.stringify({
+      success: true,
+      jobId: job.id,
+      status: job.status,
+      message: `Re-embedding with ${model}`
+    }), {
+      status: 202,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in reembed-knowledge function:', error);
+    const { status, message, code } = errorStatus(error);
+    return new Response(JSON.stringify({
+      error: message,
+      code,
+      success: false
+    }), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,489 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { getCorsHeaders, handleCorsPreflightRequest } from '../_shared/cors.ts';
+import { HttpError, requireUser, requireOwnedGpt, requireServiceRole, errorStatus } from '../_shared/auth.ts';
+import {
+  prepareAnswer,
+  loadUserDefaults,
+  chatModelFor,
+  ANSWER_GPT_COLUMNS,
+  type AnswerGpt,
+  type UserDefaults,
+} from '../_shared/answer.ts';
+import {
+  resolveChatProvider,
+  resolveEmbeddingProvider,
+  isProviderName,
+  DEFAULT_MODELS,
+  type LLMProvider,
+} from '../_shared/llm/index.ts';
+import { DEFAULT_MATCH_THRESHOLD, DEFAULT_MATCH_COUNT } from '../_shared/retrieval/index.ts';
+import {
+  retrievalScores,
+  judgeAnswer,
+  aggregateScores,
+  compareRuns,
+  type CaseScores,
+  type RunMetrics,
+} from '../_shared/eval/index.ts';
+import { runInBackground } from '../_shared/ingest/jobs.ts';
+import { sha256Hex } from '../_shared/ingest/dedup.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+interface EvaluationRequest {
+  evalSetId?: string;
+  /** Set by the function itself to carry on a run in a fresh invocation */
+  runId?: string;
+}
+
+interface EvalGpt extends AnswerGpt {
+  chunking_strategy: string;
+  chunk_size: number;
+  chunk_overlap: number;
+  distill_enabled: boolean;
+  ingestion_profile: string;
+}
+
+interface EvalCase {
+  id: string;
+  question: string;
+  expected_answer: string | null;
+  expected_files: string[];
+}
+
+interface RunContext {
+  runId: string;
+  gpt: EvalGpt;
+  provider: LLMProvider;
+  embedder: LLMProvider;
+  defaults: UserDefaults;
+}
+
+const EVAL_GPT_COLUMNS = `${ANSWER_GPT_COLUMNS}, chunking_strategy, chunk_size, chunk_overlap, distill_enabled, ingestion_profile`;
+
+const MAX_CASES = 50;
+const CASE_CONCURRENCY = 3;
+// Stop starting cases after this long; the ones in flight still have to finish
+// inside the function's wall-clock limit, and the rest go to a fresh invocation
+const RUN_BUDGET_MS = 90_000;
+// A running run that has not reported progress for this long died with its function
+const STALE_RUN_MS = 10 * 60 * 1000;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return handleCorsPreflightRequest(req);
+  }
+
+  const corsHeaders = getCorsHeaders(req);
+
+  try {
+    const { evalSetId, runId }: EvaluationRequest = await req.json();
+
+    if (runId) {
+      requireServiceRole(req);
+      runInBackground(resumeEvaluation(runId));
+      return new Response(JSON.stringify({ success: true, runId, status: 'running' }), {
+        status: 202,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const user = await requireUser(req, supabase);
+
+    if (!evalSetId) {
+      throw new HttpError(400, 'evalSetId is required');
+    }
+
+    const { data: evalSet, error: setError } = await supabase
+      .from('eval_sets')
+      .select('id, custom_gpt_id, user_id')
+      .eq('id', evalSetId)
+      .maybeSingle();
+
+    if (setError) throw setError;
+    if (!evalSet || evalSet.user_id !== user.id) {
+      throw new HttpError(404, 'Evaluation set not found');
+    }
+
+    const gpt = await requireOwnedGpt<EvalGpt>(supabase, evalSet.custom_gpt_id, user.id, EVAL_GPT_COLUMNS);
+
+    const cases = await loadCases(evalSetId);
+    if (cases.length === 0) {
+      throw new HttpError(400, 'Add at least one question before running the evaluation', 'EVAL_SET_EMPTY');
+    }
+    if (cases.length > MAX_CASES) {
+      throw new HttpError(400, `Evaluation sets can have at most ${MAX_CASES} questions`, 'EVAL_SET_TOO_LARGE');
+    }
+
+    // Resolve providers now so a missing API key fails the request, not the run
+    const { provider, embedder, defaults } = await resolveProviders(gpt, user.id);
+
+    await failStaleRuns(evalSetId);
+
+    const { data: run, error: runError } = await supabase
+      .from('eval_runs')
+      .insert({
+        eval_set_id: evalSetId,
+        custom_gpt_id: gpt.id,
+        user_id: user.id,
+        status: 'running',
+        progress_total: cases.length,
+        case_ids: cases.map((c) => c.id),
+        settings: await settingsSnapshot(gpt, provider, defaults),
+      })
+      .select('id')
+      .single();
+
+    if (runError) {
+      // idx_eval_runs_active_set allows one running run per set
+      if (runError.code === '23505') {
+        throw new HttpError(409, 'This evaluation is already running', 'EVAL_RUN_IN_PROGRESS');
+      }
+      throw runError;
+    }
+
+    console.log('Starting evaluation:', { evalSetId, runId: run.id, cases: cases.length });
+    runInBackground(runEvaluation({ runId: run.id, gpt, provider, embedder, defaults }, cases));
+
+    return new Response(JSON.stringify({
+      success: true,
+      runId: run.id,
+      status: 'running'
+    }), {
+      status: 202,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in run-evaluation function:', error);
+    const { status, message, code } = errorStatus(error);
+    return new Response(JSON.stringify({
+      error: message,
+      code,
+      success: false
+    }), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// The set's questions in order; one more than allowed so an oversized set can be told apart
+async function loadCases(evalSetId: string): Promise<EvalCase[]> {
+  const { data, error } = await supabase
+    .from('eval_cases')
+    .select('id, question, expected_answer, expected_files')
+    .eq('eval_set_id', evalSetId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true })
+    .limit(MAX_CASES + 1);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+// The cases a run started with, in their original order; cases deleted since drop out
+async function loadRunCases(caseIds: string[]): Promise<EvalCase[]> {
+  const { data, error } = await supabase
+    .from('eval_cases')
+    .select('id, question, expected_answer, expected_files')
+    .in('id', caseIds);
+
+  if (error) throw error;
+  const byId = new Map((data ?? []).map((c) => [c.id, c]));
+  return caseIds.flatMap((id) => byId.get(id) ?? []);
+}
+
+async function resolveProviders(gpt: EvalGpt, userId: string): Promise<Omit<RunContext, 'runId' | 'gpt'>> {
+  const providerName = isProviderName(gpt.llm_provider) ? gpt.llm_provider : 'openai';
+  return {
+    provider: await resolveChatProvider(supabase, userId, providerName),
+    embedder: await resolveEmbeddingProvider(supabase, userId),
+    defaults: await loadUserDefaults(supabase, userId),
+  };
+}
+
+// Mark runs whose function stopped without finishing them as failed
+async function failStaleRuns(evalSetId: string): Promise<void> {
+  const { error } = await supabase
+    .from('eval_runs')
+    .update({ status: 'failed', error: 'The evaluation stopped responding', completed_at: new Date().toISOString() })
+    .eq('eval_set_id', evalSetId)
+    .eq('status', 'running')
+    .lt('updated_at', new Date(Date.now() - STALE_RUN_MS).toISOString());
+
+  if (error) {
+    console.error('Failed to clear stale evaluation runs:', error);
+  }
+}
+
+// Everything the answers depend on, so a report can say what changed between runs
+async function settingsSnapshot(gpt: EvalGpt, provider: LLMProvider, defaults: UserDefaults): Promise<Record<string, unknown>> {
+  return {
+    provider: provider.name,
+    model: chatModelFor(gpt, provider.name, defaults),
+    temperature: gpt.temperature,
+    top_p: gpt.top_p,
+    max_tokens: gpt.max_tokens,
+    response_format: gpt.response_format,
+    // The text is too long to show in a diff; a changed hash says it was edited
+    instructions_sha256: (await sha256Hex(gpt.instructions)).slice(0, 12),
+    embedding_model: gpt.embedding_model,
+    chunking_strategy: gpt.chunking_strategy,
+    chunk_size: gpt.chunk_size,
+    chunk_overlap: gpt.chunk_overlap,
+    distill_enabled: gpt.distill_enabled,
+    ingestion_profile: gpt.ingestion_profile,
+    match_threshold: defaults.matchThreshold ?? DEFAULT_MATCH_THRESHOLD,
+    match_count: defaults.matchCount ?? DEFAULT_MATCH_COUNT,
+    vector_weight: gpt.retrieval_vector_weight,
+    keyword_weight: gpt.retrieval_keyword_weight,
+    rerank: gpt.rerank_enabled,
+    llm_stub: Deno.env.get('LLM_STUB') === 'true',
+  };
+}
+
+// Pick up a run where the previous invocation ran out of time
+async function resumeEvaluation(runId: string): Promise<void> {
+  try {
+    const { data: run, error } = await supabase
+      .from('eval_runs')
+      .select('custom_gpt_id, user_id, status, case_ids')
+      .eq('id', runId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (run?.status !== 'running') return;
+
+    const gpt = await requireOwnedGpt<EvalGpt>(supabase, run.custom_gpt_id, run.user_id, EVAL_GPT_COLUMNS);
+    const { provider, embedder, defaults } = await resolveProviders(gpt, run.user_id);
+    const cases = await loadRunCases(run.case_ids);
+
+    await runEvaluation({ runId, gpt, provider, embedder, defaults }, cases);
+  } catch (error) {
+    await failRun(runId, error);
+  }
+}
+
+// Hand the rest of a run to a fresh invocation with its own wall-clock limit
+function continueEvaluation(runId: string): void {
+  const request = fetch(`${supabaseUrl}/functions/v1/run-evaluation`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${supabaseKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ runId }),
+  })
+    .then(async (response) => {
+      await response.body?.cancel();
+      if (!response.ok) throw new Error(`Could not continue the evaluation (status ${response.status})`);
+    })
+    .catch((error) => failRun(runId, error));
+
+  runInBackground(request);
+}
+
+// Evaluate the cases that have no stored result yet until the time budget is
+// spent; the invocation that evaluates the last case scores the whole run
+async function runEvaluation(context: RunContext, cases: EvalCase[]): Promise<void> {
+  const { runId } = context;
+  const deadline = Date.now() + RUN_BUDGET_MS;
+
+  try {
+    const stored = await loadCaseScores(runId);
+    const storedIds = new Set(stored.map((s) => s.caseId));
+    const pending = cases.filter((c) => !storedIds.has(c.id));
+    const scores: CaseScores[] = [];
+    let next = 0;
+
+    const work = async () => {
+      while (next < pending.length && Date.now() < deadline) {
+        scores.push(await evaluateCase(context, pending[next++]));
+        // Also the heartbeat failStaleRuns looks at
+        await supabase.from('eval_runs').update({ progress_current: stored.length + scores.length }).eq('id', runId);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(CASE_CONCURRENCY, pending.length) }, work));
+
+    if (next < pending.length) {
+      // The next invocation only skips cases whose results were saved
+      const { count, error } = await supabase
+        .from('eval_results')
+        .select('id', { count: 'exact', head: true })
+        .eq('eval_run_id', runId);
+      if (error) throw error;
+      if ((count ?? 0) <= stored.length) throw new Error('Could not save evaluation results');
+
+      console.log('Evaluation paused:', { runId, done: count, total: cases.length });
+      continueEvaluation(runId);
+      return;
+    }
+
+    const byCase = new Map([...stored, ...scores].map((s) => [s.caseId, s]));
+    const allScores = cases.flatMap((c) => byCase.get(c.id) ?? []);
+
+    const metrics = aggregateScores(allScores);
+    const { data: run } = await supabase
+      .from('eval_runs')
+      .select('eval_set_id, settings')
+      .eq('id', runId)
+      .single();
+
+    const previous = run ? await loadPreviousRun(run.eval_set_id, runId) : null;
+    const report = compareRuns({ metrics, settings: run?.settings ?? {}, cases: allScores }, previous);
+
+    const { error } = await supabase
+      .from('eval_runs')
+      .update({ status: 'done', metrics, report, completed_at: new Date().toISOString() })
+      .eq('id', runId);
+    if (error) throw error;
+
+    console.log('Evaluation finished:', { runId, metrics });
+  } catch (error) {
+    await failRun(runId, error);
+  }
+}
+
+async function failRun(runId: string, error: unknown): Promise<void> {
+  console.error('Evaluation failed:', { runId, error });
+  await supabase
+    .from('eval_runs')
+    .update({
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', runId);
+}
+
+// Answer one golden question as chat would, then score and store the answer
+async function evaluateCase(context: RunContext, evalCase: EvalCase): Promise<CaseScores> {
+  const { runId, gpt, provider, embedder, defaults } = context;
+  const started = Date.now();
+
+  try {
+    // A fresh conversation over all of the GPT's files
+    const { request, citations } = await prepareAnswer(supabase, {
+      gpt,
+      provider,
+      embedder,
+      defaults,
+      message: evalCase.question,
+      history: [],
+      filter: {},
+    });
+    const answer = await provider.chat(request);
+    const latencyMs = Date.now() - started;
+
+    const retrieval = retrievalScores(evalCase.expected_files, citations);
+    const judged = await judgeAnswer(provider, DEFAULT_MODELS[provider.name].utility, {
+      question: evalCase.question,
+      answer,
+      citations,
+      expectedAnswer: evalCase.expected_answer,
+    });
+
+    const scores: CaseScores = {
+      caseId: evalCase.id,
+      question: evalCase.question,
+      recall: retrieval.recall,
+      reciprocalRank: retrieval.reciprocalRank,
+      faithfulness: judged.faithfulness,
+      correctness: judged.correctness,
+      error: null,
+    };
+
+    await saveResult(runId, scores, {
+      answer,
+      citations,
+      retrieved_files: citations.map((c) => c.fileName),
+      judge: judged.judge,
+      latency_ms: latencyMs,
+    });
+    return scores;
+  } catch (error) {
+    console.error('Evaluation case failed:', { runId, caseId: evalCase.id, error });
+    const scores: CaseScores = {
+      caseId: evalCase.id,
+      question: evalCase.question,
+      recall: null,
+      reciprocalRank: null,
+      faithfulness: null,
+      correctness: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+    await saveResult(runId, scores, { latency_ms: Date.now() - started });
+    return scores;
+  }
+}
+
+async function saveResult(runId: string, scores: CaseScores, extra: Record<string, unknown>): Promise<void> {
+  const { error } = await supabase.from('eval_results').insert({
+    eval_run_id: runId,
+    eval_case_id: scores.caseId,
+    question: scores.question,
+    recall: scores.recall,
+    reciprocal_rank: scores.reciprocalRank,
+    faithfulness: scores.faithfulness,
+    correctness: scores.correctness,
+    error: scores.error,
+    ...extra,
+  });
+
+  if (error) {
+    console.error('Failed to save evaluation result:', error);
+  }
+}
+
+// The set's latest finished run before this one, with its per-case scores
+async function loadPreviousRun(evalSetId: string, runId: string) {
+  const { data: previous } = await supabase
+    .from('eval_runs')
+    .select('id, metrics, settings')
+    .eq('eval_set_id', evalSetId)
+    .eq('status', 'done')
+    .neq('id', runId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!previous?.metrics) return null;
+
+  const cases = await loadCaseScores(previous.id).catch((error) => {
+    console.error('Failed to load previous evaluation results:', error);
+    return [];
+  });
+
+  return {
+    id: previous.id as string,
+    metrics: previous.metrics as RunMetrics,
+    settings: (previous.settings ?? {}) as Record<string, unknown>,
+    cases,
+  };
+}
+
+// The scores stored for a run's cases
+async function loadCaseScores(runId: string): Promise<CaseScores[]> {
+  const { data, error } = await supabase
+    .from('eval_results')
+    .select('eval_case_id, question, recall, reciprocal_rank, faithfulness, correctness, error')
+    .eq('eval_run_id', runId);
+
+  if (error) throw error;
+  return (data ?? []).map((r): CaseScores => ({
+    caseId: r.eval_case_id,
+    question: r.question,
+    recall: r.recall,
+    reciprocalRank: r.reciprocal_rank,
+    faithfulness: r.faithfulness,
+    correctness: r.correctness,
+    error: r.error,
+  }));
+}
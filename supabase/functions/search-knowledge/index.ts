@@ -0,0 +1,188 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { getCorsHeaders, handleCorsPreflightRequest } from '../_shared/cors.ts';
+import { HttpError, requireUser, requireOwnedGpt, errorStatus } from '../_shared/auth.ts';
+import { buildCitations } from '../_shared/citations.ts';
+import { loadUserDefaults } from '../_shared/answer.ts';
+import {
+  resolveChatProvider,
+  resolveEmbeddingProvider,
+  isProviderName,
+  DEFAULT_MODELS,
+} from '../_shared/llm/index.ts';
+import {
+  embedQueries,
+  retrieveChunks,
+  resolveReranker,
+  normalizeFilter,
+  DEFAULT_MATCH_THRESHOLD,
+  DEFAULT_MATCH_COUNT,
+  type Reranker,
+} from '../_shared/retrieval/index.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+interface SearchRequest {
+  customGptId: string;
+  query: string;
+  /** Same shape as generate-response's filter */
+  filter?: unknown;
+  /** Settings to compare; each missing value is what chat would use */
+  variants?: Partial<SearchSettings>[];
+}
+
+interface SearchSettings {
+  matchThreshold: number;
+  matchCount: number;
+  vectorWeight: number;
+  keywordWeight: number;
+  rerank: boolean;
+}
+
+interface GptRow {
+  id: string;
+  llm_provider: string;
+  retrieval_vector_weight: number;
+  retrieval_keyword_weight: number;
+  rerank_enabled: boolean;
+  embedding_model: string;
+}
+
+const MAX_QUERY_CHARS = 2000;
+const MAX_VARIANTS = 4;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return handleCorsPreflightRequest(req);
+  }
+
+  const corsHeaders = getCorsHeaders(req);
+
+  try {
+    const user = await requireUser(req, supabase);
+    const { customGptId, query, filter: rawFilter, variants = [{}] }: SearchRequest = await req.json();
+
+    if (!customGptId || typeof query !== 'string' || !query.trim()) {
+      throw new HttpError(400, 'customGptId and query are required');
+    }
+    if (query.length > MAX_QUERY_CHARS) {
+      throw new HttpError(400, `Queries can be at most ${MAX_QUERY_CHARS} characters`);
+    }
+    if (!Array.isArray(variants) || variants.length === 0 || variants.length > MAX_VARIANTS) {
+      throw new HttpError(400, `Compare between 1 and ${MAX_VARIANTS} settings`, 'INVALID_SETTINGS');
+    }
+    const filter = normalizeFilter(rawFilter);
+
+    const gpt = await requireOwnedGpt<GptRow>(
+      supabase,
+      customGptId,
+      user.id,
+      'id, llm_provider, retrieval_vector_weight, retrieval_keyword_weight, rerank_enabled, embedding_model'
+    );
+
+    // Start from what chat would use for this user and GPT
+    const userDefaults = await loadUserDefaults(supabase, user.id);
+    const defaults: SearchSettings = {
+      matchThreshold: userDefaults.matchThreshold ?? DEFAULT_MATCH_THRESHOLD,
+      matchCount: userDefaults.matchCount ?? DEFAULT_MATCH_COUNT,
+      vectorWeight: gpt.retrieval_vector_weight,
+      keywordWeight: gpt.retrieval_keyword_weight,
+      rerank: gpt.rerank_enabled,
+    };
+    const settings = variants.map((variant) => validateSettings({ ...defaults, ...variant }));
+
+    // The chat provider is only needed to grade passages
+    let reranker: Reranker | null = null;
+    if (settings.some((s) => s.rerank)) {
+      const providerName = isProviderName(gpt.llm_provider) ? gpt.llm_provider : 'openai';
+      const provider = await resolveChatProvider(supabase, user.id, providerName);
+      reranker = resolveReranker(provider, DEFAULT_MODELS[provider.name].utility);
+    }
+
+    // One embedding serves every variant, so differences come from the settings alone
+    const embedder = await resolveEmbeddingProvider(supabase, user.id);
+    const queries = await embedQueries(embedder, gpt.embedding_model, {
+      needsRetrieval: true,
+      queries: [query.trim()],
+      hypotheticalAnswer: null,
+    });
+
+    const results = await Promise.all(settings.map(async (s) => {
+      const started = Date.now();
+      const chunks = await retrieveChunks(supabase, queries, {
+        customGptId: gpt.id,
+        matchThreshold: s.matchThreshold,
+        matchCount: s.matchCount,
+        vectorWeight: s.vectorWeight,
+        keywordWeight: s.keywordWeight,
+        filter,
+        rerank: s.rerank && reranker ? { reranker, query: query.trim() } : undefined,
+      });
+
+      // Numbered and labelled as chat shows them, plus where each ranking placed them
+      return {
+        settings: s,
+        reranker: s.rerank ? reranker?.name ?? null : null,
+        durationMs: Date.now() - started,
+        chunks: buildCitations(chunks).map((citation, i) => ({
+          ...citation,
+          vectorRank: chunks[i].vector_rank ?? null,
+          keywordRank: chunks[i].keyword_rank ?? null,
+          score: chunks[i].score ?? null,
+        })),
+      };
+    }));
+
+    console.log('Playground search:', { customGptId, variants: settings.length, found: results.map((r) => r.chunks.length) });
+
+    return new Response(JSON.stringify({
+      success: true,
+      embeddingModel: gpt.embedding_model,
+      results
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in search-knowledge function:', error);
+    const { status, message, code } = errorStatus(error);
+    return new Response(JSON.stringify({
+      error: message,
+      code,
+      success: false
+    }), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Same ranges as the Settings and GPT editors allow
+function validateSettings(settings: SearchSettings): SearchSettings {
+  const { matchThreshold, matchCount, vectorWeight, keywordWeight, rerank } = settings;
+
+  if (typeof matchThreshold !== 'number' || matchThreshold < 0 || matchThreshold > 1) {
+    throw new HttpError(400, 'matchThreshold must be between 0 and 1', 'INVALID_SETTINGS');
+  }
+  if (!Number.isInteger(matchCount) || matchCount < 1 || matchCount > 50) {
+    throw new HttpError(400, 'matchCount must be a whole number from 1 to 50', 'INVALID_SETTINGS');
+  }
+  for (const [name, weight] of [['vectorWeight', vectorWeight], ['keywordWeight', keywordWeight]] as const) {
+    if (typeof weight !== 'number' || weight < 0 || weight > 2) {
+      throw new HttpError(400, `${name} must be between 0 and 2`, 'INVALID_SETTINGS');
+    }
+  }
+  if (vectorWeight + keywordWeight <= 0) {
+    throw new HttpError(400, 'At least one of vectorWeight and keywordWeight must be above 0', 'INVALID_SETTINGS');
+  }
+  if (typeof rerank !== 'boolean') {
+    throw new HttpError(400, 'rerank must be true or false', 'INVALID_SETTINGS');
+  }
+
+  return { matchThreshold, matchCount, vectorWeight, keywordWeight, rerank };
+}
@@ -0,0 +1,58 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { getCorsHeaders, handleCorsPreflightRequest } from '../_shared/cors.ts';
+import { requireUser, errorStatus } from '../_shared/auth.ts';
+import { resolveOpenAIKey } from '../_shared/api-keys.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+interface TestRequest {
+  // Candidate key to test before saving; when omitted the stored key is tested
+  apiKey?: string;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return handleCorsPreflightRequest(req);
+  }
+
+  const corsHeaders = getCorsHeaders(req);
+
+  try {
+    const user = await requireUser(req, supabase);
+    const { apiKey }: TestRequest = await req.json().catch(() => ({}));
+
+    const keyToTest = apiKey?.trim() || await resolveOpenAIKey(supabase, user.id);
+
+    // Listing models is free and only needs a valid key
+    const response = await fetch('https://api.openai.com/v1/models', {
+      headers: { 'Authorization': `Bearer ${keyToTest}` },
+    });
+
+    let valid = response.ok;
+    let message = 'API key is valid.';
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      console.warn('API key test failed with status', response.status);
+      valid = false;
+      message = response.status === 401
+        ? 'OpenAI rejected this API key.'
+        : body?.error?.message || `OpenAI returned status ${response.status}.`;
+    }
+
+    return new Response(JSON.stringify({ success: true, valid, message }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in test-api-key function:', error);
+    const { status, message, code } = errorStatus(error);
+    return new Response(JSON.stringify({ success: false, error: message, code }), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,15 @@
+-- Migration: Conversation summaries for multi-turn memory
+-- Date: 2025-10-22
+-- Description: Store a rolling summary of older turns so generate-response can
+-- include conversation history without exceeding the model's context window
+
+ALTER TABLE public.conversations
+  ADD COLUMN IF NOT EXISTS summary TEXT,
+  ADD COLUMN IF NOT EXISTS summary_message_count INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.conversations.summary IS 'Rolling summary of the oldest messages that no longer fit in the history token budget';
+COMMENT ON COLUMN public.conversations.summary_message_count IS 'Number of leading messages (by created_at) already folded into summary';
+
+-- Speed up loading a conversation's messages in order
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created_at
+  ON public.messages(conversation_id, created_at);
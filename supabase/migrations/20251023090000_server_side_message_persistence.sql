@@ -0,0 +1,53 @@
+-- Migration: Server-side message persistence
+-- Date: 2025-10-23
+-- Description: generate-response now writes both sides of a chat turn itself.
+-- The user and assistant messages are inserted by one function call so a failed
+-- completion never leaves an orphan user message behind.
+
+-- Function: Append a user/assistant turn to a conversation atomically
+-- Called by generate-response with the service-role key after ownership checks
+CREATE OR REPLACE FUNCTION public.append_conversation_turn(
+  p_conversation_id UUID,
+  p_user_content TEXT,
+  p_assistant_content TEXT
+) RETURNS TABLE (
+  user_message_id UUID,
+  assistant_message_id UUID
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_content IS NULL OR p_user_content = '' THEN
+    RAISE EXCEPTION 'User message cannot be empty';
+  END IF;
+
+  IF p_assistant_content IS NULL OR p_assistant_content = '' THEN
+    RAISE EXCEPTION 'Assistant message cannot be empty';
+  END IF;
+
+  -- clock_timestamp() keeps the two rows ordered within the transaction
+  INSERT INTO public.messages (conversation_id, role, content, created_at)
+  VALUES (p_conversation_id, 'user', p_user_content, clock_timestamp())
+  RETURNING id INTO user_message_id;
+
+  INSERT INTO public.messages (conversation_id, role, content, created_at)
+  VALUES (p_conversation_id, 'assistant', p_assistant_content, clock_timestamp())
+  RETURNING id INTO assistant_message_id;
+
+  UPDATE public.conversations
+  SET updated_at = now()
+  WHERE id = p_conversation_id;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- Only the Edge Functions (service role) may append turns
+REVOKE ALL ON FUNCTION public.append_conversation_turn FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.append_conversation_turn FROM anon;
+REVOKE ALL ON FUNCTION public.append_conversation_turn FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.append_conversation_turn TO service_role;
+
+-- Browsers no longer insert messages directly
+DROP POLICY IF EXISTS "Users can create messages in their conversations" ON public.messages;
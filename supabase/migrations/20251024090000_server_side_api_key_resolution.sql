@@ -0,0 +1,70 @@
+-- Migration: Server-side API key resolution
+-- Date: 2025-10-24
+-- Description: Let Edge Functions decrypt the calling user's OpenAI key.
+-- get_my_api_key() relies on auth.uid(), which is NULL for the service-role
+-- client the functions use, so they need a variant that takes the user id.
+
+-- Function: Get decrypted API key for a given user (service role only)
+CREATE OR REPLACE FUNCTION public.get_user_api_key(
+  p_user_id UUID,
+  p_encryption_key TEXT
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_encrypted BYTEA;
+  v_decrypted TEXT;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RAISE EXCEPTION 'User id cannot be empty';
+  END IF;
+
+  SELECT openai_api_key_encrypted INTO v_encrypted
+  FROM public.api_keys
+  WHERE user_id = p_user_id;
+
+  IF v_encrypted IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_decrypted := public.decrypt_api_key(v_encrypted, p_encryption_key);
+
+  -- Only count successful decryptions as usage
+  IF v_decrypted IS NOT NULL THEN
+    UPDATE public.api_keys
+    SET last_used_at = now()
+    WHERE user_id = p_user_id;
+  END IF;
+
+  RETURN v_decrypted;
+END;
+$$;
+
+-- Never callable from the browser: it takes an arbitrary user id
+REVOKE ALL ON FUNCTION public.get_user_api_key FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_user_api_key FROM anon;
+REVOKE ALL ON FUNCTION public.get_user_api_key FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.get_user_api_key TO service_role;
+
+-- Touching last_used_at must not bump updated_at (which tracks key rotation)
+CREATE OR REPLACE FUNCTION public.update_api_keys_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.openai_api_key_encrypted IS DISTINCT FROM OLD.openai_api_key_encrypted
+     OR NEW.encryption_version IS DISTINCT FROM OLD.encryption_version THEN
+    NEW.updated_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_api_keys_updated_at ON public.api_keys;
+CREATE TRIGGER update_api_keys_updated_at
+BEFORE UPDATE ON public.api_keys
+FOR EACH ROW
+EXECUTE FUNCTION public.update_api_keys_updated_at();
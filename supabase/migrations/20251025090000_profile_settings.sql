@@ -0,0 +1,45 @@
+-- Migration: Profile settings
+-- Date: 2025-10-25
+-- Description: Store per-user defaults (chat model, retrieval parameters) and a
+-- display name on profiles, for the Settings page
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS display_name TEXT,
+  ADD COLUMN IF NOT EXISTS default_model TEXT,
+  ADD COLUMN IF NOT EXISTS default_match_threshold DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS default_match_count INTEGER;
+
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_default_match_threshold_range
+    CHECK (default_match_threshold IS NULL OR (default_match_threshold >= 0 AND default_match_threshold <= 1)),
+  ADD CONSTRAINT profiles_default_match_count_range
+    CHECK (default_match_count IS NULL OR (default_match_count >= 1 AND default_match_count <= 50));
+
+COMMENT ON COLUMN public.profiles.default_model IS 'Chat model used when a GPT does not specify one; NULL = application default';
+COMMENT ON COLUMN public.profiles.default_match_threshold IS 'Minimum cosine similarity for retrieved chunks; NULL = application default';
+COMMENT ON COLUMN public.profiles.default_match_count IS 'Maximum number of retrieved chunks; NULL = application default';
+
+-- Viewing the key in Settings should not count as usage.
+-- last_used_at is now maintained by get_user_api_key(), which the Edge
+-- Functions call when they actually spend the key.
+CREATE OR REPLACE FUNCTION public.get_my_api_key(
+  p_encryption_key TEXT
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_encrypted BYTEA;
+BEGIN
+  SELECT openai_api_key_encrypted INTO v_encrypted
+  FROM public.api_keys
+  WHERE user_id = auth.uid();
+
+  IF v_encrypted IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN public.decrypt_api_key(v_encrypted, p_encryption_key);
+END;
+$$;
@@ -0,0 +1,15 @@
+-- Migration: Per-GPT LLM provider
+-- Date: 2025-10-26
+-- Description: Let each GPT choose the provider and model that answer its chats.
+-- Embeddings are not affected; they always use the deployment's embedding provider.
+
+ALTER TABLE public.custom_gpts
+  ADD COLUMN IF NOT EXISTS llm_provider TEXT NOT NULL DEFAULT 'openai',
+  ADD COLUMN IF NOT EXISTS llm_model TEXT;
+
+ALTER TABLE public.custom_gpts
+  ADD CONSTRAINT custom_gpts_llm_provider_check
+    CHECK (llm_provider IN ('openai', 'anthropic', 'openai-compatible'));
+
+COMMENT ON COLUMN public.custom_gpts.llm_provider IS 'Chat provider: openai, anthropic or openai-compatible';
+COMMENT ON COLUMN public.custom_gpts.llm_model IS 'Chat model for this GPT; NULL = user default (OpenAI) or provider default';
@@ -0,0 +1,26 @@
+-- Migration: Per-GPT generation settings
+-- Date: 2025-10-27
+-- Description: Store sampling, length and response-format settings per GPT so
+-- e.g. a support bot can answer deterministically while a brainstorming bot
+-- stays creative. NULL sampling values mean "provider default".
+
+ALTER TABLE public.custom_gpts
+  ADD COLUMN IF NOT EXISTS temperature DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS top_p DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS max_tokens INTEGER NOT NULL DEFAULT 2000,
+  ADD COLUMN IF NOT EXISTS response_format TEXT NOT NULL DEFAULT 'text';
+
+ALTER TABLE public.custom_gpts
+  ADD CONSTRAINT custom_gpts_temperature_range
+    CHECK (temperature IS NULL OR (temperature >= 0 AND temperature <= 2)),
+  ADD CONSTRAINT custom_gpts_top_p_range
+    CHECK (top_p IS NULL OR (top_p > 0 AND top_p <= 1)),
+  ADD CONSTRAINT custom_gpts_max_tokens_range
+    CHECK (max_tokens >= 1 AND max_tokens <= 32000),
+  ADD CONSTRAINT custom_gpts_response_format_check
+    CHECK (response_format IN ('text', 'json'));
+
+COMMENT ON COLUMN public.custom_gpts.temperature IS 'Sampling temperature (0-2); NULL = provider default. Ignored by OpenAI reasoning models';
+COMMENT ON COLUMN public.custom_gpts.top_p IS 'Nucleus sampling cutoff (0-1]; NULL = provider default';
+COMMENT ON COLUMN public.custom_gpts.max_tokens IS 'Upper bound on tokens generated per reply';
+COMMENT ON COLUMN public.custom_gpts.response_format IS 'text, or json to request a single JSON object';
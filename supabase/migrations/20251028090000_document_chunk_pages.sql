@@ -0,0 +1,16 @@
+-- Migration: Page numbers on document chunks
+-- Date: 2025-10-28
+-- Description: Record which PDF pages each chunk was cut from so answers can
+-- point back to the source page. NULL for chunks ingested before this change
+-- or from formats without pages.
+
+ALTER TABLE public.document_chunks
+  ADD COLUMN IF NOT EXISTS page_start INTEGER,
+  ADD COLUMN IF NOT EXISTS page_end INTEGER;
+
+ALTER TABLE public.document_chunks
+  ADD CONSTRAINT document_chunks_page_range
+    CHECK (page_start IS NULL OR (page_start >= 1 AND page_end >= page_start));
+
+COMMENT ON COLUMN public.document_chunks.page_start IS '1-based first page the chunk text comes from';
+COMMENT ON COLUMN public.document_chunks.page_end IS '1-based last page the chunk text comes from';
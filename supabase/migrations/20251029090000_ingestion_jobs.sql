@@ -0,0 +1,142 @@
+-- Migration: Ingestion job queue
+-- Date: 2025-10-29
+-- Description: Track knowledge file processing as jobs that a worker function
+-- claims and runs server-side, so uploads finish even if the browser tab is
+-- closed. Failed attempts are retried with backoff, and a cron job wakes the
+-- worker while any job is waiting; the UI follows job status over Realtime.
+
+CREATE TABLE IF NOT EXISTS public.ingestion_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  knowledge_base_id UUID NOT NULL REFERENCES public.knowledge_base(id) ON DELETE CASCADE,
+  custom_gpt_id UUID NOT NULL REFERENCES public.custom_gpts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued',
+  progress_current INTEGER NOT NULL DEFAULT 0,
+  progress_total INTEGER,
+  error TEXT,
+  error_code TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT ingestion_jobs_status_check
+    CHECK (status IN ('queued', 'extracting', 'embedding', 'done', 'failed'))
+);
+
+COMMENT ON COLUMN public.ingestion_jobs.progress_current IS 'Chunks embedded so far while embedding';
+COMMENT ON COLUMN public.ingestion_jobs.progress_total IS 'Total chunks to embed; NULL until extraction finishes';
+COMMENT ON COLUMN public.ingestion_jobs.error IS 'Message from the most recent failed attempt';
+COMMENT ON COLUMN public.ingestion_jobs.run_after IS 'Earliest time a queued job may be claimed (retry backoff)';
+COMMENT ON COLUMN public.ingestion_jobs.locked_at IS 'Heartbeat of the worker running the job; stale locks are reclaimed';
+
+-- At most one active job per file
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ingestion_jobs_active_file
+  ON public.ingestion_jobs(knowledge_base_id)
+  WHERE status NOT IN ('done', 'failed');
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_claimable
+  ON public.ingestion_jobs(status, run_after);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_custom_gpt
+  ON public.ingestion_jobs(custom_gpt_id, created_at DESC);
+
+CREATE TRIGGER update_ingestion_jobs_updated_at
+  BEFORE UPDATE ON public.ingestion_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Jobs are written only by Edge Functions (service role); owners may read them
+ALTER TABLE public.ingestion_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own ingestion jobs"
+  ON public.ingestion_jobs
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ingestion_jobs;
+
+-- Claim the next runnable job: queued and due, or in progress with a stale
+-- heartbeat (its worker died). SKIP LOCKED lets several workers run at once.
+CREATE OR REPLACE FUNCTION public.claim_ingestion_job(p_stale_after INTERVAL DEFAULT interval '10 minutes')
+RETURNS SETOF public.ingestion_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.ingestion_jobs
+  SET status = 'extracting',
+      attempts = attempts + 1,
+      locked_at = now()
+  WHERE id = (
+    SELECT id
+    FROM public.ingestion_jobs
+    WHERE (status = 'queued' AND run_after <= now())
+       OR (status IN ('extracting', 'embedding') AND locked_at < now() - p_stale_after)
+    ORDER BY run_after
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_ingestion_job(INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_ingestion_job(INTERVAL) TO service_role;
+
+-- Whether claim_ingestion_job would find a job: one that is due, or one whose
+-- worker died
+CREATE OR REPLACE FUNCTION public.ingestion_work_pending(p_stale_after INTERVAL DEFAULT interval '10 minutes')
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.ingestion_jobs
+    WHERE (status = 'queued' AND run_after <= now())
+       OR (status IN ('extracting', 'embedding') AND locked_at < now() - p_stale_after)
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.ingestion_work_pending(INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ingestion_work_pending(INTERVAL) TO service_role;
+
+-- Wake the worker every minute while a job is waiting, so retries and jobs
+-- whose worker died run without waiting for the next upload. The request reads
+-- the project URL and service role key from Vault; store them once per project:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'wake-ingestion-worker',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/ingestion-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  WHERE public.ingestion_work_pending();
+  $$
+);
+
+-- Files that were never processed under the old browser-driven flow show as
+-- failed so their owners can retry them
+INSERT INTO public.ingestion_jobs (knowledge_base_id, custom_gpt_id, user_id, status, error, completed_at)
+SELECT kb.id, kb.custom_gpt_id, g.user_id, 'failed', 'Processing did not finish. Retry to process this file again.', now()
+FROM public.knowledge_base kb
+JOIN public.custom_gpts g ON g.id = kb.custom_gpt_id
+WHERE kb.processed_at IS NULL
+  AND kb.upload_path IS NOT NULL;
@@ -0,0 +1,57 @@
+-- Migration: Answer citations
+-- Date: 2025-10-30
+-- Description: match_documents also returns where each chunk came from (file,
+-- chunk index, pages) so answers can cite their sources, and assistant
+-- messages keep the sources they were given so citations survive a reload.
+
+-- The return type changes, which CREATE OR REPLACE cannot do
+DROP FUNCTION IF EXISTS public.match_documents(VECTOR(1536), UUID, FLOAT, INT);
+
+CREATE FUNCTION public.match_documents(
+  query_embedding VECTOR(1536),
+  custom_gpt_id UUID,
+  match_threshold FLOAT DEFAULT 0.8,
+  match_count INT DEFAULT 3
+)
+RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  similarity FLOAT,
+  knowledge_base_id UUID,
+  file_name TEXT,
+  chunk_index INTEGER,
+  page_start INTEGER,
+  page_end INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    document_chunks.id,
+    document_chunks.content,
+    1 - (document_chunks.embedding <=> query_embedding) AS similarity,
+    document_chunks.knowledge_base_id,
+    knowledge_base.file_name,
+    document_chunks.chunk_index,
+    document_chunks.page_start,
+    document_chunks.page_end
+  FROM document_chunks
+  JOIN knowledge_base ON knowledge_base.id = document_chunks.knowledge_base_id
+  WHERE document_chunks.custom_gpt_id = match_documents.custom_gpt_id
+    AND 1 - (document_chunks.embedding <=> query_embedding) > match_threshold
+  ORDER BY document_chunks.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- Only the Edge Functions (service role) may search; the function bypasses RLS
+REVOKE ALL ON FUNCTION public.match_documents(VECTOR, UUID, FLOAT, INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.match_documents(VECTOR, UUID, FLOAT, INT) TO service_role;
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS citations JSONB;
+
+COMMENT ON COLUMN public.messages.citations IS 'Numbered knowledge base sources given to the model for this assistant reply; [n] markers in content refer to them';
@@ -0,0 +1,121 @@
+-- Migration: Hybrid keyword + vector retrieval
+-- Date: 2025-10-31
+-- Description: Pure cosine search misses exact identifiers, part numbers and
+-- acronyms. Index chunk text for full-text search and add an RPC that fuses
+-- the vector and keyword rankings with reciprocal-rank fusion (RRF), weighted
+-- per GPT.
+
+ALTER TABLE public.document_chunks
+  ADD COLUMN IF NOT EXISTS content_tsv TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_content_tsv
+  ON public.document_chunks USING GIN (content_tsv);
+
+ALTER TABLE public.custom_gpts
+  ADD COLUMN IF NOT EXISTS retrieval_vector_weight DOUBLE PRECISION NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS retrieval_keyword_weight DOUBLE PRECISION NOT NULL DEFAULT 1;
+
+ALTER TABLE public.custom_gpts
+  ADD CONSTRAINT custom_gpts_retrieval_weights_range
+    CHECK (
+      retrieval_vector_weight >= 0 AND retrieval_vector_weight <= 2
+      AND retrieval_keyword_weight >= 0 AND retrieval_keyword_weight <= 2
+      AND retrieval_vector_weight + retrieval_keyword_weight > 0
+    );
+
+COMMENT ON COLUMN public.custom_gpts.retrieval_vector_weight IS 'Weight of the semantic (embedding) ranking in hybrid search (0-2)';
+COMMENT ON COLUMN public.custom_gpts.retrieval_keyword_weight IS 'Weight of the full-text ranking in hybrid search (0-2)';
+
+-- Each list contributes weight / (rrf_k + rank) for the chunks it ranks, so a
+-- chunk near the top of either list surfaces even if the other misses it.
+-- match_threshold only limits the vector list; keyword hits need no minimum
+-- similarity.
+CREATE OR REPLACE FUNCTION public.hybrid_match_documents(
+  query_embedding VECTOR(1536),
+  query_text TEXT,
+  custom_gpt_id UUID,
+  match_threshold FLOAT DEFAULT 0.3,
+  match_count INT DEFAULT 5,
+  vector_weight FLOAT DEFAULT 1,
+  keyword_weight FLOAT DEFAULT 1,
+  rrf_k INT DEFAULT 60
+)
+RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  similarity FLOAT,
+  knowledge_base_id UUID,
+  file_name TEXT,
+  chunk_index INTEGER,
+  page_start INTEGER,
+  page_end INTEGER,
+  vector_rank INTEGER,
+  keyword_rank INTEGER,
+  score FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Fuse from deeper lists than we return so either side can promote a chunk
+  candidate_count INT := GREATEST(match_count * 4, 20);
+  -- Any of the question's terms rather than all of them
+  keyword_query TSQUERY := replace(plainto_tsquery('english', query_text)::TEXT, ' & ', ' | ')::TSQUERY;
+BEGIN
+  RETURN QUERY
+  WITH vector_matches AS (
+    SELECT
+      document_chunks.id AS chunk_id,
+      row_number() OVER (ORDER BY document_chunks.embedding <=> query_embedding) AS list_rank
+    FROM document_chunks
+    WHERE document_chunks.custom_gpt_id = hybrid_match_documents.custom_gpt_id
+      AND 1 - (document_chunks.embedding <=> query_embedding) > match_threshold
+    ORDER BY document_chunks.embedding <=> query_embedding
+    LIMIT candidate_count
+  ),
+  keyword_matches AS (
+    SELECT
+      document_chunks.id AS chunk_id,
+      row_number() OVER (ORDER BY ts_rank_cd(document_chunks.content_tsv, keyword_query) DESC) AS list_rank
+    FROM document_chunks
+    WHERE document_chunks.custom_gpt_id = hybrid_match_documents.custom_gpt_id
+      AND document_chunks.content_tsv @@ keyword_query
+    ORDER BY ts_rank_cd(document_chunks.content_tsv, keyword_query) DESC
+    LIMIT candidate_count
+  ),
+  fused AS (
+    SELECT
+      COALESCE(vector_matches.chunk_id, keyword_matches.chunk_id) AS chunk_id,
+      vector_matches.list_rank AS vector_list_rank,
+      keyword_matches.list_rank AS keyword_list_rank,
+      COALESCE(vector_weight / (rrf_k + vector_matches.list_rank), 0)
+        + COALESCE(keyword_weight / (rrf_k + keyword_matches.list_rank), 0) AS fused_score
+    FROM vector_matches
+    FULL OUTER JOIN keyword_matches ON keyword_matches.chunk_id = vector_matches.chunk_id
+  )
+  SELECT
+    document_chunks.id,
+    document_chunks.content,
+    1 - (document_chunks.embedding <=> query_embedding) AS similarity,
+    document_chunks.knowledge_base_id,
+    knowledge_base.file_name,
+    document_chunks.chunk_index,
+    document_chunks.page_start,
+    document_chunks.page_end,
+    fused.vector_list_rank::INTEGER,
+    fused.keyword_list_rank::INTEGER,
+    fused.fused_score
+  FROM fused
+  JOIN document_chunks ON document_chunks.id = fused.chunk_id
+  JOIN knowledge_base ON knowledge_base.id = document_chunks.knowledge_base_id
+  WHERE fused.fused_score > 0
+  ORDER BY fused.fused_score DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- Only the Edge Functions (service role) may search; the function bypasses RLS
+REVOKE ALL ON FUNCTION public.hybrid_match_documents(VECTOR, TEXT, UUID, FLOAT, INT, FLOAT, FLOAT, INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hybrid_match_documents(VECTOR, TEXT, UUID, FLOAT, INT, FLOAT, FLOAT, INT) TO service_role;
@@ -0,0 +1,11 @@
+-- Migration: Per-GPT reranking
+-- Date: 2025-11-01
+-- Description: Let a GPT rerank retrieved chunks before they go into the
+-- prompt. Search then over-fetches candidates and a cross-encoder or LLM
+-- grader picks the most relevant ones. Off by default: it adds a model call
+-- to every answer that uses the knowledge base.
+
+ALTER TABLE public.custom_gpts
+  ADD COLUMN IF NOT EXISTS rerank_enabled BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.custom_gpts.rerank_enabled IS 'Rerank over-fetched search candidates and keep the most relevant within the context budget';
@@ -0,0 +1,28 @@
+-- Migration: Chunking strategies
+-- Date: 2025-11-02
+-- Description: Let each GPT choose how its knowledge files are chunked:
+-- token-based with overlap, heading-aware, or fixed-size windows. Sizes are
+-- in estimated tokens. Ingestion jobs record what the chunker kept and what
+-- it dropped, and why.
+
+ALTER TABLE public.custom_gpts
+  ADD COLUMN IF NOT EXISTS chunking_strategy TEXT NOT NULL DEFAULT 'token',
+  ADD COLUMN IF NOT EXISTS chunk_size INTEGER NOT NULL DEFAULT 400,
+  ADD COLUMN IF NOT EXISTS chunk_overlap INTEGER NOT NULL DEFAULT 60;
+
+ALTER TABLE public.custom_gpts
+  ADD CONSTRAINT custom_gpts_chunking_strategy_check
+    CHECK (chunking_strategy IN ('token', 'heading', 'fixed')),
+  ADD CONSTRAINT custom_gpts_chunk_size_range
+    CHECK (chunk_size >= 100 AND chunk_size <= 1500),
+  ADD CONSTRAINT custom_gpts_chunk_overlap_range
+    CHECK (chunk_overlap >= 0 AND chunk_overlap * 2 <= chunk_size);
+
+COMMENT ON COLUMN public.custom_gpts.chunking_strategy IS 'token, heading or fixed; applies to files processed after it changes';
+COMMENT ON COLUMN public.custom_gpts.chunk_size IS 'Target chunk size in estimated tokens (100-1500)';
+COMMENT ON COLUMN public.custom_gpts.chunk_overlap IS 'Tokens repeated between consecutive chunks; at most half a chunk';
+
+ALTER TABLE public.ingestion_jobs
+  ADD COLUMN IF NOT EXISTS chunking_report JSONB;
+
+COMMENT ON COLUMN public.ingestion_jobs.chunking_report IS 'Strategy, size and overlap used, number of chunks kept, and each dropped chunk with its reason';
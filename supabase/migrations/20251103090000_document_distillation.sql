@@ -0,0 +1,98 @@
+-- Migration: Optional document distillation
+-- Date: 2025-11-03
+-- Description: Let a GPT have a utility model clean up extracted text page by
+-- page before chunking. Off by default. Every page's raw text is kept next to
+-- its distilled text so the cleanup can be audited, and pages whose cleanup
+-- failed or lost content fall back to the raw text.
+
+ALTER TABLE public.custom_gpts
+  ADD COLUMN IF NOT EXISTS distill_enabled BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.custom_gpts.distill_enabled IS 'Clean up extracted text with the utility model before chunking; applies to files processed after it changes';
+
+CREATE TABLE IF NOT EXISTS public.document_pages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  knowledge_base_id UUID NOT NULL REFERENCES public.knowledge_base(id) ON DELETE CASCADE,
+  custom_gpt_id UUID NOT NULL REFERENCES public.custom_gpts(id) ON DELETE CASCADE,
+  page_index INTEGER NOT NULL,
+  page INTEGER,
+  raw_text TEXT NOT NULL,
+  distilled_text TEXT,
+  distill_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT document_pages_file_index UNIQUE (knowledge_base_id, page_index)
+);
+
+COMMENT ON TABLE public.document_pages IS 'Extracted text of each knowledge file, page by page, as it was before and after distillation';
+COMMENT ON COLUMN public.document_pages.page_index IS '0-based position in the document; long unpaginated text is split into several';
+COMMENT ON COLUMN public.document_pages.page IS '1-based page number, for paginated formats';
+COMMENT ON COLUMN public.document_pages.distilled_text IS 'Cleaned text that was chunked; NULL when distillation was off or the raw text was kept';
+COMMENT ON COLUMN public.document_pages.distill_note IS 'Why the raw text was kept instead of the distilled text';
+
+CREATE INDEX IF NOT EXISTS idx_document_pages_custom_gpt
+  ON public.document_pages(custom_gpt_id);
+
+-- Pages are written only by Edge Functions (service role); owners may read them
+ALTER TABLE public.document_pages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view pages for their GPTs"
+  ON public.document_pages
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.custom_gpts
+      WHERE custom_gpts.id = document_pages.custom_gpt_id
+      AND custom_gpts.user_id = auth.uid()
+    )
+  );
+
+-- Jobs report page progress while distilling
+ALTER TABLE public.ingestion_jobs
+  DROP CONSTRAINT IF EXISTS ingestion_jobs_status_check;
+
+ALTER TABLE public.ingestion_jobs
+  ADD CONSTRAINT ingestion_jobs_status_check
+    CHECK (status IN ('queued', 'extracting', 'distilling', 'embedding', 'done', 'failed'));
+
+COMMENT ON COLUMN public.ingestion_jobs.progress_current IS 'Pages distilled so far while distilling, chunks embedded so far while embedding';
+COMMENT ON COLUMN public.ingestion_jobs.progress_total IS 'Total pages to distill, then total chunks to embed; NULL until extraction finishes';
+
+CREATE OR REPLACE FUNCTION public.claim_ingestion_job(p_stale_after INTERVAL DEFAULT interval '10 minutes')
+RETURNS SETOF public.ingestion_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.ingestion_jobs
+  SET status = 'extracting',
+      attempts = attempts + 1,
+      locked_at = now()
+  WHERE id = (
+    SELECT id
+    FROM public.ingestion_jobs
+    WHERE (status = 'queued' AND run_after <= now())
+       OR (status IN ('extracting', 'distilling', 'embedding') AND locked_at < now() - p_stale_after)
+    ORDER BY run_after
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.ingestion_work_pending(p_stale_after INTERVAL DEFAULT interval '10 minutes')
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.ingestion_jobs
+    WHERE (status = 'queued' AND run_after <= now())
+       OR (status IN ('extracting', 'distilling', 'embedding') AND locked_at < now() - p_stale_after)
+  );
+$$;
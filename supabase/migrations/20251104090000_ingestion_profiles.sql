@@ -0,0 +1,20 @@
+-- Migration: Ingestion profiles
+-- Date: 2025-11-04
+-- Description: Let each GPT pick the kind of documents it holds (generic,
+-- financial, contract or manual). The profile decides how extracted text is
+-- cleaned before chunking and which metadata is read from each file. Generic
+-- makes no assumptions about content and is the default.
+
+ALTER TABLE public.custom_gpts
+  ADD COLUMN IF NOT EXISTS ingestion_profile TEXT NOT NULL DEFAULT 'generic';
+
+ALTER TABLE public.custom_gpts
+  ADD CONSTRAINT custom_gpts_ingestion_profile_check
+    CHECK (ingestion_profile IN ('generic', 'financial', 'contract', 'manual'));
+
+COMMENT ON COLUMN public.custom_gpts.ingestion_profile IS 'generic, financial, contract or manual; applies to files processed after it changes';
+
+ALTER TABLE public.knowledge_base
+  ADD COLUMN IF NOT EXISTS extracted_metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.knowledge_base.extracted_metadata IS 'Values the ingestion profile read from the file, e.g. title, parties or statement period';
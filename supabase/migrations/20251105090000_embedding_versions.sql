@@ -0,0 +1,420 @@
+-- Migration: Embedding model versioning
+-- Date: 2025-11-05
+-- Description: Record which embedding model produced each chunk vector and
+-- which model each GPT searches with, so vectors from different models are
+-- never compared. Adds re-embed jobs that move a GPT's chunks to another
+-- model: new vectors are written next to the old ones, which keep serving
+-- searches until the switch, done in one transaction at the end.
+--
+-- Existing vectors, all 1536-dimensional, are recorded as
+-- text-embedding-3-small, the default EMBEDDING_MODEL. A deployment that
+-- embedded with another model re-embeds its GPTs to that model afterwards
+-- with the reembed-knowledge function, which labels the new vectors correctly.
+
+ALTER TABLE public.document_chunks
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+  ADD COLUMN IF NOT EXISTS embedding_dim INTEGER;
+
+UPDATE public.document_chunks
+SET embedding_model = 'text-embedding-3-small',
+    embedding_dim = vector_dims(embedding)
+WHERE embedding_model IS NULL;
+
+ALTER TABLE public.document_chunks
+  ALTER COLUMN embedding_model SET NOT NULL;
+
+COMMENT ON COLUMN public.document_chunks.embedding_model IS 'Embedding model that produced the vector';
+COMMENT ON COLUMN public.document_chunks.embedding_dim IS 'Number of dimensions of the vector';
+
+-- Models differ in dimensions, so the column can no longer be VECTOR(1536).
+-- An ANN index needs a fixed dimension, so each dimension the supported models
+-- produce gets a partial index over the vectors cast to it; nearest_chunks
+-- searches through them. HNSW indexes vector up to 2000 dimensions, so
+-- 3072-dimensional vectors are indexed as halfvec.
+DROP INDEX IF EXISTS public.document_chunks_embedding_idx;
+
+ALTER TABLE public.document_chunks
+  ALTER COLUMN embedding TYPE VECTOR USING embedding::VECTOR;
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_embedding_1536
+  ON public.document_chunks USING hnsw ((embedding::vector(1536)) vector_cosine_ops)
+  WHERE embedding_dim = 1536;
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_embedding_3072
+  ON public.document_chunks USING hnsw ((embedding::halfvec(3072)) halfvec_cosine_ops)
+  WHERE embedding_dim = 3072;
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_gpt_model
+  ON public.document_chunks(custom_gpt_id, embedding_model);
+
+ALTER TABLE public.custom_gpts
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT NOT NULL DEFAULT 'text-embedding-3-small';
+
+COMMENT ON COLUMN public.custom_gpts.embedding_model IS 'Embedding model new chunks are embedded with and searches use; changed by a re-embed job';
+
+-- Chunks of a GPT embedded with one model, most similar to the query first.
+-- Each branch repeats its index's expression and predicate so the planner can
+-- use the index; vectors of other dimensions are compared exactly. Checking
+-- the dimension also covers a query embedded just before a re-embed switched
+-- models.
+CREATE OR REPLACE FUNCTION public.nearest_chunks(
+  query_embedding VECTOR,
+  p_custom_gpt_id UUID,
+  p_model TEXT,
+  p_match_threshold FLOAT,
+  p_limit INT
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  CASE vector_dims(query_embedding)
+    WHEN 1536 THEN
+      RETURN QUERY
+      SELECT document_chunks.id, 1 - (document_chunks.embedding::vector(1536) <=> query_embedding::vector(1536))
+      FROM document_chunks
+      WHERE document_chunks.embedding_dim = 1536
+        AND document_chunks.custom_gpt_id = p_custom_gpt_id
+        AND document_chunks.embedding_model = p_model
+        AND 1 - (document_chunks.embedding::vector(1536) <=> query_embedding::vector(1536)) > p_match_threshold
+      ORDER BY document_chunks.embedding::vector(1536) <=> query_embedding::vector(1536)
+      LIMIT p_limit;
+    WHEN 3072 THEN
+      RETURN QUERY
+      SELECT document_chunks.id, 1 - (document_chunks.embedding::halfvec(3072) <=> query_embedding::halfvec(3072))
+      FROM document_chunks
+      WHERE document_chunks.embedding_dim = 3072
+        AND document_chunks.custom_gpt_id = p_custom_gpt_id
+        AND document_chunks.embedding_model = p_model
+        AND 1 - (document_chunks.embedding::halfvec(3072) <=> query_embedding::halfvec(3072)) > p_match_threshold
+      ORDER BY document_chunks.embedding::halfvec(3072) <=> query_embedding::halfvec(3072)
+      LIMIT p_limit;
+    ELSE
+      RETURN QUERY
+      SELECT document_chunks.id, 1 - (document_chunks.embedding <=> query_embedding)
+      FROM document_chunks
+      WHERE document_chunks.embedding_dim = vector_dims(query_embedding)
+        AND document_chunks.custom_gpt_id = p_custom_gpt_id
+        AND document_chunks.embedding_model = p_model
+        AND 1 - (document_chunks.embedding <=> query_embedding) > p_match_threshold
+      ORDER BY document_chunks.embedding <=> query_embedding
+      LIMIT p_limit;
+  END CASE;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.nearest_chunks(VECTOR, UUID, TEXT, FLOAT, INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.nearest_chunks(VECTOR, UUID, TEXT, FLOAT, INT) TO service_role;
+
+-- Searches only see chunks embedded with the GPT's model
+CREATE OR REPLACE FUNCTION public.match_documents(
+  query_embedding VECTOR,
+  custom_gpt_id UUID,
+  match_threshold FLOAT DEFAULT 0.8,
+  match_count INT DEFAULT 3
+)
+RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  similarity FLOAT,
+  knowledge_base_id UUID,
+  file_name TEXT,
+  chunk_index INTEGER,
+  page_start INTEGER,
+  page_end INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  active_model TEXT := (SELECT custom_gpts.embedding_model FROM custom_gpts WHERE custom_gpts.id = match_documents.custom_gpt_id);
+BEGIN
+  RETURN QUERY
+  SELECT
+    document_chunks.id,
+    document_chunks.content,
+    nearest.similarity,
+    document_chunks.knowledge_base_id,
+    knowledge_base.file_name,
+    document_chunks.chunk_index,
+    document_chunks.page_start,
+    document_chunks.page_end
+  FROM nearest_chunks(query_embedding, match_documents.custom_gpt_id, active_model, match_threshold, match_count) nearest
+  JOIN document_chunks ON document_chunks.id = nearest.chunk_id
+  JOIN knowledge_base ON knowledge_base.id = document_chunks.knowledge_base_id
+  ORDER BY nearest.similarity DESC;
+END;
+$$;
+
+-- Only the Edge Functions (service role) may search; the function bypasses RLS
+REVOKE ALL ON FUNCTION public.match_documents(VECTOR, UUID, FLOAT, INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.match_documents(VECTOR, UUID, FLOAT, INT) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.hybrid_match_documents(
+  query_embedding VECTOR,
+  query_text TEXT,
+  custom_gpt_id UUID,
+  match_threshold FLOAT DEFAULT 0.3,
+  match_count INT DEFAULT 5,
+  vector_weight FLOAT DEFAULT 1,
+  keyword_weight FLOAT DEFAULT 1,
+  rrf_k INT DEFAULT 60
+)
+RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  similarity FLOAT,
+  knowledge_base_id UUID,
+  file_name TEXT,
+  chunk_index INTEGER,
+  page_start INTEGER,
+  page_end INTEGER,
+  vector_rank INTEGER,
+  keyword_rank INTEGER,
+  score FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Fuse from deeper lists than we return so either side can promote a chunk
+  candidate_count INT := GREATEST(match_count * 4, 20);
+  -- Any of the question's terms rather than all of them
+  keyword_query TSQUERY := replace(plainto_tsquery('english', query_text)::TEXT, ' & ', ' | ')::TSQUERY;
+  active_model TEXT := (SELECT custom_gpts.embedding_model FROM custom_gpts WHERE custom_gpts.id = hybrid_match_documents.custom_gpt_id);
+  query_dim INT := vector_dims(query_embedding);
+BEGIN
+  RETURN QUERY
+  WITH vector_matches AS (
+    SELECT
+      nearest.chunk_id,
+      row_number() OVER (ORDER BY nearest.similarity DESC) AS list_rank
+    FROM nearest_chunks(query_embedding, hybrid_match_documents.custom_gpt_id, active_model, match_threshold, candidate_count) nearest
+  ),
+  keyword_matches AS (
+    SELECT
+      document_chunks.id AS chunk_id,
+      row_number() OVER (ORDER BY ts_rank_cd(document_chunks.content_tsv, keyword_query) DESC) AS list_rank
+    FROM document_chunks
+    WHERE document_chunks.custom_gpt_id = hybrid_match_documents.custom_gpt_id
+      AND document_chunks.embedding_model = active_model
+      AND document_chunks.content_tsv @@ keyword_query
+    ORDER BY ts_rank_cd(document_chunks.content_tsv, keyword_query) DESC
+    LIMIT candidate_count
+  ),
+  fused AS (
+    SELECT
+      COALESCE(vector_matches.chunk_id, keyword_matches.chunk_id) AS chunk_id,
+      vector_matches.list_rank AS vector_list_rank,
+      keyword_matches.list_rank AS keyword_list_rank,
+      COALESCE(vector_weight / (rrf_k + vector_matches.list_rank), 0)
+        + COALESCE(keyword_weight / (rrf_k + keyword_matches.list_rank), 0) AS fused_score
+    FROM vector_matches
+    FULL OUTER JOIN keyword_matches ON keyword_matches.chunk_id = vector_matches.chunk_id
+  )
+  SELECT
+    document_chunks.id,
+    document_chunks.content,
+    CASE
+      WHEN document_chunks.embedding_dim = query_dim THEN 1 - (document_chunks.embedding <=> query_embedding)
+      ELSE 0
+    END AS similarity,
+    document_chunks.knowledge_base_id,
+    knowledge_base.file_name,
+    document_chunks.chunk_index,
+    document_chunks.page_start,
+    document_chunks.page_end,
+    fused.vector_list_rank::INTEGER,
+    fused.keyword_list_rank::INTEGER,
+    fused.fused_score
+  FROM fused
+  JOIN document_chunks ON document_chunks.id = fused.chunk_id
+  JOIN knowledge_base ON knowledge_base.id = document_chunks.knowledge_base_id
+  WHERE fused.fused_score > 0
+  ORDER BY fused.fused_score DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- Only the Edge Functions (service role) may search; the function bypasses RLS
+REVOKE ALL ON FUNCTION public.hybrid_match_documents(VECTOR, TEXT, UUID, FLOAT, INT, FLOAT, FLOAT, INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hybrid_match_documents(VECTOR, TEXT, UUID, FLOAT, INT, FLOAT, FLOAT, INT) TO service_role;
+
+CREATE TABLE IF NOT EXISTS public.reembed_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  custom_gpt_id UUID NOT NULL REFERENCES public.custom_gpts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_model TEXT NOT NULL,
+  to_model TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  progress_current INTEGER NOT NULL DEFAULT 0,
+  progress_total INTEGER,
+  error TEXT,
+  error_code TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT reembed_jobs_status_check
+    CHECK (status IN ('queued', 'embedding', 'done', 'failed'))
+);
+
+COMMENT ON COLUMN public.reembed_jobs.progress_current IS 'Chunks embedded with the new model so far';
+COMMENT ON COLUMN public.reembed_jobs.progress_total IS 'Chunks to embed with the new model; NULL until the job starts';
+
+-- At most one active re-embed per GPT
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reembed_jobs_active_gpt
+  ON public.reembed_jobs(custom_gpt_id)
+  WHERE status NOT IN ('done', 'failed');
+
+CREATE INDEX IF NOT EXISTS idx_reembed_jobs_claimable
+  ON public.reembed_jobs(status, run_after);
+
+CREATE TRIGGER update_reembed_jobs_updated_at
+  BEFORE UPDATE ON public.reembed_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Jobs are written only by Edge Functions (service role); owners may read them
+ALTER TABLE public.reembed_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own re-embed jobs"
+  ON public.reembed_jobs
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.reembed_jobs;
+
+-- Same claiming rules as claim_ingestion_job
+CREATE OR REPLACE FUNCTION public.claim_reembed_job(p_stale_after INTERVAL DEFAULT interval '10 minutes')
+RETURNS SETOF public.reembed_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.reembed_jobs
+  SET status = 'embedding',
+      attempts = attempts + 1,
+      locked_at = now()
+  WHERE id = (
+    SELECT id
+    FROM public.reembed_jobs
+    WHERE (status = 'queued' AND run_after <= now())
+       OR (status = 'embedding' AND locked_at < now() - p_stale_after)
+    ORDER BY run_after
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+-- Chunks of a GPT that have no copy embedded with p_model yet. A copy is a
+-- row for the same file, position and text; files processed while a
+-- re-embed runs show up here too.
+CREATE OR REPLACE FUNCTION public.pending_reembed_chunks(p_custom_gpt_id UUID, p_model TEXT, p_limit INT DEFAULT 500)
+RETURNS TABLE (
+  knowledge_base_id UUID,
+  chunk_index INTEGER,
+  content TEXT,
+  page_start INTEGER,
+  page_end INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT old.knowledge_base_id, old.chunk_index, old.content, old.page_start, old.page_end
+  FROM document_chunks old
+  WHERE old.custom_gpt_id = p_custom_gpt_id
+    AND old.embedding_model <> p_model
+    AND NOT EXISTS (
+      SELECT 1 FROM document_chunks copy
+      WHERE copy.knowledge_base_id = old.knowledge_base_id
+        AND copy.chunk_index = old.chunk_index
+        AND copy.embedding_model = p_model
+        AND copy.content = old.content
+    )
+  ORDER BY old.knowledge_base_id, old.chunk_index
+  LIMIT p_limit;
+$$;
+
+-- Switch the GPT to the job's model and drop the old vectors, in one
+-- transaction so searches never see a half-migrated GPT. Returns the number
+-- of chunks still without a copy; nothing changes unless it is 0.
+CREATE OR REPLACE FUNCTION public.finish_reembed_job(p_job_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job public.reembed_jobs%ROWTYPE;
+  remaining INTEGER;
+BEGIN
+  SELECT * INTO job FROM public.reembed_jobs WHERE id = p_job_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Re-embed job % not found', p_job_id;
+  END IF;
+
+  -- Hold off ingestion writes for this GPT while checking and switching
+  PERFORM 1 FROM public.custom_gpts WHERE id = job.custom_gpt_id FOR UPDATE;
+
+  SELECT count(*) INTO remaining
+  FROM public.pending_reembed_chunks(job.custom_gpt_id, job.to_model, 2147483647);
+
+  IF remaining > 0 THEN
+    RETURN remaining;
+  END IF;
+
+  UPDATE public.custom_gpts SET embedding_model = job.to_model WHERE id = job.custom_gpt_id;
+  DELETE FROM public.document_chunks
+  WHERE custom_gpt_id = job.custom_gpt_id
+    AND embedding_model <> job.to_model;
+
+  RETURN 0;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_reembed_job(INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_reembed_job(INTERVAL) TO service_role;
+REVOKE ALL ON FUNCTION public.pending_reembed_chunks(UUID, TEXT, INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.pending_reembed_chunks(UUID, TEXT, INT) TO service_role;
+REVOKE ALL ON FUNCTION public.finish_reembed_job(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.finish_reembed_job(UUID) TO service_role;
+
+-- The worker's cron wake-up also covers re-embed jobs that are due or whose
+-- worker died
+CREATE OR REPLACE FUNCTION public.ingestion_work_pending(p_stale_after INTERVAL DEFAULT interval '10 minutes')
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.ingestion_jobs
+    WHERE (status = 'queued' AND run_after <= now())
+       OR (status IN ('extracting', 'distilling', 'embedding') AND locked_at < now() - p_stale_after)
+  ) OR EXISTS (
+    SELECT 1
+    FROM public.reembed_jobs
+    WHERE (status = 'queued' AND run_after <= now())
+       OR (status = 'embedding' AND locked_at < now() - p_stale_after)
+  );
+$$;
@@ -0,0 +1,32 @@
+-- Migration: Content hashes for knowledge files and chunks
+-- Date: 2025-11-06
+-- Description: Record a SHA-256 of every uploaded file so a second upload of
+-- the same content in a GPT is caught, and let the user keep it as a new
+-- version or have it replace the earlier file. Chunks get a hash of their
+-- text so a revised file reuses the vectors of passages that did not change
+-- instead of embedding them again.
+--
+-- Files uploaded before this migration have no hash until they are
+-- processed again.
+
+ALTER TABLE public.knowledge_base
+  ADD COLUMN IF NOT EXISTS content_hash TEXT,
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS previous_version_id UUID REFERENCES public.knowledge_base(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS replaces_id UUID REFERENCES public.knowledge_base(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.knowledge_base.content_hash IS 'SHA-256 of the file, hex';
+COMMENT ON COLUMN public.knowledge_base.version IS 'Counts up from 1 each time a file is uploaded again as a new version';
+COMMENT ON COLUMN public.knowledge_base.previous_version_id IS 'The file this one is a newer version of';
+COMMENT ON COLUMN public.knowledge_base.replaces_id IS 'File deleted once this one has been processed';
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_gpt_hash
+  ON public.knowledge_base(custom_gpt_id, content_hash);
+
+-- Same digest the ingestion worker computes over the UTF-8 text
+ALTER TABLE public.document_chunks
+  ADD COLUMN IF NOT EXISTS content_hash TEXT
+    GENERATED ALWAYS AS (encode(sha256(convert_to(content, 'UTF8')), 'hex')) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_gpt_hash
+  ON public.document_chunks(custom_gpt_id, content_hash);
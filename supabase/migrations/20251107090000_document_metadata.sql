@@ -0,0 +1,332 @@
+-- Migration: Per-document metadata and filtered retrieval
+-- Date: 2025-11-07
+-- Description: Let users describe each knowledge file with tags, a document
+-- date, author, language and their own key/value pairs. The values are
+-- copied onto the file's chunks (document_chunks.metadata, kept in sync by
+-- triggers) so searches can filter on them without a join, and both match
+-- functions take an optional filter, e.g. only files tagged "contracts"
+-- dated in 2024.
+--
+-- Filter shape (all keys optional, all given keys must match):
+--   { "file_ids": [uuid, ...],        -- any of these files
+--     "tags": ["contracts", ...],     -- any of these tags
+--     "date_from": "2024-01-01",      -- document_date on or after
+--     "date_to": "2024-12-31",        -- document_date on or before
+--     "author": "Jane Doe",           -- case-insensitive
+--     "language": "en",
+--     "metadata": { "client": "ACME" } }  -- user-defined pairs, all present
+
+ALTER TABLE public.knowledge_base
+  ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS document_date DATE,
+  ADD COLUMN IF NOT EXISTS author TEXT,
+  ADD COLUMN IF NOT EXISTS language TEXT,
+  ADD COLUMN IF NOT EXISTS custom_metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.knowledge_base
+  ADD CONSTRAINT knowledge_base_custom_metadata_object
+    CHECK (jsonb_typeof(custom_metadata) = 'object');
+
+COMMENT ON COLUMN public.knowledge_base.tags IS 'Lowercase labels used to scope searches, e.g. contracts';
+COMMENT ON COLUMN public.knowledge_base.document_date IS 'When the document was written or took effect, as opposed to created_at (upload)';
+COMMENT ON COLUMN public.knowledge_base.language IS 'ISO 639-1 code, e.g. en';
+COMMENT ON COLUMN public.knowledge_base.custom_metadata IS 'User-defined string key/value pairs';
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_tags
+  ON public.knowledge_base USING GIN (tags);
+
+ALTER TABLE public.document_chunks
+  ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.document_chunks.metadata IS 'Copy of the file''s metadata for filtering; maintained by triggers on knowledge_base';
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_metadata
+  ON public.document_chunks USING GIN (metadata);
+
+-- The metadata a file's chunks carry
+CREATE OR REPLACE FUNCTION public.knowledge_file_metadata(file public.knowledge_base)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_strip_nulls(jsonb_build_object(
+    'tags', to_jsonb(file.tags),
+    'document_date', file.document_date,
+    'author', file.author,
+    'language', file.language,
+    'custom', file.custom_metadata
+  ));
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_chunk_metadata()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT public.knowledge_file_metadata(knowledge_base.*) INTO NEW.metadata
+  FROM public.knowledge_base
+  WHERE knowledge_base.id = NEW.knowledge_base_id;
+
+  NEW.metadata := COALESCE(NEW.metadata, '{}'::jsonb);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_document_chunks_metadata
+  BEFORE INSERT ON public.document_chunks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_chunk_metadata();
+
+-- Owners edit metadata from the browser, where RLS would hide the chunks
+CREATE OR REPLACE FUNCTION public.propagate_knowledge_metadata()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.document_chunks
+  SET metadata = public.knowledge_file_metadata(NEW)
+  WHERE knowledge_base_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER propagate_knowledge_base_metadata
+  AFTER UPDATE OF tags, document_date, author, language, custom_metadata ON public.knowledge_base
+  FOR EACH ROW
+  EXECUTE FUNCTION public.propagate_knowledge_metadata();
+
+UPDATE public.document_chunks
+SET metadata = public.knowledge_file_metadata(knowledge_base.*)
+FROM public.knowledge_base
+WHERE knowledge_base.id = document_chunks.knowledge_base_id;
+
+-- Whether a chunk passes a search filter (shape above); '{}' passes everything
+CREATE OR REPLACE FUNCTION public.chunk_matches_filter(chunk_metadata JSONB, knowledge_base_id UUID, filter JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    (filter->'file_ids' IS NULL
+      OR knowledge_base_id::TEXT IN (SELECT jsonb_array_elements_text(filter->'file_ids')))
+    AND (filter->'tags' IS NULL
+      OR COALESCE(chunk_metadata->'tags', '[]'::jsonb) ?| ARRAY(SELECT jsonb_array_elements_text(filter->'tags')))
+    AND (filter->>'date_from' IS NULL
+      OR (chunk_metadata->>'document_date')::DATE >= (filter->>'date_from')::DATE)
+    AND (filter->>'date_to' IS NULL
+      OR (chunk_metadata->>'document_date')::DATE <= (filter->>'date_to')::DATE)
+    AND (filter->>'author' IS NULL
+      OR lower(chunk_metadata->>'author') = lower(filter->>'author'))
+    AND (filter->>'language' IS NULL
+      OR chunk_metadata->>'language' = filter->>'language')
+    AND (filter->'metadata' IS NULL
+      OR COALESCE(chunk_metadata->'custom', '{}'::jsonb) @> filter->'metadata');
+$$;
+
+-- A new parameter changes the signature, so replace rather than redefine
+DROP FUNCTION IF EXISTS public.match_documents(VECTOR, UUID, FLOAT, INT);
+DROP FUNCTION IF EXISTS public.hybrid_match_documents(VECTOR, TEXT, UUID, FLOAT, INT, FLOAT, FLOAT, INT);
+DROP FUNCTION IF EXISTS public.nearest_chunks(VECTOR, UUID, TEXT, FLOAT, INT);
+
+-- The filter applies to the vector search itself, through the same
+-- per-dimension indexes
+CREATE OR REPLACE FUNCTION public.nearest_chunks(
+  query_embedding VECTOR,
+  p_custom_gpt_id UUID,
+  p_model TEXT,
+  p_match_threshold FLOAT,
+  p_limit INT,
+  p_filter JSONB
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  CASE vector_dims(query_embedding)
+    WHEN 1536 THEN
+      RETURN QUERY
+      SELECT document_chunks.id, 1 - (document_chunks.embedding::vector(1536) <=> query_embedding::vector(1536))
+      FROM document_chunks
+      WHERE document_chunks.embedding_dim = 1536
+        AND document_chunks.custom_gpt_id = p_custom_gpt_id
+        AND document_chunks.embedding_model = p_model
+        AND chunk_matches_filter(document_chunks.metadata, document_chunks.knowledge_base_id, p_filter)
+        AND 1 - (document_chunks.embedding::vector(1536) <=> query_embedding::vector(1536)) > p_match_threshold
+      ORDER BY document_chunks.embedding::vector(1536) <=> query_embedding::vector(1536)
+      LIMIT p_limit;
+    WHEN 3072 THEN
+      RETURN QUERY
+      SELECT document_chunks.id, 1 - (document_chunks.embedding::halfvec(3072) <=> query_embedding::halfvec(3072))
+      FROM document_chunks
+      WHERE document_chunks.embedding_dim = 3072
+        AND document_chunks.custom_gpt_id = p_custom_gpt_id
+        AND document_chunks.embedding_model = p_model
+        AND chunk_matches_filter(document_chunks.metadata, document_chunks.knowledge_base_id, p_filter)
+        AND 1 - (document_chunks.embedding::halfvec(3072) <=> query_embedding::halfvec(3072)) > p_match_threshold
+      ORDER BY document_chunks.embedding::halfvec(3072) <=> query_embedding::halfvec(3072)
+      LIMIT p_limit;
+    ELSE
+      RETURN QUERY
+      SELECT document_chunks.id, 1 - (document_chunks.embedding <=> query_embedding)
+      FROM document_chunks
+      WHERE document_chunks.embedding_dim = vector_dims(query_embedding)
+        AND document_chunks.custom_gpt_id = p_custom_gpt_id
+        AND document_chunks.embedding_model = p_model
+        AND chunk_matches_filter(document_chunks.metadata, document_chunks.knowledge_base_id, p_filter)
+        AND 1 - (document_chunks.embedding <=> query_embedding) > p_match_threshold
+      ORDER BY document_chunks.embedding <=> query_embedding
+      LIMIT p_limit;
+  END CASE;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.nearest_chunks(VECTOR, UUID, TEXT, FLOAT, INT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.nearest_chunks(VECTOR, UUID, TEXT, FLOAT, INT, JSONB) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.match_documents(
+  query_embedding VECTOR,
+  custom_gpt_id UUID,
+  match_threshold FLOAT DEFAULT 0.8,
+  match_count INT DEFAULT 3,
+  filter JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  similarity FLOAT,
+  knowledge_base_id UUID,
+  file_name TEXT,
+  chunk_index INTEGER,
+  page_start INTEGER,
+  page_end INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  active_model TEXT := (SELECT custom_gpts.embedding_model FROM custom_gpts WHERE custom_gpts.id = match_documents.custom_gpt_id);
+BEGIN
+  RETURN QUERY
+  SELECT
+    document_chunks.id,
+    document_chunks.content,
+    nearest.similarity,
+    document_chunks.knowledge_base_id,
+    knowledge_base.file_name,
+    document_chunks.chunk_index,
+    document_chunks.page_start,
+    document_chunks.page_end
+  FROM nearest_chunks(query_embedding, match_documents.custom_gpt_id, active_model, match_threshold, match_count, filter) nearest
+  JOIN document_chunks ON document_chunks.id = nearest.chunk_id
+  JOIN knowledge_base ON knowledge_base.id = document_chunks.knowledge_base_id
+  ORDER BY nearest.similarity DESC;
+END;
+$$;
+
+-- Only the Edge Functions (service role) may search; the function bypasses RLS
+REVOKE ALL ON FUNCTION public.match_documents(VECTOR, UUID, FLOAT, INT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.match_documents(VECTOR, UUID, FLOAT, INT, JSONB) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.hybrid_match_documents(
+  query_embedding VECTOR,
+  query_text TEXT,
+  custom_gpt_id UUID,
+  match_threshold FLOAT DEFAULT 0.3,
+  match_count INT DEFAULT 5,
+  vector_weight FLOAT DEFAULT 1,
+  keyword_weight FLOAT DEFAULT 1,
+  rrf_k INT DEFAULT 60,
+  filter JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  similarity FLOAT,
+  knowledge_base_id UUID,
+  file_name TEXT,
+  chunk_index INTEGER,
+  page_start INTEGER,
+  page_end INTEGER,
+  vector_rank INTEGER,
+  keyword_rank INTEGER,
+  score FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Fuse from deeper lists than we return so either side can promote a chunk
+  candidate_count INT := GREATEST(match_count * 4, 20);
+  -- Any of the question's terms rather than all of them
+  keyword_query TSQUERY := replace(plainto_tsquery('english', query_text)::TEXT, ' & ', ' | ')::TSQUERY;
+  active_model TEXT := (SELECT custom_gpts.embedding_model FROM custom_gpts WHERE custom_gpts.id = hybrid_match_documents.custom_gpt_id);
+  query_dim INT := vector_dims(query_embedding);
+BEGIN
+  RETURN QUERY
+  WITH vector_matches AS (
+    SELECT
+      nearest.chunk_id,
+      row_number() OVER (ORDER BY nearest.similarity DESC) AS list_rank
+    FROM nearest_chunks(query_embedding, hybrid_match_documents.custom_gpt_id, active_model, match_threshold, candidate_count, filter) nearest
+  ),
+  keyword_matches AS (
+    SELECT
+      document_chunks.id AS chunk_id,
+      row_number() OVER (ORDER BY ts_rank_cd(document_chunks.content_tsv, keyword_query) DESC) AS list_rank
+    FROM document_chunks
+    WHERE document_chunks.custom_gpt_id = hybrid_match_documents.custom_gpt_id
+      AND document_chunks.embedding_model = active_model
+      AND chunk_matches_filter(document_chunks.metadata, document_chunks.knowledge_base_id, filter)
+      AND document_chunks.content_tsv @@ keyword_query
+    ORDER BY ts_rank_cd(document_chunks.content_tsv, keyword_query) DESC
+    LIMIT candidate_count
+  ),
+  fused AS (
+    SELECT
+      COALESCE(vector_matches.chunk_id, keyword_matches.chunk_id) AS chunk_id,
+      vector_matches.list_rank AS vector_list_rank,
+      keyword_matches.list_rank AS keyword_list_rank,
+      COALESCE(vector_weight / (rrf_k + vector_matches.list_rank), 0)
+        + COALESCE(keyword_weight / (rrf_k + keyword_matches.list_rank), 0) AS fused_score
+    FROM vector_matches
+    FULL OUTER JOIN keyword_matches ON keyword_matches.chunk_id = vector_matches.chunk_id
+  )
+  SELECT
+    document_chunks.id,
+    document_chunks.content,
+    CASE
+      WHEN document_chunks.embedding_dim = query_dim THEN 1 - (document_chunks.embedding <=> query_embedding)
+      ELSE 0
+    END AS similarity,
+    document_chunks.knowledge_base_id,
+    knowledge_base.file_name,
+    document_chunks.chunk_index,
+    document_chunks.page_start,
+    document_chunks.page_end,
+    fused.vector_list_rank::INTEGER,
+    fused.keyword_list_rank::INTEGER,
+    fused.fused_score
+  FROM fused
+  JOIN document_chunks ON document_chunks.id = fused.chunk_id
+  JOIN knowledge_base ON knowledge_base.id = document_chunks.knowledge_base_id
+  WHERE fused.fused_score > 0
+  ORDER BY fused.fused_score DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- Only the Edge Functions (service role) may search; the function bypasses RLS
+REVOKE ALL ON FUNCTION public.hybrid_match_documents(VECTOR, TEXT, UUID, FLOAT, INT, FLOAT, FLOAT, INT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hybrid_match_documents(VECTOR, TEXT, UUID, FLOAT, INT, FLOAT, FLOAT, INT, JSONB) TO service_role;
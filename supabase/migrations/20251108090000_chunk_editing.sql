@@ -0,0 +1,254 @@
+-- Migration: Chunk inspection and editing
+-- Date: 2025-11-08
+-- Description: Let owners correct the text of a chunk or leave it out of
+-- searches without reprocessing the whole file. Edited chunks are re-embedded
+-- by the edit-chunk Edge Function and marked with edited_at; excluded chunks
+-- stay stored (so they can be brought back) but are skipped by both match
+-- functions. Reprocessing a file rebuilds its chunks and drops both.
+
+ALTER TABLE public.document_chunks
+  ADD COLUMN IF NOT EXISTS excluded BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.document_chunks.excluded IS 'Left out of searches by the owner; applies to every model''s copy of the chunk';
+COMMENT ON COLUMN public.document_chunks.edited_at IS 'When the owner last changed the chunk text; NULL for text as chunked';
+
+-- Excluded chunks are skipped by the vector search itself
+CREATE OR REPLACE FUNCTION public.nearest_chunks(
+  query_embedding VECTOR,
+  p_custom_gpt_id UUID,
+  p_model TEXT,
+  p_match_threshold FLOAT,
+  p_limit INT,
+  p_filter JSONB
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  CASE vector_dims(query_embedding)
+    WHEN 1536 THEN
+      RETURN QUERY
+      SELECT document_chunks.id, 1 - (document_chunks.embedding::vector(1536) <=> query_embedding::vector(1536))
+      FROM document_chunks
+      WHERE document_chunks.embedding_dim = 1536
+        AND document_chunks.custom_gpt_id = p_custom_gpt_id
+        AND document_chunks.embedding_model = p_model
+        AND NOT document_chunks.excluded
+        AND chunk_matches_filter(document_chunks.metadata, document_chunks.knowledge_base_id, p_filter)
+        AND 1 - (document_chunks.embedding::vector(1536) <=> query_embedding::vector(1536)) > p_match_threshold
+      ORDER BY document_chunks.embedding::vector(1536) <=> query_embedding::vector(1536)
+      LIMIT p_limit;
+    WHEN 3072 THEN
+      RETURN QUERY
+      SELECT document_chunks.id, 1 - (document_chunks.embedding::halfvec(3072) <=> query_embedding::halfvec(3072))
+      FROM document_chunks
+      WHERE document_chunks.embedding_dim = 3072
+        AND document_chunks.custom_gpt_id = p_custom_gpt_id
+        AND document_chunks.embedding_model = p_model
+        AND NOT document_chunks.excluded
+        AND chunk_matches_filter(document_chunks.metadata, document_chunks.knowledge_base_id, p_filter)
+        AND 1 - (document_chunks.embedding::halfvec(3072) <=> query_embedding::halfvec(3072)) > p_match_threshold
+      ORDER BY document_chunks.embedding::halfvec(3072) <=> query_embedding::halfvec(3072)
+      LIMIT p_limit;
+    ELSE
+      RETURN QUERY
+      SELECT document_chunks.id, 1 - (document_chunks.embedding <=> query_embedding)
+      FROM document_chunks
+      WHERE document_chunks.embedding_dim = vector_dims(query_embedding)
+        AND document_chunks.custom_gpt_id = p_custom_gpt_id
+        AND document_chunks.embedding_model = p_model
+        AND NOT document_chunks.excluded
+        AND chunk_matches_filter(document_chunks.metadata, document_chunks.knowledge_base_id, p_filter)
+        AND 1 - (document_chunks.embedding <=> query_embedding) > p_match_threshold
+      ORDER BY document_chunks.embedding <=> query_embedding
+      LIMIT p_limit;
+  END CASE;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.nearest_chunks(VECTOR, UUID, TEXT, FLOAT, INT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.nearest_chunks(VECTOR, UUID, TEXT, FLOAT, INT, JSONB) TO service_role;
+
+-- Same signatures as before, so a plain replace keeps existing grants
+CREATE OR REPLACE FUNCTION public.match_documents(
+  query_embedding VECTOR,
+  custom_gpt_id UUID,
+  match_threshold FLOAT DEFAULT 0.8,
+  match_count INT DEFAULT 3,
+  filter JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  similarity FLOAT,
+  knowledge_base_id UUID,
+  file_name TEXT,
+  chunk_index INTEGER,
+  page_start INTEGER,
+  page_end INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  active_model TEXT := (SELECT custom_gpts.embedding_model FROM custom_gpts WHERE custom_gpts.id = match_documents.custom_gpt_id);
+BEGIN
+  RETURN QUERY
+  SELECT
+    document_chunks.id,
+    document_chunks.content,
+    nearest.similarity,
+    document_chunks.knowledge_base_id,
+    knowledge_base.file_name,
+    document_chunks.chunk_index,
+    document_chunks.page_start,
+    document_chunks.page_end
+  FROM nearest_chunks(query_embedding, match_documents.custom_gpt_id, active_model, match_threshold, match_count, filter) nearest
+  JOIN document_chunks ON document_chunks.id = nearest.chunk_id
+  JOIN knowledge_base ON knowledge_base.id = document_chunks.knowledge_base_id
+  ORDER BY nearest.similarity DESC;
+END;
+$$;
+
+-- Only the Edge Functions (service role) may search; the function bypasses RLS
+REVOKE ALL ON FUNCTION public.match_documents(VECTOR, UUID, FLOAT, INT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.match_documents(VECTOR, UUID, FLOAT, INT, JSONB) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.hybrid_match_documents(
+  query_embedding VECTOR,
+  query_text TEXT,
+  custom_gpt_id UUID,
+  match_threshold FLOAT DEFAULT 0.3,
+  match_count INT DEFAULT 5,
+  vector_weight FLOAT DEFAULT 1,
+  keyword_weight FLOAT DEFAULT 1,
+  rrf_k INT DEFAULT 60,
+  filter JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  similarity FLOAT,
+  knowledge_base_id UUID,
+  file_name TEXT,
+  chunk_index INTEGER,
+  page_start INTEGER,
+  page_end INTEGER,
+  vector_rank INTEGER,
+  keyword_rank INTEGER,
+  score FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Fuse from deeper lists than we return so either side can promote a chunk
+  candidate_count INT := GREATEST(match_count * 4, 20);
+  -- Any of the question's terms rather than all of them
+  keyword_query TSQUERY := replace(plainto_tsquery('english', query_text)::TEXT, ' & ', ' | ')::TSQUERY;
+  active_model TEXT := (SELECT custom_gpts.embedding_model FROM custom_gpts WHERE custom_gpts.id = hybrid_match_documents.custom_gpt_id);
+  query_dim INT := vector_dims(query_embedding);
+BEGIN
+  RETURN QUERY
+  WITH vector_matches AS (
+    SELECT
+      nearest.chunk_id,
+      row_number() OVER (ORDER BY nearest.similarity DESC) AS list_rank
+    FROM nearest_chunks(query_embedding, hybrid_match_documents.custom_gpt_id, active_model, match_threshold, candidate_count, filter) nearest
+  ),
+  keyword_matches AS (
+    SELECT
+      document_chunks.id AS chunk_id,
+      row_number() OVER (ORDER BY ts_rank_cd(document_chunks.content_tsv, keyword_query) DESC) AS list_rank
+    FROM document_chunks
+    WHERE document_chunks.custom_gpt_id = hybrid_match_documents.custom_gpt_id
+      AND document_chunks.embedding_model = active_model
+      AND NOT document_chunks.excluded
+      AND chunk_matches_filter(document_chunks.metadata, document_chunks.knowledge_base_id, filter)
+      AND document_chunks.content_tsv @@ keyword_query
+    ORDER BY ts_rank_cd(document_chunks.content_tsv, keyword_query) DESC
+    LIMIT candidate_count
+  ),
+  fused AS (
+    SELECT
+      COALESCE(vector_matches.chunk_id, keyword_matches.chunk_id) AS chunk_id,
+      vector_matches.list_rank AS vector_list_rank,
+      keyword_matches.list_rank AS keyword_list_rank,
+      COALESCE(vector_weight / (rrf_k + vector_matches.list_rank), 0)
+        + COALESCE(keyword_weight / (rrf_k + keyword_matches.list_rank), 0) AS fused_score
+    FROM vector_matches
+    FULL OUTER JOIN keyword_matches ON keyword_matches.chunk_id = vector_matches.chunk_id
+  )
+  SELECT
+    document_chunks.id,
+    document_chunks.content,
+    CASE
+      WHEN document_chunks.embedding_dim = query_dim THEN 1 - (document_chunks.embedding <=> query_embedding)
+      ELSE 0
+    END AS similarity,
+    document_chunks.knowledge_base_id,
+    knowledge_base.file_name,
+    document_chunks.chunk_index,
+    document_chunks.page_start,
+    document_chunks.page_end,
+    fused.vector_list_rank::INTEGER,
+    fused.keyword_list_rank::INTEGER,
+    fused.fused_score
+  FROM fused
+  JOIN document_chunks ON document_chunks.id = fused.chunk_id
+  JOIN knowledge_base ON knowledge_base.id = document_chunks.knowledge_base_id
+  WHERE fused.fused_score > 0
+  ORDER BY fused.fused_score DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- Only the Edge Functions (service role) may search; the function bypasses RLS
+REVOKE ALL ON FUNCTION public.hybrid_match_documents(VECTOR, TEXT, UUID, FLOAT, INT, FLOAT, FLOAT, INT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hybrid_match_documents(VECTOR, TEXT, UUID, FLOAT, INT, FLOAT, FLOAT, INT, JSONB) TO service_role;
+
+-- Re-embed copies carry the exclusion and edit marks over; the result type
+-- changes, so drop first
+DROP FUNCTION IF EXISTS public.pending_reembed_chunks(UUID, TEXT, INT);
+
+CREATE OR REPLACE FUNCTION public.pending_reembed_chunks(p_custom_gpt_id UUID, p_model TEXT, p_limit INT DEFAULT 500)
+RETURNS TABLE (
+  knowledge_base_id UUID,
+  chunk_index INTEGER,
+  content TEXT,
+  page_start INTEGER,
+  page_end INTEGER,
+  excluded BOOLEAN,
+  edited_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT old.knowledge_base_id, old.chunk_index, old.content, old.page_start, old.page_end, old.excluded, old.edited_at
+  FROM document_chunks old
+  WHERE old.custom_gpt_id = p_custom_gpt_id
+    AND old.embedding_model <> p_model
+    AND NOT EXISTS (
+      SELECT 1 FROM document_chunks copy
+      WHERE copy.knowledge_base_id = old.knowledge_base_id
+        AND copy.chunk_index = old.chunk_index
+        AND copy.embedding_model = p_model
+        AND copy.content = old.content
+    )
+  ORDER BY old.knowledge_base_id, old.chunk_index
+  LIMIT p_limit;
+$$;
+
+REVOKE ALL ON FUNCTION public.pending_reembed_chunks(UUID, TEXT, INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.pending_reembed_chunks(UUID, TEXT, INT) TO service_role;
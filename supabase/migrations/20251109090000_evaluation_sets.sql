@@ -0,0 +1,166 @@
+-- Migration: RAG evaluation sets
+-- Date: 2025-11-09
+-- Description: Golden questions per GPT, each with the answer it should give
+-- and the files it should be answered from. The run-evaluation Edge Function
+-- answers every question with the same pipeline as chat, scores retrieval
+-- (recall and reciprocal rank of the expected files) and the answer
+-- (faithfulness to the sources, correctness against the expected answer),
+-- and compares the run with the set's previous one.
+
+CREATE TABLE IF NOT EXISTS public.eval_sets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  custom_gpt_id UUID NOT NULL REFERENCES public.custom_gpts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_eval_sets_custom_gpt
+  ON public.eval_sets(custom_gpt_id);
+
+CREATE TRIGGER update_eval_sets_updated_at
+  BEFORE UPDATE ON public.eval_sets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.eval_cases (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  eval_set_id UUID NOT NULL REFERENCES public.eval_sets(id) ON DELETE CASCADE,
+  question TEXT NOT NULL,
+  expected_answer TEXT,
+  expected_files TEXT[] NOT NULL DEFAULT '{}',
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.eval_cases.expected_answer IS 'Reference answer; correctness is not scored without one';
+COMMENT ON COLUMN public.eval_cases.expected_files IS 'Names of the knowledge files the answer should come from; names survive re-uploads, ids do not';
+
+CREATE INDEX IF NOT EXISTS idx_eval_cases_set
+  ON public.eval_cases(eval_set_id, position);
+
+CREATE TABLE IF NOT EXISTS public.eval_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  eval_set_id UUID NOT NULL REFERENCES public.eval_sets(id) ON DELETE CASCADE,
+  custom_gpt_id UUID NOT NULL REFERENCES public.custom_gpts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'running',
+  progress_current INTEGER NOT NULL DEFAULT 0,
+  progress_total INTEGER NOT NULL DEFAULT 0,
+  settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  case_ids UUID[] NOT NULL DEFAULT '{}',
+  metrics JSONB,
+  report JSONB,
+  error TEXT,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT eval_runs_status_check
+    CHECK (status IN ('running', 'done', 'failed'))
+);
+
+COMMENT ON COLUMN public.eval_runs.settings IS 'What the answers depended on (models, chunking, search settings), to explain differences between runs';
+COMMENT ON COLUMN public.eval_runs.case_ids IS 'The cases the run started with, in order; a resumed run evaluates these even if the set changed since';
+COMMENT ON COLUMN public.eval_runs.metrics IS 'Mean scores over the cases: recall, mrr, faithfulness, correctness';
+COMMENT ON COLUMN public.eval_runs.report IS 'Comparison with the previous finished run of the set';
+COMMENT ON COLUMN public.eval_runs.updated_at IS 'Also the heartbeat of a running run; stale runs are marked failed';
+
+CREATE INDEX IF NOT EXISTS idx_eval_runs_set
+  ON public.eval_runs(eval_set_id, created_at DESC);
+
+-- At most one running evaluation per set
+CREATE UNIQUE INDEX IF NOT EXISTS idx_eval_runs_active_set
+  ON public.eval_runs(eval_set_id)
+  WHERE status = 'running';
+
+CREATE TRIGGER update_eval_runs_updated_at
+  BEFORE UPDATE ON public.eval_runs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.eval_results (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  eval_run_id UUID NOT NULL REFERENCES public.eval_runs(id) ON DELETE CASCADE,
+  -- Kept when the case is deleted so old runs still read
+  eval_case_id UUID REFERENCES public.eval_cases(id) ON DELETE SET NULL,
+  question TEXT NOT NULL,
+  answer TEXT,
+  citations JSONB NOT NULL DEFAULT '[]'::jsonb,
+  retrieved_files TEXT[] NOT NULL DEFAULT '{}',
+  recall FLOAT,
+  reciprocal_rank FLOAT,
+  faithfulness FLOAT,
+  correctness FLOAT,
+  judge TEXT,
+  latency_ms INTEGER,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.eval_results.retrieved_files IS 'File of each source the answer was given, in rank order';
+COMMENT ON COLUMN public.eval_results.recall IS 'Share of expected files among the sources; NULL when the case names none';
+COMMENT ON COLUMN public.eval_results.reciprocal_rank IS '1 / rank of the first source from an expected file, 0 if none; NULL when the case names none';
+COMMENT ON COLUMN public.eval_results.faithfulness IS 'How well the sources support the answer (0-1); NULL when there were no sources';
+COMMENT ON COLUMN public.eval_results.correctness IS 'Agreement with the expected answer (0-1); NULL without one';
+COMMENT ON COLUMN public.eval_results.judge IS 'What scored the answer: llm:<model>, or lexical when the judge was unavailable';
+
+CREATE INDEX IF NOT EXISTS idx_eval_results_run
+  ON public.eval_results(eval_run_id);
+
+-- Owners manage their sets and cases; runs and results are written only by
+-- Edge Functions (service role)
+ALTER TABLE public.eval_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.eval_cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.eval_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.eval_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own eval sets"
+  ON public.eval_sets
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.custom_gpts
+      WHERE custom_gpts.id = eval_sets.custom_gpt_id
+      AND custom_gpts.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can manage cases in their eval sets"
+  ON public.eval_cases
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.eval_sets
+      WHERE eval_sets.id = eval_cases.eval_set_id
+      AND eval_sets.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.eval_sets
+      WHERE eval_sets.id = eval_cases.eval_set_id
+      AND eval_sets.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view their own eval runs"
+  ON public.eval_runs
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view results of their eval runs"
+  ON public.eval_results
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.eval_runs
+      WHERE eval_runs.id = eval_results.eval_run_id
+      AND eval_runs.user_id = auth.uid()
+    )
+  );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.eval_runs;
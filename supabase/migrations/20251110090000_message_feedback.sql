@@ -0,0 +1,229 @@
+-- Migration: Message feedback and answer analytics
+-- Date: 2025-11-10
+-- Description: Users rate assistant replies with a thumbs up or down and an
+-- optional comment. Each reply now also keeps how its sources were found
+-- (planned queries, scope, search settings), so a bad rating or an empty
+-- search can be traced to what retrieval did. The analytics functions read
+-- through RLS, so callers only see their own conversations.
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS retrieval JSONB,
+  ADD COLUMN IF NOT EXISTS feedback_rating SMALLINT,
+  ADD COLUMN IF NOT EXISTS feedback_comment TEXT,
+  ADD COLUMN IF NOT EXISTS feedback_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_feedback_rating_check
+    CHECK (feedback_rating IN (-1, 1)),
+  ADD CONSTRAINT messages_feedback_comment_check
+    CHECK (char_length(feedback_comment) <= 2000);
+
+COMMENT ON COLUMN public.messages.retrieval IS 'How the sources of this assistant reply were found: whether the knowledge base was searched, the queries, scope and search settings';
+COMMENT ON COLUMN public.messages.feedback_rating IS '1 for thumbs up, -1 for thumbs down, NULL when not rated';
+
+-- Function: Rate an assistant reply, or clear the rating with a NULL rating
+-- Browsers cannot update messages directly, and may only change these columns
+CREATE OR REPLACE FUNCTION public.set_message_feedback(
+  p_message_id UUID,
+  p_rating SMALLINT,
+  p_comment TEXT DEFAULT NULL
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_rating IS NOT NULL AND p_rating NOT IN (-1, 1) THEN
+    RAISE EXCEPTION 'Rating must be 1 or -1';
+  END IF;
+
+  UPDATE public.messages
+  SET
+    feedback_rating = p_rating,
+    feedback_comment = CASE WHEN p_rating IS NULL THEN NULL ELSE NULLIF(btrim(p_comment), '') END,
+    feedback_at = CASE WHEN p_rating IS NULL THEN NULL ELSE now() END
+  FROM public.conversations
+  WHERE messages.id = p_message_id
+    AND messages.role = 'assistant'
+    AND conversations.id = messages.conversation_id
+    AND conversations.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_message_feedback FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.set_message_feedback FROM anon;
+GRANT EXECUTE ON FUNCTION public.set_message_feedback TO authenticated;
+
+-- Function: A GPT's assistant replies since a point in time, each with the
+-- question it answered (the user message before it)
+CREATE OR REPLACE FUNCTION public.gpt_answers(
+  p_custom_gpt_id UUID,
+  p_since TIMESTAMP WITH TIME ZONE
+) RETURNS TABLE (
+  message_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  question TEXT,
+  answer TEXT,
+  source_files TEXT[],
+  searched BOOLEAN,
+  feedback_rating SMALLINT,
+  feedback_comment TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    reply.id,
+    reply.created_at,
+    prompt.content,
+    reply.content,
+    ARRAY(
+      SELECT DISTINCT source->>'fileName'
+      FROM jsonb_array_elements(COALESCE(reply.citations, '[]'::jsonb)) AS source
+    ),
+    -- Replies from before retrieval was recorded count as not searched
+    COALESCE((reply.retrieval->>'searched')::boolean, false),
+    reply.feedback_rating,
+    reply.feedback_comment
+  FROM public.messages AS reply
+  JOIN public.conversations ON conversations.id = reply.conversation_id
+  JOIN LATERAL (
+    SELECT messages.content
+    FROM public.messages
+    WHERE messages.conversation_id = reply.conversation_id
+      AND messages.role = 'user'
+      AND messages.created_at < reply.created_at
+    ORDER BY messages.created_at DESC
+    LIMIT 1
+  ) AS prompt ON true
+  WHERE conversations.custom_gpt_id = p_custom_gpt_id
+    AND reply.role = 'assistant'
+    AND reply.created_at >= p_since;
+$$;
+
+-- Function: Replies and ratings per day (UTC)
+CREATE OR REPLACE FUNCTION public.answer_feedback_daily(
+  p_custom_gpt_id UUID,
+  p_since TIMESTAMP WITH TIME ZONE
+) RETURNS TABLE (
+  day DATE,
+  answers BIGINT,
+  thumbs_up BIGINT,
+  thumbs_down BIGINT,
+  no_knowledge BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (created_at AT TIME ZONE 'UTC')::date AS day,
+    count(*),
+    count(*) FILTER (WHERE feedback_rating = 1),
+    count(*) FILTER (WHERE feedback_rating = -1),
+    count(*) FILTER (WHERE searched AND cardinality(source_files) = 0)
+  FROM public.gpt_answers(p_custom_gpt_id, p_since)
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+-- Function: Questions with the most thumbs down, grouped by their text, with
+-- the latest disliked reply and the files it drew on
+CREATE OR REPLACE FUNCTION public.worst_rated_questions(
+  p_custom_gpt_id UUID,
+  p_since TIMESTAMP WITH TIME ZONE,
+  p_limit INTEGER DEFAULT 20
+) RETURNS TABLE (
+  question TEXT,
+  thumbs_down BIGINT,
+  thumbs_up BIGINT,
+  comments TEXT[],
+  latest_message_id UUID,
+  latest_answer TEXT,
+  latest_source_files TEXT[],
+  last_asked TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH answers AS (
+    SELECT * FROM public.gpt_answers(p_custom_gpt_id, p_since)
+  ),
+  rated AS (
+    SELECT
+      (array_agg(answers.question ORDER BY answers.created_at DESC))[1] AS question,
+      count(*) FILTER (WHERE answers.feedback_rating = -1) AS thumbs_down,
+      count(*) FILTER (WHERE answers.feedback_rating = 1) AS thumbs_up,
+      array_remove(
+        array_agg(answers.feedback_comment ORDER BY answers.created_at DESC) FILTER (WHERE answers.feedback_rating = -1),
+        NULL
+      ) AS comments,
+      (array_agg(answers.message_id ORDER BY answers.created_at DESC) FILTER (WHERE answers.feedback_rating = -1))[1] AS latest_message_id,
+      max(answers.created_at) AS last_asked
+    FROM answers
+    GROUP BY lower(btrim(answers.question))
+    HAVING count(*) FILTER (WHERE answers.feedback_rating = -1) > 0
+  )
+  SELECT
+    rated.question,
+    rated.thumbs_down,
+    rated.thumbs_up,
+    rated.comments,
+    rated.latest_message_id,
+    answers.answer,
+    answers.source_files,
+    rated.last_asked
+  FROM rated
+  JOIN answers ON answers.message_id = rated.latest_message_id
+  ORDER BY rated.thumbs_down - rated.thumbs_up DESC, rated.thumbs_down DESC, rated.last_asked DESC
+  LIMIT p_limit;
+$$;
+
+-- Function: Questions whose knowledge search found nothing, most asked first
+CREATE OR REPLACE FUNCTION public.unanswered_questions(
+  p_custom_gpt_id UUID,
+  p_since TIMESTAMP WITH TIME ZONE,
+  p_limit INTEGER DEFAULT 20
+) RETURNS TABLE (
+  question TEXT,
+  times_asked BIGINT,
+  thumbs_down BIGINT,
+  last_asked TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (array_agg(question ORDER BY created_at DESC))[1],
+    count(*) AS times_asked,
+    count(*) FILTER (WHERE feedback_rating = -1),
+    max(created_at) AS last_asked
+  FROM public.gpt_answers(p_custom_gpt_id, p_since)
+  WHERE searched AND cardinality(source_files) = 0
+  GROUP BY lower(btrim(question))
+  ORDER BY times_asked DESC, last_asked DESC
+  LIMIT p_limit;
+$$;
+
+REVOKE ALL ON FUNCTION public.gpt_answers FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.gpt_answers FROM anon;
+GRANT EXECUTE ON FUNCTION public.gpt_answers TO authenticated;
+
+REVOKE ALL ON FUNCTION public.answer_feedback_daily FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.answer_feedback_daily FROM anon;
+GRANT EXECUTE ON FUNCTION public.answer_feedback_daily TO authenticated;
+
+REVOKE ALL ON FUNCTION public.worst_rated_questions FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.worst_rated_questions FROM anon;
+GRANT EXECUTE ON FUNCTION public.worst_rated_questions TO authenticated;
+
+REVOKE ALL ON FUNCTION public.unanswered_questions FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.unanswered_questions FROM anon;
+GRANT EXECUTE ON FUNCTION public.unanswered_questions TO authenticated;